@@ -1,8 +1,13 @@
 ﻿using System.CommandLine;
+using System.Diagnostics;
+using System.CommandLine.Invocation;
+using System.CommandLine.Parsing;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
-using TsCommentify.Cli.Services;
+using TsCommentify.Core;
+using TsCommentify.Core.Configuration;
+using TsCommentify.Core.Services;
 
 var rootCommand = new RootCommand("TsCommentify - Add missing comments to TypeScript functions");
 
@@ -10,67 +15,577 @@ var pathArgument = new Argument<string>(
     name: "path",
     description: "Path to a TypeScript file or directory containing TypeScript files");
 
+var checkOption = new Option<bool>(
+    name: "--check",
+    description: "Write nothing; print a diff of the comments that would be added and exit with code 1 if any function is undocumented");
+
+var dryRunOption = new Option<bool>(
+    name: "--dry-run",
+    description: "Write nothing; print a diff of the comments that would be added");
+
+var updateOption = new Option<bool>(
+    name: "--update",
+    description: "Also synchronize existing JSDoc @param and @returns tags with the current signatures, keeping their descriptions");
+
+var sinceOption = new Option<string?>(
+    name: "--since",
+    description: "Only process files changed since this git revision, and within them only declarations on changed lines");
+
+var stagedOption = new Option<bool>(
+    name: "--staged",
+    description: "Only process files with staged changes, and within them only declarations on changed lines");
+
+var parallelismOption = new Option<int?>(
+    name: "--parallelism",
+    description: "How many files are processed at the same time (default: the number of processors)");
+
+var backupOption = new Option<bool>(
+    name: "--backup",
+    description: "Keep the original of every rewritten file as <file>.orig");
+
+var styleOption = new Option<CommentStyle?>(
+    name: "--style",
+    description: "Comment dialect: jsdoc, tsdoc or closure (default: jsdoc)");
+
+var visibilityOption = new Option<Visibility?>(
+    name: "--visibility",
+    description: "Which declarations to document: all, public (no private or protected members) or exported (default: all)");
+
+var ignoreOption = new Option<string[]>(
+    name: "--ignore",
+    description: "Ignore pattern relative to the processed directory, replacing the configured IgnorePatterns; can be repeated");
+
+var verbosityOption = new Option<LogLevel?>(
+    name: "--verbosity",
+    description: "Minimum level of log messages: trace, debug, information, warning, error, critical or none (default: information)");
+
+var setOption = new Option<string[]>(
+    name: "--set",
+    description: "Override any setting, as Section:Key=value (for example FileProcessor:DocumentEveryOverload=true); can be repeated");
+
+var printConfigOption = new Option<bool>(
+    name: "--print-config",
+    description: "Print the configuration files and the effective settings for the path, then exit without processing it");
+
 rootCommand.AddArgument(pathArgument);
+rootCommand.AddOption(checkOption);
+rootCommand.AddOption(dryRunOption);
+rootCommand.AddOption(updateOption);
+rootCommand.AddOption(sinceOption);
+rootCommand.AddOption(stagedOption);
+rootCommand.AddOption(parallelismOption);
+rootCommand.AddOption(backupOption);
+rootCommand.AddOption(styleOption);
+rootCommand.AddOption(visibilityOption);
+rootCommand.AddOption(ignoreOption);
+rootCommand.AddOption(verbosityOption);
+rootCommand.AddOption(setOption);
+rootCommand.AddOption(printConfigOption);
+
+var reportCommand = new Command("report", "Measure documentation coverage without changing any file");
+
+var reportPathArgument = new Argument<string>(
+    name: "path",
+    description: "Path to a TypeScript file or directory containing TypeScript files");
+
+var formatOption = new Option<ReportFormat>(
+    name: "--format",
+    getDefaultValue: () => ReportFormat.Json,
+    description: "Report format: Json, Html, Markdown or Sarif");
+
+var outputOption = new Option<string?>(
+    name: "--output",
+    description: "Write the report to this file instead of standard output");
+
+var minCoverageOption = new Option<double?>(
+    name: "--min-coverage",
+    description: "Exit with code 1 when the percentage of documented functions is below this value");
+
+reportCommand.AddArgument(reportPathArgument);
+reportCommand.AddOption(formatOption);
+reportCommand.AddOption(outputOption);
+reportCommand.AddOption(minCoverageOption);
+reportCommand.AddOption(ignoreOption);
+reportCommand.AddOption(verbosityOption);
+reportCommand.AddOption(setOption);
+rootCommand.AddCommand(reportCommand);
+
+var watchCommand = new Command("watch", "Keep running and add missing comments to TypeScript files as they are saved");
+
+var watchPathArgument = new Argument<string>(
+    name: "path",
+    description: "Directory containing TypeScript files");
+
+var watchUpdateOption = new Option<bool>(
+    name: "--update",
+    description: "Also synchronize existing JSDoc @param and @returns tags with the current signatures, keeping their descriptions");
+
+watchCommand.AddArgument(watchPathArgument);
+watchCommand.AddOption(watchUpdateOption);
+watchCommand.AddOption(styleOption);
+watchCommand.AddOption(visibilityOption);
+watchCommand.AddOption(ignoreOption);
+watchCommand.AddOption(verbosityOption);
+watchCommand.AddOption(setOption);
+rootCommand.AddCommand(watchCommand);
+
+var lspCommand = new Command("lsp", "Run a Language Server Protocol server over standard input and output for editor integration");
+rootCommand.AddCommand(lspCommand);
+
+var initCommand = new Command("init", $"Write a starter {ProjectConfiguration.FileName} with the default settings");
+
+var initPathArgument = new Argument<string>(
+    name: "path",
+    getDefaultValue: () => ".",
+    description: $"Directory to write {ProjectConfiguration.FileName} to (default: the current directory)");
 
-rootCommand.SetHandler(async (string path) =>
+var forceOption = new Option<bool>(
+    name: "--force",
+    description: $"Overwrite an existing {ProjectConfiguration.FileName}");
+
+initCommand.AddArgument(initPathArgument);
+initCommand.AddOption(forceOption);
+rootCommand.AddCommand(initCommand);
+
+rootCommand.SetHandler(async (InvocationContext context) =>
 {
-    // Build configuration
-    var configuration = new ConfigurationBuilder()
-        .SetBasePath(Directory.GetCurrentDirectory())
-        .AddJsonFile("appsettings.json", optional: true)
-        .AddEnvironmentVariables()
-        .Build();
+    var path = context.ParseResult.GetValueForArgument(pathArgument);
+    var check = context.ParseResult.GetValueForOption(checkOption);
+    var dryRun = context.ParseResult.GetValueForOption(dryRunOption);
+    var update = context.ParseResult.GetValueForOption(updateOption);
+    var since = context.ParseResult.GetValueForOption(sinceOption);
+    var staged = context.ParseResult.GetValueForOption(stagedOption);
+    var parallelism = context.ParseResult.GetValueForOption(parallelismOption);
+    var backup = context.ParseResult.GetValueForOption(backupOption);
+    var style = context.ParseResult.GetValueForOption(styleOption);
 
-    // Setup dependency injection
-    var services = new ServiceCollection();
-    
-    // Add logging
-    services.AddLogging(builder =>
+    // Command-line flags take precedence over tscommentify.json files, appsettings.json and environment variables
+    var mode = check ? ProcessingMode.Check : dryRun ? ProcessingMode.DryRun : ProcessingMode.Write;
+    var overrides = GetSettingOverrides(context.ParseResult);
+    overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.Mode)}"] = mode.ToString();
+
+    if (update)
     {
-        builder.AddConsole();
-        builder.SetMinimumLevel(LogLevel.Information);
-    });
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.UpdateExisting)}"] = "true";
+    }
+
+    if (since != null)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.Since)}"] = since;
+    }
+
+    if (staged)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.Staged)}"] = "true";
+    }
 
-    // Register services
-    services.AddSingleton<ITypeScriptParser, TypeScriptParser>();
-    services.AddSingleton<ICommentGenerator, CommentGenerator>();
-    services.AddSingleton<IFileProcessor, FileProcessor>();
-    services.AddSingleton<IConfiguration>(configuration);
+    if (parallelism.HasValue)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.MaxDegreeOfParallelism)}"] = parallelism.Value.ToString();
+    }
 
-    // Build service provider
-    using var serviceProvider = services.BuildServiceProvider();
+    if (backup)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.Backup)}"] = "true";
+    }
+
+    if (style.HasValue)
+    {
+        overrides[$"{CommentTemplateOptions.SectionName}:{nameof(CommentTemplateOptions.Style)}"] = style.Value.ToString();
+    }
+
+    using var serviceProvider = BuildServiceProvider(path, overrides, logToStandardError: false);
     var logger = serviceProvider.GetRequiredService<ILogger<Program>>();
-    var fileProcessor = serviceProvider.GetRequiredService<IFileProcessor>();
+
+    if (context.ParseResult.GetValueForOption(printConfigOption))
+    {
+        PrintConfiguration(serviceProvider, path);
+        return;
+    }
 
     try
     {
+        // Resolved inside the try block so invalid comment templates are reported like any other error
+        var fileProcessor = serviceProvider.GetRequiredService<IFileProcessor>();
+
         logger.LogInformation("TsCommentify starting...");
         logger.LogInformation("Processing path: {Path}", path);
 
         // Resolve the path
         var fullPath = Path.GetFullPath(path);
+        var cancellationToken = context.GetCancellationToken();
+        var stopwatch = Stopwatch.StartNew();
+        IReadOnlyList<FileProcessingResult> results;
 
         if (Directory.Exists(fullPath))
         {
-            await fileProcessor.ProcessDirectoryAsync(fullPath);
+            // Ctrl+C stops starting new files; the files already processed are still reported
+            results = await fileProcessor.ProcessDirectoryAsync(fullPath, cancellationToken);
         }
         else if (File.Exists(fullPath))
         {
-            await fileProcessor.ProcessFileAsync(fullPath);
+            results = new[] { await fileProcessor.ProcessFileAsync(fullPath, cancellationToken) };
         }
         else
         {
             logger.LogError("Path not found: {Path}", fullPath);
             Environment.Exit(1);
+            return;
+        }
+
+        var pending = 0;
+        if (mode != ProcessingMode.Write)
+        {
+            pending = ReportPendingChanges(results);
+        }
+        else
+        {
+            ReportUpdatedComments(results, "Updated comments:");
+        }
+
+        // The summary is printed for every run, including the ones that fail below
+        var summary = ProcessingSummary.Create(results, stopwatch.Elapsed);
+        ReportSummary(summary, mode);
+
+        if (cancellationToken.IsCancellationRequested)
+        {
+            logger.LogWarning("TsCommentify was cancelled");
+            Environment.Exit(130);
+        }
+
+        if (mode == ProcessingMode.Check && pending > 0)
+        {
+            logger.LogError("Found {Count} undocumented declarations or stale comments", pending);
+            Environment.Exit(1);
+        }
+
+        if (summary.Failures.Any())
+        {
+            logger.LogError("{Count} files could not be processed", summary.Failures.Count);
+            Environment.Exit(1);
         }
 
         logger.LogInformation("TsCommentify completed successfully");
     }
+    catch (OperationCanceledException)
+    {
+        logger.LogWarning("TsCommentify was cancelled");
+        Environment.Exit(130);
+    }
     catch (Exception ex)
     {
         logger.LogError(ex, "An error occurred while processing");
         Environment.Exit(1);
     }
-}, pathArgument);
+});
+
+reportCommand.SetHandler(async (InvocationContext context) =>
+{
+    var path = context.ParseResult.GetValueForArgument(reportPathArgument);
+    var format = context.ParseResult.GetValueForOption(formatOption);
+    var output = context.ParseResult.GetValueForOption(outputOption);
+    var minCoverage = context.ParseResult.GetValueForOption(minCoverageOption);
+
+    // Logs go to standard error so the report can be piped
+    using var serviceProvider = BuildServiceProvider(path, GetSettingOverrides(context.ParseResult), logToStandardError: true);
+    var logger = serviceProvider.GetRequiredService<ILogger<Program>>();
+
+    try
+    {
+        var fullPath = Path.GetFullPath(path);
+        if (!Directory.Exists(fullPath) && !File.Exists(fullPath))
+        {
+            logger.LogError("Path not found: {Path}", fullPath);
+            Environment.Exit(1);
+            return;
+        }
+
+        var report = serviceProvider.GetRequiredService<ICoverageAnalyzer>().Analyze(fullPath);
+        var text = serviceProvider.GetRequiredService<ICoverageReportFormatter>().Format(report, format);
+
+        if (output != null)
+        {
+            await File.WriteAllTextAsync(output, text);
+            logger.LogInformation("Wrote {Format} report to {Output}", format, output);
+        }
+        else
+        {
+            Console.Write(text);
+        }
+
+        logger.LogInformation("Documentation coverage: {Coverage}% ({Documented} of {Total} functions)",
+            report.Coverage, report.Documented, report.Total);
+
+        if (minCoverage.HasValue && report.Coverage < minCoverage.Value)
+        {
+            logger.LogError("Documentation coverage {Coverage}% is below the minimum of {MinCoverage}%", report.Coverage, minCoverage.Value);
+            Environment.Exit(1);
+        }
+
+        if (report.Failures.Any())
+        {
+            logger.LogError("{Count} files could not be read", report.Failures.Count);
+            Environment.Exit(1);
+        }
+    }
+    catch (Exception ex)
+    {
+        logger.LogError(ex, "An error occurred while creating the report");
+        Environment.Exit(1);
+    }
+});
+
+watchCommand.SetHandler(async (InvocationContext context) =>
+{
+    var path = context.ParseResult.GetValueForArgument(watchPathArgument);
+    var overrides = GetSettingOverrides(context.ParseResult);
+
+    if (context.ParseResult.GetValueForOption(watchUpdateOption))
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.UpdateExisting)}"] = "true";
+    }
+
+    var watchStyle = context.ParseResult.GetValueForOption(styleOption);
+    if (watchStyle.HasValue)
+    {
+        overrides[$"{CommentTemplateOptions.SectionName}:{nameof(CommentTemplateOptions.Style)}"] = watchStyle.Value.ToString();
+    }
+
+    using var serviceProvider = BuildServiceProvider(path, overrides, logToStandardError: false);
+    var logger = serviceProvider.GetRequiredService<ILogger<Program>>();
+
+    try
+    {
+        var fullPath = Path.GetFullPath(path);
+        if (!Directory.Exists(fullPath))
+        {
+            logger.LogError("Directory not found: {Path}", fullPath);
+            Environment.Exit(1);
+            return;
+        }
+
+        // Ctrl+C cancels the token and ends the watch
+        await serviceProvider.GetRequiredService<IWatchService>().WatchAsync(fullPath, context.GetCancellationToken());
+    }
+    catch (Exception ex)
+    {
+        logger.LogError(ex, "An error occurred while watching");
+        Environment.Exit(1);
+    }
+});
+
+lspCommand.SetHandler(async (InvocationContext context) =>
+{
+    // Standard output carries the protocol, so logs go to standard error; editors start the server in the workspace folder
+    using var serviceProvider = BuildServiceProvider(Directory.GetCurrentDirectory(), new Dictionary<string, string?>(), logToStandardError: true);
+    var logger = serviceProvider.GetRequiredService<ILogger<Program>>();
+
+    try
+    {
+        var server = serviceProvider.GetRequiredService<ILanguageServer>();
+        var exitCode = await server.RunAsync(Console.OpenStandardInput(), Console.OpenStandardOutput(), context.GetCancellationToken());
+        Environment.Exit(exitCode);
+    }
+    catch (OperationCanceledException)
+    {
+        Environment.Exit(130);
+    }
+    catch (Exception ex)
+    {
+        logger.LogError(ex, "An error occurred in the language server");
+        Environment.Exit(1);
+    }
+});
+
+initCommand.SetHandler(async (string path, bool force) =>
+{
+    var directory = Path.GetFullPath(path);
+    var filePath = Path.Combine(directory, ProjectConfiguration.FileName);
+
+    if (!Directory.Exists(directory))
+    {
+        Console.Error.WriteLine($"Directory not found: {directory}");
+        Environment.Exit(1);
+        return;
+    }
+
+    if (File.Exists(filePath) && !force)
+    {
+        Console.Error.WriteLine($"{filePath} already exists; use --force to overwrite it");
+        Environment.Exit(1);
+        return;
+    }
+
+    await File.WriteAllTextAsync(filePath, ProjectConfiguration.CreateStarterFile(directory));
+    Console.WriteLine($"Created {filePath}");
+}, initPathArgument, forceOption);
 
 return await rootCommand.InvokeAsync(args);
+
+// The settings of the flags shared by the commands that read files; the dedicated flags override --set
+Dictionary<string, string?> GetSettingOverrides(ParseResult parseResult)
+{
+    var overrides = new Dictionary<string, string?>(StringComparer.OrdinalIgnoreCase);
+
+    foreach (var setting in parseResult.GetValueForOption(setOption) ?? Array.Empty<string>())
+    {
+        var separator = setting.IndexOf('=');
+        if (separator <= 0)
+        {
+            Console.Error.WriteLine($"Invalid --set value '{setting}': expected Section:Key=value");
+            Environment.Exit(1);
+        }
+
+        overrides[setting.Substring(0, separator).Trim()] = setting.Substring(separator + 1);
+    }
+
+    var ignorePatterns = parseResult.GetValueForOption(ignoreOption) ?? Array.Empty<string>();
+    for (int i = 0; i < ignorePatterns.Length; i++)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.IgnorePatterns)}:{i}"] = ignorePatterns[i];
+    }
+
+    var visibility = parseResult.GetValueForOption(visibilityOption);
+    if (visibility.HasValue)
+    {
+        overrides[$"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.Visibility)}"] = visibility.Value.ToString();
+    }
+
+    var verbosity = parseResult.GetValueForOption(verbosityOption);
+    if (verbosity.HasValue)
+    {
+        overrides["Logging:LogLevel:Default"] = verbosity.Value.ToString();
+    }
+
+    return overrides;
+}
+
+// Builds the configuration and services for one command; logs go to standard error when standard output carries the result
+static ServiceProvider BuildServiceProvider(string path, Dictionary<string, string?> overrides, bool logToStandardError)
+{
+    // appsettings.json in the current directory and environment variables are the base, the
+    // tscommentify.json files of the path merge over them and the command-line flags over those
+    var baseConfiguration = new ConfigurationBuilder()
+        .SetBasePath(Directory.GetCurrentDirectory())
+        .AddJsonFile("appsettings.json", optional: true)
+        .AddEnvironmentVariables()
+        .Build();
+
+    var project = new ProjectConfiguration(baseConfiguration, overrides);
+    var configuration = project.GetConfiguration(path);
+
+    // Setup dependency injection
+    var services = new ServiceCollection();
+
+    // Add logging
+    services.AddLogging(builder =>
+    {
+        builder.AddConfiguration(configuration.GetSection("Logging"));
+        builder.AddConsole(options =>
+        {
+            if (logToStandardError)
+                options.LogToStandardErrorThreshold = LogLevel.Trace;
+        });
+        builder.SetMinimumLevel(LogLevel.Information);
+    });
+
+    // Register services; the file processor applies the tscommentify.json files of each file
+    services.AddSingleton(project);
+    services.AddTsCommentify(configuration);
+
+    // Build service provider
+    return services.BuildServiceProvider();
+}
+
+// Prints the tscommentify.json files that apply to the path, with their ignore patterns, and the effective settings
+static void PrintConfiguration(ServiceProvider serviceProvider, string path)
+{
+    var project = serviceProvider.GetRequiredService<ProjectConfiguration>();
+    var files = project.FindFiles(path);
+
+    Console.WriteLine(files.Count == 0 ? "// Configuration files: none" : "// Configuration files:");
+    foreach (var file in files)
+    {
+        var ignorePatterns = project.GetIgnorePatterns(Path.GetDirectoryName(file)!);
+        Console.WriteLine(ignorePatterns.Count == 0
+            ? $"//   {file}"
+            : $"//   {file} (IgnorePatterns: {string.Join(", ", ignorePatterns)})");
+    }
+
+    Console.Write(ProjectConfiguration.FormatSettings(serviceProvider.GetRequiredService<IConfiguration>(), project.HasIgnorePatterns(path)));
+}
+
+// Prints the diff for every file that would change, followed by the lists of undocumented declarations and stale comments
+static int ReportPendingChanges(IReadOnlyList<FileProcessingResult> results)
+{
+    foreach (var result in results.Where(r => !string.IsNullOrEmpty(r.Diff)))
+    {
+        Console.Write(result.Diff);
+    }
+
+    var undocumented = results
+        .SelectMany(r => r.UndocumentedDeclarations.Select(d => (r.FilePath, Declaration: d)))
+        .ToList();
+
+    if (undocumented.Any())
+    {
+        Console.WriteLine();
+        Console.WriteLine("Undocumented declarations:");
+        foreach (var (filePath, declaration) in undocumented)
+        {
+            Console.WriteLine($"  {filePath}:{declaration.LineNumber} {declaration.Name}");
+        }
+    }
+
+    var stale = ReportUpdatedComments(results, "Stale comments:");
+    return undocumented.Count + stale;
+}
+
+// Prints the functions whose existing comment was (or would be) synchronized with their signature
+static int ReportUpdatedComments(IReadOnlyList<FileProcessingResult> results, string heading)
+{
+    var updated = results
+        .SelectMany(r => r.UpdatedDeclarations.Select(d => (r.FilePath, Declaration: d)))
+        .ToList();
+
+    if (updated.Any())
+    {
+        Console.WriteLine();
+        Console.WriteLine(heading);
+        foreach (var (filePath, declaration) in updated)
+        {
+            Console.WriteLine($"  {filePath}:{declaration.LineNumber} {declaration.Name}");
+        }
+    }
+
+    return updated.Count;
+}
+
+// Prints the totals of a run; with --check and --dry-run the counts are of the changes that would be made
+static void ReportSummary(ProcessingSummary summary, ProcessingMode mode)
+{
+    var pending = mode != ProcessingMode.Write;
+    var rows = new (string Label, object Value)[]
+    {
+        ("Files scanned", summary.FilesScanned),
+        ("Files skipped", summary.FilesSkipped),
+        (pending ? "Files to modify" : "Files modified", summary.FilesModified),
+        (pending ? "Comments to add" : "Comments added", summary.CommentsAdded),
+        (pending ? "Comments to update" : "Comments updated", summary.CommentsUpdated),
+        ("Errors", summary.Failures.Count)
+    };
+
+    Console.WriteLine();
+    Console.WriteLine("Summary:");
+    foreach (var (label, value) in rows)
+    {
+        Console.WriteLine($"  {label + ":",-20}{value}");
+    }
+
+    foreach (var failure in summary.Failures)
+    {
+        Console.WriteLine($"    {failure.FilePath}: {failure.Error}");
+    }
+
+    Console.WriteLine($"  {"Elapsed:",-20}{summary.Elapsed.TotalSeconds:F2}s");
+}
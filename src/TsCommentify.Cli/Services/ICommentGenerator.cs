@@ -1,6 +0,0 @@
-namespace TsCommentify.Cli.Services;
-
-public interface ICommentGenerator
-{
-    string GenerateComment(FunctionInfo function);
-}
@@ -0,0 +1,20 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum CommentStyle
+{
+    /// <summary>
+    /// JSDoc with braced TypeScript types: <c>@param {string} [name='x'] - ...</c>, <c>@returns {number} ...</c>.
+    /// </summary>
+    JsDoc,
+
+    /// <summary>
+    /// TSDoc as read by API Extractor: no types, <c>@param name - ...</c>, <c>@typeParam</c>, <c>@remarks</c>
+    /// and <c>@returns ...</c>.
+    /// </summary>
+    TsDoc,
+
+    /// <summary>
+    /// Closure Compiler annotations: <c>@param {?string=} name - ...</c>, <c>@return {!Array&lt;number&gt;} ...</c>.
+    /// </summary>
+    Closure
+}
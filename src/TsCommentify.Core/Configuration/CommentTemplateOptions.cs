@@ -0,0 +1,51 @@
+namespace TsCommentify.Core.Configuration;
+
+public class CommentTemplateOptions
+{
+    public const string SectionName = "CommentTemplates";
+
+    /// <summary>
+    /// Optional path to a JSON file with the same shape as this section, relative to the current directory.
+    /// Templates and variables configured directly in this section take precedence over the file.
+    /// </summary>
+    public string? TemplateFile { get; set; }
+
+    /// <summary>
+    /// The documentation dialect of the built-in templates and of the types and parameter names they are given.
+    /// Defaults to <see cref="CommentStyle.JsDoc"/>.
+    /// </summary>
+    public CommentStyle Style { get; set; } = CommentStyle.JsDoc;
+
+    /// <summary>
+    /// Template for functions and methods, one entry per line. Uses the built-in layout when empty.
+    /// </summary>
+    public List<string> Function { get; set; } = new();
+
+    public List<string> Class { get; set; } = new();
+
+    public List<string> Interface { get; set; } = new();
+
+    public List<string> TypeAlias { get; set; } = new();
+
+    public List<string> Enum { get; set; } = new();
+
+    public List<string> Property { get; set; } = new();
+
+    public List<string> EnumMember { get; set; } = new();
+
+    /// <summary>
+    /// Adds an <c>@example</c> to function comments that shows a call with the parameter names as placeholder arguments.
+    /// </summary>
+    public bool IncludeExamples { get; set; }
+
+    /// <summary>
+    /// What is written for a parameter or return type that is neither annotated nor inferred.
+    /// Defaults to <see cref="UnknownTypePolicy.Omit"/>.
+    /// </summary>
+    public UnknownTypePolicy UnknownTypes { get; set; } = UnknownTypePolicy.Omit;
+
+    /// <summary>
+    /// Additional values available to every template, such as <c>{{author}}</c> or <c>{{since}}</c>.
+    /// </summary>
+    public Dictionary<string, string> Variables { get; set; } = new();
+}
@@ -0,0 +1,14 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum DescriptionProviderKind
+{
+    /// <summary>
+    /// Describe declarations from their names and types.
+    /// </summary>
+    Heuristic,
+
+    /// <summary>
+    /// Ask an OpenAI-compatible chat completions endpoint, falling back to <see cref="Heuristic"/>.
+    /// </summary>
+    OpenAI
+}
@@ -0,0 +1,22 @@
+namespace TsCommentify.Core.Configuration;
+
+public class DescriptionProviderOptions
+{
+    public const string SectionName = "DescriptionProvider";
+
+    public DescriptionProviderKind Provider { get; set; } = DescriptionProviderKind.Heuristic;
+
+    public OpenAICompatibleOptions OpenAI { get; set; } = new();
+
+    /// <summary>
+    /// Summary templates by the verb a function name starts with, such as <c>"sync": "Synchronizes {object}."</c>.
+    /// They add to or replace the built-in verbs and take precedence over <see cref="RuleFiles"/>.
+    /// </summary>
+    public Dictionary<string, string> Verbs { get; set; } = new();
+
+    /// <summary>
+    /// Paths to JSON files with a <c>Verbs</c> object of the same shape, relative to the current directory.
+    /// Later files take precedence over earlier ones.
+    /// </summary>
+    public List<string> RuleFiles { get; set; } = new();
+}
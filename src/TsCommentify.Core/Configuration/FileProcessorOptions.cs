@@ -0,0 +1,103 @@
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Core.Configuration;
+
+public class FileProcessorOptions
+{
+    public const string SectionName = "FileProcessor";
+
+    /// <summary>
+    /// List of file patterns to ignore during processing, with <c>.gitignore</c> syntax, relative to the
+    /// processed directory: *.spec.ts, **/generated/**, apps/*/e2e/** or !keep.spec.ts. In a
+    /// <c>tscommentify.json</c> file they are relative to the directory of that file instead.
+    /// Defaults to ["*.spec.*", "*.test.*"] where no patterns are configured, in the base configuration or
+    /// any <c>tscommentify.json</c> that applies; unlike configured patterns, the defaults apply before
+    /// ignore files, which can re-include their matches with <c>!</c>.
+    /// </summary>
+    public List<string> IgnorePatterns { get; set; } = new();
+
+    /// <summary>
+    /// Patterns excluded before any ignore file or <see cref="IgnorePatterns"/> is applied, so those can
+    /// re-include paths with <c>!</c>. Defaults to ["node_modules/", "dist/", "*.d.ts", "*.d.mts", "*.d.cts"]
+    /// if not configured.
+    /// </summary>
+    public List<string> DefaultExcludes { get; set; } = new();
+
+    /// <summary>
+    /// The extensions of the files a directory run processes, with or without the dot. Defaults to
+    /// [".ts", ".tsx", ".mts", ".cts"] if not configured; add ".js", ".jsx", ".mjs", ".cjs" or ".vue" to
+    /// process JavaScript files and Vue components.
+    /// </summary>
+    public List<string> Extensions { get; set; } = new();
+
+    /// <summary>
+    /// Whether the <c>.gitignore</c> files found while walking the directory are applied, next to
+    /// <c>.tscommentifyignore</c> files. Defaults to true.
+    /// </summary>
+    public bool RespectGitIgnore { get; set; } = true;
+
+    /// <summary>
+    /// Whether files are rewritten or only compared against the commented output.
+    /// Defaults to <see cref="ProcessingMode.Write"/>.
+    /// </summary>
+    public ProcessingMode Mode { get; set; } = ProcessingMode.Write;
+
+    /// <summary>
+    /// Whether every signature of an overloaded function gets its own comment. By default only the first
+    /// signature is documented; the implementation signature never is.
+    /// </summary>
+    public bool DocumentEveryOverload { get; set; }
+
+    /// <summary>
+    /// Which declarations are documented. Defaults to <see cref="Configuration.Visibility.All"/>.
+    /// </summary>
+    public Visibility Visibility { get; set; } = Visibility.All;
+
+    /// <summary>
+    /// Whether existing JSDoc blocks are synchronized with the current function signature:
+    /// missing @param tags are added, tags for removed parameters are dropped and changed
+    /// types are fixed, keeping the existing descriptions.
+    /// </summary>
+    public bool UpdateExisting { get; set; }
+
+    /// <summary>
+    /// Git revision to compare against. When set, only files changed since the revision (including
+    /// untracked files) are processed, and within them only declarations on changed lines.
+    /// </summary>
+    public string? Since { get; set; }
+
+    /// <summary>
+    /// Like <see cref="Since"/>, but limited to files with staged changes, for pre-commit hooks.
+    /// </summary>
+    public bool Staged { get; set; }
+
+    /// <summary>
+    /// How many files of a directory are processed at the same time.
+    /// Defaults to the number of processors.
+    /// </summary>
+    public int MaxDegreeOfParallelism { get; set; } = Environment.ProcessorCount;
+
+    /// <summary>
+    /// Whether the original of every rewritten file is kept next to it as <c>&lt;file&gt;.orig</c>.
+    /// </summary>
+    public bool Backup { get; set; }
+
+    /// <summary>
+    /// Fills the lists that are not configured with their defaults. The default ignore patterns are added
+    /// to <see cref="DefaultExcludes"/>, so ignore files and <c>tscommentify.json</c> files can negate them,
+    /// unless <paramref name="ignorePatternsConfigured"/> tells that a <c>tscommentify.json</c> sets some.
+    /// </summary>
+    public FileProcessorOptions ApplyDefaults(bool ignorePatternsConfigured = false)
+    {
+        if (DefaultExcludes.Count == 0)
+            DefaultExcludes.AddRange(new[] { "node_modules/", "dist/", "*.d.ts", "*.d.mts", "*.d.cts" });
+
+        if (IgnorePatterns.Count == 0 && !ignorePatternsConfigured)
+            DefaultExcludes.AddRange(new[] { "*.spec.*", "*.test.*" });
+
+        if (Extensions.Count == 0)
+            Extensions.AddRange(SourceLanguages.DefaultExtensions);
+
+        return this;
+    }
+}
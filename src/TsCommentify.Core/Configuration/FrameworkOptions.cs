@@ -0,0 +1,17 @@
+namespace TsCommentify.Core.Configuration;
+
+public class FrameworkOptions
+{
+    public const string SectionName = "Frameworks";
+
+    /// <summary>
+    /// Describes lifecycle hooks, <c>@Input</c>/<c>@Output</c> properties, decorated classes and
+    /// constructor-injected services the way an Angular developer would.
+    /// </summary>
+    public bool Angular { get; set; }
+
+    /// <summary>
+    /// Describes function components, their props types and custom <c>use*</c> hooks.
+    /// </summary>
+    public bool React { get; set; }
+}
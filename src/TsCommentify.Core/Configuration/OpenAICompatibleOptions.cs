@@ -0,0 +1,32 @@
+namespace TsCommentify.Core.Configuration;
+
+public class OpenAICompatibleOptions
+{
+    /// <summary>
+    /// Base URL of the API, without <c>/chat/completions</c>. Defaults to a local llama.cpp server.
+    /// </summary>
+    public string Endpoint { get; set; } = "http://localhost:8080/v1";
+
+    public string Model { get; set; } = "local-model";
+
+    /// <summary>
+    /// Sent as a bearer token when set. Self-hosted servers usually don't need one.
+    /// </summary>
+    public string? ApiKey { get; set; }
+
+    public int TimeoutSeconds { get; set; } = 30;
+
+    /// <summary>
+    /// Retries after a timeout, a connection failure or a 429/5xx response, with exponential backoff.
+    /// </summary>
+    public int MaxRetries { get; set; } = 2;
+
+    public int RetryDelayMilliseconds { get; set; } = 500;
+
+    public int MaxConcurrentRequests { get; set; } = 2;
+
+    /// <summary>
+    /// Directory for cached responses, relative to the current directory. Caching is disabled when empty.
+    /// </summary>
+    public string? CacheDirectory { get; set; } = ".tscommentify/cache";
+}
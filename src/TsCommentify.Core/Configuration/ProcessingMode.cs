@@ -0,0 +1,19 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum ProcessingMode
+{
+    /// <summary>
+    /// Insert missing comments and write the files in place.
+    /// </summary>
+    Write,
+
+    /// <summary>
+    /// Compute the changes and report them as a diff without writing anything.
+    /// </summary>
+    DryRun,
+
+    /// <summary>
+    /// Same as <see cref="DryRun"/>, but undocumented functions are treated as a failure.
+    /// </summary>
+    Check
+}
@@ -0,0 +1,24 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum ReportFormat
+{
+    /// <summary>
+    /// Machine-readable totals per file and directory, with the undocumented functions.
+    /// </summary>
+    Json,
+
+    /// <summary>
+    /// A standalone page with inline styles.
+    /// </summary>
+    Html,
+
+    /// <summary>
+    /// A summary sized for a pull request comment.
+    /// </summary>
+    Markdown,
+
+    /// <summary>
+    /// SARIF 2.1.0, one result per undocumented function, for code scanning annotations.
+    /// </summary>
+    Sarif
+}
@@ -0,0 +1,19 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum UnknownTypePolicy
+{
+    /// <summary>
+    /// Leave the type out: <c>@param name</c>, and no <c>@returns</c> tag.
+    /// </summary>
+    Omit,
+
+    /// <summary>
+    /// Write the JSDoc any type: <c>@param {*} name</c>, <c>@returns {*}</c>.
+    /// </summary>
+    Star,
+
+    /// <summary>
+    /// Write TypeScript's safe top type: <c>@param {unknown} name</c>, <c>@returns {unknown}</c>.
+    /// </summary>
+    Unknown
+}
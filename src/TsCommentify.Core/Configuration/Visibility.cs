@@ -0,0 +1,20 @@
+namespace TsCommentify.Core.Configuration;
+
+public enum Visibility
+{
+    /// <summary>
+    /// Document every declaration, including private members and functions that are local to a module.
+    /// </summary>
+    All,
+
+    /// <summary>
+    /// Skip <c>private</c> and <c>protected</c> class members and members with <c>#private</c> names.
+    /// </summary>
+    Public,
+
+    /// <summary>
+    /// Only document the API of the module: exported declarations and the public members of exported
+    /// classes, interfaces, type aliases and enums.
+    /// </summary>
+    Exported
+}
@@ -0,0 +1,12 @@
+namespace TsCommentify.Core.Configuration;
+
+public class WatchOptions
+{
+    public const string SectionName = "Watch";
+
+    /// <summary>
+    /// How long a file must go without further changes before it is processed, so an editor
+    /// saving in several steps or a formatter running on save triggers a single run.
+    /// </summary>
+    public int DebounceMilliseconds { get; set; } = 300;
+}
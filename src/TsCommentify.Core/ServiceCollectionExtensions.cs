@@ -0,0 +1,48 @@
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using TsCommentify.Core.Configuration;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Core;
+
+public static class ServiceCollectionExtensions
+{
+    /// <summary>
+    /// Registers the TsCommentify services, configured from the sections of <paramref name="configuration"/>
+    /// described in the README. Resolve <see cref="ICommentifier"/> to work on source text, or
+    /// <see cref="IFileProcessor"/> to process files like the command line does.
+    /// </summary>
+    public static IServiceCollection AddTsCommentify(this IServiceCollection services, IConfiguration configuration)
+    {
+        services.AddLogging();
+        services.AddSingleton(configuration);
+        services.AddSingleton<ITypeScriptParser, TypeScriptParser>();
+        services.AddSingleton<HeuristicDescriptionProvider>();
+        services.AddSingleton<IDescriptionProvider>(sp =>
+        {
+            var descriptionOptions = configuration.GetSection(DescriptionProviderOptions.SectionName).Get<DescriptionProviderOptions>()
+                ?? new DescriptionProviderOptions();
+
+            IDescriptionProvider provider = descriptionOptions.Provider == DescriptionProviderKind.OpenAI
+                ? ActivatorUtilities.CreateInstance<OpenAIDescriptionProvider>(sp)
+                : sp.GetRequiredService<HeuristicDescriptionProvider>();
+
+            var frameworkOptions = configuration.GetSection(FrameworkOptions.SectionName).Get<FrameworkOptions>()
+                ?? new FrameworkOptions();
+
+            return frameworkOptions.Angular || frameworkOptions.React
+                ? ActivatorUtilities.CreateInstance<FrameworkDescriptionProvider>(sp, provider)
+                : provider;
+        });
+        services.AddSingleton<ICommentGenerator, CommentGenerator>();
+        services.AddSingleton<ICommentifier, Commentifier>();
+        services.AddSingleton<IGitChangeProvider, GitChangeProvider>();
+        services.AddSingleton<IFileProcessor, FileProcessor>();
+        services.AddSingleton<IWatchService, WatchService>();
+        services.AddSingleton<ILanguageServer, LanguageServer>();
+        services.AddSingleton<ICoverageAnalyzer, CoverageAnalyzer>();
+        services.AddSingleton<ICoverageReportFormatter, CoverageReportFormatter>();
+
+        return services;
+    }
+}
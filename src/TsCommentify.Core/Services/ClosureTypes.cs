@@ -0,0 +1,270 @@
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Translates TypeScript types to the type expressions of the Closure Compiler: named object types are
+/// non-nullable (<c>!User</c>), <c>T | null</c> is <c>?T</c>, <c>T[]</c> is <c>!Array&lt;T&gt;</c>, function types are
+/// <c>function(string): number</c> and object literal types are records. Types Closure can't express,
+/// such as conditional, mapped and intersection types, become the unknown type <c>?</c> or <c>!Object</c>.
+/// </summary>
+public static class ClosureTypes
+{
+    private static readonly Regex NamedType = new(@"^([\w$.]+)(?:<(.+)>)?$", RegexOptions.Singleline);
+
+    private static readonly Regex NumberLiteral = new(@"^-?(\d[\d_]*(\.\d+)?([eE][+-]?\d+)?|0[xXoObB][\da-fA-F_]+)$");
+
+    private static readonly Regex RecordMember = new(@"^(?:readonly\s+)?([\w$]+|'[^']*'|""[^""]*"")(\?)?\s*:\s*(.+)$", RegexOptions.Singleline);
+
+    private static readonly Dictionary<string, string> Keywords = new()
+    {
+        ["any"] = "*",
+        ["unknown"] = "?",
+        ["never"] = "?",
+        ["*"] = "*",
+        ["?"] = "?",
+        ["void"] = "void",
+        ["undefined"] = "undefined",
+        ["null"] = "null",
+        ["string"] = "string",
+        ["number"] = "number",
+        ["boolean"] = "boolean",
+        ["symbol"] = "symbol",
+        ["bigint"] = "bigint",
+        ["true"] = "boolean",
+        ["false"] = "boolean",
+        ["object"] = "!Object",
+        ["Object"] = "!Object",
+        ["Function"] = "!Function",
+        ["this"] = "?"
+    };
+
+    /// <summary>
+    /// Formats a TypeScript type. Names in <paramref name="typeParameters"/> stay as they are instead of
+    /// being marked non-nullable.
+    /// </summary>
+    public static string Format(string type, IReadOnlyCollection<string> typeParameters)
+    {
+        type = type.Trim();
+        if (type.StartsWith('|') || type.StartsWith('&'))
+            type = type.Substring(1).Trim();
+
+        if (type.Length == 0)
+            return "?";
+
+        if (Keywords.TryGetValue(type, out var keyword))
+            return keyword;
+
+        var union = DescriptionRules.SplitTopLevel(type, '|');
+        if (union.Count > 1)
+            return FormatUnion(union.Select(t => Format(t, typeParameters)).ToList());
+
+        if (IndexOfTopLevel(type, "=>") > 0)
+            return type.StartsWith('(') ? FormatFunction(type, typeParameters) : "!Function";
+
+        if (DescriptionRules.SplitTopLevel(type, '&').Count > 1 || IndexOfTopLevel(type, "?") >= 0)
+            return type.Contains(" extends ") ? "?" : "!Object";
+
+        if (type.StartsWith("readonly "))
+            return Format(type.Substring("readonly ".Length), typeParameters);
+
+        if (type.StartsWith("keyof "))
+            return "string";
+
+        if (type.StartsWith("typeof ") || type.StartsWith("infer "))
+            return "?";
+
+        if (type.EndsWith("[]"))
+            return $"!Array<{Format(type.Substring(0, type.Length - 2), typeParameters)}>";
+
+        if (type.StartsWith('(') && FindClosing(type, 0) == type.Length - 1)
+            return Format(type.Substring(1, type.Length - 2), typeParameters);
+
+        if (type.StartsWith('{') && FindClosing(type, 0) == type.Length - 1)
+            return FormatRecord(type.Substring(1, type.Length - 2), typeParameters);
+
+        // Tuples have no Closure type, indexed access types are only known to TypeScript
+        if (type.StartsWith('[') && FindClosing(type, 0) == type.Length - 1)
+            return "!Array";
+
+        if (type.EndsWith(']'))
+            return "?";
+
+        if (type[0] is '\'' or '"' or '`')
+            return "string";
+
+        if (NumberLiteral.IsMatch(type))
+            return "number";
+
+        return FormatNamedType(type, typeParameters);
+    }
+
+    /// <summary>
+    /// Formats the type of an optional parameter, which Closure marks with a trailing <c>=</c>.
+    /// </summary>
+    public static string FormatOptional(string type, IReadOnlyCollection<string> typeParameters)
+    {
+        var formatted = Format(type, typeParameters);
+        return formatted.StartsWith("function(") ? $"({formatted})=" : formatted + "=";
+    }
+
+    private static string FormatNamedType(string type, IReadOnlyCollection<string> typeParameters)
+    {
+        var match = NamedType.Match(type);
+        if (!match.Success)
+            return "?";
+
+        var name = match.Groups[1].Value;
+        if (typeParameters.Contains(name))
+            return name;
+
+        var arguments = match.Groups[2].Success
+            ? DescriptionRules.SplitTopLevel(match.Groups[2].Value, ',').Select(t => Format(t, typeParameters)).ToList()
+            : new List<string>();
+
+        switch (name)
+        {
+            case "Array" or "ReadonlyArray" when arguments.Count == 1:
+                return $"!Array<{arguments[0]}>";
+            case "Record" when arguments.Count == 2:
+                return $"!Object<{arguments[0]}, {arguments[1]}>";
+            case "Partial" or "Required" or "Readonly" when arguments.Count == 1:
+                return arguments[0];
+            case "NonNullable" when arguments.Count == 1:
+                return arguments[0].Length > 1 ? arguments[0].TrimStart('?') : arguments[0];
+            case "Pick" or "Omit":
+                return "!Object";
+        }
+
+        return arguments.Count == 0 ? $"!{name}" : $"!{name}<{string.Join(", ", arguments)}>";
+    }
+
+    /// <summary>
+    /// Combines formatted union members: <c>string | null</c> is <c>?string</c>, other unions are parenthesized.
+    /// </summary>
+    private static string FormatUnion(List<string> members)
+    {
+        members = members.Distinct().ToList();
+        if (members.Contains("*") || members.Contains("?"))
+            return members.Contains("*") ? "*" : "?";
+
+        var nullable = members.Remove("null");
+        if (members.Count == 1)
+            return nullable ? "?" + members[0].TrimStart('!') : members[0];
+
+        if (nullable)
+            members.Add("null");
+
+        return $"({string.Join("|", members)})";
+    }
+
+    private static string FormatFunction(string type, IReadOnlyCollection<string> typeParameters)
+    {
+        var close = FindClosing(type, 0);
+        var parameters = new List<string>();
+
+        foreach (var parameter in DescriptionRules.SplitTopLevel(type.Substring(1, close - 1), ','))
+        {
+            var colon = IndexOfTopLevel(parameter, ":");
+            var name = colon < 0 ? parameter : parameter.Substring(0, colon).Trim();
+            var parameterType = colon < 0 ? "any" : parameter.Substring(colon + 1);
+
+            if (name == "this")
+                parameters.Add("this:" + Format(parameterType, typeParameters).TrimStart('!'));
+            else if (name.StartsWith("..."))
+                parameters.Add("..." + Format(GetElementType(parameterType.Trim()), typeParameters));
+            else if (name.EndsWith('?'))
+                parameters.Add(FormatOptional(parameterType, typeParameters));
+            else
+                parameters.Add(Format(parameterType, typeParameters));
+        }
+
+        var arrow = IndexOfTopLevel(type, "=>");
+        return $"function({string.Join(", ", parameters)}): {Format(type.Substring(arrow + 2), typeParameters)}";
+    }
+
+    /// <summary>
+    /// Formats an object literal type as a record, <c>{name: string, age: (number|undefined)}</c>, or an
+    /// index signature as <c>!Object&lt;string, V&gt;</c>. Members with call signatures make it a plain <c>!Object</c>.
+    /// </summary>
+    private static string FormatRecord(string body, IReadOnlyCollection<string> typeParameters)
+    {
+        var members = DescriptionRules.SplitTopLevel(body.Replace(';', ','), ',');
+        if (members.Count == 0)
+            return "!Object";
+
+        if (members.Count == 1 && members[0].StartsWith('['))
+        {
+            var close = FindClosing(members[0], 0);
+            var key = members[0].Substring(1, close - 1);
+            var colon = key.IndexOf(':');
+            var valueColon = members[0].IndexOf(':', close);
+            if (colon > 0 && valueColon > 0)
+                return $"!Object<{Format(key.Substring(colon + 1), typeParameters)}, {Format(members[0].Substring(valueColon + 1), typeParameters)}>";
+        }
+
+        var fields = new List<string>();
+        foreach (var member in members)
+        {
+            var match = RecordMember.Match(member);
+            if (!match.Success)
+                return "!Object";
+
+            var fieldType = Format(match.Groups[3].Value, typeParameters);
+            if (match.Groups[2].Success)
+                fieldType = FormatUnion(new List<string> { fieldType, "undefined" });
+
+            fields.Add($"{match.Groups[1].Value}: {fieldType}");
+        }
+
+        return $"{{{string.Join(", ", fields)}}}";
+    }
+
+    private static string GetElementType(string type)
+    {
+        if (type.EndsWith("[]"))
+            return type.Substring(0, type.Length - 2);
+
+        var match = NamedType.Match(type);
+        return match.Success && match.Groups[1].Value is "Array" or "ReadonlyArray" && match.Groups[2].Success
+            ? match.Groups[2].Value
+            : "any";
+    }
+
+    // The position of the bracket closing the one at start, or -1; "=>" is not a closing bracket
+    private static int FindClosing(string text, int start)
+    {
+        var depth = 0;
+        for (int i = start; i < text.Length; i++)
+        {
+            var ch = text[i];
+            if (ch is '<' or '(' or '[' or '{')
+                depth++;
+            else if ((ch is ')' or ']' or '}') || (ch == '>' && (i == 0 || text[i - 1] != '=')))
+                depth--;
+
+            if (depth == 0)
+                return i;
+        }
+
+        return -1;
+    }
+
+    private static int IndexOfTopLevel(string text, string value)
+    {
+        var depth = 0;
+        for (int i = 0; i < text.Length; i++)
+        {
+            var ch = text[i];
+            if (depth == 0 && string.CompareOrdinal(text, i, value, 0, value.Length) == 0)
+                return i;
+
+            if (ch is '<' or '(' or '[' or '{')
+                depth++;
+            else if ((ch is ')' or ']' or '}') || (ch == '>' && (i == 0 || text[i - 1] != '=')))
+                depth--;
+        }
+
+        return -1;
+    }
+}
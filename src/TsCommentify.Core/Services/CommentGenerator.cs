@@ -0,0 +1,789 @@
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public class CommentGenerator : ICommentGenerator
+{
+    private static readonly string FunctionTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if modifiers}}",
+        " *",
+        "{{#each modifiers}}",
+        " * @{{this}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if typeParameters}}",
+        " *",
+        "{{#each typeParameters}}",
+        " * @template {{#if constraint}}{{{constraint}}} {{/if}}{{tag}} - {{description}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if parameters}}",
+        " *",
+        "{{#each parameters}}",
+        " * @param {{#if type}}{{{type}}} {{/if}}{{name}} - {{description}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if returnType}}",
+        " *",
+        " * @returns {{{returnType}}} {{returnDescription}}",
+        "{{/if}}",
+        "{{#if hasBehaviorTags}}",
+        " *",
+        "{{#if yieldType}}",
+        " * @yields {{{yieldType}}} {{yieldDescription}}",
+        "{{/if}}",
+        "{{#each throws}}",
+        " * @throws {{{this}}}",
+        "{{/each}}",
+        "{{#if async}}",
+        " * @async",
+        "{{/if}}",
+        "{{/if}}",
+        "{{#if deprecated}}",
+        " *",
+        " * @deprecated{{deprecationReason}}",
+        "{{/if}}",
+        "{{#if example}}",
+        " *",
+        " * @example",
+        " * {{example}}",
+        "{{/if}}",
+        " */");
+
+    private static readonly string ClassTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if hasTags}}",
+        " *",
+        "{{#if abstract}}",
+        " * @abstract",
+        "{{/if}}",
+        "{{#if baseType}}",
+        " * @extends {{{baseType}}}",
+        "{{/if}}",
+        "{{#each implements}}",
+        " * @implements {{{this}}}",
+        "{{/each}}",
+        "{{/if}}",
+        " */");
+
+    private static readonly string InterfaceTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if extends}}",
+        " *",
+        "{{#each extends}}",
+        " * @extends {{{this}}}",
+        "{{/each}}",
+        "{{/if}}",
+        " */");
+
+    private static readonly string TsDocFunctionTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if remarks}}",
+        " *",
+        " * @remarks",
+        " * {{remarks}}",
+        "{{/if}}",
+        "{{#if typeParameters}}",
+        " *",
+        "{{#each typeParameters}}",
+        " * @typeParam {{name}} - {{description}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if parameters}}",
+        " *",
+        "{{#each parameters}}",
+        " * @param {{name}} - {{description}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if returnType}}",
+        " *",
+        " * @returns {{returnDescription}}",
+        "{{/if}}",
+        "{{#if throws}}",
+        " *",
+        "{{#each throws}}",
+        " * @throws {@link {{this}}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if modifiers}}",
+        " *",
+        "{{#each modifiers}}",
+        " * @{{this}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if deprecated}}",
+        " *",
+        " * @deprecated{{deprecationReason}}",
+        "{{/if}}",
+        "{{#if example}}",
+        " *",
+        " * @example",
+        " * ```ts",
+        " * {{example}}",
+        " * ```",
+        "{{/if}}",
+        " */");
+
+    private static readonly string TsDocTypeTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if remarks}}",
+        " *",
+        " * @remarks",
+        " * {{remarks}}",
+        "{{/if}}",
+        " */");
+
+    private static readonly string ClosureFunctionTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        "{{#if modifiers}}",
+        " *",
+        "{{#each modifiers}}",
+        " * @{{this}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if typeParameters}}",
+        " *",
+        "{{#each typeParameters}}",
+        " * @template {{name}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if parameters}}",
+        " *",
+        "{{#each parameters}}",
+        " * @param {{#if type}}{{{type}}} {{/if}}{{name}} - {{description}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if returnType}}",
+        " *",
+        " * @return {{{returnType}}} {{returnDescription}}",
+        "{{/if}}",
+        "{{#if throws}}",
+        " *",
+        "{{#each throws}}",
+        " * @throws {{{this}}}",
+        "{{/each}}",
+        "{{/if}}",
+        "{{#if deprecated}}",
+        " *",
+        " * @deprecated{{deprecationReason}}",
+        "{{/if}}",
+        "{{#if example}}",
+        " *",
+        " * @example",
+        " * {{example}}",
+        "{{/if}}",
+        " */");
+
+    // Closure calls structurally typed interfaces records
+    private static readonly string ClosureInterfaceTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        " *",
+        " * @record",
+        "{{#each extends}}",
+        " * @extends {{{this}}}",
+        "{{/each}}",
+        " */");
+
+    private static readonly string SummaryTemplate = string.Join('\n',
+        "/**",
+        " * {{description}}",
+        " */");
+
+    private static readonly string MemberTemplate = "/** {{description}} */";
+
+    private static readonly Regex DeprecationReason = new(@"@[Dd]eprecated\(\s*(['""`])(.*?)\1", RegexOptions.Singleline);
+
+    private readonly ILogger<CommentGenerator> _logger;
+    private readonly IDescriptionProvider _descriptionProvider;
+    private readonly CommentTemplateOptions _options;
+    private readonly Dictionary<Type, CommentTemplate> _templates;
+
+    public CommentGenerator(ILogger<CommentGenerator> logger, IConfiguration configuration, IDescriptionProvider descriptionProvider)
+    {
+        _logger = logger;
+        _descriptionProvider = descriptionProvider;
+        _options = configuration.GetSection(CommentTemplateOptions.SectionName).Get<CommentTemplateOptions>()
+            ?? new CommentTemplateOptions();
+
+        if (!string.IsNullOrEmpty(_options.TemplateFile))
+            ApplyTemplateFile(_options);
+
+        var style = _options.Style;
+        _templates = new Dictionary<Type, CommentTemplate>
+        {
+            [typeof(FunctionInfo)] = LoadTemplate(_options.Function, style switch
+            {
+                CommentStyle.TsDoc => TsDocFunctionTemplate,
+                CommentStyle.Closure => ClosureFunctionTemplate,
+                _ => FunctionTemplate
+            }),
+            [typeof(ClassInfo)] = LoadTemplate(_options.Class, style == CommentStyle.TsDoc ? TsDocTypeTemplate : ClassTemplate),
+            [typeof(InterfaceInfo)] = LoadTemplate(_options.Interface, style switch
+            {
+                CommentStyle.TsDoc => TsDocTypeTemplate,
+                CommentStyle.Closure => ClosureInterfaceTemplate,
+                _ => InterfaceTemplate
+            }),
+            [typeof(TypeAliasInfo)] = LoadTemplate(_options.TypeAlias, SummaryTemplate),
+            [typeof(EnumInfo)] = LoadTemplate(_options.Enum, SummaryTemplate),
+            [typeof(PropertyInfo)] = LoadTemplate(_options.Property, MemberTemplate),
+            [typeof(EnumMemberInfo)] = LoadTemplate(_options.EnumMember, MemberTemplate)
+        };
+    }
+
+    public async Task<string> GenerateCommentAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default)
+    {
+        _logger.LogDebug("Generating comment for declaration: {DeclarationName}", declaration.Name);
+
+        if (!_templates.TryGetValue(declaration.GetType(), out var template))
+            throw new ArgumentException($"Unsupported declaration type: {declaration.GetType().Name}", nameof(declaration));
+
+        return template.Render(await CreateModelAsync(declaration, cancellationToken));
+    }
+
+    /// <summary>
+    /// Fills the template settings that aren't configured directly from <see cref="CommentTemplateOptions.TemplateFile"/>.
+    /// </summary>
+    private void ApplyTemplateFile(CommentTemplateOptions options)
+    {
+        var path = Path.GetFullPath(options.TemplateFile!);
+        _logger.LogInformation("Loading comment templates from {TemplateFile}", path);
+
+        var file = new ConfigurationBuilder()
+            .AddJsonFile(path, optional: false)
+            .Build()
+            .Get<CommentTemplateOptions>() ?? new CommentTemplateOptions();
+
+        if (options.Function.Count == 0) options.Function = file.Function;
+        if (options.Class.Count == 0) options.Class = file.Class;
+        if (options.Interface.Count == 0) options.Interface = file.Interface;
+        if (options.TypeAlias.Count == 0) options.TypeAlias = file.TypeAlias;
+        if (options.Enum.Count == 0) options.Enum = file.Enum;
+        if (options.Property.Count == 0) options.Property = file.Property;
+        if (options.EnumMember.Count == 0) options.EnumMember = file.EnumMember;
+
+        foreach (var (name, value) in file.Variables)
+        {
+            options.Variables.TryAdd(name, value);
+        }
+    }
+
+    private static CommentTemplate LoadTemplate(List<string> lines, string defaultTemplate)
+    {
+        return CommentTemplate.Parse(lines.Count > 0 ? string.Join('\n', lines) : defaultTemplate);
+    }
+
+    /// <summary>
+    /// Builds the values available to a template. Every key exists for its declaration kind, even
+    /// when the value is empty, so a misspelled placeholder is reported instead of rendering nothing.
+    /// </summary>
+    private async Task<Dictionary<string, object?>> CreateModelAsync(DeclarationInfo declaration, CancellationToken cancellationToken)
+    {
+        var model = new Dictionary<string, object?>();
+        foreach (var (name, value) in _options.Variables)
+        {
+            model[name] = value;
+        }
+
+        model["name"] = declaration.Name;
+        model["readableName"] = HeuristicDescriptionProvider.ConvertToReadable(declaration.Name);
+
+        var description = await _descriptionProvider.DescribeAsync(declaration, cancellationToken);
+        model["description"] = description.Summary;
+
+        switch (declaration)
+        {
+            case FunctionInfo function:
+                model["kind"] = "function";
+                model["typeParameters"] = function.TypeParameters.Select(t => CreateTypeParameterModel(t, description)).ToList();
+                model["parameters"] = GetParameterTags(function, description).Select(p => CreateParameterModel(p.Tag, p.Parameter)).ToList();
+                var returnType = GetReturnType(function);
+                model["returnType"] = returnType == null ? null : FormatType(returnType, function);
+                model["returnDescription"] = returnType == null ? null : description.Returns ?? "The result";
+                model["modifiers"] = GetModifierTags(function);
+                model["remarks"] = GetRemarks(function, description);
+                model["async"] = function.IsAsync;
+                model["generator"] = function.IsGenerator;
+                model["yieldType"] = function.IsGenerator ? DescriptionRules.GetYieldType(function.ReturnType) : null;
+                model["yieldDescription"] = description.Yields;
+                model["throws"] = function.Throws;
+                model["hasBehaviorTags"] = function.IsAsync || function.IsGenerator || function.Throws.Count > 0;
+
+                var deprecation = GetDeprecation(function);
+                model["deprecated"] = deprecation != null;
+                model["deprecationReason"] = string.IsNullOrEmpty(deprecation) ? string.Empty : " " + deprecation;
+                model["example"] = _options.IncludeExamples ? CreateExample(function) : null;
+                break;
+
+            case ClassInfo classInfo:
+                model["kind"] = "class";
+                model["abstract"] = classInfo.IsAbstract;
+                model["baseType"] = classInfo.BaseType;
+                model["implements"] = classInfo.Implements;
+                model["hasTags"] = classInfo.IsAbstract || classInfo.BaseType != null || classInfo.Implements.Any();
+                model["remarks"] = JoinSentences(
+                    classInfo.IsAbstract ? "This class is abstract." : null,
+                    classInfo.BaseType == null ? null : $"Extends {FormatLinks(new[] { classInfo.BaseType })}.",
+                    classInfo.Implements.Count == 0 ? null : $"Implements {FormatLinks(classInfo.Implements)}.");
+                break;
+
+            case InterfaceInfo interfaceInfo:
+                model["kind"] = "interface";
+                model["extends"] = interfaceInfo.Extends;
+                model["remarks"] = interfaceInfo.Extends.Count == 0 ? null : $"Extends {FormatLinks(interfaceInfo.Extends)}.";
+                break;
+
+            case TypeAliasInfo alias:
+                model["kind"] = "type";
+                model["type"] = alias.Type;
+                break;
+
+            case EnumInfo:
+                model["kind"] = "enum";
+                break;
+
+            case PropertyInfo property:
+                model["kind"] = "property";
+                model["type"] = property.Type;
+                model["optional"] = property.IsOptional;
+                model["readonly"] = property.IsReadonly;
+                model["static"] = property.IsStatic;
+                break;
+
+            case EnumMemberInfo member:
+                model["kind"] = "enumMember";
+                model["value"] = member.Value;
+                break;
+        }
+
+        return model;
+    }
+
+    /// <summary>
+    /// The JSDoc tags for the modifiers of a method: <c>private</c> (also for <c>#name</c>), <c>protected</c>,
+    /// <c>static</c>, <c>abstract</c>, <c>override</c> and <c>readonly</c>. TSDoc only knows <c>override</c>,
+    /// Closure has no <c>static</c> and calls <c>readonly</c> <c>const</c>.
+    /// </summary>
+    private List<string> GetModifierTags(FunctionInfo function)
+    {
+        var tags = new List<string>();
+        if (function.Modifiers.Contains("private") || function.Name.StartsWith('#'))
+            tags.Add("private");
+
+        tags.AddRange(new[] { "protected", "static", "abstract", "override", "readonly" }.Where(function.Modifiers.Contains));
+
+        return _options.Style switch
+        {
+            CommentStyle.TsDoc => tags.Where(t => t == "override").ToList(),
+            CommentStyle.Closure => tags.Where(t => t != "static").Select(t => t == "readonly" ? "const" : t).ToList(),
+            _ => tags
+        };
+    }
+
+    /// <summary>
+    /// What JSDoc says with the <c>@abstract</c>, <c>@async</c> and <c>@yields</c> tags, as sentences for the
+    /// TSDoc <c>@remarks</c> section, or null when there is nothing to say.
+    /// </summary>
+    private static string? GetRemarks(FunctionInfo function, DeclarationDescription description)
+    {
+        var kind = function.ContainingClass == null ? "function" : "method";
+        var yields = description.Yields == null ? null : char.ToLowerInvariant(description.Yields[0]) + description.Yields.Substring(1);
+
+        return JoinSentences(
+            function.Modifiers.Contains("abstract") ? $"This {kind} is abstract." : null,
+            function.IsAsync ? $"This {kind} is asynchronous." : null,
+            function.IsGenerator ? $"Yields {yields ?? "values"}." : null);
+    }
+
+    private static string? JoinSentences(params string?[] sentences)
+    {
+        var text = string.Join(" ", sentences.Where(s => s != null));
+        return text.Length == 0 ? null : text;
+    }
+
+    // {@link Base}, {@link A} and {@link B}; links can't have type arguments
+    private static string FormatLinks(IReadOnlyList<string> types)
+    {
+        var links = types.Select(t => $"{{@link {(t.Contains('<') ? t.Substring(0, t.IndexOf('<')) : t)}}}").ToList();
+        return links.Count == 1 ? links[0] : $"{string.Join(", ", links.SkipLast(1))} and {links[^1]}";
+    }
+
+    /// <summary>
+    /// Returns the reason given by a <c>@deprecated</c> or <c>@Deprecated('...')</c> decorator, an empty string
+    /// for a decorator without one, or null when the function isn't deprecated.
+    /// </summary>
+    private static string? GetDeprecation(FunctionInfo function)
+    {
+        if (!function.Decorators.Any(d => d.Equals("deprecated", StringComparison.OrdinalIgnoreCase)))
+            return null;
+
+        var reason = DeprecationReason.Match(function.Source);
+        return reason.Success ? reason.Groups[2].Value : string.Empty;
+    }
+
+    /// <summary>
+    /// Builds a call with the parameter names as placeholder arguments: <c>const result = await userService.load(id);</c>
+    /// </summary>
+    private static string CreateExample(FunctionInfo function)
+    {
+        var arguments = string.Join(", ", function.Parameters.Select(FormatPlaceholder));
+        var receiver = function.ContainingClass == null ? null : char.ToLowerInvariant(function.ContainingClass.Name[0]) + function.ContainingClass.Name.Substring(1);
+
+        var call = function.Name == "constructor" && function.ContainingClass != null
+            ? $"new {function.ContainingClass.Name}({arguments})"
+            : $"{(receiver == null ? string.Empty : receiver + ".")}{function.Name}({arguments})";
+
+        if (function.IsAsync)
+            call = "await " + call;
+
+        var returnType = function.ReturnType ?? function.InferredReturnType;
+        var returnsValue = function.Name == "constructor"
+            || (!string.IsNullOrEmpty(returnType) && returnType != "void" && returnType != "Promise<void>");
+
+        return returnsValue ? $"const result = {call};" : $"{call};";
+    }
+
+    private static string FormatPlaceholder(ParameterInfo parameter)
+    {
+        var placeholder = parameter.Kind switch
+        {
+            ParameterKind.ObjectPattern => $"{{ {string.Join(", ", parameter.Properties.Select(FormatPlaceholder))} }}",
+            ParameterKind.ArrayPattern => $"[{string.Join(", ", parameter.Properties.Select(FormatPlaceholder))}]",
+            _ => parameter.Name
+        };
+
+        return parameter.IsRest && parameter.Kind == ParameterKind.Identifier ? "..." + placeholder : placeholder;
+    }
+
+    /// <summary>
+    /// The values for one <c>@template</c> line. <c>tag</c> is the name, or <c>[T=Default]</c> when the type
+    /// parameter has a default, like an optional <c>@param</c>.
+    /// </summary>
+    private static Dictionary<string, object?> CreateTypeParameterModel(TypeParameterInfo typeParameter, DeclarationDescription description)
+    {
+        return new Dictionary<string, object?>
+        {
+            ["name"] = typeParameter.Name,
+            ["tag"] = typeParameter.DefaultType == null ? typeParameter.Name : $"[{typeParameter.Name}={typeParameter.DefaultType}]",
+            ["constraint"] = typeParameter.Constraint,
+            ["defaultType"] = typeParameter.DefaultType,
+            ["description"] = description.TypeParameters.GetValueOrDefault(typeParameter.Name)
+        };
+    }
+
+    private Dictionary<string, object?> CreateParameterModel(JsDocTag tag, ParameterInfo parameter)
+    {
+        var path = tag.ParameterPath!;
+        return new Dictionary<string, object?>
+        {
+            ["name"] = tag.ParameterName,
+            ["path"] = path,
+            ["readableName"] = HeuristicDescriptionProvider.ConvertToReadable(path.Split('.')[^1]),
+            ["type"] = tag.Type,
+            ["description"] = tag.Description,
+            ["optional"] = parameter.IsOptional || parameter.DefaultValue != null,
+            ["rest"] = parameter.IsRest,
+            ["defaultValue"] = parameter.DefaultValue
+        };
+    }
+
+    public async Task<string?> UpdateCommentAsync(FunctionInfo function, string existingComment, CancellationToken cancellationToken = default)
+    {
+        var comment = JsDocComment.Parse(existingComment);
+        if (comment == null)
+            return null;
+
+        var existingParameters = comment.Tags.Where(JsDocComment.IsParameterTag).ToList();
+        var aliases = GetPatternAliases(function, existingParameters);
+        var unannotated = GetUnannotatedPaths(function.Parameters, null);
+        var typed = _options.Style != CommentStyle.TsDoc
+            && (existingParameters.Count == 0 || existingParameters.Any(t => t.Type != null));
+        var parameters = new List<JsDocTag>();
+
+        // Descriptions are only needed for new tags, so up-to-date comments never reach the provider
+        DeclarationDescription? description = null;
+
+        foreach (var (expected, _) in GetParameterTags(function, null))
+        {
+            // Destructured parameters may be documented under any name: options.limit instead of param0.limit
+            var path = expected.ParameterPath!;
+            var root = path.Split('.')[0];
+            if (aliases.TryGetValue(root, out var alias))
+                path = alias + path.Substring(root.Length);
+
+            var name = expected.ParameterName!.Replace(expected.ParameterPath!, path);
+            var existing = existingParameters.FirstOrDefault(t => t.ParameterPath == path);
+            if (existing == null)
+            {
+                parameters.Add(expected with
+                {
+                    Type = typed ? expected.Type : null,
+                    ParameterName = name,
+                    Description = (description ??= await _descriptionProvider.DescribeAsync(function, cancellationToken))
+                        .Parameters.GetValueOrDefault(expected.ParameterPath!)
+                });
+                continue;
+            }
+
+            // Keep the description and the author's choice of documenting types at all; without an
+            // annotation the author's type is better than an inferred one
+            var type = existing.Type == null || unannotated.Contains(expected.ParameterPath!) ? existing.Type : expected.Type;
+            parameters.Add(existing.Type == type && existing.ParameterName == name
+                ? existing
+                : existing with { Type = type, ParameterName = name, Text = null });
+        }
+
+        var returnType = HasDeclaredReturnType(function) ? FormatType(function.ReturnType!, function) : null;
+        var tags = new List<JsDocTag>();
+        var parametersAdded = false;
+        foreach (var tag in comment.Tags)
+        {
+            if (JsDocComment.IsParameterTag(tag))
+            {
+                if (!parametersAdded)
+                    tags.AddRange(parameters);
+
+                parametersAdded = true;
+            }
+            else if ((tag.Name == "returns" || tag.Name == "return") && returnType != null
+                && tag.Type != null && tag.Type != returnType)
+            {
+                tags.Add(tag with { Type = returnType, Text = null });
+            }
+            else
+            {
+                tags.Add(tag);
+            }
+        }
+
+        if (!parametersAdded)
+            tags.InsertRange(0, parameters);
+
+        // Functions that return nothing don't need a @returns tag added to an existing comment
+        if (HasDeclaredReturnType(function) && function.ReturnType != "void"
+            && !tags.Any(t => t.Name == "returns" || t.Name == "return"))
+        {
+            var lastParameter = tags.FindLastIndex(JsDocComment.IsParameterTag);
+            var name = _options.Style == CommentStyle.Closure ? "return" : "returns";
+            description ??= await _descriptionProvider.DescribeAsync(function, cancellationToken);
+            tags.Insert(lastParameter + 1, new JsDocTag(name, _options.Style == CommentStyle.TsDoc ? null : returnType, null, description.Returns)
+            {
+                BlankLineBefore = lastParameter >= 0
+            });
+        }
+
+        if (tags.Count == comment.Tags.Count && tags.Zip(comment.Tags).All(pair => ReferenceEquals(pair.First, pair.Second)))
+            return null;
+
+        // Keep the spacing between the description and the tags, adding it when the comment had no tags
+        if (tags.Count > 0 && (comment.Tags.Count == 0 || !ReferenceEquals(tags[0], comment.Tags[0])))
+            tags[0] = tags[0] with { BlankLineBefore = comment.Tags.Count == 0 || comment.Tags[0].BlankLineBefore };
+
+        _logger.LogDebug("Updating stale comment for function: {FunctionName}", function.Name);
+        return new JsDocComment(comment.Description, tags).Render();
+    }
+
+    private static bool HasDeclaredReturnType(FunctionInfo function) => !string.IsNullOrEmpty(function.ReturnType);
+
+    /// <summary>
+    /// The declared or inferred return type, or what <see cref="CommentTemplateOptions.UnknownTypes"/> writes when
+    /// neither is known. Constructors, setters, generators and signatures without one return nothing to document.
+    /// </summary>
+    private string? GetReturnType(FunctionInfo function)
+    {
+        if (!string.IsNullOrEmpty(function.ReturnType))
+            return function.ReturnType;
+
+        if (function.IsGenerator || function.IsSignature || function.Name == "constructor" || function.Modifiers.Contains("set"))
+            return null;
+
+        // Like in TypeScript, a function without a return statement needs no @returns tag unless it says so
+        if (function.InferredReturnType != null)
+            return function.InferredReturnType == "void" ? null : function.InferredReturnType;
+
+        return UnknownType == null ? null : function.IsAsync ? $"Promise<{UnknownType}>" : UnknownType;
+    }
+
+    /// <summary>
+    /// Writes a TypeScript type in the type syntax of the comment style.
+    /// </summary>
+    private string FormatType(string type, FunctionInfo function)
+    {
+        return _options.Style == CommentStyle.Closure
+            ? ClosureTypes.Format(type, function.TypeParameters.Select(t => t.Name).ToList())
+            : type;
+    }
+
+    private string? UnknownType => _options.UnknownTypes switch
+    {
+        UnknownTypePolicy.Star => "*",
+        UnknownTypePolicy.Unknown => "unknown",
+        _ => null
+    };
+
+    /// <summary>
+    /// Maps the positional names of destructured parameters (param0) to the names used by the
+    /// existing comment, matching top-level @param tags by position.
+    /// </summary>
+    private static Dictionary<string, string> GetPatternAliases(FunctionInfo function, List<JsDocTag> existingParameters)
+    {
+        var aliases = new Dictionary<string, string>();
+        var documented = existingParameters
+            .Select(t => t.ParameterPath)
+            .Where(p => p != null && !p.Contains('.'))
+            .ToList();
+        var parameterNames = function.Parameters.Select(p => p.Name).ToHashSet();
+
+        for (int i = 0; i < function.Parameters.Count && i < documented.Count; i++)
+        {
+            var parameter = function.Parameters[i];
+            if (parameter.Kind != ParameterKind.Identifier
+                && !documented.Contains(parameter.Name)
+                && !parameterNames.Contains(documented[i]!))
+            {
+                aliases[parameter.Name] = documented[i]!;
+            }
+        }
+
+        return aliases;
+    }
+
+    /// <summary>
+    /// The tag paths (see <see cref="AddParameterTags"/>) of the parameters without a type annotation.
+    /// </summary>
+    private static HashSet<string> GetUnannotatedPaths(List<ParameterInfo> parameters, string? parentPath)
+    {
+        var paths = new HashSet<string>();
+        foreach (var parameter in parameters)
+        {
+            var path = parentPath == null ? parameter.Name : $"{parentPath}.{parameter.Name}";
+            if (parameter.Type == null)
+                paths.Add(path);
+
+            if (parameter.Kind == ParameterKind.ObjectPattern)
+                paths.UnionWith(GetUnannotatedPaths(parameter.Properties, path));
+        }
+
+        return paths;
+    }
+
+    private List<(JsDocTag Tag, ParameterInfo Parameter)> GetParameterTags(FunctionInfo function, DeclarationDescription? description)
+    {
+        var tags = new List<(JsDocTag, ParameterInfo)>();
+        foreach (var parameter in function.Parameters)
+        {
+            AddParameterTags(tags, function, parameter, parameter.Name, description);
+        }
+
+        return tags;
+    }
+
+    /// <summary>
+    /// Adds the @param tag for a parameter and, for destructured parameters in JSDoc, a dotted tag
+    /// (param0.name) for every property bound by the pattern, recursing into nested patterns.
+    /// TSDoc and Closure only document the parameters themselves, without brackets for optional ones.
+    /// </summary>
+    private void AddParameterTags(
+        List<(JsDocTag, ParameterInfo)> tags,
+        FunctionInfo function,
+        ParameterInfo parameter,
+        string path,
+        DeclarationDescription? description)
+    {
+        var name = _options.Style != CommentStyle.JsDoc ? path
+            : parameter.DefaultValue != null ? $"[{path}={parameter.DefaultValue}]"
+            : parameter.IsOptional ? $"[{path}]" : path;
+
+        var type = _options.Style switch
+        {
+            CommentStyle.TsDoc => null,
+            CommentStyle.Closure => FormatClosureParameterType(parameter, function),
+            _ => FormatParameterType(parameter)
+        };
+
+        tags.Add((new JsDocTag("param", type, name, description?.Parameters.GetValueOrDefault(path)), parameter));
+
+        // Array elements have no property path in JSDoc, the tuple type documents them
+        if (parameter.Kind != ParameterKind.ObjectPattern || _options.Style != CommentStyle.JsDoc)
+            return;
+
+        foreach (var property in parameter.Properties)
+        {
+            AddParameterTags(tags, function, property, $"{path}.{property.Name}", description);
+        }
+    }
+
+    /// <summary>
+    /// The Closure type of a parameter: <c>...string</c> for a rest parameter, <c>number=</c> for an optional
+    /// one or one with a default value, and a record type for a destructured object literal type.
+    /// </summary>
+    private string? FormatClosureParameterType(ParameterInfo parameter, FunctionInfo function)
+    {
+        var type = parameter.Type ?? parameter.InferredType;
+
+        if (parameter.IsRest)
+        {
+            var elementType = (type == null ? null : GetArrayElementType(type)) ?? UnknownType;
+            return elementType == null ? null : "..." + FormatType(elementType, function);
+        }
+
+        type ??= parameter.Kind switch
+        {
+            ParameterKind.ObjectPattern => "Object",
+            ParameterKind.ArrayPattern => "Array",
+            _ => UnknownType
+        };
+
+        if (type == null)
+            return null;
+
+        return parameter.IsOptional || parameter.DefaultValue != null
+            ? ClosureTypes.FormatOptional(type, function.TypeParameters.Select(t => t.Name).ToList())
+            : FormatType(type, function);
+    }
+
+    private string? FormatParameterType(ParameterInfo parameter)
+    {
+        var type = parameter.Type;
+
+        if (parameter.IsRest)
+        {
+            // JSDoc documents the element type of a rest parameter: ...string
+            var elementType = (type == null ? null : GetArrayElementType(type)) ?? UnknownType;
+            return elementType == null ? null : $"...{elementType}";
+        }
+
+        if (parameter.Kind == ParameterKind.ObjectPattern && (type == null || type.StartsWith('{')))
+            return "Object";
+
+        if (parameter.Kind == ParameterKind.ArrayPattern && type == null)
+            return "Array";
+
+        return type ?? parameter.InferredType ?? UnknownType;
+    }
+
+    private static string? GetArrayElementType(string type)
+    {
+        if (type.StartsWith("readonly "))
+            type = type.Substring("readonly ".Length);
+
+        if (type.EndsWith("[]"))
+            return type.Substring(0, type.Length - 2);
+
+        if ((type.StartsWith("Array<") || type.StartsWith("ReadonlyArray<")) && type.EndsWith('>'))
+            return type.Substring(type.IndexOf('<') + 1, type.Length - type.IndexOf('<') - 2);
+
+        return null;
+    }
+}
@@ -0,0 +1,216 @@
+using System.Collections;
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// A comment template with <c>{{placeholder}}</c> substitution, <c>{{#each list}}...{{/each}}</c> loops and
+/// <c>{{#if value}}...{{else}}...{{/if}}</c> / <c>{{#unless value}}...{{/unless}}</c> sections.
+/// Section tags that are alone on their line don't leave a blank line behind, so templates can be
+/// written one comment line per template line.
+/// </summary>
+public class CommentTemplate
+{
+    private static readonly Regex TagPattern = new(@"\{\{\s*(#each|#if|#unless|/each|/if|/unless|else|[\w@.]+)(?:\s+([\w@.]+))?\s*\}\}");
+
+    private static readonly Regex StandaloneTagPattern = new(@"^\s*\{\{\s*(#|/|else\b)[^}]*\}\}\s*$");
+
+    private readonly List<Node> _nodes;
+
+    private CommentTemplate(List<Node> nodes)
+    {
+        _nodes = nodes;
+    }
+
+    private abstract record Node;
+
+    private record TextNode(string Text) : Node;
+
+    private record PlaceholderNode(string Name) : Node;
+
+    private record SectionNode(string Kind, string Name, List<Node> Children, List<Node> ElseChildren) : Node;
+
+    /// <summary>
+    /// Parses a template. Throws <see cref="FormatException"/> for unbalanced or malformed sections.
+    /// </summary>
+    public static CommentTemplate Parse(string template)
+    {
+        var text = RemoveStandaloneLineBreaks(template.Replace("\r\n", "\n"));
+        var root = new List<Node>();
+        var stack = new Stack<(SectionNode Section, bool InElse)>();
+        var position = 0;
+
+        List<Node> Current() => stack.Count == 0 ? root : stack.Peek().InElse ? stack.Peek().Section.ElseChildren : stack.Peek().Section.Children;
+
+        foreach (Match match in TagPattern.Matches(text))
+        {
+            if (match.Index > position)
+                Current().Add(new TextNode(text.Substring(position, match.Index - position)));
+
+            position = match.Index + match.Length;
+            var tag = match.Groups[1].Value;
+            var argument = match.Groups[2].Success ? match.Groups[2].Value : null;
+
+            if (tag.StartsWith('#'))
+            {
+                if (argument == null)
+                    throw new FormatException($"Section '{{{{{tag}}}}}' needs a value, for example '{{{{{tag} parameters}}}}'");
+
+                var section = new SectionNode(tag.Substring(1), argument, new List<Node>(), new List<Node>());
+                Current().Add(section);
+                stack.Push((section, false));
+            }
+            else if (tag.StartsWith('/'))
+            {
+                if (stack.Count == 0 || stack.Peek().Section.Kind != tag.Substring(1))
+                    throw new FormatException($"Unexpected '{{{{{tag}}}}}' in comment template");
+
+                stack.Pop();
+            }
+            else if (tag == "else")
+            {
+                if (stack.Count == 0 || stack.Peek().Section.Kind == "each")
+                    throw new FormatException("'{{else}}' is only allowed inside '{{#if}}' and '{{#unless}}' sections");
+
+                stack.Push((stack.Pop().Section, true));
+            }
+            else
+            {
+                Current().Add(new PlaceholderNode(tag));
+            }
+        }
+
+        if (stack.Count > 0)
+            throw new FormatException($"Missing '{{{{/{stack.Peek().Section.Kind}}}}}' in comment template");
+
+        if (position < text.Length)
+            root.Add(new TextNode(text.Substring(position)));
+
+        return new CommentTemplate(root);
+    }
+
+    /// <summary>
+    /// Renders the template. Values are looked up in the innermost loop item first, then outwards
+    /// to <paramref name="model"/>. Throws <see cref="KeyNotFoundException"/> for unknown placeholders.
+    /// </summary>
+    public string Render(IReadOnlyDictionary<string, object?> model)
+    {
+        var output = new StringBuilder();
+        var scopes = new List<IReadOnlyDictionary<string, object?>> { model };
+        RenderNodes(_nodes, scopes, output);
+        return output.ToString();
+    }
+
+    private static string RemoveStandaloneLineBreaks(string template)
+    {
+        var lines = template.Split('\n');
+        var result = new StringBuilder();
+
+        for (int i = 0; i < lines.Length; i++)
+        {
+            if (StandaloneTagPattern.IsMatch(lines[i]))
+            {
+                result.Append(lines[i].Trim());
+            }
+            else
+            {
+                result.Append(lines[i]);
+                if (i < lines.Length - 1)
+                    result.Append('\n');
+            }
+        }
+
+        return result.ToString();
+    }
+
+    private static void RenderNodes(List<Node> nodes, List<IReadOnlyDictionary<string, object?>> scopes, StringBuilder output)
+    {
+        foreach (var node in nodes)
+        {
+            switch (node)
+            {
+                case TextNode text:
+                    output.Append(text.Text);
+                    break;
+
+                case PlaceholderNode placeholder:
+                    output.Append(Format(Lookup(placeholder.Name, scopes)));
+                    break;
+
+                case SectionNode { Kind: "each" } each:
+                    var items = Lookup(each.Name, scopes) is IEnumerable list and not string
+                        ? list.Cast<object?>().ToList()
+                        : new List<object?>();
+
+                    for (int i = 0; i < items.Count; i++)
+                    {
+                        var frame = new Dictionary<string, object?>
+                        {
+                            ["this"] = items[i],
+                            ["@index"] = i,
+                            ["@first"] = i == 0,
+                            ["@last"] = i == items.Count - 1
+                        };
+
+                        var depth = scopes.Count;
+                        scopes.Add(frame);
+                        if (items[i] is IReadOnlyDictionary<string, object?> item)
+                            scopes.Add(item);
+
+                        RenderNodes(each.Children, scopes, output);
+                        scopes.RemoveRange(depth, scopes.Count - depth);
+                    }
+                    break;
+
+                case SectionNode section:
+                    var condition = IsTruthy(Lookup(section.Name, scopes));
+                    if (section.Kind == "unless")
+                        condition = !condition;
+
+                    RenderNodes(condition ? section.Children : section.ElseChildren, scopes, output);
+                    break;
+            }
+        }
+    }
+
+    private static object? Lookup(string name, List<IReadOnlyDictionary<string, object?>> scopes)
+    {
+        var parts = name.Split('.');
+
+        for (int i = scopes.Count - 1; i >= 0; i--)
+        {
+            if (!scopes[i].TryGetValue(parts[0], out var value))
+                continue;
+
+            foreach (var part in parts.Skip(1))
+            {
+                if (value is not IReadOnlyDictionary<string, object?> nested || !nested.TryGetValue(part, out value))
+                    throw new KeyNotFoundException($"Unknown placeholder '{{{{{name}}}}}' in comment template");
+            }
+
+            return value;
+        }
+
+        throw new KeyNotFoundException($"Unknown placeholder '{{{{{name}}}}}' in comment template");
+    }
+
+    private static bool IsTruthy(object? value) => value switch
+    {
+        null => false,
+        bool flag => flag,
+        string text => text.Length > 0,
+        int number => number != 0,
+        IEnumerable list => list.Cast<object?>().Any(),
+        _ => true
+    };
+
+    private static string Format(object? value) => value switch
+    {
+        null => string.Empty,
+        bool flag => flag ? "true" : "false",
+        string text => text,
+        IEnumerable list => string.Join(", ", list.Cast<object?>().Select(Format)),
+        _ => value.ToString() ?? string.Empty
+    };
+}
@@ -0,0 +1,218 @@
+using System.Text;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public class Commentifier : ICommentifier
+{
+    private readonly ITypeScriptParser _parser;
+    private readonly ICommentGenerator _commentGenerator;
+    private readonly ILogger<Commentifier> _logger;
+    private readonly FileProcessorOptions _options;
+
+    public Commentifier(
+        ITypeScriptParser parser,
+        ICommentGenerator commentGenerator,
+        ILogger<Commentifier> logger,
+        IConfiguration configuration)
+    {
+        _parser = parser;
+        _commentGenerator = commentGenerator;
+        _logger = logger;
+        _options = configuration.GetSection(FileProcessorOptions.SectionName).Get<FileProcessorOptions>()
+            ?? new FileProcessorOptions();
+    }
+
+    public async Task<CommentifyResult> CommentifyAsync(string filePath, string text, ChangedLines? changedLines = null, CancellationToken cancellationToken = default)
+    {
+        var source = SourceFile.FromText(filePath, text);
+        var lines = source.GetLines();
+        var lineStarts = GetLineStarts(text);
+
+        var parsed = _parser.ParseDeclarations(filePath, text).ToList();
+        var declarations = parsed
+            .Where(d => !d.IsSuppressed)
+            .Where(d => IsVisible(d, parsed))
+            .Where(d => d is not FunctionInfo function || IsDocumentedOverload(function))
+            .Where(d => changedLines == null || changedLines.Overlaps(d.LineNumber, GetSignatureEndLine(d)))
+            .ToList();
+
+        var comments = new List<GeneratedComment>();
+        var diagnostics = new List<CommentDiagnostic>();
+
+        foreach (var declaration in declarations.Where(d => !d.HasComment))
+        {
+            // New comments are inserted above the declaration
+            var comment = await _commentGenerator.GenerateCommentAsync(declaration, cancellationToken);
+            var edit = CreateEdit(lines, lineStarts, source.NewLine, declaration.LineNumber, declaration.LineNumber - 1, comment);
+
+            comments.Add(new GeneratedComment(declaration, comment, IsUpdate: false, edit));
+            diagnostics.Add(new CommentDiagnostic(
+                CommentDiagnostic.MissingComment,
+                $"{GetKindName(declaration)} '{declaration.Name}' has no documentation comment.",
+                declaration));
+        }
+
+        if (_options.UpdateExisting)
+        {
+            foreach (var (function, comment) in await FindStaleCommentsAsync(lines, declarations, cancellationToken))
+            {
+                // Updated comments replace the lines of the existing comment
+                var range = function.Comment!;
+                var edit = CreateEdit(lines, lineStarts, source.NewLine, range.StartLine, range.EndLine, comment);
+
+                comments.Add(new GeneratedComment(function, comment, IsUpdate: true, edit));
+                diagnostics.Add(new CommentDiagnostic(
+                    CommentDiagnostic.StaleComment,
+                    $"The comment of function '{function.Name}' doesn't match its signature.",
+                    function));
+            }
+        }
+
+        comments = comments.OrderBy(c => c.Edit.Range.Start).ToList();
+        diagnostics = diagnostics.OrderBy(d => d.Declaration.LineNumber).ToList();
+
+        return new CommentifyResult(filePath, ApplyEdits(text, comments.Select(c => c.Edit)), parsed, comments, diagnostics);
+    }
+
+    /// <summary>
+    /// Whether a function is documented at all: of an overload group only the first signature is,
+    /// or every signature with <see cref="FileProcessorOptions.DocumentEveryOverload"/>.
+    /// </summary>
+    private bool IsDocumentedOverload(FunctionInfo function) =>
+        !function.IsOverloadImplementation && (_options.DocumentEveryOverload || (function.OverloadIndex ?? 0) == 0);
+
+    /// <summary>
+    /// Whether a declaration is documented with the configured <see cref="FileProcessorOptions.Visibility"/>.
+    /// Members are found inside their classes, interfaces and enums by their lines.
+    /// </summary>
+    private bool IsVisible(DeclarationInfo declaration, List<DeclarationInfo> parsed)
+    {
+        if (_options.Visibility == Visibility.All)
+            return true;
+
+        if (!IsPublic(declaration))
+            return false;
+
+        if (_options.Visibility == Visibility.Public)
+            return true;
+
+        // The API of a module is its exported declarations and the public members of exported types,
+        // not functions declared inside other functions
+        var containers = parsed
+            .TakeWhile(d => !ReferenceEquals(d, declaration))
+            .Where(d => d.LineNumber <= declaration.LineNumber && d.EndLineNumber >= declaration.EndLineNumber)
+            .ToList();
+
+        if (containers.Count == 0)
+            return declaration.IsExported;
+
+        return containers[0].IsExported
+            && containers.All(c => c is not FunctionInfo && IsPublic(c));
+    }
+
+    private static bool IsPublic(DeclarationInfo declaration)
+    {
+        var modifiers = declaration switch
+        {
+            FunctionInfo function => function.Modifiers,
+            PropertyInfo property => property.Modifiers,
+            _ => new List<string>()
+        };
+
+        return !modifiers.Contains("private") && !modifiers.Contains("protected") && !declaration.Name.StartsWith('#');
+    }
+
+    /// <summary>
+    /// The last line of the declaration itself, not counting a function or class body.
+    /// </summary>
+    private static int GetSignatureEndLine(DeclarationInfo declaration) =>
+        declaration.LineNumber + declaration.Content.Count(c => c == '\n');
+
+    /// <summary>
+    /// Returns the functions whose JSDoc block no longer matches their signature, with the updated comment.
+    /// </summary>
+    private async Task<List<(FunctionInfo Function, string Comment)>> FindStaleCommentsAsync(string[] lines, List<DeclarationInfo> declarations, CancellationToken cancellationToken)
+    {
+        var updates = new List<(FunctionInfo Function, string Comment)>();
+
+        foreach (var function in declarations.OfType<FunctionInfo>())
+        {
+            // Only comments that occupy their own lines can be replaced line by line
+            if (function.Comment is not { } range || range.EndLine >= function.LineNumber)
+                continue;
+
+            var existing = string.Join('\n', lines.Skip(range.StartLine - 1).Take(range.EndLine - range.StartLine + 1));
+            var updated = await _commentGenerator.UpdateCommentAsync(function, existing, cancellationToken);
+            if (updated != null)
+            {
+                _logger.LogInformation("Updating stale comment for {FunctionName} at line {LineNumber}", function.Name, function.LineNumber);
+                updates.Add((function, updated));
+            }
+        }
+
+        return updates;
+    }
+
+    /// <summary>
+    /// Replaces the lines <paramref name="firstLine"/> to <paramref name="lastLine"/> (none when the last is
+    /// before the first) with the comment, indented like the first of those lines.
+    /// </summary>
+    private static TextEdit CreateEdit(string[] lines, List<int> lineStarts, string newLine, int firstLine, int lastLine, string comment)
+    {
+        var indent = GetIndentation(lines[firstLine - 1]);
+        var commentLines = comment.Split('\n').Select(l => indent + l.TrimEnd());
+
+        var start = lineStarts[firstLine - 1];
+        var end = lastLine < firstLine ? start : lineStarts[lastLine];
+
+        return new TextEdit(
+            new SourceRange(start, end, firstLine, Math.Max(firstLine, lastLine)),
+            string.Join(newLine, commentLines) + newLine);
+    }
+
+    private static string ApplyEdits(string text, IEnumerable<TextEdit> edits)
+    {
+        var result = new StringBuilder(text);
+        foreach (var edit in edits.Reverse())
+        {
+            result.Remove(edit.Range.Start, edit.Range.End - edit.Range.Start);
+            result.Insert(edit.Range.Start, edit.NewText);
+        }
+
+        return result.ToString();
+    }
+
+    // The offset at which each line starts; lines end at "\r\n", "\n" or "\r" like in SourceFile.GetLines
+    private static List<int> GetLineStarts(string text)
+    {
+        var starts = new List<int> { 0 };
+        for (int i = 0; i < text.Length; i++)
+        {
+            if (text[i] == '\r' && i + 1 < text.Length && text[i + 1] == '\n')
+                i++;
+
+            if (text[i] == '\n' || text[i] == '\r')
+                starts.Add(i + 1);
+        }
+
+        return starts;
+    }
+
+    private static string GetIndentation(string line) =>
+        line.Substring(0, line.Length - line.TrimStart(' ', '\t').Length);
+
+    private static string GetKindName(DeclarationInfo declaration) => declaration switch
+    {
+        FunctionInfo => "Function",
+        ClassInfo => "Class",
+        InterfaceInfo => "Interface",
+        TypeAliasInfo => "Type alias",
+        EnumInfo => "Enum",
+        PropertyInfo => "Property",
+        EnumMemberInfo => "Enum member",
+        _ => "Declaration"
+    };
+}
@@ -0,0 +1,79 @@
+using Microsoft.Extensions.Logging;
+
+namespace TsCommentify.Core.Services;
+
+public class CoverageAnalyzer : ICoverageAnalyzer
+{
+    private readonly ITypeScriptParser _parser;
+    private readonly IFileProcessor _fileProcessor;
+    private readonly ILogger<CoverageAnalyzer> _logger;
+
+    public CoverageAnalyzer(ITypeScriptParser parser, IFileProcessor fileProcessor, ILogger<CoverageAnalyzer> logger)
+    {
+        _parser = parser;
+        _fileProcessor = fileProcessor;
+        _logger = logger;
+    }
+
+    public CoverageReport Analyze(string path)
+    {
+        var fullPath = Path.GetFullPath(path);
+        var files = Directory.Exists(fullPath)
+            ? _fileProcessor.GetSourceFiles(fullPath)
+            : new[] { fullPath };
+
+        _logger.LogInformation("Measuring documentation coverage of {Count} files", files.Count);
+
+        var repositoryRoot = FindRepositoryRoot(Directory.Exists(fullPath) ? fullPath : Path.GetDirectoryName(fullPath)!);
+        var coverage = new List<FileCoverage>();
+        var failures = new List<FileCoverageFailure>();
+        foreach (var file in files.OrderBy(f => f, StringComparer.Ordinal))
+        {
+            List<FunctionInfo> functions;
+            try
+            {
+                // An overload group counts once, documented when its first signature is
+                functions = _parser.ParseFunctions(file)
+                    .Where(f => !f.IsOverloadImplementation && (f.OverloadIndex ?? 0) == 0)
+                    .ToList();
+            }
+            catch (Exception ex)
+            {
+                // Like a failing file of a directory run, it is reported and the other files are still counted
+                _logger.LogError("Could not read {FilePath}: {Message}", file, ex.Message);
+                failures.Add(new FileCoverageFailure(GetDisplayPath(file), ex.Message));
+                continue;
+            }
+
+            var suppressed = functions.Where(f => f.IsSuppressed).ToList();
+            var undocumented = functions.Where(f => !f.HasComment && !f.IsSuppressed).ToList();
+            coverage.Add(new FileCoverage(GetDisplayPath(file), functions.Count - undocumented.Count - suppressed.Count, undocumented)
+            {
+                SuppressedFunctions = suppressed,
+                RepositoryPath = repositoryRoot == null ? null : GetRelativePath(repositoryRoot, file)
+            });
+        }
+
+        return new CoverageReport(GetDisplayPath(fullPath), coverage) { Failures = failures };
+    }
+
+    /// <summary>
+    /// The nearest directory at or above <paramref name="directoryPath"/> that holds <c>.git</c>, or null.
+    /// </summary>
+    private static string? FindRepositoryRoot(string directoryPath)
+    {
+        for (var current = directoryPath; current != null; current = Path.GetDirectoryName(current))
+        {
+            var git = Path.Combine(current, ".git");
+            if (Directory.Exists(git) || File.Exists(git))
+                return current;
+        }
+
+        return null;
+    }
+
+    private static string GetDisplayPath(string filePath) => GetRelativePath(Directory.GetCurrentDirectory(), filePath);
+
+    private static string GetRelativePath(string directoryPath, string filePath) =>
+        Path.GetRelativePath(directoryPath, filePath).Replace(Path.DirectorySeparatorChar, '/');
+}
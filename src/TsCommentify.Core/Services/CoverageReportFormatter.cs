@@ -0,0 +1,280 @@
+using System.Globalization;
+using System.Net;
+using System.Text;
+using System.Text.Encodings.Web;
+using System.Text.Json;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public class CoverageReportFormatter : ICoverageReportFormatter
+{
+    private const string RuleId = "TSC001";
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        WriteIndented = true,
+        Encoder = JavaScriptEncoder.UnsafeRelaxedJsonEscaping
+    };
+
+    public string Format(CoverageReport report, ReportFormat format) => format switch
+    {
+        ReportFormat.Json => FormatJson(report),
+        ReportFormat.Html => FormatHtml(report),
+        ReportFormat.Markdown => FormatMarkdown(report),
+        ReportFormat.Sarif => FormatSarif(report),
+        _ => throw new ArgumentOutOfRangeException(nameof(format), format, "Unsupported report format")
+    };
+
+    private static string FormatJson(CoverageReport report)
+    {
+        var json = new
+        {
+            root = report.RootPath,
+            summary = new
+            {
+                total = report.Total,
+                documented = report.Documented,
+                undocumented = report.Undocumented,
+                suppressed = report.Suppressed,
+                coverage = report.Coverage
+            },
+            directories = report.Directories.Select(d => new
+            {
+                path = d.Path,
+                total = d.Total,
+                documented = d.Documented,
+                undocumented = d.Undocumented,
+                suppressed = d.Suppressed,
+                coverage = d.Coverage
+            }),
+            files = report.Files.Select(f => new
+            {
+                path = f.Path,
+                total = f.Total,
+                documented = f.Documented,
+                undocumented = f.Undocumented,
+                suppressed = f.Suppressed,
+                coverage = f.Coverage,
+                undocumentedFunctions = f.UndocumentedFunctions.Select(u => new { name = u.Name, line = u.LineNumber }),
+                suppressedFunctions = f.SuppressedFunctions.Select(u => new { name = u.Name, line = u.LineNumber })
+            }),
+            failures = report.Failures.Select(f => new { path = f.Path, error = f.Error })
+        };
+
+        return JsonSerializer.Serialize(json, JsonOptions) + Environment.NewLine;
+    }
+
+    private static string FormatMarkdown(CoverageReport report)
+    {
+        var markdown = new StringBuilder();
+        markdown.AppendLine("## Documentation coverage");
+        markdown.AppendLine();
+        markdown.AppendLine($"**{Percent(report.Coverage)}** of functions documented ({report.Documented} of {report.Total}{SuppressedNote(report)})");
+        markdown.AppendLine();
+
+        if (report.Failures.Count > 0)
+        {
+            markdown.AppendLine($"{report.Failures.Count} files could not be read:");
+            markdown.AppendLine();
+            foreach (var failure in report.Failures)
+            {
+                markdown.AppendLine($"- `{failure.Path}`: {failure.Error}");
+            }
+
+            markdown.AppendLine();
+        }
+
+        // The suppressed column only appears once directives are in use, to keep PR comments compact
+        var showSuppressed = report.Suppressed > 0;
+        markdown.AppendLine(showSuppressed ? "| Directory | Documented | Total | Suppressed | Coverage |" : "| Directory | Documented | Total | Coverage |");
+        markdown.AppendLine(showSuppressed ? "|-----------|-----------:|------:|-----------:|---------:|" : "|-----------|-----------:|------:|---------:|");
+
+        foreach (var directory in report.Directories)
+        {
+            var suppressed = showSuppressed ? $" {directory.Suppressed} |" : string.Empty;
+            markdown.AppendLine($"| `{directory.Path}` | {directory.Documented} | {directory.Total} |{suppressed} {Percent(directory.Coverage)} |");
+        }
+
+        // Collapsed so a large backlog doesn't bury the summary in a PR comment
+        if (report.Undocumented > 0)
+        {
+            markdown.AppendLine();
+            markdown.AppendLine("<details>");
+            markdown.AppendLine($"<summary>Undocumented functions ({report.Undocumented})</summary>");
+            markdown.AppendLine();
+
+            foreach (var file in report.Files)
+            {
+                foreach (var function in file.UndocumentedFunctions)
+                {
+                    markdown.AppendLine($"- `{file.Path}:{function.LineNumber}` `{function.Name}`");
+                }
+            }
+
+            markdown.AppendLine();
+            markdown.AppendLine("</details>");
+        }
+
+        return markdown.ToString();
+    }
+
+    private static string FormatHtml(CoverageReport report)
+    {
+        static string Encode(string text) => WebUtility.HtmlEncode(text);
+
+        var html = new StringBuilder();
+        html.AppendLine("<!DOCTYPE html>");
+        html.AppendLine("<html lang=\"en\">");
+        html.AppendLine("<head>");
+        html.AppendLine("<meta charset=\"utf-8\">");
+        html.AppendLine($"<title>Documentation coverage - {Encode(report.RootPath)}</title>");
+        html.AppendLine("<style>");
+        html.AppendLine("body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }");
+        html.AppendLine("table { border-collapse: collapse; margin-bottom: 2rem; }");
+        html.AppendLine("th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.8rem; text-align: left; }");
+        html.AppendLine("td.number { text-align: right; }");
+        html.AppendLine("meter { width: 8rem; }");
+        html.AppendLine("ul { margin: 0; padding-left: 1.2rem; }");
+        html.AppendLine("</style>");
+        html.AppendLine("</head>");
+        html.AppendLine("<body>");
+        html.AppendLine($"<h1>Documentation coverage of <code>{Encode(report.RootPath)}</code></h1>");
+        html.AppendLine($"<p><strong>{Percent(report.Coverage)}</strong> of functions documented ({report.Documented} of {report.Total}{SuppressedNote(report)}).</p>");
+
+        if (report.Failures.Count > 0)
+        {
+            html.AppendLine("<h2>Files that could not be read</h2>");
+            html.AppendLine("<ul>");
+            foreach (var failure in report.Failures)
+            {
+                html.AppendLine($"<li><code>{Encode(failure.Path)}</code>: {Encode(failure.Error)}</li>");
+            }
+            html.AppendLine("</ul>");
+        }
+
+        html.AppendLine("<h2>Directories</h2>");
+        html.AppendLine("<table>");
+        html.AppendLine("<tr><th>Directory</th><th>Documented</th><th>Total</th><th>Suppressed</th><th>Coverage</th></tr>");
+        foreach (var directory in report.Directories)
+        {
+            html.AppendLine($"<tr><td><code>{Encode(directory.Path)}</code></td><td class=\"number\">{directory.Documented}</td>"
+                + $"<td class=\"number\">{directory.Total}</td><td class=\"number\">{directory.Suppressed}</td><td>{Meter(directory.Coverage)}</td></tr>");
+        }
+        html.AppendLine("</table>");
+
+        html.AppendLine("<h2>Files</h2>");
+        html.AppendLine("<table>");
+        html.AppendLine("<tr><th>File</th><th>Documented</th><th>Total</th><th>Suppressed</th><th>Coverage</th><th>Undocumented functions</th></tr>");
+        foreach (var file in report.Files)
+        {
+            var functions = string.Concat(file.UndocumentedFunctions.Select(f =>
+                $"<li><code>{Encode(f.Name)}</code> (line {f.LineNumber})</li>"));
+
+            html.AppendLine($"<tr><td><code>{Encode(file.Path)}</code></td><td class=\"number\">{file.Documented}</td>"
+                + $"<td class=\"number\">{file.Total}</td><td class=\"number\">{file.Suppressed}</td><td>{Meter(file.Coverage)}</td>"
+                + $"<td>{(functions.Length > 0 ? $"<ul>{functions}</ul>" : string.Empty)}</td></tr>");
+        }
+        html.AppendLine("</table>");
+
+        html.AppendLine("</body>");
+        html.AppendLine("</html>");
+        return html.ToString();
+    }
+
+    private static string FormatSarif(CoverageReport report)
+    {
+        var sarif = new Dictionary<string, object>
+        {
+            ["$schema"] = "https://json.schemastore.org/sarif-2.1.0.json",
+            ["version"] = "2.1.0",
+            ["runs"] = new[]
+            {
+                new
+                {
+                    tool = new
+                    {
+                        driver = new
+                        {
+                            name = "TsCommentify",
+                            informationUri = "https://github.com/QuinntyneBrown/TsCommentify",
+                            rules = new[]
+                            {
+                                new
+                                {
+                                    id = RuleId,
+                                    name = "UndocumentedFunction",
+                                    shortDescription = new { text = "Function has no documentation comment" },
+                                    defaultConfiguration = new { level = "warning" }
+                                }
+                            }
+                        }
+                    },
+                    // Files that could not be read make the run unsuccessful without being results themselves
+                    invocations = new[]
+                    {
+                        new
+                        {
+                            executionSuccessful = report.Failures.Count == 0,
+                            toolExecutionNotifications = report.Failures.Select(failure => new
+                            {
+                                level = "error",
+                                message = new { text = $"Could not read {failure.Path}: {failure.Error}" }
+                            })
+                        }
+                    },
+                    // Suppressed functions are reported as suppressed in source, so code scanning can show them as dismissed
+                    results = report.Files.SelectMany(file => file.UndocumentedFunctions
+                        .Select(function => SarifResult(file, function, suppressed: false))
+                        .Concat(file.SuppressedFunctions.Select(function => SarifResult(file, function, suppressed: true))))
+                }
+            }
+        };
+
+        return JsonSerializer.Serialize(sarif, JsonOptions) + Environment.NewLine;
+    }
+
+    private static Dictionary<string, object> SarifResult(FileCoverage file, FunctionInfo function, bool suppressed)
+    {
+        var result = new Dictionary<string, object>
+        {
+            ["ruleId"] = RuleId,
+            ["level"] = "warning",
+            ["message"] = new { text = $"Function '{function.Name}' has no documentation comment." },
+            ["locations"] = new[]
+            {
+                new
+                {
+                    physicalLocation = new
+                    {
+                        artifactLocation = GetArtifactLocation(file),
+                        region = new { startLine = function.LineNumber }
+                    }
+                }
+            }
+        };
+
+        if (suppressed)
+        {
+            result["suppressions"] = new[] { new { kind = "inSource" } };
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Locates a file relative to the repository root, which code scanning knows as <c>%SRCROOT%</c>. Outside
+    /// a repository there is no such root, so the path relative to the current directory is left without one.
+    /// </summary>
+    private static Dictionary<string, string> GetArtifactLocation(FileCoverage file) => file.RepositoryPath != null
+        ? new Dictionary<string, string> { ["uri"] = file.RepositoryPath, ["uriBaseId"] = "%SRCROOT%" }
+        : new Dictionary<string, string> { ["uri"] = file.Path };
+
+    private static string SuppressedNote(CoverageReport report) =>
+        report.Suppressed > 0 ? $", {report.Suppressed} suppressed" : string.Empty;
+
+    private static string Percent(double coverage) => $"{coverage.ToString("0.#", CultureInfo.InvariantCulture)}%";
+
+    private static string Meter(double coverage) =>
+        $"<meter min=\"0\" max=\"100\" low=\"50\" high=\"80\" optimum=\"100\" value=\"{coverage.ToString(CultureInfo.InvariantCulture)}\"></meter> {Percent(coverage)}";
+}
@@ -0,0 +1,361 @@
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Turns function names and types into sentences. The summary comes from a dictionary of leading
+/// verbs (<c>fetchUsers</c> is "Fetches the users."), and the return description from the return
+/// type (<c>Promise&lt;User[]&gt;</c> is "A promise resolving to the list of users").
+/// </summary>
+public class DescriptionRules
+{
+    /// <summary>
+    /// The built-in summary templates by leading verb. <c>{object}</c> is the rest of the name with an
+    /// article ("the user name"), or the first parameter when the name is just the verb; <c>{words}</c>
+    /// is the rest of the name without one. A template whose placeholder would be empty is not used.
+    /// </summary>
+    public static readonly IReadOnlyDictionary<string, string> DefaultVerbs = new Dictionary<string, string>
+    {
+        ["get"] = "Gets {object}.",
+        ["fetch"] = "Fetches {object}.",
+        ["load"] = "Loads {object}.",
+        ["find"] = "Finds {object}.",
+        ["set"] = "Sets {object}.",
+        ["is"] = "Checks whether it is {words}.",
+        ["has"] = "Checks whether it has {words}.",
+        ["can"] = "Checks whether it can {words}.",
+        ["should"] = "Checks whether it should {words}.",
+        ["handle"] = "Handles {object}.",
+        ["on"] = "Handles the {words} event.",
+        ["create"] = "Creates a new {words}.",
+        ["build"] = "Builds {object}.",
+        ["validate"] = "Validates {object}.",
+        ["to"] = "Converts to {words}.",
+        ["from"] = "Creates an instance from {words}."
+    };
+
+    // Verbs whose boolean result answers the question asked by the name
+    private static readonly HashSet<string> PredicateVerbs = new(StringComparer.OrdinalIgnoreCase) { "is", "has", "can", "should" };
+
+    // Verbs whose result is the thing named after the verb
+    private static readonly HashSet<string> AccessorVerbs = new(StringComparer.OrdinalIgnoreCase) { "get", "fetch", "load", "find" };
+
+    private static readonly HashSet<string> Primitives = new() { "string", "number", "bigint", "object", "symbol" };
+
+    private static readonly Regex GenericType = new(@"^([\w$.]+)<(.+)>$", RegexOptions.Singleline);
+
+    // Prefixed type parameter names: TKey, TValue
+    private static readonly Regex TypeParameterName = new(@"^T[A-Z][a-z]\w*$");
+
+    private readonly Dictionary<string, string> _verbs;
+
+    public DescriptionRules()
+        : this(new Dictionary<string, string>())
+    {
+    }
+
+    /// <summary>
+    /// Creates the rules with <paramref name="verbs"/> added to, or replacing, the built-in verbs.
+    /// </summary>
+    public DescriptionRules(IEnumerable<KeyValuePair<string, string>> verbs)
+    {
+        _verbs = new Dictionary<string, string>(DefaultVerbs, StringComparer.OrdinalIgnoreCase);
+        foreach (var (verb, template) in verbs)
+        {
+            _verbs[verb] = template;
+        }
+    }
+
+    /// <summary>
+    /// Returns the summary for a function whose name starts with a known verb, or null.
+    /// </summary>
+    public string? DescribeSummary(FunctionInfo function)
+    {
+        var (verb, words) = SplitName(function);
+        if (verb == null || !_verbs.TryGetValue(verb, out var template))
+            return null;
+
+        // "validate(form)" validates the form, but "find(id)" doesn't find the id
+        var subject = words.Length > 0
+            ? words
+            : !AccessorVerbs.Contains(verb) && function.Parameters.Count > 0 && function.Parameters[0].Kind == ParameterKind.Identifier
+                ? ToWords(function.Parameters[0].Name)
+                : string.Empty;
+
+        if ((template.Contains("{words}") && words.Length == 0) || (template.Contains("{object}") && subject.Length == 0))
+            return null;
+
+        return template
+            .Replace("{object}", "the " + subject)
+            .Replace("{words}", words);
+    }
+
+    /// <summary>
+    /// Describes what a function returns, from its declared or inferred return type and, for accessors and
+    /// predicates, its name.
+    /// </summary>
+    public string DescribeReturns(FunctionInfo function)
+    {
+        var (verb, words) = SplitName(function);
+        var returnType = function.ReturnType ?? function.InferredReturnType ?? string.Empty;
+
+        if (returnType == "boolean")
+        {
+            return verb != null && PredicateVerbs.Contains(verb) && words.Length > 0
+                ? $"True if it {verb.ToLowerInvariant()} {words}, false otherwise"
+                : "True if successful, false otherwise";
+        }
+
+        // "getUserName(): string" returns the user name, not just a string
+        if (verb != null && AccessorVerbs.Contains(verb) && words.Length > 0 && Primitives.Contains(returnType))
+            return $"The {words}";
+
+        return Capitalize(DescribeType(returnType));
+    }
+
+    /// <summary>
+    /// Describes the values a generator yields, from the element type of its return type.
+    /// </summary>
+    public string DescribeYields(FunctionInfo function)
+    {
+        var yieldType = GetYieldType(function.ReturnType);
+        return yieldType == "*" ? "The yielded values" : Capitalize(DescribeType(yieldType));
+    }
+
+    /// <summary>
+    /// Describes a type parameter by what it types: <c>T</c> in <c>items: T[]</c> is "The element type of the
+    /// items", <c>TKey</c> without such a use is "The key type".
+    /// </summary>
+    public string DescribeTypeParameter(FunctionInfo function, TypeParameterInfo typeParameter)
+    {
+        var name = typeParameter.Name;
+
+        var parameter = function.Parameters.FirstOrDefault(p => p.Kind == ParameterKind.Identifier && p.Type == name);
+        if (parameter != null)
+            return $"The type of the {ToWords(parameter.Name)}";
+
+        var list = function.Parameters.FirstOrDefault(p => p.Kind == ParameterKind.Identifier
+            && (p.Type == name + "[]" || p.Type == $"Array<{name}>" || p.Type == $"ReadonlyArray<{name}>"));
+        if (list != null)
+            return $"The element type of the {ToWords(list.Name)}";
+
+        if (function.ReturnType == name || function.ReturnType == $"Promise<{name}>")
+            return "The type of the result";
+
+        // TKey and TValue name what they type, T and U don't
+        var words = ToWords(TypeParameterName.IsMatch(name) ? name.Substring(1) : name);
+        return name.Length > 1 ? $"The {words} type" : "The type parameter";
+    }
+
+    /// <summary>
+    /// Returns the type a generator yields: <c>T</c> for <c>Generator&lt;T, ...&gt;</c>, <c>AsyncGenerator&lt;T&gt;</c>
+    /// and the iterable and iterator types, or <c>*</c> when the return type doesn't say.
+    /// </summary>
+    public static string GetYieldType(string? returnType)
+    {
+        var generic = GenericType.Match(returnType?.Trim() ?? string.Empty);
+        if (!generic.Success || !IsBalanced(generic.Groups[2].Value))
+            return "*";
+
+        return generic.Groups[1].Value switch
+        {
+            "Generator" or "AsyncGenerator" or "Iterable" or "AsyncIterable" or "IterableIterator"
+                or "AsyncIterableIterator" or "Iterator" or "AsyncIterator" => SplitTopLevel(generic.Groups[2].Value, ',')[0],
+            _ => "*"
+        };
+    }
+
+    /// <summary>
+    /// Describes a type as a noun phrase that starts in lowercase: <c>User[]</c> is "the list of users",
+    /// <c>Observable&lt;User&gt;</c> is "an observable emitting the user".
+    /// </summary>
+    public static string DescribeType(string type)
+    {
+        type = Unwrap(type.Trim());
+
+        switch (type)
+        {
+            case "void":
+            case "undefined":
+                return "no return value";
+            case "Promise":
+            case "Promise<void>":
+                return "a promise that resolves when the operation is complete";
+            case "boolean":
+                return "true if successful, false otherwise";
+            case "any":
+            case "unknown":
+            case "":
+                return "the result of the operation";
+        }
+
+        var union = SplitTopLevel(type, '|');
+        if (union.Count > 1)
+        {
+            var present = union.Where(t => t != "undefined" && t != "null").ToList();
+            var absent = union.FirstOrDefault(t => t == "undefined" || t == "null");
+
+            var phrase = present.Count == 0
+                ? "nothing"
+                : string.Join(" or ", present.Select(DescribeType));
+
+            return absent == null || present.Count == 0 ? phrase : $"{phrase}, or {absent} if there is none";
+        }
+
+        if (type.EndsWith("[]"))
+            return "the list of " + Plural(DescribeElement(type.Substring(0, type.Length - 2)));
+
+        var generic = GenericType.Match(type);
+        if (generic.Success && IsBalanced(generic.Groups[2].Value))
+        {
+            var arguments = SplitTopLevel(generic.Groups[2].Value, ',');
+            switch (generic.Groups[1].Value)
+            {
+                case "Promise" when arguments.Count == 1:
+                    return "a promise resolving to " + DescribeType(arguments[0]);
+                case "Observable" when arguments.Count == 1:
+                    return "an observable emitting " + DescribeType(arguments[0]);
+                case "Array" or "ReadonlyArray" when arguments.Count == 1:
+                    return "the list of " + Plural(DescribeElement(arguments[0]));
+                case "Set" or "ReadonlySet" when arguments.Count == 1:
+                    return "the set of " + Plural(DescribeElement(arguments[0]));
+                case "Map" or "ReadonlyMap" or "Record" when arguments.Count == 2:
+                    return $"the map of {DescribeElement(arguments[0])} to {DescribeElement(arguments[1])}";
+                case "Generator" or "AsyncGenerator" or "Iterable" or "AsyncIterable" or "IterableIterator"
+                    or "AsyncIterableIterator" or "Iterator" or "AsyncIterator":
+                    return "an iterator over the " + Plural(DescribeElement(arguments[0]));
+                case "Partial" or "Readonly" or "Required" when arguments.Count == 1:
+                    return DescribeType(arguments[0]);
+            }
+        }
+
+        if (type.StartsWith('\'') || type.StartsWith('"') || type.StartsWith('`'))
+            return type;
+
+        if (Primitives.Contains(type))
+            return "the resulting " + type;
+
+        // A single type parameter such as T says nothing about the value, TValue does after its prefix
+        if (Regex.IsMatch(type, @"^[A-Z]$"))
+            return "the result";
+
+        if (TypeParameterName.IsMatch(type))
+            return "the " + ToWords(type.Substring(1));
+
+        return Regex.IsMatch(type, @"^[A-Za-z_$][\w$.]*$")
+            ? "the " + ToWords(type.Substring(type.LastIndexOf('.') + 1))
+            : "the result of the operation";
+    }
+
+    /// <summary>
+    /// Splits a camelCase identifier into words, lowercasing all but acronyms: <c>parseHTMLContent</c>
+    /// is "parse HTML content".
+    /// </summary>
+    public static string ToWords(string identifier)
+    {
+        var words = HeuristicDescriptionProvider.ConvertToReadable(identifier.Trim('_', '$', '#'))
+            .Split(' ', StringSplitOptions.RemoveEmptyEntries)
+            .Select(w => w.Length > 1 && w.All(char.IsUpper) ? w : w.ToLowerInvariant());
+
+        return string.Join(' ', words);
+    }
+
+    // Splits "getUserName" into the verb "get" and the words "user name". Accessors use their keyword
+    // as the verb, so "get userName()" reads the same. PascalCase names have no verb.
+    private static (string? Verb, string Words) SplitName(FunctionInfo function)
+    {
+        var accessor = function.Modifiers.FirstOrDefault(m => m is "get" or "set");
+        if (accessor != null)
+            return (accessor, ToWords(function.Name));
+
+        var name = function.Name.TrimStart('#');
+        if (name.Length == 0 || !char.IsLower(name[0]))
+            return (null, string.Empty);
+
+        var words = ToWords(name).Split(' ', 2);
+        return (words[0], words.Length > 1 ? words[1] : string.Empty);
+    }
+
+    private static string DescribeElement(string type)
+    {
+        type = Unwrap(type.Trim());
+        if (Primitives.Contains(type) || type == "boolean")
+            return type;
+
+        if (Regex.IsMatch(type, @"^[A-Z]$"))
+            return "value";
+
+        if (TypeParameterName.IsMatch(type))
+            return ToWords(type.Substring(1));
+
+        return Regex.IsMatch(type, @"^[A-Za-z_$][\w$.]*$")
+            ? ToWords(type.Substring(type.LastIndexOf('.') + 1))
+            : "value";
+    }
+
+    private static string Plural(string noun)
+    {
+        if (Regex.IsMatch(noun, "[^aeiou]y$"))
+            return noun.Substring(0, noun.Length - 1) + "ies";
+
+        if (Regex.IsMatch(noun, "(s|x|z|ch|sh)$"))
+            return noun + "es";
+
+        return noun + "s";
+    }
+
+    private static string Unwrap(string type)
+    {
+        while (type.StartsWith('(') && type.EndsWith(')') && IsBalanced(type.Substring(1, type.Length - 2)))
+        {
+            type = type.Substring(1, type.Length - 2).Trim();
+        }
+
+        return type;
+    }
+
+    private static bool IsBalanced(string text)
+    {
+        var depth = 0;
+        foreach (var ch in text)
+        {
+            if (ch is '<' or '(' or '[' or '{')
+                depth++;
+            else if (ch is '>' or ')' or ']' or '}')
+                depth--;
+
+            if (depth < 0)
+                return false;
+        }
+
+        return depth == 0;
+    }
+
+    // Splits at separators outside of brackets; "=>" is not a closing bracket
+    internal static List<string> SplitTopLevel(string text, char separator)
+    {
+        var parts = new List<string>();
+        var depth = 0;
+        var start = 0;
+
+        for (int i = 0; i < text.Length; i++)
+        {
+            var ch = text[i];
+            if (ch is '<' or '(' or '[' or '{')
+                depth++;
+            else if ((ch is ')' or ']' or '}') || (ch == '>' && (i == 0 || text[i - 1] != '=')))
+                depth--;
+            else if (ch == separator && depth == 0)
+            {
+                parts.Add(text.Substring(start, i - start).Trim());
+                start = i + 1;
+            }
+        }
+
+        parts.Add(text.Substring(start).Trim());
+        return parts.Where(p => p.Length > 0).ToList();
+    }
+
+    private static string Capitalize(string text) =>
+        text.Length == 0 ? text : char.ToUpperInvariant(text[0]) + text.Substring(1);
+}
@@ -0,0 +1,361 @@
+using System.Collections.Concurrent;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public class FileProcessor : IFileProcessor, IDisposable
+{
+    private readonly ICommentifier _commentifier;
+    private readonly IGitChangeProvider _gitChangeProvider;
+    private readonly ILogger<FileProcessor> _logger;
+    private readonly IConfiguration _configuration;
+    private readonly ProjectConfiguration? _project;
+    private readonly ILoggerFactory? _loggerFactory;
+    private readonly FileProcessorOptions _options;
+    private readonly ConcurrentDictionary<IConfiguration, FileProcessorOptions> _directoryOptions = new(ReferenceEqualityComparer.Instance);
+    private readonly ConcurrentDictionary<IConfiguration, Lazy<ServiceProvider>> _projectServices = new(ReferenceEqualityComparer.Instance);
+    private IReadOnlyDictionary<string, ChangedLines>? _changes;
+
+    /// <summary>
+    /// With a <paramref name="project"/>, the <c>tscommentify.json</c> files of each file apply to it, and
+    /// the files whose configuration differs from <paramref name="configuration"/> are commented with
+    /// services built from their own configuration. The walk reads the extensions, excludes and ignore
+    /// files of each directory from its own settings too; only <see cref="FileProcessorOptions.Mode"/>,
+    /// <see cref="FileProcessorOptions.Since"/>, <see cref="FileProcessorOptions.Staged"/> and
+    /// <see cref="FileProcessorOptions.MaxDegreeOfParallelism"/> are taken from <paramref name="configuration"/> for the whole run.
+    /// </summary>
+    public FileProcessor(
+        ICommentifier commentifier,
+        IGitChangeProvider gitChangeProvider,
+        ILogger<FileProcessor> logger,
+        IConfiguration configuration,
+        ProjectConfiguration? project = null,
+        ILoggerFactory? loggerFactory = null)
+    {
+        _commentifier = commentifier;
+        _gitChangeProvider = gitChangeProvider;
+        _logger = logger;
+        _configuration = configuration;
+        _project = project;
+        _loggerFactory = loggerFactory;
+        _options = CreateOptions(configuration, ignorePatternsConfigured: false);
+    }
+
+    public async Task<FileProcessingResult> ProcessFileAsync(string filePath, CancellationToken cancellationToken = default)
+    {
+        if (!File.Exists(filePath))
+        {
+            _logger.LogWarning("File not found: {FilePath}", filePath);
+            return FileProcessingResult.Skipped(filePath);
+        }
+
+        if (!HasSourceExtension(filePath))
+        {
+            _logger.LogWarning("Not a source file: {FilePath}", filePath);
+            return FileProcessingResult.Skipped(filePath);
+        }
+
+        ChangedLines? changedLines = null;
+        if (IsIncremental)
+        {
+            var changes = await GetChangesAsync(Path.GetDirectoryName(Path.GetFullPath(filePath))!);
+            if (!changes.TryGetValue(Path.GetFullPath(filePath), out changedLines))
+            {
+                _logger.LogInformation("Skipping unchanged file: {FilePath}", filePath);
+                return FileProcessingResult.Skipped(filePath);
+            }
+        }
+
+        _logger.LogInformation("Processing file: {FilePath}", filePath);
+
+        var source = await SourceFile.ReadAsync(filePath, cancellationToken);
+        var result = await GetCommentifier(filePath).CommentifyAsync(filePath, source.Text, changedLines, cancellationToken);
+        var undocumented = result.UndocumentedDeclarations.ToList();
+        var updated = result.UpdatedDeclarations.ToList();
+
+        if (result.Declarations.Count > 0 && result.Declarations.All(d => d.IsSuppressed))
+        {
+            _logger.LogInformation("Skipping suppressed file: {FilePath}", filePath);
+            return FileProcessingResult.Skipped(filePath);
+        }
+
+        if (!result.HasChanges)
+        {
+            if (GetFileOptions(filePath).UpdateExisting)
+                _logger.LogInformation("All declarations in {FilePath} have up-to-date comments", filePath);
+            else
+                _logger.LogInformation("All declarations in {FilePath} already have comments", filePath);
+
+            return FileProcessingResult.Unchanged(filePath);
+        }
+
+        _logger.LogInformation("Found {Count} declarations without comments and {StaleCount} stale comments in {FilePath}", 
+            undocumented.Count, updated.Count, filePath);
+
+        if (_options.Mode != ProcessingMode.Write)
+        {
+            var newLines = SourceFile.FromText(filePath, result.Text).GetLines();
+            var diff = UnifiedDiff.Create(GetDisplayPath(filePath), source.GetLines(), newLines);
+            return new FileProcessingResult(filePath, undocumented, diff, Modified: false) { UpdatedDeclarations = updated };
+        }
+
+        // Not cancellable: the file is replaced in one step once the new content is complete. The text is
+        // written as the commentifier built it, so lines it didn't touch keep their own line endings
+        await source.WriteAsync(result.Text, GetFileOptions(filePath).Backup);
+        
+        _logger.LogInformation("Successfully updated {FilePath}", filePath);
+        return new FileProcessingResult(filePath, undocumented, null, Modified: true) { UpdatedDeclarations = updated };
+    }
+
+    public async Task<IReadOnlyList<FileProcessingResult>> ProcessDirectoryAsync(
+        string directoryPath,
+        CancellationToken cancellationToken = default)
+    {
+        if (!Directory.Exists(directoryPath))
+        {
+            _logger.LogError("Directory not found: {DirectoryPath}", directoryPath);
+            return new List<FileProcessingResult>();
+        }
+
+        _logger.LogInformation("Processing directory: {DirectoryPath}", directoryPath);
+
+        var tsFiles = GetSourceFiles(directoryPath);
+        var changes = IsIncremental ? await GetChangesAsync(directoryPath) : null;
+
+        // Results keep the order of the files, whichever finishes first
+        var results = new FileProcessingResult?[tsFiles.Count];
+        var pending = new List<int>();
+        for (int i = 0; i < tsFiles.Count; i++)
+        {
+            if (changes != null && !changes.ContainsKey(Path.GetFullPath(tsFiles[i])))
+                results[i] = FileProcessingResult.Skipped(tsFiles[i]);
+            else
+                pending.Add(i);
+        }
+
+        _logger.LogInformation("Found {Count} source files to process", pending.Count);
+
+        var parallelOptions = new ParallelOptions
+        {
+            MaxDegreeOfParallelism = _options.MaxDegreeOfParallelism > 0 ? _options.MaxDegreeOfParallelism : Environment.ProcessorCount,
+            CancellationToken = cancellationToken
+        };
+
+        try
+        {
+            await Parallel.ForEachAsync(pending, parallelOptions, async (index, token) =>
+            {
+                results[index] = await ProcessFileSafelyAsync(tsFiles[index], token);
+            });
+
+            _logger.LogInformation("Directory processing complete");
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogWarning("Processing cancelled; {Count} files were not processed", results.Count(r => r == null));
+        }
+
+        return results.OfType<FileProcessingResult>().ToList();
+    }
+
+    public IReadOnlyList<string> GetSourceFiles(string directoryPath)
+    {
+        var files = new List<string>();
+        CollectSourceFiles(directoryPath, ForDirectory(CreateIgnoreRules(directoryPath), directoryPath), files);
+        return files;
+    }
+
+    public bool IsSourceFile(string directoryPath, string filePath)
+    {
+        if (!HasSourceExtension(filePath))
+            return false;
+
+        // The directories between the root and the file are checked like a walk would: each one can be
+        // excluded itself, and its ignore files apply to what is below it
+        var rules = ForDirectory(CreateIgnoreRules(directoryPath), directoryPath);
+        var relativePath = Path.GetRelativePath(directoryPath, filePath);
+        var current = directoryPath;
+
+        foreach (var segment in relativePath.Split(Path.DirectorySeparatorChar).SkipLast(1))
+        {
+            current = Path.Combine(current, segment);
+            if (rules.IsIgnored(current, isDirectory: true))
+                return false;
+
+            rules = ForDirectory(rules, current);
+        }
+
+        return !IsIgnored(rules, filePath, isDirectory: false);
+    }
+
+    public void Dispose()
+    {
+        foreach (var services in _projectServices.Values.Where(s => s.IsValueCreated))
+            services.Value.Dispose();
+    }
+
+    /// <summary>
+    /// Reports a file that cannot be read or written in its result, so the other files are still processed.
+    /// </summary>
+    private async Task<FileProcessingResult> ProcessFileSafelyAsync(string filePath, CancellationToken cancellationToken)
+    {
+        try
+        {
+            return await ProcessFileAsync(filePath, cancellationToken);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            _logger.LogError("Could not process {FilePath}: {Message}", filePath, ex.Message);
+            return FileProcessingResult.Failed(filePath, ex.Message);
+        }
+    }
+
+    private bool IsIncremental => _options.Since != null || _options.Staged;
+
+    /// <summary>
+    /// Reads the changed files once per run, which covers a single file or directory.
+    /// </summary>
+    private async Task<IReadOnlyDictionary<string, ChangedLines>> GetChangesAsync(string directoryPath)
+    {
+        return _changes ??= await _gitChangeProvider.GetChangesAsync(directoryPath, _options.Since, _options.Staged);
+    }
+
+    private static FileProcessorOptions CreateOptions(IConfiguration configuration, bool ignorePatternsConfigured)
+    {
+        var options = (configuration.GetSection(FileProcessorOptions.SectionName).Get<FileProcessorOptions>()
+            ?? new FileProcessorOptions()).ApplyDefaults(ignorePatternsConfigured);
+
+        // Extensions may be configured without their dot: "vue"
+        options.Extensions = options.Extensions.Select(e => e.StartsWith('.') ? e : "." + e).ToList();
+        return options;
+    }
+
+    /// <summary>
+    /// The options for the contents of a directory, from the <c>tscommentify.json</c> files that apply to it.
+    /// </summary>
+    private FileProcessorOptions GetOptions(string directoryPath)
+    {
+        var configuration = _project?.GetConfiguration(directoryPath);
+        if (configuration == null)
+            return _options;
+
+        // Directories with the same configuration files get the same configuration instance
+        return _directoryOptions.GetOrAdd(configuration, c => CreateOptions(c, _project!.HasIgnorePatterns(directoryPath)));
+    }
+
+    private FileProcessorOptions GetFileOptions(string filePath) =>
+        GetOptions(Path.GetDirectoryName(Path.GetFullPath(filePath))!);
+
+    private bool HasSourceExtension(string filePath) =>
+        GetFileOptions(filePath).Extensions.Contains(Path.GetExtension(filePath), StringComparer.OrdinalIgnoreCase);
+
+    private static IEnumerable<string> GetIgnoreFileNames(FileProcessorOptions options) => options.RespectGitIgnore
+        ? new[] { IgnoreRules.GitIgnoreFileName, IgnoreRules.IgnoreFileName }
+        : new[] { IgnoreRules.IgnoreFileName };
+
+    /// <summary>
+    /// The rules at the root of a walk. Like in git, the ignore files and the <c>tscommentify.json</c> ignore
+    /// patterns of the directories above it apply too, up to the repository root.
+    /// </summary>
+    private IgnoreRules CreateIgnoreRules(string directoryPath)
+    {
+        var rules = new IgnoreRules(directoryPath, GetOptions(directoryPath).DefaultExcludes, _options.IgnorePatterns);
+
+        foreach (var ancestor in GetAncestorDirectories(Path.TrimEndingDirectorySeparator(Path.GetFullPath(directoryPath))))
+            rules = rules.ForDirectory(ancestor, GetIgnoreFileNames(GetOptions(ancestor)), _project?.GetIgnorePatterns(ancestor));
+
+        return rules;
+    }
+
+    /// <summary>
+    /// The directories above a directory, outermost first, up to the root of its git repository (or of
+    /// the file system outside one), like <see cref="ProjectConfiguration.FindFiles"/> looks for settings.
+    /// </summary>
+    private static List<string> GetAncestorDirectories(string directoryPath)
+    {
+        var directories = new List<string>();
+        for (var current = directoryPath; !IsRepositoryRoot(current) && Path.GetDirectoryName(current) is { } parent; current = parent)
+            directories.Add(parent);
+
+        directories.Reverse();
+        return directories;
+    }
+
+    private static bool IsRepositoryRoot(string directoryPath)
+    {
+        var git = Path.Combine(directoryPath, ".git");
+        return Directory.Exists(git) || File.Exists(git);
+    }
+
+    /// <summary>
+    /// The rules for the contents of a directory. A directory whose settings change the default excludes
+    /// replaces those of its parent for the subtree.
+    /// </summary>
+    private IgnoreRules ForDirectory(IgnoreRules rules, string directoryPath)
+    {
+        var options = GetOptions(directoryPath);
+        var parentOptions = GetOptions(Path.GetDirectoryName(Path.GetFullPath(directoryPath)) ?? directoryPath);
+        if (!options.DefaultExcludes.SequenceEqual(parentOptions.DefaultExcludes))
+            rules = rules.WithDefaults(directoryPath, options.DefaultExcludes);
+
+        return rules.ForDirectory(directoryPath, GetIgnoreFileNames(options), _project?.GetIgnorePatterns(directoryPath));
+    }
+
+    /// <summary>
+    /// The commentifier for the settings of a file. Files that share the configuration of the processor
+    /// use the injected one; the services for other configurations are built once and reused.
+    /// </summary>
+    private ICommentifier GetCommentifier(string filePath)
+    {
+        var configuration = _project?.GetConfiguration(filePath);
+        if (configuration == null || ReferenceEquals(configuration, _configuration))
+            return _commentifier;
+
+        var services = _projectServices.GetOrAdd(configuration, c => new Lazy<ServiceProvider>(() =>
+        {
+            var collection = new ServiceCollection();
+            if (_loggerFactory != null)
+                collection.AddSingleton(_loggerFactory);
+
+            return collection.AddTsCommentify(c).BuildServiceProvider();
+        }));
+
+        return services.Value.GetRequiredService<ICommentifier>();
+    }
+
+    /// <summary>
+    /// Adds the source files of a directory and its subdirectories, without entering excluded directories.
+    /// </summary>
+    private void CollectSourceFiles(string directoryPath, IgnoreRules rules, List<string> files)
+    {
+        foreach (var file in Directory.EnumerateFiles(directoryPath).Order(StringComparer.Ordinal))
+        {
+            if (HasSourceExtension(file) && !IsIgnored(rules, file, isDirectory: false))
+                files.Add(file);
+        }
+
+        foreach (var directory in Directory.EnumerateDirectories(directoryPath).Order(StringComparer.Ordinal))
+        {
+            if (!IsIgnored(rules, directory, isDirectory: true))
+                CollectSourceFiles(directory, ForDirectory(rules, directory), files);
+        }
+    }
+
+    private bool IsIgnored(IgnoreRules rules, string path, bool isDirectory)
+    {
+        if (!rules.IsIgnored(path, isDirectory))
+            return false;
+
+        _logger.LogDebug("Ignoring {Path}", path);
+        return true;
+    }
+
+    private static string GetDisplayPath(string filePath)
+    {
+        var relativePath = Path.GetRelativePath(Directory.GetCurrentDirectory(), filePath);
+        return relativePath.Replace(Path.DirectorySeparatorChar, '/');
+    }
+}
@@ -0,0 +1,168 @@
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Configuration;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Describes declarations that play a known role in Angular or React, such as lifecycle hooks,
+/// <c>@Input</c> properties, function components and custom hooks, by that role. Each framework is
+/// enabled in the <c>Frameworks</c> section; everything else is described by the wrapped provider.
+/// </summary>
+public class FrameworkDescriptionProvider : IDescriptionProvider
+{
+    private static readonly Dictionary<string, string> LifecycleHooks = new()
+    {
+        ["ngOnChanges"] = "when one or more data-bound input properties change",
+        ["ngOnInit"] = "once after the first change detection has set the data-bound input properties",
+        ["ngDoCheck"] = "during every change detection run, to detect changes Angular does not track itself",
+        ["ngAfterContentInit"] = "once after the projected content has been initialized",
+        ["ngAfterContentChecked"] = "after every check of the projected content",
+        ["ngAfterViewInit"] = "once after the view and its child views have been initialized",
+        ["ngAfterViewChecked"] = "after every check of the view and its child views",
+        ["ngOnDestroy"] = "just before the instance is destroyed, to release its resources"
+    };
+
+    private static readonly string[] AngularClassDecorators = { "Component", "Directive", "Pipe", "Injectable", "NgModule" };
+
+    private static readonly Regex SignalInput = new(@"=\s*(?:input|model)(?:\.required)?\s*[<(]");
+    private static readonly Regex SignalOutput = new(@"=\s*output\s*[<(]");
+    private static readonly Regex JsxReturnType = new(@"^(?:React\.)?(?:JSX\.Element|ReactNode|ReactElement)\b");
+    private static readonly Regex ComponentType = new(@"^(?:export\s+)?(?:const|let)\s+\w+\s*:\s*(?:React\.)?(?:FC|FunctionComponent)\b");
+    private static readonly Regex HookName = new(@"^use[A-Z]");
+    private static readonly Regex PropsName = new(@"^(\w+)Props$");
+    private static readonly Regex TypeName = new(@"^[A-Z][\w$]*$");
+
+    private readonly IDescriptionProvider _inner;
+    private readonly FrameworkOptions _options;
+
+    public FrameworkDescriptionProvider(IConfiguration configuration, IDescriptionProvider inner)
+    {
+        _inner = inner;
+        _options = configuration.GetSection(FrameworkOptions.SectionName).Get<FrameworkOptions>()
+            ?? new FrameworkOptions();
+    }
+
+    public async Task<DeclarationDescription> DescribeAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default)
+    {
+        var description = await _inner.DescribeAsync(declaration, cancellationToken);
+
+        if (_options.Angular)
+        {
+            description = DescribeAngular(declaration, description) ?? description;
+        }
+
+        if (_options.React)
+        {
+            description = DescribeReact(declaration, description) ?? description;
+        }
+
+        return description;
+    }
+
+    private static DeclarationDescription? DescribeAngular(DeclarationInfo declaration, DeclarationDescription description)
+    {
+        switch (declaration)
+        {
+            case FunctionInfo { ContainingClass: not null } method when LifecycleHooks.TryGetValue(method.Name, out var invoked):
+                var parameters = new Dictionary<string, string>(description.Parameters);
+                if (method.Name == "ngOnChanges" && method.Parameters.Count > 0)
+                {
+                    parameters[method.Parameters[0].Name] = "The changed input properties with their previous and current values";
+                }
+
+                return description with { Summary = $"Angular lifecycle hook invoked {invoked}.", Parameters = parameters };
+
+            case FunctionInfo { Name: "constructor", ContainingClass: { } owner } constructor when IsAngularClass(owner):
+                var injected = new Dictionary<string, string>(description.Parameters);
+                foreach (var parameter in constructor.Parameters.Where(p => p.Type != null && TypeName.IsMatch(p.Type)))
+                {
+                    injected[parameter.Name] = $"The injected {Readable(parameter.Type!)}";
+                }
+
+                return description with
+                {
+                    Summary = $"Creates the {Readable(owner.Name)} with its injected dependencies.",
+                    Parameters = injected
+                };
+
+            case PropertyInfo property when property.Decorators.Contains("Input") || SignalInput.IsMatch(property.Content):
+                return description with { Summary = $"Input bound by the parent component: the {Readable(property.Name)}." };
+
+            case PropertyInfo property when property.Decorators.Contains("Output") || SignalOutput.IsMatch(property.Content):
+                return description with { Summary = $"Output emitted to the parent component: {Readable(property.Name)}." };
+
+            case ClassInfo angularClass when IsAngularClass(angularClass):
+                return description with { Summary = DescribeAngularClass(angularClass) };
+
+            default:
+                return null;
+        }
+    }
+
+    private static string DescribeAngularClass(ClassInfo angularClass)
+    {
+        var decorator = angularClass.Decorators.First(d => AngularClassDecorators.Contains(d));
+        var suffix = decorator == "NgModule" ? "Module" : decorator;
+        var name = Readable(RemoveSuffix(angularClass.Name, suffix));
+
+        return decorator switch
+        {
+            "Component" => $"Angular component rendering the {name}.",
+            "Directive" => $"Angular directive adding {name} behavior to its host element.",
+            "Pipe" => $"Angular pipe transforming values for {name} display in templates.",
+            "NgModule" => $"Angular module grouping the {name} declarations and providers.",
+            _ => $"Angular injectable {Readable(angularClass.Name)}."
+        };
+    }
+
+    private static DeclarationDescription? DescribeReact(DeclarationInfo declaration, DeclarationDescription description)
+    {
+        switch (declaration)
+        {
+            case FunctionInfo { ContainingClass: null } component when IsComponent(component):
+                var parameters = new Dictionary<string, string>(description.Parameters);
+                if (component.Parameters.Count > 0)
+                {
+                    parameters[component.Parameters[0].Name] = "The component props";
+                }
+
+                return description with
+                {
+                    Summary = $"React component rendering the {Readable(component.Name)}.",
+                    Parameters = parameters,
+                    Returns = description.Returns == null ? null : "The rendered element"
+                };
+
+            case FunctionInfo { ContainingClass: null } hook when HookName.IsMatch(hook.Name):
+                return description with { Summary = $"Custom React hook for the {Readable(hook.Name.Substring(3))}." };
+
+            case InterfaceInfo or TypeAliasInfo when PropsName.Match(declaration.Name) is { Success: true } props:
+                return description with { Summary = $"Props of the {props.Groups[1].Value} component." };
+
+            default:
+                return null;
+        }
+    }
+
+    private static bool IsAngularClass(ClassInfo declaration) =>
+        declaration.Decorators.Any(d => AngularClassDecorators.Contains(d));
+
+    // Components are PascalCase functions that return JSX, either by their return type,
+    // a React.FC annotation or JSX in their body
+    private static bool IsComponent(FunctionInfo function)
+    {
+        if (!char.IsUpper(function.Name[0]))
+            return false;
+
+        return (function.ReturnType != null && JsxReturnType.IsMatch(function.ReturnType))
+            || ComponentType.IsMatch(function.Source)
+            || function.ContainsJsx;
+    }
+
+    private static string RemoveSuffix(string name, string suffix) =>
+        name.Length > suffix.Length && name.EndsWith(suffix) ? name.Substring(0, name.Length - suffix.Length) : name;
+
+    private static string Readable(string identifier) =>
+        HeuristicDescriptionProvider.ConvertToReadable(identifier).ToLower();
+}
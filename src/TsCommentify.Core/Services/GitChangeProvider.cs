@@ -0,0 +1,180 @@
+using System.ComponentModel;
+using System.Diagnostics;
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Logging;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Reads changes from the local repository with the <c>git</c> command line, so no network access is needed.
+/// </summary>
+public class GitChangeProvider : IGitChangeProvider
+{
+    private static readonly Regex HunkHeader = new(@"^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@");
+
+    private readonly ILogger<GitChangeProvider> _logger;
+
+    public GitChangeProvider(ILogger<GitChangeProvider> logger)
+    {
+        _logger = logger;
+    }
+
+    public async Task<IReadOnlyDictionary<string, ChangedLines>> GetChangesAsync(string directoryPath, string? since, bool staged)
+    {
+        if (since == null && !staged)
+            throw new ArgumentException("Either a revision or staged changes must be requested", nameof(since));
+
+        Dictionary<string, ChangedLines> changes;
+
+        if (staged)
+        {
+            var stagedFiles = (await RunGitAsync(directoryPath, "diff", "--cached", "--name-only", "--relative", "--diff-filter=d", "-z"))
+                .Split('\0', StringSplitOptions.RemoveEmptyEntries)
+                .Select(f => Path.GetFullPath(Path.Combine(directoryPath, f)))
+                .ToList();
+
+            // Staged files are compared with HEAD as they are in the working tree, so the line
+            // numbers match the file that gets parsed even when it also has unstaged edits
+            var diff = await IsCommitAsync(directoryPath, "HEAD")
+                ? ParseDiff(await RunGitAsync(directoryPath, DiffArguments("HEAD")), directoryPath)
+                : new Dictionary<string, ChangedLines>();
+
+            changes = stagedFiles.ToDictionary(f => f, f => diff.TryGetValue(f, out var lines) ? lines : ChangedLines.WholeFile);
+        }
+        else
+        {
+            if (!await IsCommitAsync(directoryPath, since!))
+                throw new InvalidOperationException($"Unknown git revision '{since}'");
+
+            changes = ParseDiff(await RunGitAsync(directoryPath, DiffArguments(since!)), directoryPath);
+
+            var untracked = (await RunGitAsync(directoryPath, "ls-files", "--others", "--exclude-standard", "-z"))
+                .Split('\0', StringSplitOptions.RemoveEmptyEntries);
+
+            foreach (var file in untracked)
+            {
+                changes[Path.GetFullPath(Path.Combine(directoryPath, file))] = ChangedLines.WholeFile;
+            }
+        }
+
+        _logger.LogInformation("Found {Count} changed files {Scope}", changes.Count, staged ? "with staged changes" : $"since {since}");
+        return changes;
+    }
+
+    /// <summary>
+    /// Reads the added and modified line ranges of each file from a <c>git diff --unified=0</c> output.
+    /// Paths in the diff are relative to <paramref name="directoryPath"/>.
+    /// </summary>
+    public static Dictionary<string, ChangedLines> ParseDiff(string diff, string directoryPath)
+    {
+        var changes = new Dictionary<string, ChangedLines>();
+        List<LineRange>? ranges = null;
+        var inHeader = false;
+
+        foreach (var rawLine in diff.Split('\n'))
+        {
+            var line = rawLine.TrimEnd('\r');
+
+            if (line.StartsWith("diff --git "))
+            {
+                inHeader = true;
+                ranges = null;
+                continue;
+            }
+
+            // Added lines can start with "+++" too, so only the lines before the first hunk are headers
+            if (inHeader && line.StartsWith("+++ "))
+            {
+                var target = line.Substring(4).Trim('"');
+                if (target == "/dev/null")
+                {
+                    ranges = null;
+                    continue;
+                }
+
+                if (target.StartsWith("b/"))
+                    target = target.Substring(2);
+
+                ranges = new List<LineRange>();
+                changes[Path.GetFullPath(Path.Combine(directoryPath, target))] = new ChangedLines(ranges);
+                continue;
+            }
+
+            var hunk = HunkHeader.Match(line);
+            if (!hunk.Success)
+                continue;
+
+            inHeader = false;
+            if (ranges == null)
+                continue;
+
+            var start = int.Parse(hunk.Groups[1].Value);
+            var count = hunk.Groups[2].Success ? int.Parse(hunk.Groups[2].Value) : 1;
+
+            // A pure deletion sits between line "start" and the next one, which both count as changed
+            ranges.Add(count == 0
+                ? new LineRange(Math.Max(start, 1), start + 1)
+                : new LineRange(start, start + count - 1));
+        }
+
+        return changes;
+    }
+
+    private static string[] DiffArguments(string revision) => new[]
+    {
+        "diff", "--unified=0", "--no-color", "--no-ext-diff", "--relative", "--src-prefix=a/", "--dst-prefix=b/", revision, "--"
+    };
+
+    private async Task<bool> IsCommitAsync(string directoryPath, string revision)
+    {
+        var (exitCode, _, _) = await StartGitAsync(directoryPath, "rev-parse", "--verify", "--quiet", $"{revision}^{{commit}}");
+        return exitCode == 0;
+    }
+
+    private async Task<string> RunGitAsync(string directoryPath, params string[] arguments)
+    {
+        var (exitCode, output, error) = await StartGitAsync(directoryPath, arguments);
+        if (exitCode != 0)
+            throw new InvalidOperationException($"git {arguments[0]} failed: {error.Trim()}");
+
+        return output;
+    }
+
+    private async Task<(int ExitCode, string Output, string Error)> StartGitAsync(string directoryPath, params string[] arguments)
+    {
+        var startInfo = new ProcessStartInfo("git")
+        {
+            WorkingDirectory = directoryPath,
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+
+        // Unusual characters in paths are printed as is instead of octal escapes
+        startInfo.ArgumentList.Add("-c");
+        startInfo.ArgumentList.Add("core.quotePath=false");
+        foreach (var argument in arguments)
+        {
+            startInfo.ArgumentList.Add(argument);
+        }
+
+        _logger.LogDebug("Running git {Arguments} in {DirectoryPath}", string.Join(" ", arguments), directoryPath);
+
+        using var process = new Process { StartInfo = startInfo };
+        try
+        {
+            process.Start();
+        }
+        catch (Win32Exception ex)
+        {
+            throw new InvalidOperationException("git was not found; --since and --staged need git on the PATH", ex);
+        }
+
+        var outputTask = process.StandardOutput.ReadToEndAsync();
+        var errorTask = process.StandardError.ReadToEndAsync();
+        await process.WaitForExitAsync();
+
+        return (process.ExitCode, await outputTask, await errorTask);
+    }
+}
@@ -0,0 +1,180 @@
+using System.Text;
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Configuration;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Describes declarations from their names and types alone, without looking at the source.
+/// Function summaries and return descriptions follow the <see cref="DescriptionRules"/>.
+/// </summary>
+public class HeuristicDescriptionProvider : IDescriptionProvider
+{
+    private readonly DescriptionRules _rules;
+
+    public HeuristicDescriptionProvider()
+    {
+        _rules = new DescriptionRules();
+    }
+
+    public HeuristicDescriptionProvider(IConfiguration configuration)
+    {
+        var options = configuration.GetSection(DescriptionProviderOptions.SectionName).Get<DescriptionProviderOptions>()
+            ?? new DescriptionProviderOptions();
+
+        _rules = new DescriptionRules(LoadVerbs(options));
+    }
+
+    public Task<DeclarationDescription> DescribeAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default) =>
+        Task.FromResult(Describe(declaration));
+
+    /// <summary>
+    /// Describes a declaration right away; the heuristics never wait for anything.
+    /// </summary>
+    public DeclarationDescription Describe(DeclarationInfo declaration)
+    {
+        switch (declaration)
+        {
+            case FunctionInfo function:
+                var parameters = new Dictionary<string, string>();
+                foreach (var parameter in function.Parameters)
+                {
+                    AddParameterDescriptions(parameters, parameter, parameter.Name);
+                }
+
+                return new DeclarationDescription(_rules.DescribeSummary(function) ?? GenerateDescription(function))
+                {
+                    Parameters = parameters,
+                    Returns = string.IsNullOrEmpty(function.ReturnType ?? function.InferredReturnType) ? null : _rules.DescribeReturns(function),
+                    TypeParameters = function.TypeParameters.ToDictionary(t => t.Name, t => _rules.DescribeTypeParameter(function, t)),
+                    Yields = function.IsGenerator ? _rules.DescribeYields(function) : null
+                };
+
+            case PropertyInfo property:
+                return new DeclarationDescription($"The {ConvertToReadable(property.Name).ToLower()}.");
+
+            default:
+                return new DeclarationDescription($"{ConvertToReadable(declaration.Name)}.");
+        }
+    }
+
+    /// <summary>
+    /// Splits a camelCase or PascalCase identifier into capitalized words: <c>getUserName</c> is <c>Get User Name</c>.
+    /// </summary>
+    public static string ConvertToReadable(string identifier)
+    {
+        if (string.IsNullOrWhiteSpace(identifier))
+            return identifier;
+
+        // ECMAScript private names: #count is "Count"
+        identifier = identifier.TrimStart('#');
+
+        // Insert space before capital letters (for camelCase and PascalCase)
+        var result = new StringBuilder();
+
+        for (int i = 0; i < identifier.Length; i++)
+        {
+            var ch = identifier[i];
+
+            // Add space before uppercase letter if:
+            // - It's not the first character
+            // - Previous character is lowercase
+            // - OR previous character is uppercase but next is lowercase (for acronyms)
+            if (i > 0 && char.IsUpper(ch))
+            {
+                var prev = identifier[i - 1];
+                var hasNext = i < identifier.Length - 1;
+                var next = hasNext ? identifier[i + 1] : '\0';
+
+                if (char.IsLower(prev) || (char.IsUpper(prev) && hasNext && char.IsLower(next)))
+                {
+                    result.Append(' ');
+                }
+            }
+
+            result.Append(ch);
+        }
+
+        // Capitalize first letter
+        var readable = result.ToString();
+        if (readable.Length > 0)
+        {
+            readable = char.ToUpper(readable[0]) + readable.Substring(1);
+        }
+
+        return readable;
+    }
+
+    /// <summary>
+    /// Collects the configured verbs: those of the rule files in order, then those configured directly.
+    /// </summary>
+    private static IEnumerable<KeyValuePair<string, string>> LoadVerbs(DescriptionProviderOptions options)
+    {
+        foreach (var ruleFile in options.RuleFiles)
+        {
+            var verbs = new ConfigurationBuilder()
+                .AddJsonFile(Path.GetFullPath(ruleFile), optional: false)
+                .Build()
+                .GetSection(nameof(DescriptionProviderOptions.Verbs))
+                .Get<Dictionary<string, string>>() ?? new Dictionary<string, string>();
+
+            foreach (var verb in verbs)
+            {
+                yield return verb;
+            }
+        }
+
+        foreach (var verb in options.Verbs)
+        {
+            yield return verb;
+        }
+    }
+
+    private static void AddParameterDescriptions(Dictionary<string, string> descriptions, ParameterInfo parameter, string path)
+    {
+        descriptions[path] = GenerateParameterDescription(parameter);
+
+        if (parameter.Kind != ParameterKind.ObjectPattern)
+            return;
+
+        foreach (var property in parameter.Properties)
+        {
+            AddParameterDescriptions(descriptions, property, $"{path}.{property.Name}");
+        }
+    }
+
+    private static string GenerateDescription(FunctionInfo function)
+    {
+        // Generate a meaningful description based on function name
+        var name = function.Name;
+
+        // Convert camelCase or PascalCase to readable format
+        var readable = ConvertToReadable(name);
+
+        return $"{readable}.";
+    }
+
+    private static string GenerateParameterDescription(ParameterInfo parameter)
+    {
+        if (parameter.Kind == ParameterKind.ArrayPattern)
+        {
+            var elements = parameter.Properties.Select(p => ConvertToReadable(p.Name).ToLower()).ToList();
+            return elements.Count == 0
+                ? "The destructured array"
+                : $"The {string.Join(" and ", elements)}";
+        }
+
+        // Destructured objects are described by their named type, if they have one
+        if (parameter.Kind == ParameterKind.ObjectPattern)
+        {
+            return parameter.Type != null && Regex.IsMatch(parameter.Type, @"^[A-Za-z_$][\w$]*$")
+                ? $"The {ConvertToReadable(parameter.Type).ToLower()}"
+                : "The destructured object";
+        }
+
+        // Generate description based on parameter name
+        var readable = ConvertToReadable(parameter.Name);
+        return $"The {readable.ToLower()}";
+    }
+}
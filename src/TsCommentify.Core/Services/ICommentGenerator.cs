@@ -0,0 +1,13 @@
+namespace TsCommentify.Core.Services;
+
+public interface ICommentGenerator
+{
+    Task<string> GenerateCommentAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Synchronizes the @param and @returns tags of an existing JSDoc block with the function
+    /// signature, keeping the existing descriptions. Returns null when the comment is up to date
+    /// or is not a JSDoc block.
+    /// </summary>
+    Task<string?> UpdateCommentAsync(FunctionInfo function, string existingComment, CancellationToken cancellationToken = default);
+}
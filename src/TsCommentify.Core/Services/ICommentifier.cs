@@ -0,0 +1,62 @@
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// The engine behind every command, for embedding: works on source text and returns what it would change
+/// instead of writing files.
+/// </summary>
+public interface ICommentifier
+{
+    /// <summary>
+    /// Finds the declarations of <paramref name="text"/> that need a comment and generates them. The path
+    /// decides the language and appears in log messages; the file isn't read. With
+    /// <paramref name="changedLines"/> only declarations on those lines are considered. The
+    /// <paramref name="cancellationToken"/> stops waiting for descriptions from a service.
+    /// </summary>
+    Task<CommentifyResult> CommentifyAsync(string filePath, string text, ChangedLines? changedLines = null, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// The outcome of <see cref="ICommentifier.CommentifyAsync"/>. <see cref="Edits"/> are ordered by position and
+/// don't overlap, so they can be applied from last to first; <see cref="Text"/> is the result of applying them.
+/// </summary>
+public record CommentifyResult(
+    string FilePath,
+    string Text,
+    IReadOnlyList<DeclarationInfo> Declarations,
+    IReadOnlyList<GeneratedComment> Comments,
+    IReadOnlyList<CommentDiagnostic> Diagnostics)
+{
+    public IReadOnlyList<TextEdit> Edits => Comments.Select(c => c.Edit).ToList();
+
+    public IReadOnlyList<DeclarationInfo> UndocumentedDeclarations =>
+        Comments.Where(c => !c.IsUpdate).Select(c => c.Declaration).ToList();
+
+    public IReadOnlyList<DeclarationInfo> UpdatedDeclarations =>
+        Comments.Where(c => c.IsUpdate).Select(c => c.Declaration).ToList();
+
+    public bool HasChanges => Comments.Count > 0;
+}
+
+/// <summary>
+/// A comment for one declaration: a new one, or with <see cref="IsUpdate"/> an existing JSDoc block whose
+/// tags were synchronized with the signature. <see cref="Comment"/> is the comment itself, <see cref="Edit"/>
+/// places it in the file with the declaration's indentation.
+/// </summary>
+public record GeneratedComment(DeclarationInfo Declaration, string Comment, bool IsUpdate, TextEdit Edit);
+
+/// <summary>
+/// Replaces <see cref="SourceRange"/> of the original text with <see cref="NewText"/>; an insertion has an
+/// empty range. Inserted lines end with the file's line ending.
+/// </summary>
+public record TextEdit(SourceRange Range, string NewText);
+
+/// <summary>
+/// A finding about one declaration: <c>TSC001</c> for a declaration without a comment, <c>TSC002</c> for
+/// a comment that no longer matches its function's signature.
+/// </summary>
+public record CommentDiagnostic(string Code, string Message, DeclarationInfo Declaration)
+{
+    public const string MissingComment = "TSC001";
+
+    public const string StaleComment = "TSC002";
+}
@@ -0,0 +1,107 @@
+namespace TsCommentify.Core.Services;
+
+public interface ICoverageAnalyzer
+{
+    /// <summary>
+    /// Counts the documented, undocumented and suppressed functions in a file, or in every TypeScript
+    /// file under a directory. A file that can't be read is reported in <see cref="CoverageReport.Failures"/>
+    /// and the other files are still counted. Nothing is written.
+    /// </summary>
+    CoverageReport Analyze(string path);
+}
+
+/// <summary>
+/// Documentation coverage of a file or directory tree. Paths are relative to the current
+/// directory and use forward slashes.
+/// </summary>
+public record CoverageReport(string RootPath, List<FileCoverage> Files)
+{
+    /// <summary>
+    /// The files that could not be read, which count neither as documented nor as undocumented.
+    /// </summary>
+    public List<FileCoverageFailure> Failures { get; init; } = new();
+
+    public int Documented => Files.Sum(f => f.Documented);
+
+    public int Undocumented => Files.Sum(f => f.Undocumented);
+
+    /// <summary>
+    /// Functions excluded by a <c>tscommentify-disable</c> directive. They count neither as documented
+    /// nor as undocumented.
+    /// </summary>
+    public int Suppressed => Files.Sum(f => f.Suppressed);
+
+    public int Total => Documented + Undocumented;
+
+    /// <summary>
+    /// The percentage of documented functions, 100 when there are no functions.
+    /// </summary>
+    public double Coverage => CoverageStatistics.Percentage(Documented, Total);
+
+    /// <summary>
+    /// Totals for every directory that contains a file, including the files in its subdirectories,
+    /// sorted by path.
+    /// </summary>
+    public List<DirectoryCoverage> Directories => Files
+        .SelectMany(f => GetDirectories(f.Path).Select(directory => (Directory: directory, File: f)))
+        .GroupBy(entry => entry.Directory)
+        .Select(group => new DirectoryCoverage(
+            group.Key,
+            group.Sum(entry => entry.File.Documented),
+            group.Sum(entry => entry.File.Undocumented))
+        {
+            Suppressed = group.Sum(entry => entry.File.Suppressed)
+        })
+        .OrderBy(d => d.Path, StringComparer.Ordinal)
+        .ToList();
+
+    private static IEnumerable<string> GetDirectories(string filePath)
+    {
+        var separator = filePath.LastIndexOf('/');
+        while (separator > 0)
+        {
+            filePath = filePath.Substring(0, separator);
+            yield return filePath;
+            separator = filePath.LastIndexOf('/');
+        }
+
+        if (!filePath.StartsWith('/'))
+            yield return ".";
+    }
+}
+
+public record FileCoverage(string Path, int Documented, List<FunctionInfo> UndocumentedFunctions)
+{
+    /// <summary>
+    /// The path relative to the root of the git repository, with forward slashes, or null outside a
+    /// repository. SARIF locations use it, so code scanning finds the file wherever the report was made.
+    /// </summary>
+    public string? RepositoryPath { get; init; }
+
+    public List<FunctionInfo> SuppressedFunctions { get; init; } = new();
+
+    public int Undocumented => UndocumentedFunctions.Count;
+
+    public int Suppressed => SuppressedFunctions.Count;
+
+    public int Total => Documented + Undocumented;
+
+    public double Coverage => CoverageStatistics.Percentage(Documented, Total);
+}
+
+public record FileCoverageFailure(string Path, string Error);
+
+public record DirectoryCoverage(string Path, int Documented, int Undocumented)
+{
+    public int Suppressed { get; init; }
+
+    public int Total => Documented + Undocumented;
+
+    public double Coverage => CoverageStatistics.Percentage(Documented, Total);
+}
+
+internal static class CoverageStatistics
+{
+    public static double Percentage(int documented, int total) =>
+        total == 0 ? 100 : Math.Round(documented * 100.0 / total, 1);
+}
@@ -0,0 +1,8 @@
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public interface ICoverageReportFormatter
+{
+    string Format(CoverageReport report, ReportFormat format);
+}
@@ -0,0 +1,33 @@
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Supplies the prose of a generated comment: the summary line and, for functions, the
+/// parameter and return descriptions. The layout of the comment is left to the templates.
+/// Providers that call out to a service do so asynchronously and stop waiting when <c>cancellationToken</c>
+/// is cancelled.
+/// </summary>
+public interface IDescriptionProvider
+{
+    Task<DeclarationDescription> DescribeAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// The descriptions for one declaration. <see cref="Parameters"/> is keyed by parameter path,
+/// with destructured properties as <c>param0.name</c>.
+/// </summary>
+public record DeclarationDescription(string Summary)
+{
+    public Dictionary<string, string> Parameters { get; init; } = new();
+
+    public string? Returns { get; init; }
+
+    /// <summary>
+    /// The descriptions of a function's type parameters, keyed by name.
+    /// </summary>
+    public Dictionary<string, string> TypeParameters { get; init; } = new();
+
+    /// <summary>
+    /// What a generator yields, or null for other functions.
+    /// </summary>
+    public string? Yields { get; init; }
+}
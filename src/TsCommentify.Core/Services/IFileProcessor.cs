@@ -0,0 +1,88 @@
+namespace TsCommentify.Core.Services;
+
+public interface IFileProcessor
+{
+    Task<FileProcessingResult> ProcessFileAsync(string filePath, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Processes the files of a directory in parallel, up to <c>MaxDegreeOfParallelism</c> at a time.
+    /// A file that fails is reported in its result without stopping the others; after cancellation the
+    /// results of the files processed so far are returned.
+    /// </summary>
+    Task<IReadOnlyList<FileProcessingResult>> ProcessDirectoryAsync(string directoryPath, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Returns the TypeScript files under a directory that <see cref="ProcessDirectoryAsync"/> would
+    /// process, after the default excludes, the ignore files and the configured ignore patterns.
+    /// </summary>
+    IReadOnlyList<string> GetSourceFiles(string directoryPath);
+
+    /// <summary>
+    /// Whether <see cref="ProcessDirectoryAsync"/> on <paramref name="directoryPath"/> would process the
+    /// file: a TypeScript file that is not excluded there.
+    /// </summary>
+    bool IsSourceFile(string directoryPath, string filePath);
+}
+
+public record FileProcessingResult(
+    string FilePath,
+    List<DeclarationInfo> UndocumentedDeclarations,
+    string? Diff,
+    bool Modified)
+{
+    /// <summary>
+    /// Functions whose existing JSDoc was synchronized with their signature (see <c>--update</c>).
+    /// </summary>
+    public List<DeclarationInfo> UpdatedDeclarations { get; init; } = new();
+
+    /// <summary>
+    /// Why the file could not be processed, or null when it was.
+    /// </summary>
+    public string? Error { get; init; }
+
+    /// <summary>
+    /// Whether the file was passed over without looking for undocumented declarations: it isn't a source
+    /// file, it has no changes since the compared revision or a directive suppresses all of it. Files that
+    /// were read but are already documented are not skipped.
+    /// </summary>
+    public bool IsSkipped { get; init; }
+
+    /// <summary>
+    /// Whether the file was rewritten or, with <c>--check</c> and <c>--dry-run</c>, would be.
+    /// </summary>
+    public bool HasChanges => Modified || Diff != null;
+
+    public static FileProcessingResult Unchanged(string filePath) =>
+        new(filePath, new List<DeclarationInfo>(), null, false);
+
+    public static FileProcessingResult Skipped(string filePath) =>
+        new(filePath, new List<DeclarationInfo>(), null, false) { IsSkipped = true };
+
+    public static FileProcessingResult Failed(string filePath, string error) =>
+        new(filePath, new List<DeclarationInfo>(), null, false) { Error = error };
+}
+
+public record ProcessingSummary(
+    int FilesScanned,
+    int FilesSkipped,
+    int FilesModified,
+    int CommentsAdded,
+    int CommentsUpdated,
+    IReadOnlyList<FileProcessingResult> Failures,
+    TimeSpan Elapsed)
+{
+    public static ProcessingSummary Create(IReadOnlyList<FileProcessingResult> results, TimeSpan elapsed)
+    {
+        var changed = results.Where(r => r.HasChanges).ToList();
+        var failures = results.Where(r => r.Error != null).ToList();
+
+        return new ProcessingSummary(
+            FilesScanned: results.Count,
+            FilesSkipped: results.Count(r => r.IsSkipped),
+            FilesModified: changed.Count,
+            CommentsAdded: changed.Sum(r => r.UndocumentedDeclarations.Count),
+            CommentsUpdated: changed.Sum(r => r.UpdatedDeclarations.Count),
+            Failures: failures,
+            Elapsed: elapsed);
+    }
+}
@@ -0,0 +1,26 @@
+namespace TsCommentify.Core.Services;
+
+public interface IGitChangeProvider
+{
+    /// <summary>
+    /// Returns the files under <paramref name="directoryPath"/> that changed since <paramref name="since"/>,
+    /// or that have staged changes when <paramref name="staged"/> is true, keyed by full path.
+    /// Line numbers refer to the file in the working tree.
+    /// </summary>
+    Task<IReadOnlyDictionary<string, ChangedLines>> GetChangesAsync(string directoryPath, string? since, bool staged);
+}
+
+/// <summary>
+/// The lines of a file that were added or modified, as 1-based inclusive ranges.
+/// </summary>
+public record ChangedLines(List<LineRange> Ranges)
+{
+    /// <summary>
+    /// A new or untracked file, in which every line counts as changed.
+    /// </summary>
+    public static ChangedLines WholeFile { get; } = new(new List<LineRange> { new(1, int.MaxValue) });
+
+    public bool Overlaps(int startLine, int endLine) => Ranges.Any(r => r.Start <= endLine && startLine <= r.End);
+}
+
+public record LineRange(int Start, int End);
@@ -0,0 +1,10 @@
+namespace TsCommentify.Core.Services;
+
+public interface ILanguageServer
+{
+    /// <summary>
+    /// Serves Language Server Protocol requests read from <paramref name="input"/> until the client sends
+    /// <c>exit</c> or closes the stream. Returns the process exit code: 0 when <c>shutdown</c> came first, 1 otherwise.
+    /// </summary>
+    Task<int> RunAsync(Stream input, Stream output, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,211 @@
+namespace TsCommentify.Core.Services;
+
+public interface ITypeScriptParser
+{
+    IEnumerable<FunctionInfo> ParseFunctions(string filePath);
+
+    /// <summary>
+    /// Returns every documentable declaration in the file: functions and methods, classes, interfaces,
+    /// type aliases, enums, class and interface properties and enum members, in source order.
+    /// </summary>
+    IEnumerable<DeclarationInfo> ParseDeclarations(string filePath);
+
+    /// <summary>
+    /// Like <see cref="ParseDeclarations(string)"/>, for source text the caller has already read.
+    /// The extension of the path decides the language (see <see cref="SourceLanguages"/>); the path appears
+    /// in log messages.
+    /// </summary>
+    IEnumerable<DeclarationInfo> ParseDeclarations(string filePath, string source);
+}
+
+public abstract record DeclarationInfo(string Name, int LineNumber, string Content, bool HasComment)
+{
+    /// <summary>
+    /// The 1-based line on which the declaration ends (the closing brace or the end of an expression body).
+    /// </summary>
+    public int EndLineNumber { get; init; }
+
+    /// <summary>
+    /// The range of the comment directly above the declaration, when <see cref="HasComment"/> is true.
+    /// </summary>
+    public SourceRange? Comment { get; init; }
+
+    /// <summary>
+    /// Whether a <c>tscommentify-disable</c> directive excludes the declaration from documentation.
+    /// </summary>
+    public bool IsSuppressed { get; init; }
+
+    /// <summary>
+    /// The names of the decorators applied to the declaration, without <c>@</c> or arguments:
+    /// <c>Component</c>, <c>Input</c>.
+    /// </summary>
+    public List<string> Decorators { get; init; } = new();
+
+    /// <summary>
+    /// The class whose body declares this method or property, or null outside a class.
+    /// </summary>
+    public ClassInfo? ContainingClass { get; init; }
+
+    /// <summary>
+    /// Whether a top-level declaration is exported from its module, with the <c>export</c> keyword or by
+    /// name in an <c>export { ... }</c> or <c>export default</c> statement.
+    /// </summary>
+    public bool IsExported { get; init; }
+}
+
+public record FunctionInfo(
+    string Name,
+    int LineNumber,
+    string Content,
+    List<ParameterInfo> Parameters,
+    string? ReturnType,
+    bool HasComment) : DeclarationInfo(Name, LineNumber, Content, HasComment)
+{
+    /// <summary>
+    /// The range of the function body, including its braces for block bodies.
+    /// </summary>
+    public SourceRange? Body { get; init; }
+
+    /// <summary>
+    /// The return type deduced from the body when <see cref="ReturnType"/> isn't written: the union of the types
+    /// of the returned expressions, <c>void</c> without any, in a <c>Promise</c> for async functions. Null when
+    /// a returned expression has no known type.
+    /// </summary>
+    public string? InferredReturnType { get; init; }
+
+    /// <summary>
+    /// The full text of the function, from its first modifier or keyword to the end of its body.
+    /// </summary>
+    public string Source { get; init; } = string.Empty;
+
+    public bool IsAsync { get; init; }
+
+    public bool IsGenerator { get; init; }
+
+    /// <summary>
+    /// Whether the body contains JSX elements. Only .tsx and JavaScript files are read with JSX.
+    /// </summary>
+    public bool ContainsJsx { get; init; }
+
+    /// <summary>
+    /// The error types the body throws with <c>throw new ErrorType(...)</c>, in order of first appearance.
+    /// </summary>
+    public List<string> Throws { get; init; } = new();
+
+    /// <summary>
+    /// The modifiers before the name, in source order: <c>public</c>, <c>private</c>, <c>protected</c>, <c>static</c>,
+    /// <c>abstract</c>, <c>override</c>, <c>readonly</c>, <c>async</c>, <c>declare</c>, and <c>get</c>/<c>set</c> for accessors.
+    /// </summary>
+    public List<string> Modifiers { get; init; } = new();
+
+    /// <summary>
+    /// Whether the declaration is a signature without a body: an overload, an abstract or interface method,
+    /// or a declared function.
+    /// </summary>
+    public bool IsSignature { get; init; }
+
+    /// <summary>
+    /// The position of an overload signature within its group, or null when the function isn't overloaded.
+    /// </summary>
+    public int? OverloadIndex { get; init; }
+
+    /// <summary>
+    /// Whether this is the implementation that follows a group of overload signatures. It is never documented:
+    /// callers only see the signatures.
+    /// </summary>
+    public bool IsOverloadImplementation { get; init; }
+
+    /// <summary>
+    /// The type parameters between the angle brackets after the name, in source order.
+    /// </summary>
+    public List<TypeParameterInfo> TypeParameters { get; init; } = new();
+}
+
+public record ClassInfo(string Name, int LineNumber, string Content, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment)
+{
+    public bool IsAbstract { get; init; }
+
+    public string? BaseType { get; init; }
+
+    public List<string> Implements { get; init; } = new();
+}
+
+public record InterfaceInfo(string Name, int LineNumber, string Content, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment)
+{
+    public List<string> Extends { get; init; } = new();
+}
+
+public record TypeAliasInfo(string Name, int LineNumber, string Content, string Type, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment);
+
+public record EnumInfo(string Name, int LineNumber, string Content, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment);
+
+/// <summary>
+/// A class property or an interface property signature.
+/// </summary>
+public record PropertyInfo(string Name, int LineNumber, string Content, string? Type, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment)
+{
+    public bool IsOptional { get; init; }
+
+    public bool IsReadonly { get; init; }
+
+    public bool IsStatic { get; init; }
+
+    /// <summary>
+    /// The modifiers before the name, in source order: <c>private</c>, <c>static</c>, <c>readonly</c>.
+    /// </summary>
+    public List<string> Modifiers { get; init; } = new();
+}
+
+public record EnumMemberInfo(string Name, int LineNumber, string Content, string? Value, bool HasComment)
+    : DeclarationInfo(Name, LineNumber, Content, HasComment);
+
+public record ParameterInfo(string Name, string? Type)
+{
+    public ParameterKind Kind { get; init; } = ParameterKind.Identifier;
+
+    /// <summary>
+    /// True for rest parameters (<c>...args</c>) and rest elements of array patterns.
+    /// </summary>
+    public bool IsRest { get; init; }
+
+    /// <summary>
+    /// True when the parameter is marked with <c>?</c> or has a default value.
+    /// </summary>
+    public bool IsOptional { get; init; }
+
+    public string? DefaultValue { get; init; }
+
+    /// <summary>
+    /// The type deduced when <see cref="Type"/> isn't written: from the default value, and in JavaScript files
+    /// also from the use of the parameter in the body.
+    /// </summary>
+    public string? InferredType { get; init; }
+
+    /// <summary>
+    /// The bindings of a destructuring pattern, in source order. Empty for plain identifiers.
+    /// Destructured parameters are named by position (<c>param0</c>, <c>param1</c>, ...).
+    /// </summary>
+    public List<ParameterInfo> Properties { get; init; } = new();
+}
+
+/// <summary>
+/// A type parameter such as <c>T extends object = {}</c>, with its constraint and default type as written.
+/// </summary>
+public record TypeParameterInfo(string Name, string? Constraint, string? DefaultType);
+
+public enum ParameterKind
+{
+    Identifier,
+    ObjectPattern,
+    ArrayPattern
+}
+
+/// <summary>
+/// A span of source text. Offsets are 0-based character positions (end exclusive), lines are 1-based.
+/// </summary>
+public record SourceRange(int Start, int End, int StartLine, int EndLine);
@@ -0,0 +1,9 @@
+namespace TsCommentify.Core.Services;
+
+public interface IWatchService
+{
+    /// <summary>
+    /// Processes each TypeScript file under the directory as it is saved, until cancelled.
+    /// </summary>
+    Task WatchAsync(string directoryPath, CancellationToken cancellationToken);
+}
@@ -0,0 +1,196 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Decides which paths are excluded, with the semantics of <c>.gitignore</c>: patterns without a slash
+/// match a name at any depth, other patterns are relative to the directory that defines them, a trailing
+/// slash only matches directories, <c>**</c> spans directories and <c>!</c> re-includes a path.
+/// The last matching pattern wins.
+/// </summary>
+public class IgnoreRules
+{
+    public const string IgnoreFileName = ".tscommentifyignore";
+    public const string GitIgnoreFileName = ".gitignore";
+
+    private sealed record Pattern(string BaseDirectory, Regex Regex, bool Negated, bool DirectoryOnly);
+
+    private readonly IReadOnlyList<Pattern> _defaults;
+    private readonly IReadOnlyList<Pattern> _files;
+    private readonly IReadOnlyList<Pattern> _configured;
+
+    /// <summary>
+    /// Creates the rules for a tree. <paramref name="defaultPatterns"/> apply first, so ignore files and
+    /// <paramref name="configuredPatterns"/> can negate them; configured patterns apply last.
+    /// Both are relative to <paramref name="rootPath"/>.
+    /// </summary>
+    public IgnoreRules(string rootPath, IEnumerable<string> defaultPatterns, IEnumerable<string> configuredPatterns)
+        : this(Parse(defaultPatterns, rootPath), new List<Pattern>(), Parse(configuredPatterns, rootPath))
+    {
+    }
+
+    private IgnoreRules(IReadOnlyList<Pattern> defaults, IReadOnlyList<Pattern> files, IReadOnlyList<Pattern> configured)
+    {
+        _defaults = defaults;
+        _files = files;
+        _configured = configured;
+    }
+
+    /// <summary>
+    /// Returns the rules for the contents of a directory: these rules plus the patterns of the ignore
+    /// files it contains, which take precedence over the ignore files of its parents. Further
+    /// <paramref name="directoryPatterns"/>, such as those of a <c>tscommentify.json</c> file, apply after
+    /// the ignore files of the directory and are relative to it too.
+    /// </summary>
+    public IgnoreRules ForDirectory(string directoryPath, IEnumerable<string> ignoreFileNames, IEnumerable<string>? directoryPatterns = null)
+    {
+        var patterns = new List<Pattern>();
+
+        foreach (var fileName in ignoreFileNames)
+        {
+            var filePath = Path.Combine(directoryPath, fileName);
+            if (File.Exists(filePath))
+            {
+                patterns.AddRange(Parse(File.ReadLines(filePath), directoryPath));
+            }
+        }
+
+        if (directoryPatterns != null)
+            patterns.AddRange(Parse(directoryPatterns, directoryPath));
+
+        return patterns.Count == 0 ? this : new IgnoreRules(_defaults, _files.Concat(patterns).ToList(), _configured);
+    }
+
+    /// <summary>
+    /// Returns these rules with other default patterns, relative to <paramref name="directoryPath"/>, for a
+    /// subtree whose settings configure different defaults.
+    /// </summary>
+    public IgnoreRules WithDefaults(string directoryPath, IEnumerable<string> defaultPatterns) =>
+        new(Parse(defaultPatterns, directoryPath), _files, _configured);
+
+    /// <summary>
+    /// Whether the path itself is excluded. Like git, callers don't look inside excluded directories,
+    /// so a pattern cannot re-include a file whose directory is excluded.
+    /// </summary>
+    public bool IsIgnored(string path, bool isDirectory)
+    {
+        var ignored = false;
+
+        foreach (var pattern in _defaults.Concat(_files).Concat(_configured))
+        {
+            if (pattern.DirectoryOnly && !isDirectory)
+                continue;
+
+            var relativePath = Path.GetRelativePath(pattern.BaseDirectory, path).Replace(Path.DirectorySeparatorChar, '/');
+            if (relativePath == "." || relativePath.StartsWith("../") || relativePath == ".." || Path.IsPathRooted(relativePath))
+                continue;
+
+            if (pattern.Regex.IsMatch(relativePath))
+            {
+                ignored = !pattern.Negated;
+            }
+        }
+
+        return ignored;
+    }
+
+    private static List<Pattern> Parse(IEnumerable<string> lines, string baseDirectory)
+    {
+        return lines.Select(line => Parse(line, baseDirectory)).OfType<Pattern>().ToList();
+    }
+
+    private static Pattern? Parse(string line, string baseDirectory)
+    {
+        // Trailing spaces are ignored unless escaped with a backslash
+        var pattern = line.TrimEnd('\r');
+        while (pattern.EndsWith(' ') && !pattern.EndsWith("\\ "))
+        {
+            pattern = pattern.Substring(0, pattern.Length - 1);
+        }
+
+        if (pattern.Length == 0 || pattern.StartsWith('#'))
+            return null;
+
+        var negated = pattern.StartsWith('!');
+        if (negated)
+            pattern = pattern.Substring(1);
+        else if (pattern.StartsWith("\\!") || pattern.StartsWith("\\#"))
+            pattern = pattern.Substring(1);
+
+        var directoryOnly = pattern.EndsWith('/');
+        pattern = pattern.TrimEnd('/');
+        if (pattern.Length == 0)
+            return null;
+
+        // A slash at the beginning or in the middle anchors the pattern to its directory
+        var anchored = pattern.Contains('/');
+        pattern = pattern.TrimStart('/');
+
+        var regex = (anchored ? "^" : "^(?:.*/)?") + ConvertToRegex(pattern) + "$";
+        return new Pattern(baseDirectory, new Regex(regex, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant), negated, directoryOnly);
+    }
+
+    private static string ConvertToRegex(string pattern)
+    {
+        var regex = new StringBuilder();
+
+        for (int i = 0; i < pattern.Length; i++)
+        {
+            var ch = pattern[i];
+
+            if (ch == '*' && i + 1 < pattern.Length && pattern[i + 1] == '*'
+                && (i == 0 || pattern[i - 1] == '/'))
+            {
+                if (i + 2 == pattern.Length)
+                {
+                    // "dir/**" matches everything inside dir
+                    regex.Append(".*");
+                    i++;
+                    continue;
+                }
+
+                if (pattern[i + 2] == '/')
+                {
+                    // "**/" matches zero or more directories
+                    regex.Append("(?:.*/)?");
+                    i += 2;
+                    continue;
+                }
+            }
+
+            switch (ch)
+            {
+                case '*':
+                    regex.Append("[^/]*");
+                    break;
+                case '?':
+                    regex.Append("[^/]");
+                    break;
+                case '\\' when i + 1 < pattern.Length:
+                    regex.Append(Regex.Escape(pattern[++i].ToString()));
+                    break;
+                case '[':
+                    var end = pattern.IndexOf(']', i + 2);
+                    if (end < 0)
+                    {
+                        regex.Append("\\[");
+                        break;
+                    }
+
+                    var set = pattern.Substring(i + 1, end - i - 1);
+                    if (set.StartsWith('!'))
+                        set = "^" + set.Substring(1);
+
+                    regex.Append('[').Append(set.Replace("\\", "\\\\")).Append(']');
+                    i = end;
+                    break;
+                default:
+                    regex.Append(Regex.Escape(ch.ToString()));
+                    break;
+            }
+        }
+
+        return regex.ToString();
+    }
+}
@@ -0,0 +1,201 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// A JSDoc block split into its description and block tags. Tags that are not edited are
+/// rendered exactly as they were written.
+/// </summary>
+public class JsDocComment
+{
+    private static readonly HashSet<string> ParameterTagNames = new() { "param", "arg", "argument" };
+
+    public JsDocComment(List<string> description, List<JsDocTag> tags)
+    {
+        Description = description;
+        Tags = tags;
+    }
+
+    /// <summary>
+    /// The lines before the first tag, without the leading <c>*</c>.
+    /// </summary>
+    public List<string> Description { get; }
+
+    public List<JsDocTag> Tags { get; }
+
+    public static bool IsParameterTag(JsDocTag tag) => ParameterTagNames.Contains(tag.Name);
+
+    /// <summary>
+    /// Parses a <c>/** ... */</c> block. Returns null for any other kind of comment.
+    /// </summary>
+    public static JsDocComment? Parse(string comment)
+    {
+        comment = comment.Trim();
+        if (!comment.StartsWith("/**") || !comment.EndsWith("*/") || comment.Length < 5)
+            return null;
+
+        var body = comment.Substring(3, comment.Length - 5);
+        var description = new List<string>();
+        var tags = new List<JsDocTag>();
+        var pendingBlankLines = 0;
+
+        foreach (var rawLine in body.Split('\n'))
+        {
+            var line = Regex.Replace(rawLine.TrimEnd('\r'), @"^\s*\*? ?", string.Empty).TrimEnd();
+
+            if (line.Length == 0)
+            {
+                pendingBlankLines++;
+                continue;
+            }
+
+            if (line.StartsWith('@'))
+            {
+                tags.Add(ParseTag(line) with { BlankLineBefore = pendingBlankLines > 0 });
+            }
+            else if (tags.Count == 0)
+            {
+                // Keep blank lines between description paragraphs, but not the ones before the first line
+                if (description.Count > 0)
+                    description.AddRange(Enumerable.Repeat(string.Empty, pendingBlankLines));
+
+                description.Add(line);
+            }
+            else
+            {
+                var continuation = tags[^1].Continuation;
+                continuation.AddRange(Enumerable.Repeat(string.Empty, pendingBlankLines));
+                continuation.Add(line);
+            }
+
+            pendingBlankLines = 0;
+        }
+
+        return new JsDocComment(description, tags);
+    }
+
+    public string Render()
+    {
+        var comment = new StringBuilder();
+        comment.AppendLine("/**");
+
+        foreach (var line in Description)
+        {
+            AppendLine(comment, line);
+        }
+
+        for (int i = 0; i < Tags.Count; i++)
+        {
+            var tag = Tags[i];
+
+            if (tag.BlankLineBefore && (i > 0 || Description.Count > 0))
+                AppendLine(comment, string.Empty);
+
+            AppendLine(comment, tag.Text ?? FormatTag(tag));
+            foreach (var line in tag.Continuation)
+            {
+                AppendLine(comment, line);
+            }
+        }
+
+        comment.Append(" */");
+        return comment.ToString();
+    }
+
+    private static void AppendLine(StringBuilder comment, string line)
+    {
+        comment.AppendLine(line.Length == 0 ? " *" : $" * {line}");
+    }
+
+    private static string FormatTag(JsDocTag tag)
+    {
+        var text = new StringBuilder($"@{tag.Name}");
+
+        if (tag.Type != null)
+            text.Append($" {{{tag.Type}}}");
+
+        if (tag.ParameterName != null)
+            text.Append($" {tag.ParameterName}");
+
+        if (!string.IsNullOrEmpty(tag.Description))
+            text.Append(tag.ParameterName != null ? $" - {tag.Description}" : $" {tag.Description}");
+
+        return text.ToString();
+    }
+
+    private static JsDocTag ParseTag(string line)
+    {
+        // @name [{type}] [parameter] [- description]
+        var name = Regex.Match(line, @"^@([\w-]+)").Groups[1].Value;
+        var rest = line.Substring(name.Length + 1).TrimStart();
+
+        string? type = null;
+        if (rest.StartsWith('{'))
+        {
+            var close = FindClosing(rest, 0, '{', '}');
+            if (close > 0)
+            {
+                type = rest.Substring(1, close - 1).Trim();
+                rest = rest.Substring(close + 1).TrimStart();
+            }
+        }
+
+        string? parameterName = null;
+        if (ParameterTagNames.Contains(name) && rest.Length > 0)
+        {
+            var end = rest.StartsWith('[') ? FindClosing(rest, 0, '[', ']') + 1 : rest.IndexOf(' ');
+            if (end <= 0)
+                end = rest.Length;
+
+            parameterName = rest.Substring(0, end);
+            rest = rest.Substring(end).TrimStart();
+
+            if (rest.StartsWith("- "))
+                rest = rest.Substring(2);
+        }
+
+        return new JsDocTag(name, type, parameterName, rest.Length > 0 ? rest : null) { Text = line };
+    }
+
+    private static int FindClosing(string text, int start, char open, char close)
+    {
+        var depth = 0;
+        for (int i = start; i < text.Length; i++)
+        {
+            if (text[i] == open)
+            {
+                depth++;
+            }
+            else if (text[i] == close && --depth == 0)
+            {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+}
+
+/// <summary>
+/// A block tag such as <c>@param {string} name - The name</c>.
+/// </summary>
+public record JsDocTag(string Name, string? Type, string? ParameterName, string? Description)
+{
+    /// <summary>
+    /// The first line of the tag as written, or null for new and edited tags, which are formatted from their parts.
+    /// </summary>
+    public string? Text { get; init; }
+
+    /// <summary>
+    /// The lines following the first line of the tag, such as the body of an <c>@example</c>.
+    /// </summary>
+    public List<string> Continuation { get; init; } = new();
+
+    public bool BlankLineBefore { get; init; }
+
+    /// <summary>
+    /// The parameter path without optional brackets or default value: <c>[options.limit=10]</c> is <c>options.limit</c>.
+    /// </summary>
+    public string? ParameterPath => ParameterName?.Trim('[', ']').Split('=')[0].Trim();
+}
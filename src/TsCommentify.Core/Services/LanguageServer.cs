@@ -0,0 +1,413 @@
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using Microsoft.Extensions.Logging;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// A Language Server Protocol server for editors. Every open TypeScript document gets a diagnostic for each
+/// undocumented function, with code actions that insert the generated comments into the editor's buffer
+/// rather than the file on disk. Messages are JSON-RPC with <c>Content-Length</c> headers, handled one at a time.
+/// </summary>
+public class LanguageServer : ILanguageServer
+{
+    public const string AddCommentTitle = "Add JSDoc comment";
+
+    public const string AddAllCommentsTitle = "Add comments to all functions in file";
+
+    private const string DiagnosticSource = "tscommentify";
+
+    // JSON-RPC and LSP error codes
+    private const int ParseError = -32700;
+    private const int InvalidRequest = -32600;
+    private const int MethodNotFound = -32601;
+    private const int InternalError = -32603;
+
+    private const int WarningSeverity = 2;
+    private const int FullTextSync = 1;
+
+    private readonly ICommentifier _commentifier;
+    private readonly ILogger<LanguageServer> _logger;
+
+    // The text of the open documents by URI, as last sent by the editor
+    private readonly Dictionary<string, string> _documents = new();
+    private bool _shutdown;
+
+    public LanguageServer(ICommentifier commentifier, ILogger<LanguageServer> logger)
+    {
+        _commentifier = commentifier;
+        _logger = logger;
+    }
+
+    public async Task<int> RunAsync(Stream input, Stream output, CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("Language server started");
+
+        while (true)
+        {
+            JsonNode? message;
+            try
+            {
+                message = await ReadMessageAsync(input, cancellationToken);
+            }
+            catch (Exception ex) when (ex is JsonException or InvalidDataException)
+            {
+                _logger.LogWarning(ex, "Ignoring a message that is not valid JSON");
+                await WriteMessageAsync(output, CreateError(null, ParseError, ex.Message), cancellationToken);
+                continue;
+            }
+
+            // The client closed the connection without asking the server to exit
+            if (message == null)
+                return 1;
+
+            // Batches are not used by LSP clients
+            if (message is not JsonObject || (message["method"] != null && GetString(message["method"]) == null))
+            {
+                _logger.LogWarning("Ignoring a message that is not a JSON-RPC request or notification");
+                await WriteMessageAsync(output, CreateError(GetId(message), InvalidRequest, "Expected a single JSON-RPC request or notification"), cancellationToken);
+                continue;
+            }
+
+            var method = GetString(message["method"]);
+            var id = message["id"];
+
+            if (method == "exit")
+            {
+                _logger.LogInformation("Language server stopped");
+                return _shutdown ? 0 : 1;
+            }
+
+            // Responses to requests the server never sends
+            if (method == null)
+                continue;
+
+            if (id == null)
+            {
+                // Notifications have no response to carry an error, so a malformed one is only logged
+                try
+                {
+                    await HandleNotificationAsync(method, message["params"], output, cancellationToken);
+                }
+                catch (Exception ex) when (ex is not OperationCanceledException)
+                {
+                    _logger.LogError(ex, "Failed to handle {Method}", method);
+                }
+
+                continue;
+            }
+
+            JsonObject response;
+            try
+            {
+                response = await HandleRequestAsync(id, method, message["params"], cancellationToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Failed to handle {Method}", method);
+                response = CreateError(id, InternalError, ex.Message);
+            }
+
+            await WriteMessageAsync(output, response, cancellationToken);
+        }
+    }
+
+    private async Task<JsonObject> HandleRequestAsync(JsonNode id, string method, JsonNode? parameters, CancellationToken cancellationToken)
+    {
+        if (_shutdown)
+            return CreateError(id, InvalidRequest, "The server is shutting down");
+
+        JsonNode? result;
+        switch (method)
+        {
+            case "initialize":
+                result = new JsonObject
+                {
+                    ["capabilities"] = new JsonObject
+                    {
+                        ["textDocumentSync"] = new JsonObject { ["openClose"] = true, ["change"] = FullTextSync },
+                        ["codeActionProvider"] = new JsonObject { ["codeActionKinds"] = new JsonArray("quickfix", "source") }
+                    },
+                    ["serverInfo"] = new JsonObject
+                    {
+                        ["name"] = DiagnosticSource,
+                        ["version"] = typeof(LanguageServer).Assembly.GetName().Version?.ToString(3)
+                    }
+                };
+                break;
+
+            case "shutdown":
+                _shutdown = true;
+                result = null;
+                break;
+
+            case "textDocument/codeAction":
+                result = await GetCodeActionsAsync(parameters!, cancellationToken);
+                break;
+
+            default:
+                return CreateError(id, MethodNotFound, $"Unknown method '{method}'");
+        }
+
+        return new JsonObject { ["jsonrpc"] = "2.0", ["id"] = id.DeepClone(), ["result"] = result };
+    }
+
+    private async Task HandleNotificationAsync(string method, JsonNode? parameters, Stream output, CancellationToken cancellationToken)
+    {
+        var uri = parameters?["textDocument"]?["uri"]?.GetValue<string>();
+        if (uri == null)
+            return;
+
+        switch (method)
+        {
+            case "textDocument/didOpen":
+                _documents[uri] = parameters!["textDocument"]!["text"]!.GetValue<string>();
+                break;
+
+            case "textDocument/didChange":
+                // Full synchronization: the last change holds the whole document
+                var changes = parameters!["contentChanges"]!.AsArray();
+                if (changes.Count == 0)
+                    return;
+
+                _documents[uri] = changes[^1]!["text"]!.GetValue<string>();
+                break;
+
+            case "textDocument/didClose":
+                _documents.Remove(uri);
+                break;
+
+            default:
+                return;
+        }
+
+        await WriteMessageAsync(output, new JsonObject
+        {
+            ["jsonrpc"] = "2.0",
+            ["method"] = "textDocument/publishDiagnostics",
+            ["params"] = new JsonObject { ["uri"] = uri, ["diagnostics"] = await GetDiagnosticsAsync(uri, cancellationToken) }
+        }, cancellationToken);
+    }
+
+    private async Task<JsonArray> GetDiagnosticsAsync(string uri, CancellationToken cancellationToken)
+    {
+        var diagnostics = new JsonArray();
+        if (!_documents.TryGetValue(uri, out var text))
+            return diagnostics;
+
+        var lines = SourceFile.FromText(GetFilePath(uri), text).GetLines();
+        var result = await CommentifyAsync(uri, text, cancellationToken);
+        foreach (var diagnostic in result.Diagnostics.Where(IsMissingFunctionComment))
+        {
+            diagnostics.Add(CreateDiagnostic(diagnostic, lines));
+        }
+
+        _logger.LogInformation("Found {Count} undocumented functions in {Uri}", diagnostics.Count, uri);
+        return diagnostics;
+    }
+
+    /// <summary>
+    /// Offers a quick fix for every undocumented function whose signature overlaps the requested range, and
+    /// a source action for the whole document. Both insert the generated comments above the functions.
+    /// </summary>
+    private async Task<JsonArray> GetCodeActionsAsync(JsonNode parameters, CancellationToken cancellationToken)
+    {
+        var actions = new JsonArray();
+        var uri = parameters["textDocument"]!["uri"]!.GetValue<string>();
+        if (!_documents.TryGetValue(uri, out var text))
+            return actions;
+
+        var lines = SourceFile.FromText(GetFilePath(uri), text).GetLines();
+        var result = await CommentifyAsync(uri, text, cancellationToken);
+        var missing = result.Diagnostics.Where(IsMissingFunctionComment).ToList();
+        var comments = missing.Select(d => result.Comments.First(c => c.Declaration == d.Declaration)).ToList();
+
+        var firstLine = parameters["range"]!["start"]!["line"]!.GetValue<int>() + 1;
+        var lastLine = parameters["range"]!["end"]!["line"]!.GetValue<int>() + 1;
+
+        for (int i = 0; i < missing.Count; i++)
+        {
+            var function = missing[i].Declaration;
+            if (function.LineNumber > lastLine || GetSignatureEndLine(function) < firstLine)
+                continue;
+
+            actions.Add(CreateCodeAction(AddCommentTitle, "quickfix", uri, new JsonArray(CreateEdit(comments[i].Edit)),
+                new JsonArray(CreateDiagnostic(missing[i], lines))));
+        }
+
+        if (comments.Any())
+        {
+            var edits = new JsonArray(comments.Select(c => (JsonNode)CreateEdit(c.Edit)).ToArray());
+            actions.Add(CreateCodeAction(AddAllCommentsTitle, "source", uri, edits, diagnostics: null));
+        }
+
+        // Editors ask for quick fixes and source actions separately
+        var only = parameters["context"]?["only"]?.AsArray().Select(k => k!.GetValue<string>()).ToList();
+        if (only != null)
+        {
+            foreach (var action in actions.ToList())
+            {
+                var kind = action!["kind"]!.GetValue<string>();
+                if (!only.Any(k => kind == k || kind.StartsWith(k + ".")))
+                    actions.Remove(action);
+            }
+        }
+
+        return actions;
+    }
+
+    // Stale comments are left to the command line; the editor only reports functions without one
+    private Task<CommentifyResult> CommentifyAsync(string uri, string text, CancellationToken cancellationToken) =>
+        _commentifier.CommentifyAsync(GetFilePath(uri), text, cancellationToken: cancellationToken);
+
+    private static bool IsMissingFunctionComment(CommentDiagnostic diagnostic) =>
+        diagnostic.Code == CommentDiagnostic.MissingComment && diagnostic.Declaration is FunctionInfo;
+
+    private static JsonObject CreateCodeAction(string title, string kind, string uri, JsonArray edits, JsonArray? diagnostics)
+    {
+        var action = new JsonObject
+        {
+            ["title"] = title,
+            ["kind"] = kind,
+            ["edit"] = new JsonObject { ["changes"] = new JsonObject { [uri] = edits } }
+        };
+
+        if (diagnostics != null)
+        {
+            action["diagnostics"] = diagnostics;
+            action["isPreferred"] = true;
+        }
+
+        return action;
+    }
+
+    private static JsonObject CreateDiagnostic(CommentDiagnostic diagnostic, string[] lines)
+    {
+        var line = diagnostic.Declaration.LineNumber - 1;
+        var text = lines[line];
+
+        return new JsonObject
+        {
+            ["range"] = CreateRange(line, text.Length - text.TrimStart().Length, line, text.Length),
+            ["severity"] = WarningSeverity,
+            ["code"] = diagnostic.Code,
+            ["source"] = DiagnosticSource,
+            ["message"] = diagnostic.Message
+        };
+    }
+
+    // New comments are inserted at the start of the declaration's line
+    private static JsonObject CreateEdit(TextEdit edit) => new()
+    {
+        ["range"] = CreateRange(edit.Range.StartLine - 1, 0, edit.Range.StartLine - 1, 0),
+        ["newText"] = edit.NewText
+    };
+
+    private static JsonObject CreateRange(int startLine, int startCharacter, int endLine, int endCharacter) => new()
+    {
+        ["start"] = new JsonObject { ["line"] = startLine, ["character"] = startCharacter },
+        ["end"] = new JsonObject { ["line"] = endLine, ["character"] = endCharacter }
+    };
+
+    private static JsonObject CreateError(JsonNode? id, int code, string message) => new()
+    {
+        ["jsonrpc"] = "2.0",
+        ["id"] = id?.DeepClone(),
+        ["error"] = new JsonObject { ["code"] = code, ["message"] = message }
+    };
+
+    private static string? GetString(JsonNode? node) =>
+        node is JsonValue value && value.TryGetValue<string>(out var text) ? text : null;
+
+    // The id of an invalid message, when it has one that can be echoed back
+    private static JsonNode? GetId(JsonNode message) =>
+        message is JsonObject request && request["id"] is JsonValue id ? id : null;
+
+    private static int GetSignatureEndLine(DeclarationInfo declaration) =>
+        declaration.LineNumber + declaration.Content.Count(c => c == '\n');
+
+    // The extension of the path decides the language; documents that aren't files keep their URI
+    private static string GetFilePath(string uri) =>
+        Uri.TryCreate(uri, UriKind.Absolute, out var parsed) && parsed.IsFile ? parsed.LocalPath : uri;
+
+    /// <summary>
+    /// Reads the next message, or returns null at the end of the stream. Throws <see cref="InvalidDataException"/>
+    /// for a message whose <c>Content-Length</c> can't be read; its body is skipped with the next header.
+    /// </summary>
+    private static async Task<JsonNode?> ReadMessageAsync(Stream input, CancellationToken cancellationToken)
+    {
+        int? contentLength = null;
+        string? invalidLength = null;
+        while (true)
+        {
+            var header = await ReadHeaderLineAsync(input, cancellationToken);
+            if (header == null)
+                return null;
+
+            if (header.Length == 0)
+            {
+                if (invalidLength != null)
+                    throw new InvalidDataException($"Invalid Content-Length header: '{invalidLength}'");
+
+                if (contentLength != null)
+                    break;
+
+                continue;
+            }
+
+            // The body of a message that could not be framed runs into the header line of the next one
+            var start = header.IndexOf("Content-Length", StringComparison.OrdinalIgnoreCase);
+            if (start > 0)
+                header = header.Substring(start);
+
+            var separator = header.IndexOf(':');
+            if (separator > 0 && header.Substring(0, separator).Trim().Equals("Content-Length", StringComparison.OrdinalIgnoreCase))
+            {
+                var value = header.Substring(separator + 1).Trim();
+                if (int.TryParse(value, out var length) && length >= 0)
+                    contentLength = length;
+                else
+                    invalidLength = value;
+            }
+        }
+
+        var body = new byte[contentLength.GetValueOrDefault()];
+        try
+        {
+            await input.ReadExactlyAsync(body, cancellationToken);
+        }
+        catch (EndOfStreamException)
+        {
+            return null;
+        }
+
+        return JsonNode.Parse(body);
+    }
+
+    private static async Task<string?> ReadHeaderLineAsync(Stream input, CancellationToken cancellationToken)
+    {
+        var line = new StringBuilder();
+        var buffer = new byte[1];
+
+        while (await input.ReadAsync(buffer, cancellationToken) == 1)
+        {
+            if (buffer[0] == '\n')
+                return line.ToString().TrimEnd('\r');
+
+            line.Append((char)buffer[0]);
+        }
+
+        return null;
+    }
+
+    private static async Task WriteMessageAsync(Stream output, JsonNode message, CancellationToken cancellationToken)
+    {
+        var body = Encoding.UTF8.GetBytes(message.ToJsonString());
+        var header = Encoding.ASCII.GetBytes($"Content-Length: {body.Length}\r\n\r\n");
+
+        await output.WriteAsync(header, cancellationToken);
+        await output.WriteAsync(body, cancellationToken);
+        await output.FlushAsync(cancellationToken);
+    }
+}
@@ -0,0 +1,291 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Describes functions by sending their source to an OpenAI-compatible chat completions endpoint,
+/// such as a self-hosted llama.cpp or Ollama server. Answers are cached on disk by a hash of the
+/// request. Other declarations, and every function after the endpoint has failed, are described
+/// by the <see cref="HeuristicDescriptionProvider"/>.
+/// </summary>
+public class OpenAIDescriptionProvider : IDescriptionProvider, IDisposable
+{
+    private static readonly string SystemPrompt = string.Join('\n',
+        "You write JSDoc descriptions for TypeScript functions.",
+        "Reply with a single JSON object and nothing else, in the form",
+        "{\"summary\": string, \"parameters\": {\"<name>\": string}, \"returns\": string}.",
+        "The summary is one sentence in the imperative mood that ends with a period.",
+        "Parameter and return descriptions are short phrases that start with a capital letter and have no trailing period.",
+        "Describe exactly the parameters that are listed, using the names as given.");
+
+    private readonly ILogger<OpenAIDescriptionProvider> _logger;
+    private readonly HeuristicDescriptionProvider _fallback;
+    private readonly OpenAICompatibleOptions _options;
+    private readonly HttpClient _httpClient;
+    private readonly SemaphoreSlim _requests;
+    private volatile bool _unavailable;
+
+    public OpenAIDescriptionProvider(
+        ILogger<OpenAIDescriptionProvider> logger,
+        IConfiguration configuration,
+        HeuristicDescriptionProvider fallback)
+    {
+        _logger = logger;
+        _fallback = fallback;
+        _options = configuration.GetSection(DescriptionProviderOptions.SectionName).Get<DescriptionProviderOptions>()?.OpenAI
+            ?? new OpenAICompatibleOptions();
+
+        _httpClient = new HttpClient { Timeout = TimeSpan.FromSeconds(Math.Max(1, _options.TimeoutSeconds)) };
+        _requests = new SemaphoreSlim(Math.Max(1, _options.MaxConcurrentRequests));
+    }
+
+    public async Task<DeclarationDescription> DescribeAsync(DeclarationInfo declaration, CancellationToken cancellationToken = default)
+    {
+        var heuristic = _fallback.Describe(declaration);
+        if (declaration is not FunctionInfo function || _unavailable)
+            return heuristic;
+
+        var prompt = CreatePrompt(function, heuristic);
+        var cachePath = GetCachePath(prompt);
+
+        var answer = ReadCache(cachePath);
+        if (answer == null)
+        {
+            var content = await RequestCompletionAsync(prompt, cancellationToken);
+            if (content == null)
+                return heuristic;
+
+            answer = ExtractJson(content);
+            if (answer == null)
+            {
+                _logger.LogWarning("The model's answer for {FunctionName} is not a JSON object, using the heuristic description", function.Name);
+                return heuristic;
+            }
+
+            WriteCache(cachePath, answer);
+        }
+        else
+        {
+            _logger.LogDebug("Using cached description for {FunctionName}", function.Name);
+        }
+
+        return Merge(heuristic, answer);
+    }
+
+    public void Dispose()
+    {
+        _httpClient.Dispose();
+        _requests.Dispose();
+    }
+
+    private static string CreatePrompt(FunctionInfo function, DeclarationDescription heuristic)
+    {
+        var prompt = new StringBuilder();
+        prompt.AppendLine($"Parameters: {(heuristic.Parameters.Count == 0 ? "none" : string.Join(", ", heuristic.Parameters.Keys))}");
+        prompt.AppendLine(heuristic.Returns == null ? "Returns: omit" : $"Returns: {function.ReturnType ?? function.InferredReturnType}");
+        prompt.AppendLine();
+        prompt.AppendLine("```ts");
+        prompt.AppendLine(string.IsNullOrEmpty(function.Source) ? function.Content : function.Source);
+        prompt.Append("```");
+        return prompt.ToString();
+    }
+
+    /// <summary>
+    /// Sends the prompt, retrying timeouts, connection failures and 429/5xx responses. Returns the
+    /// assistant message, or null when the request failed, after which the endpoint is no longer used.
+    /// </summary>
+    private async Task<string?> RequestCompletionAsync(string prompt, CancellationToken cancellationToken)
+    {
+        await _requests.WaitAsync(cancellationToken);
+        try
+        {
+            for (int attempt = 0; !_unavailable; attempt++)
+            {
+                string failure;
+                try
+                {
+                    using var request = CreateRequest(prompt);
+                    using var response = await _httpClient.SendAsync(request, cancellationToken);
+
+                    if (response.IsSuccessStatusCode)
+                        return await ReadMessageAsync(response, cancellationToken);
+
+                    failure = $"HTTP {(int)response.StatusCode}";
+                    if (response.StatusCode != HttpStatusCode.TooManyRequests && (int)response.StatusCode < 500)
+                        attempt = _options.MaxRetries;
+                }
+                catch (Exception ex) when ((ex is HttpRequestException or TaskCanceledException or IOException) && !cancellationToken.IsCancellationRequested)
+                {
+                    failure = ex is TaskCanceledException ? $"timed out after {_options.TimeoutSeconds}s" : ex.Message;
+                }
+                catch (Exception ex) when (ex is JsonException or KeyNotFoundException or InvalidOperationException)
+                {
+                    failure = "the response is not a chat completion";
+                    attempt = _options.MaxRetries;
+                }
+
+                if (attempt >= _options.MaxRetries)
+                {
+                    _logger.LogWarning("Description endpoint {Endpoint} failed ({Failure}), using heuristic descriptions instead",
+                        _options.Endpoint, failure);
+                    _unavailable = true;
+                    break;
+                }
+
+                _logger.LogDebug("Description request failed ({Failure}), retrying", failure);
+                await Task.Delay(_options.RetryDelayMilliseconds * (1 << attempt), cancellationToken);
+            }
+
+            return null;
+        }
+        finally
+        {
+            _requests.Release();
+        }
+    }
+
+    private HttpRequestMessage CreateRequest(string prompt)
+    {
+        var body = JsonSerializer.Serialize(new
+        {
+            model = _options.Model,
+            temperature = 0.2,
+            messages = new[]
+            {
+                new { role = "system", content = SystemPrompt },
+                new { role = "user", content = prompt }
+            }
+        });
+
+        var request = new HttpRequestMessage(HttpMethod.Post, $"{_options.Endpoint.TrimEnd('/')}/chat/completions")
+        {
+            Content = new StringContent(body, Encoding.UTF8, "application/json")
+        };
+
+        if (!string.IsNullOrEmpty(_options.ApiKey))
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", _options.ApiKey);
+
+        return request;
+    }
+
+    private static async Task<string> ReadMessageAsync(HttpResponseMessage response, CancellationToken cancellationToken)
+    {
+        // { "choices": [ { "message": { "content": "..." } } ] }
+        await using var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
+        using var document = await JsonDocument.ParseAsync(stream, cancellationToken: cancellationToken);
+
+        return document.RootElement
+            .GetProperty("choices")[0]
+            .GetProperty("message")
+            .GetProperty("content")
+            .GetString() ?? string.Empty;
+    }
+
+    /// <summary>
+    /// Returns the JSON object in the model's answer, ignoring any text or code fence around it.
+    /// </summary>
+    private static string? ExtractJson(string content)
+    {
+        var start = content.IndexOf('{');
+        var end = content.LastIndexOf('}');
+        if (start < 0 || end < start)
+            return null;
+
+        var json = content.Substring(start, end - start + 1);
+        try
+        {
+            using var document = JsonDocument.Parse(json);
+            return document.RootElement.ValueKind == JsonValueKind.Object ? json : null;
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Takes the model's descriptions for the summary, the known parameters and the return value,
+    /// keeping the heuristic text for anything it left out.
+    /// </summary>
+    private static DeclarationDescription Merge(DeclarationDescription heuristic, string answer)
+    {
+        using var document = JsonDocument.Parse(answer);
+        var root = document.RootElement;
+
+        string? Read(JsonElement element, string name) =>
+            element.ValueKind == JsonValueKind.Object
+            && element.TryGetProperty(name, out var value)
+            && value.ValueKind == JsonValueKind.String
+                ? Clean(value.GetString())
+                : null;
+
+        var parameters = root.TryGetProperty("parameters", out var described) ? described : default;
+
+        return new DeclarationDescription(Read(root, "summary") ?? heuristic.Summary)
+        {
+            Parameters = heuristic.Parameters.ToDictionary(p => p.Key, p => Read(parameters, p.Key) ?? p.Value),
+            Returns = heuristic.Returns == null ? null : Read(root, "returns") ?? heuristic.Returns,
+            TypeParameters = heuristic.TypeParameters,
+            Yields = heuristic.Yields
+        };
+    }
+
+    private static string? Clean(string? text)
+    {
+        if (string.IsNullOrWhiteSpace(text))
+            return null;
+
+        // Descriptions are rendered on a single comment line, which must not close the comment
+        return Regex.Replace(text, @"\s+", " ").Trim().Replace("*/", "*\\/");
+    }
+
+    private string? GetCachePath(string prompt)
+    {
+        if (string.IsNullOrEmpty(_options.CacheDirectory))
+            return null;
+
+        var key = string.Join('\n', _options.Endpoint, _options.Model, SystemPrompt, prompt);
+        var hash = Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(key))).ToLowerInvariant();
+        return Path.Combine(Path.GetFullPath(_options.CacheDirectory), $"{hash}.json");
+    }
+
+    private string? ReadCache(string? path)
+    {
+        if (path == null || !File.Exists(path))
+            return null;
+
+        try
+        {
+            return ExtractJson(File.ReadAllText(path));
+        }
+        catch (IOException ex)
+        {
+            _logger.LogDebug(ex, "Could not read cached description {CachePath}", path);
+            return null;
+        }
+    }
+
+    private void WriteCache(string? path, string answer)
+    {
+        if (path == null)
+            return;
+
+        try
+        {
+            Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+            File.WriteAllText(path, answer);
+        }
+        catch (Exception ex) when (ex is IOException or UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Could not write description cache {CachePath}: {Message}", path, ex.Message);
+        }
+    }
+}
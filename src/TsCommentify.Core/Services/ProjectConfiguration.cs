@@ -0,0 +1,274 @@
+using System.Collections.Concurrent;
+using System.Text.Encodings.Web;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Text.Json.Serialization;
+using Microsoft.Extensions.Configuration;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Resolves the settings of a path from the <c>tscommentify.json</c> files between the repository root and
+/// its directory. Deeper files merge over their parents, the base configuration (<c>appsettings.json</c> and
+/// environment variables) is below all of them and the overrides of the command line are above. Sections
+/// merge key by key, while a list replaces the list of the layers below it.
+/// </summary>
+public class ProjectConfiguration
+{
+    public const string FileName = "tscommentify.json";
+
+    // Paths in these settings are relative to the tscommentify.json file that sets them
+    private static readonly string[] PathKeys =
+    {
+        $"{CommentTemplateOptions.SectionName}:{nameof(CommentTemplateOptions.TemplateFile)}",
+        $"{DescriptionProviderOptions.SectionName}:{nameof(DescriptionProviderOptions.RuleFiles)}"
+    };
+
+    private static readonly string IgnorePatternsKey =
+        $"{FileProcessorOptions.SectionName}:{nameof(FileProcessorOptions.IgnorePatterns)}";
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        WriteIndented = true,
+        Encoder = JavaScriptEncoder.UnsafeRelaxedJsonEscaping,
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    private readonly IReadOnlyDictionary<string, string?> _base;
+    private readonly IReadOnlyDictionary<string, string?> _overrides;
+    private readonly ConcurrentDictionary<string, IReadOnlyList<string>> _filesByDirectory = new();
+    private readonly ConcurrentDictionary<string, IReadOnlyDictionary<string, string?>> _settingsByFile = new();
+    private readonly ConcurrentDictionary<string, IConfiguration> _configurations = new();
+
+    public ProjectConfiguration(IConfiguration baseConfiguration, IReadOnlyDictionary<string, string?> overrides)
+    {
+        _base = Flatten(baseConfiguration);
+        _overrides = overrides;
+    }
+
+    /// <summary>
+    /// The <c>tscommentify.json</c> files that apply to a file or directory, outermost first: those in its
+    /// directory and its parents, up to the root of the git repository (or of the file system outside one).
+    /// </summary>
+    public IReadOnlyList<string> FindFiles(string path)
+    {
+        var fullPath = Path.GetFullPath(path);
+        var directory = Directory.Exists(fullPath) ? fullPath : Path.GetDirectoryName(fullPath)!;
+
+        return _filesByDirectory.GetOrAdd(directory, _ =>
+        {
+            var files = new List<string>();
+            for (var current = directory; current != null; current = Path.GetDirectoryName(current))
+            {
+                var file = Path.Combine(current, FileName);
+                if (File.Exists(file))
+                    files.Add(file);
+
+                var git = Path.Combine(current, ".git");
+                if (Directory.Exists(git) || File.Exists(git))
+                    break;
+            }
+
+            files.Reverse();
+            return files;
+        });
+    }
+
+    /// <summary>
+    /// The merged settings for a file or directory. Paths with the same configuration files share one
+    /// instance, so callers can reuse the services built from it.
+    /// </summary>
+    public IConfiguration GetConfiguration(string path)
+    {
+        var files = FindFiles(path);
+
+        return _configurations.GetOrAdd(string.Join(Path.PathSeparator, files), _ =>
+        {
+            var settings = new Dictionary<string, string?>(_base, StringComparer.OrdinalIgnoreCase);
+
+            // Ignore patterns of a file are relative to its directory, so they are applied while walking the tree
+            foreach (var file in files)
+                Merge(settings, ReadFile(file).Where(s => !IsUnder(s.Key, IgnorePatternsKey)));
+
+            Merge(settings, _overrides);
+
+            return new ConfigurationBuilder()
+                .AddInMemoryCollection(settings.Where(s => s.Value != null))
+                .Build();
+        });
+    }
+
+    /// <summary>
+    /// The ignore patterns of the <c>tscommentify.json</c> file in a directory, which are relative to it.
+    /// </summary>
+    public IReadOnlyList<string> GetIgnorePatterns(string directoryPath)
+    {
+        var file = Path.Combine(Path.GetFullPath(directoryPath), FileName);
+        if (!File.Exists(file))
+            return Array.Empty<string>();
+
+        return new ConfigurationBuilder()
+            .AddInMemoryCollection(ReadFile(file))
+            .Build()
+            .GetSection(IgnorePatternsKey)
+            .Get<List<string>>() ?? new List<string>();
+    }
+
+    /// <summary>
+    /// Whether a <c>tscommentify.json</c> file that applies to a file or directory sets ignore patterns,
+    /// which replace the default ones there like configured patterns do.
+    /// </summary>
+    public bool HasIgnorePatterns(string path) =>
+        FindFiles(path).Any(file => GetIgnorePatterns(Path.GetDirectoryName(file)!).Count > 0);
+
+    /// <summary>
+    /// Writes the options bound from a configuration as JSON in the shape of <c>tscommentify.json</c>, with
+    /// the defaults filled in and the API key masked.
+    /// </summary>
+    public static string FormatSettings(IConfiguration configuration, bool ignorePatternsConfigured = false)
+    {
+        var descriptionOptions = Get<DescriptionProviderOptions>(configuration, DescriptionProviderOptions.SectionName);
+        if (!string.IsNullOrEmpty(descriptionOptions.OpenAI.ApiKey))
+            descriptionOptions.OpenAI.ApiKey = "***";
+
+        var settings = new Dictionary<string, object>
+        {
+            [FileProcessorOptions.SectionName] = Get<FileProcessorOptions>(configuration, FileProcessorOptions.SectionName).ApplyDefaults(ignorePatternsConfigured),
+            [CommentTemplateOptions.SectionName] = Get<CommentTemplateOptions>(configuration, CommentTemplateOptions.SectionName),
+            [DescriptionProviderOptions.SectionName] = descriptionOptions,
+            [FrameworkOptions.SectionName] = Get<FrameworkOptions>(configuration, FrameworkOptions.SectionName),
+            [WatchOptions.SectionName] = Get<WatchOptions>(configuration, WatchOptions.SectionName),
+            ["Logging"] = new { LogLevel = new { Default = configuration["Logging:LogLevel:Default"] ?? "Information" } }
+        };
+
+        return JsonSerializer.Serialize(settings, JsonOptions) + Environment.NewLine;
+    }
+
+    /// <summary>
+    /// The content of a new <c>tscommentify.json</c> for a directory, with the framework descriptions of the
+    /// Angular or React dependencies in its <c>package.json</c> turned on.
+    /// </summary>
+    public static string CreateStarterFile(string directoryPath)
+    {
+        var dependencies = ReadDependencies(Path.Combine(directoryPath, "package.json"));
+
+        var settings = new JsonObject
+        {
+            [FileProcessorOptions.SectionName] = new JsonObject
+            {
+                [nameof(FileProcessorOptions.IgnorePatterns)] = new JsonArray("*.spec.*", "*.test.*"),
+                [nameof(FileProcessorOptions.Visibility)] = nameof(Visibility.All),
+                [nameof(FileProcessorOptions.DocumentEveryOverload)] = false
+            },
+            [CommentTemplateOptions.SectionName] = new JsonObject
+            {
+                [nameof(CommentTemplateOptions.Style)] = nameof(CommentStyle.JsDoc),
+                [nameof(CommentTemplateOptions.IncludeExamples)] = false,
+                [nameof(CommentTemplateOptions.UnknownTypes)] = nameof(UnknownTypePolicy.Omit)
+            },
+            [FrameworkOptions.SectionName] = new JsonObject
+            {
+                [nameof(FrameworkOptions.Angular)] = dependencies.Contains("@angular/core"),
+                [nameof(FrameworkOptions.React)] = dependencies.Contains("react")
+            }
+        };
+
+        return settings.ToJsonString(JsonOptions) + Environment.NewLine;
+    }
+
+    /// <summary>
+    /// Reads the settings of a <c>tscommentify.json</c> file once, with its relative paths resolved.
+    /// </summary>
+    private IReadOnlyDictionary<string, string?> ReadFile(string filePath)
+    {
+        return _settingsByFile.GetOrAdd(filePath, _ =>
+        {
+            var settings = Flatten(new ConfigurationBuilder().AddJsonFile(filePath, optional: false).Build());
+            var directory = Path.GetDirectoryName(filePath)!;
+
+            foreach (var (key, value) in settings.ToList())
+            {
+                if (value != null && PathKeys.Any(pathKey => IsUnder(key, pathKey)))
+                    settings[key] = Path.GetFullPath(Path.Combine(directory, value));
+            }
+
+            return settings;
+        });
+    }
+
+    /// <summary>
+    /// Applies a layer of settings. A list in the layer replaces the whole list below it, and an empty list
+    /// or section (a key without a value) clears what is below it.
+    /// </summary>
+    private static void Merge(Dictionary<string, string?> settings, IEnumerable<KeyValuePair<string, string?>> layer)
+    {
+        var entries = layer.ToList();
+        var replaced = entries
+            .Select(e => e.Value == null ? e.Key : GetListPath(e.Key))
+            .OfType<string>()
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .ToList();
+
+        foreach (var key in settings.Keys.Where(k => replaced.Any(path => IsUnder(k, path))).ToList())
+            settings.Remove(key);
+
+        foreach (var (key, value) in entries)
+            settings[key] = value;
+    }
+
+    /// <summary>
+    /// The settings of a configuration as keys and values. Sections without values or children, which
+    /// come from empty JSON arrays and objects, are kept with a null value.
+    /// </summary>
+    private static Dictionary<string, string?> Flatten(IConfiguration configuration)
+    {
+        var settings = new Dictionary<string, string?>(StringComparer.OrdinalIgnoreCase);
+
+        foreach (var (key, value) in configuration.AsEnumerable())
+        {
+            if (value != null || !configuration.GetSection(key).GetChildren().Any())
+                settings[key] = value;
+        }
+
+        return settings;
+    }
+
+    // "FileProcessor:IgnorePatterns:0" is an item of the list "FileProcessor:IgnorePatterns"
+    private static string? GetListPath(string key)
+    {
+        var segments = key.Split(':');
+        var index = Array.FindIndex(segments, s => s.Length > 0 && s.All(char.IsDigit));
+        return index > 0 ? string.Join(':', segments.Take(index)) : null;
+    }
+
+    private static bool IsUnder(string key, string path) =>
+        key.Equals(path, StringComparison.OrdinalIgnoreCase)
+        || key.StartsWith(path + ":", StringComparison.OrdinalIgnoreCase);
+
+    private static T Get<T>(IConfiguration configuration, string sectionName) where T : new() =>
+        configuration.GetSection(sectionName).Get<T>() ?? new T();
+
+    private static HashSet<string> ReadDependencies(string packageJsonPath)
+    {
+        var names = new HashSet<string>();
+        if (!File.Exists(packageJsonPath))
+            return names;
+
+        try
+        {
+            var package = JsonNode.Parse(File.ReadAllText(packageJsonPath)) as JsonObject;
+            foreach (var section in new[] { "dependencies", "devDependencies", "peerDependencies" })
+            {
+                if (package?[section] is JsonObject dependencies)
+                    names.UnionWith(dependencies.Select(d => d.Key));
+            }
+        }
+        catch (JsonException)
+        {
+            // A package.json that can't be read just doesn't turn on any framework
+        }
+
+        return names;
+    }
+}
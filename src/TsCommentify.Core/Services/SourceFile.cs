@@ -0,0 +1,185 @@
+using System.Text;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// The text of a source file together with how it is stored: its encoding (with or without a byte order
+/// mark), its dominant line ending and whether it ends with a line break. Writing keeps all of them, so
+/// only the inserted comments show up in a diff.
+/// </summary>
+public sealed class SourceFile
+{
+    public const string BackupExtension = ".orig";
+
+    private static readonly UTF8Encoding StrictUtf8 = new(encoderShouldEmitUTF8Identifier: false, throwOnInvalidBytes: true);
+
+    private SourceFile(string filePath, string text, Encoding encoding, string newLine, bool endsWithNewLine)
+    {
+        FilePath = filePath;
+        Text = text;
+        Encoding = encoding;
+        NewLine = newLine;
+        EndsWithNewLine = endsWithNewLine;
+    }
+
+    public string FilePath { get; }
+
+    public string Text { get; }
+
+    /// <summary>
+    /// The encoding of the file; its preamble is the byte order mark the file started with, if any.
+    /// </summary>
+    public Encoding Encoding { get; }
+
+    /// <summary>
+    /// The most frequent line ending in the file, or the platform's for a file without line breaks.
+    /// </summary>
+    public string NewLine { get; }
+
+    public bool EndsWithNewLine { get; }
+
+    public static async Task<SourceFile> ReadAsync(string filePath, CancellationToken cancellationToken = default)
+    {
+        var bytes = await File.ReadAllBytesAsync(filePath, cancellationToken);
+        var encoding = DetectEncoding(bytes);
+        var preamble = encoding.GetPreamble().Length;
+        var text = encoding.GetString(bytes, preamble, bytes.Length - preamble);
+
+        return new SourceFile(filePath, text, encoding, DetectNewLine(text), text.EndsWith('\n') || text.EndsWith('\r'));
+    }
+
+    /// <summary>
+    /// Wraps text that isn't read from disk, such as an editor buffer, to split and join its lines.
+    /// </summary>
+    public static SourceFile FromText(string filePath, string text) =>
+        new(filePath, text, new UTF8Encoding(encoderShouldEmitUTF8Identifier: false), DetectNewLine(text), text.EndsWith('\n') || text.EndsWith('\r'));
+
+    /// <summary>
+    /// Splits the text into lines like <see cref="File.ReadAllLines(string)"/>: at "\r\n", "\n" or "\r",
+    /// without an empty line after a final line break.
+    /// </summary>
+    public string[] GetLines()
+    {
+        var lines = new List<string>();
+        using var reader = new StringReader(Text);
+        while (reader.ReadLine() is { } line)
+        {
+            lines.Add(line);
+        }
+
+        return lines.ToArray();
+    }
+
+    /// <summary>
+    /// Joins lines with the file's line ending, adding a final line break only if the file had one.
+    /// </summary>
+    public string Format(IEnumerable<string> lines)
+    {
+        var text = string.Join(NewLine, lines);
+        return EndsWithNewLine ? text + NewLine : text;
+    }
+
+    /// <summary>
+    /// Replaces the file with the given lines, joined by <see cref="Format"/>.
+    /// </summary>
+    public Task WriteAsync(IEnumerable<string> lines, bool keepBackup) => WriteAsync(Format(lines), keepBackup);
+
+    /// <summary>
+    /// Replaces the file with the given text as is, in the file's encoding. The content goes to a temporary
+    /// file next to it that is then renamed over the original, so the file is never left half-written. With
+    /// <paramref name="keepBackup"/> the original is first copied to <c>&lt;file&gt;.orig</c>.
+    /// </summary>
+    public async Task WriteAsync(string text, bool keepBackup)
+    {
+        var directory = Path.GetDirectoryName(Path.GetFullPath(FilePath))!;
+        var temporaryPath = Path.Combine(directory, $".{Path.GetFileName(FilePath)}.{Guid.NewGuid():N}.tmp");
+
+        try
+        {
+            var bytes = Encoding.GetPreamble().Concat(Encoding.GetBytes(text)).ToArray();
+            await File.WriteAllBytesAsync(temporaryPath, bytes);
+
+            if (!OperatingSystem.IsWindows())
+            {
+                File.SetUnixFileMode(temporaryPath, File.GetUnixFileMode(FilePath));
+            }
+
+            if (keepBackup)
+            {
+                File.Copy(FilePath, FilePath + BackupExtension, overwrite: true);
+            }
+
+            File.Move(temporaryPath, FilePath, overwrite: true);
+        }
+        finally
+        {
+            if (File.Exists(temporaryPath))
+            {
+                File.Delete(temporaryPath);
+            }
+        }
+    }
+
+    private static Encoding DetectEncoding(byte[] bytes)
+    {
+        if (StartsWith(bytes, 0xEF, 0xBB, 0xBF))
+            return new UTF8Encoding(encoderShouldEmitUTF8Identifier: true);
+
+        if (StartsWith(bytes, 0xFF, 0xFE, 0x00, 0x00))
+            return new UTF32Encoding(bigEndian: false, byteOrderMark: true);
+
+        if (StartsWith(bytes, 0xFF, 0xFE))
+            return new UnicodeEncoding(bigEndian: false, byteOrderMark: true);
+
+        if (StartsWith(bytes, 0xFE, 0xFF))
+            return new UnicodeEncoding(bigEndian: true, byteOrderMark: true);
+
+        // Without a byte order mark the file is UTF-8 unless it isn't valid UTF-8; Latin-1 maps every
+        // byte to a character and back, so legacy files are written back byte for byte
+        try
+        {
+            StrictUtf8.GetCharCount(bytes);
+            return new UTF8Encoding(encoderShouldEmitUTF8Identifier: false);
+        }
+        catch (DecoderFallbackException)
+        {
+            return Encoding.Latin1;
+        }
+    }
+
+    private static bool StartsWith(byte[] bytes, params byte[] prefix) =>
+        bytes.Length >= prefix.Length && bytes.AsSpan(0, prefix.Length).SequenceEqual(prefix);
+
+    private static string DetectNewLine(string text)
+    {
+        int crlf = 0, lf = 0, cr = 0;
+
+        for (int i = 0; i < text.Length; i++)
+        {
+            if (text[i] == '\r')
+            {
+                if (i + 1 < text.Length && text[i + 1] == '\n')
+                {
+                    crlf++;
+                    i++;
+                }
+                else
+                {
+                    cr++;
+                }
+            }
+            else if (text[i] == '\n')
+            {
+                lf++;
+            }
+        }
+
+        if (crlf == 0 && lf == 0 && cr == 0)
+            return Environment.NewLine;
+
+        if (crlf >= lf && crlf >= cr)
+            return "\r\n";
+
+        return lf >= cr ? "\n" : "\r";
+    }
+}
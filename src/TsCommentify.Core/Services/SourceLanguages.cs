@@ -0,0 +1,33 @@
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// The file extensions the parser reads and what each of them allows. Extensions are compared with their
+/// leading dot and ignoring case; a Vue component is read with the extension of its <c>lang</c> attribute.
+/// </summary>
+public static class SourceLanguages
+{
+    public const string Vue = ".vue";
+
+    /// <summary>
+    /// The extensions a directory run processes when none are configured. JavaScript and Vue files are
+    /// only processed when their extensions are configured.
+    /// </summary>
+    public static readonly IReadOnlyList<string> DefaultExtensions = new[]
+    {
+        ".ts", ".tsx", ".mts", ".cts"
+    };
+
+    private static readonly string[] JavaScriptExtensions = { ".js", ".jsx", ".mjs", ".cjs" };
+
+    // JSX can't be told apart from type assertions (<T>value) in .ts files, JavaScript has no type assertions
+    private static readonly string[] JsxExtensions = { ".tsx", ".js", ".jsx", ".mjs", ".cjs" };
+
+    /// <summary>
+    /// Whether the code has no type annotations, so parameter types are also inferred from their use.
+    /// </summary>
+    public static bool IsJavaScript(string extension) =>
+        JavaScriptExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
+
+    public static bool AllowsJsx(string extension) =>
+        JsxExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
+}
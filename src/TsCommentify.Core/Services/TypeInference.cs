@@ -0,0 +1,363 @@
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Deduces the types the source doesn't write down. Parameters without an annotation get their type from the
+/// default value, and otherwise from how the body uses them (<c>name.trim()</c>, <c>items.map(...)</c>,
+/// <c>count * 2</c>); return types come from the returned expressions.
+/// </summary>
+public static class TypeInference
+{
+    private static readonly Regex NumberLiteral = new(
+        @"^[-+]?(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][-+]?\d+)?|NaN|Infinity)$");
+
+    private static readonly Regex BigIntLiteral = new(@"^-?(?:0[xX][\da-fA-F_]+|\d[\d_]*)n$");
+
+    private static readonly Regex Construction = new(@"^new\s+(?<type>[A-Za-z_$][\w$.]*)");
+
+    private static readonly Regex FunctionExpression = new(@"^(?:async\s*)?(?:function\b|(?:\([^()]*\)|[A-Za-z_$][\w$]*)\s*=>)");
+
+    private static readonly Regex RegexLiteral = new(@"^/.+/[dgimsuvy]*$", RegexOptions.Singleline);
+
+    private static readonly Regex JsxElement = new(@"^<(?:[A-Za-z][\w.:-]*|>).*>$", RegexOptions.Singleline);
+
+    private static readonly Regex Identifier = new(@"^[A-Za-z_$][\w$]*$");
+
+    // Operators found on the masked expression, so only those outside brackets and strings count
+    private static readonly Regex Comparison = new(@"===?|!==?|<=|>=|\s[<>]\s|\binstanceof\b|\sin\s");
+
+    private static readonly Regex Arithmetic = new(@"[\w$)\]'""`]\s*(?:\*\*?|/|%|-(?!-))\s*[\w$(\['""`.]");
+
+    private static readonly Regex Concatenation = new(@"[\w$)\]'""`]\s*\+(?![+=])\s*");
+
+    // Calls whose result type doesn't depend on their arguments
+    private static readonly (string Type, Regex Call)[] CallTypes =
+    {
+        ("number", new(@"(?:\.(?:length|size)|\.(?:indexOf|lastIndexOf|findIndex|findLastIndex|charCodeAt|getTime|push|unshift|localeCompare)\(_*\)|^(?:Math\.\w+|Number|parseInt|parseFloat|Date\.now)\(_*\))$")),
+        ("string", new(@"(?:\.(?:toString|toUpperCase|toLowerCase|trim|trimStart|trimEnd|join|toFixed|padStart|padEnd|substring|replace|replaceAll|repeat|charAt|toISOString|toLocaleString|toLocaleDateString)\(_*\)|^(?:String|JSON\.stringify)\(_*\))$")),
+        ("boolean", new(@"(?:\.(?:includes|startsWith|endsWith|some|every|has|test)\(_*\)|^(?:Boolean|Array\.isArray|Number\.is\w+|isNaN|isFinite)\(_*\))$")),
+        ("string[]", new(@"(?:\.split\(_*\)|^Object\.keys\(_*\))$"))
+    };
+
+    // Methods that only one built-in type has: strings have no join, arrays no trim
+    private static readonly (string Type, string[] Methods)[] MethodTypes =
+    {
+        ("string", new[]
+        {
+            "toUpperCase", "toLowerCase", "toLocaleUpperCase", "toLocaleLowerCase", "trim", "trimStart", "trimEnd",
+            "startsWith", "endsWith", "padStart", "padEnd", "charAt", "charCodeAt", "codePointAt", "localeCompare",
+            "normalize", "replaceAll", "split", "substring"
+        }),
+        ("Array", new[]
+        {
+            "push", "pop", "shift", "unshift", "splice", "map", "filter", "reduce", "reduceRight", "forEach", "find",
+            "findIndex", "findLast", "some", "every", "flatMap", "flat", "join", "sort", "reverse"
+        }),
+        ("number", new[] { "toFixed", "toPrecision", "toExponential" }),
+        ("Date", new[] { "getTime", "getFullYear", "getMonth", "getDate", "getDay", "getHours", "getMinutes", "toISOString" }),
+        ("Promise", new[] { "then", "finally" })
+    };
+
+    /// <summary>
+    /// Returns the function with <see cref="ParameterInfo.InferredType"/> set on every parameter (and property of
+    /// a destructured parameter) whose type could be deduced. The use in the body only counts with
+    /// <paramref name="fromUsage"/>; in TypeScript a parameter without annotation or default value is <c>any</c>.
+    /// </summary>
+    public static FunctionInfo InferParameterTypes(FunctionInfo function, string source, bool fromUsage)
+    {
+        var body = function.Body == null || !fromUsage
+            ? string.Empty
+            : source.Substring(function.Body.Start, function.Body.End - function.Body.Start);
+
+        return function with { Parameters = function.Parameters.Select(p => InferParameterType(p, body)).ToList() };
+    }
+
+    /// <summary>
+    /// The type of a default value written as a literal, a <c>new</c> expression or a function, or null for
+    /// anything else (<c>null</c>, identifiers, calls).
+    /// </summary>
+    public static string? InferValueType(string? value)
+    {
+        if (string.IsNullOrEmpty(value))
+            return null;
+
+        if (NumberLiteral.IsMatch(value))
+            return "number";
+
+        if (BigIntLiteral.IsMatch(value))
+            return "bigint";
+
+        if (value[0] is '\'' or '"' or '`')
+            return "string";
+
+        if (value is "true" or "false")
+            return "boolean";
+
+        if (value[0] == '[')
+            return "Array";
+
+        if (value[0] == '{')
+            return "Object";
+
+        if (FunctionExpression.IsMatch(value))
+            return "Function";
+
+        if (RegexLiteral.IsMatch(value))
+            return "RegExp";
+
+        var construction = Construction.Match(value);
+        return construction.Success ? construction.Groups["type"].Value : null;
+    }
+
+    /// <summary>
+    /// The type of what a function returns: the union of the types of the <paramref name="returned"/> expressions
+    /// (null for a bare <c>return;</c>), <c>void</c> without any, and <c>Promise&lt;...&gt;</c> around it for
+    /// async functions. Null when one of the expressions has no known type.
+    /// </summary>
+    public static string? InferReturnType(IReadOnlyList<string?> returned, bool isAsync, IReadOnlyList<ParameterInfo> parameters)
+    {
+        var types = new List<string>();
+        foreach (var expression in returned)
+        {
+            var type = expression == null ? "undefined" : InferExpressionType(expression, parameters);
+            if (type == null)
+                return null;
+
+            if (!types.Contains(type))
+                types.Add(type);
+        }
+
+        // null and undefined go last, as TypeScript writes unions: string | null
+        var result = types.Count == 0 || types.All(t => t == "undefined")
+            ? "void"
+            : string.Join(" | ", types.OrderBy(t => t is "null" or "undefined"));
+        return isAsync ? $"Promise<{result}>" : result;
+    }
+
+    /// <summary>
+    /// The type of an expression made of literals, <c>new</c> expressions, parameters, operators, casts and
+    /// calls whose result type is known (<c>name.trim()</c>, <c>Math.max(...)</c>, <c>items.length</c>), or null.
+    /// </summary>
+    public static string? InferExpressionType(string expression, IReadOnlyList<ParameterInfo> parameters)
+    {
+        expression = expression.Trim();
+        if (expression.Length == 0)
+            return null;
+
+        // Function bodies may contain any operator
+        if (FunctionExpression.IsMatch(expression))
+            return "Function";
+
+        var masked = Mask(expression);
+
+        // (expression)
+        if (masked[0] == '(' && masked.IndexOf(')') == masked.Length - 1)
+            return InferExpressionType(expression.Substring(1, expression.Length - 2), parameters);
+
+        var cast = Regex.Match(masked, @"\s(as|satisfies)\s(?!.*\s(?:as|satisfies)\s)");
+        if (cast.Success)
+        {
+            var type = expression.Substring(cast.Index + cast.Length).Trim();
+            return cast.Groups[1].Value == "as" && type != "const"
+                ? type
+                : InferExpressionType(expression.Substring(0, cast.Index), parameters);
+        }
+
+        var question = FindOperator(masked, "?");
+        var colon = question < 0 ? -1 : masked.IndexOf(':', question);
+        if (question >= 0 && colon > question)
+        {
+            var whenTrue = InferExpressionType(expression.Substring(question + 1, colon - question - 1), parameters);
+            var whenFalse = InferExpressionType(expression.Substring(colon + 1), parameters);
+            return whenTrue == null || whenFalse == null ? null : whenTrue == whenFalse ? whenTrue : $"{whenTrue} | {whenFalse}";
+        }
+
+        foreach (var logical in new[] { "??", "||", "&&" })
+        {
+            var index = FindOperator(masked, logical);
+            if (index < 0)
+                continue;
+
+            var left = InferExpressionType(expression.Substring(0, index), parameters);
+            var right = InferExpressionType(expression.Substring(index + logical.Length), parameters);
+            return left == right ? left : null;
+        }
+
+        if (Comparison.IsMatch(masked))
+            return "boolean";
+
+        var concatenation = Concatenation.Matches(masked);
+        if (concatenation.Count > 0)
+        {
+            // A string on either side makes it a concatenation, numbers on both an addition
+            var operands = new List<string?>();
+            var start = 0;
+            foreach (Match plus in concatenation)
+            {
+                operands.Add(InferExpressionType(expression.Substring(start, plus.Index + 1 - start), parameters));
+                start = plus.Index + plus.Length;
+            }
+
+            operands.Add(InferExpressionType(expression.Substring(start), parameters));
+            return operands.Contains("string") ? "string" : operands.All(o => o == "number") ? "number" : null;
+        }
+
+        if (Arithmetic.IsMatch(masked))
+            return "number";
+
+        if (masked.StartsWith("!"))
+            return "boolean";
+
+        if (masked.StartsWith("typeof "))
+            return "string";
+
+        if (masked.StartsWith("void "))
+            return "undefined";
+
+        if (masked.StartsWith("await "))
+        {
+            var awaited = InferExpressionType(expression.Substring("await ".Length), parameters);
+            return awaited != null && awaited.StartsWith("Promise<") && awaited.EndsWith('>')
+                ? awaited.Substring("Promise<".Length, awaited.Length - "Promise<".Length - 1)
+                : awaited;
+        }
+
+        if (masked[0] is '-' or '+' && masked.Length > 1 && masked[1] != masked[0])
+            return "number";
+
+        foreach (var (type, call) in CallTypes)
+        {
+            if (call.IsMatch(masked))
+                return type;
+        }
+
+        // Copies of a parameter have its type: items.filter(...), name.slice(1)
+        var copy = Regex.Match(masked, @"^([A-Za-z_$][\w$]*)\.(?:slice|filter|concat|toSorted|toReversed)\(_*\)$");
+        if (copy.Success)
+            return InferExpressionType(copy.Groups[1].Value, parameters);
+
+        if (expression is "null" or "undefined")
+            return expression;
+
+        if (JsxElement.IsMatch(expression))
+            return "JSX.Element";
+
+        // Literals and constructions only, not their members: [a, b][0], new Parser().parse()
+        if ((masked[0] is '[' or '{' && masked.IndexOfAny(new[] { ']', '}' }) != masked.Length - 1)
+            || (masked.StartsWith("new ") && !Regex.IsMatch(masked, @"^new\s+[\w$.]+(?:<[^()]*>)?(?:\(_*\))?$")))
+        {
+            return null;
+        }
+
+        var value = InferValueType(expression);
+        if (value != null)
+            return value;
+
+        if (!Identifier.IsMatch(expression))
+            return null;
+
+        var parameter = parameters.FirstOrDefault(p => p.Name == expression && p.Kind == ParameterKind.Identifier);
+        return parameter?.Type ?? parameter?.InferredType;
+    }
+
+    /// <summary>
+    /// Replaces the contents of brackets, strings and template literals with underscores, keeping the length,
+    /// so operators are only found at the top level of the expression.
+    /// </summary>
+    private static string Mask(string expression)
+    {
+        var masked = expression.ToCharArray();
+        var depth = 0;
+
+        for (int i = 0; i < masked.Length; i++)
+        {
+            var ch = expression[i];
+            if (ch is '\'' or '"' or '`')
+            {
+                var end = i + 1;
+                while (end < expression.Length && expression[end] != ch)
+                    end += expression[end] == '\\' ? 2 : 1;
+
+                // Inside brackets the quotes go too
+                for (int j = depth > 0 ? i : i + 1; j < Math.Min(depth > 0 ? end + 1 : end, masked.Length); j++)
+                    masked[j] = '_';
+
+                i = end;
+                continue;
+            }
+
+            if (ch is '(' or '[' or '{')
+            {
+                if (depth++ > 0)
+                    masked[i] = '_';
+            }
+            else if (ch is ')' or ']' or '}')
+            {
+                if (--depth > 0)
+                    masked[i] = '_';
+            }
+            else if (depth > 0)
+            {
+                masked[i] = '_';
+            }
+        }
+
+        return new string(masked);
+    }
+
+    // The first top-level occurrence of an operator; "?" isn't optional chaining (?.) or nullish (??)
+    private static int FindOperator(string masked, string op)
+    {
+        for (int i = masked.IndexOf(op); i >= 0; i = masked.IndexOf(op, i + op.Length))
+        {
+            if (op != "?" || (masked.ElementAtOrDefault(i + 1) is not ('.' or '?') && masked.ElementAtOrDefault(i - 1) != '?'))
+                return i;
+        }
+
+        return -1;
+    }
+
+    private static ParameterInfo InferParameterType(ParameterInfo parameter, string body)
+    {
+        if (parameter.Kind != ParameterKind.Identifier)
+            return parameter with { Properties = parameter.Properties.Select(p => InferParameterType(p, body)).ToList() };
+
+        // The element type of a rest parameter can't be told from its use as an array
+        if (parameter.Type != null || parameter.IsRest)
+            return parameter;
+
+        var type = InferValueType(parameter.DefaultValue) ?? (body.Length == 0 ? null : InferUsageType(parameter.Name, body));
+        return type == null ? parameter : parameter with { InferredType = type };
+    }
+
+    /// <summary>
+    /// The type implied by how the body uses a name, or null when the uses imply none or disagree.
+    /// </summary>
+    private static string? InferUsageType(string name, string body)
+    {
+        var identifier = $@"(?<![\w$.]){Regex.Escape(name)}(?![\w$])";
+        var types = new HashSet<string>();
+
+        foreach (var (type, methods) in MethodTypes)
+        {
+            if (Regex.IsMatch(body, $@"{identifier}\??\.(?:{string.Join('|', methods)})\s*\("))
+                types.Add(type);
+        }
+
+        // Arithmetic operands and Math arguments, but not string concatenation or comments (//, /*)
+        const string ArithmeticOperator = @"(?:\*\*?|%|-(?!-)|/(?![/*]))";
+        if (Regex.IsMatch(body, $@"{identifier}\s*{ArithmeticOperator}=?\s*[\w$(.]")
+            || Regex.IsMatch(body, $@"[\w$)\]]\s*{ArithmeticOperator}\s*{identifier}")
+            || Regex.IsMatch(body, $@"{identifier}\s*(?:\+\+|--)|(?:\+\+|--)\s*{identifier}")
+            || Regex.IsMatch(body, $@"\bMath\.\w+\([^()]*{identifier}"))
+        {
+            types.Add("number");
+        }
+
+        if (Regex.IsMatch(body, $@"{identifier}(?:\?\.)?\s*\("))
+            types.Add("Function");
+
+        return types.Count == 1 ? types.Single() : null;
+    }
+}
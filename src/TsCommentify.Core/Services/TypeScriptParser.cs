@@ -0,0 +1,1802 @@
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Logging;
+
+namespace TsCommentify.Core.Services;
+
+public class TypeScriptParser : ITypeScriptParser
+{
+    private enum ScopeKind
+    {
+        Block,
+        Class,
+        Object,
+        TypeBody,
+        Enum
+    }
+
+    // Statement keywords that can never name a method
+    private static readonly HashSet<string> ControlFlowKeywords = new()
+    {
+        "if", "else", "switch", "case", "default", "while", "for", "do", "try", "catch", "finally", "return", "with"
+    };
+
+    private static readonly HashSet<string> MemberModifiers = new()
+    {
+        "public", "private", "protected", "static", "abstract", "override", "readonly", "async"
+    };
+
+    private static readonly HashSet<string> PropertyModifiers = new()
+    {
+        "public", "private", "protected", "static", "readonly", "declare", "override", "abstract", "accessor"
+    };
+
+    private static readonly HashSet<string> ParameterModifiers = new()
+    {
+        "public", "private", "protected", "readonly", "override"
+    };
+
+    private static readonly HashSet<string> TypePrefixKeywords = new()
+    {
+        "typeof", "keyof", "readonly", "unique", "infer", "new", "abstract", "asserts"
+    };
+
+    // Tokens after which a '{' opens an object literal rather than a block
+    private static readonly HashSet<string> ObjectLiteralPrefixes = new()
+    {
+        "=", "(", ",", ":", "[", "?", "||", "&&", "??", "...", "return", "yield", "await"
+    };
+
+    private static readonly HashSet<string> BinaryKeywords = new()
+    {
+        "as", "satisfies", "instanceof", "in", "of", "extends"
+    };
+
+    // "// tscommentify-disable-next-line", "/* tscommentify-disable */" and so on; longer directives first
+    private static readonly Regex SuppressionDirective =
+        new(@"^(?://|/\*)\s*tscommentify-(disable-next-line|disable-file|disable|enable)\b");
+
+    private readonly ILogger<TypeScriptParser> _logger;
+
+    public TypeScriptParser(ILogger<TypeScriptParser> logger)
+    {
+        _logger = logger;
+    }
+
+    public IEnumerable<FunctionInfo> ParseFunctions(string filePath)
+    {
+        return ParseDeclarations(filePath).OfType<FunctionInfo>().ToList();
+    }
+
+    public IEnumerable<DeclarationInfo> ParseDeclarations(string filePath)
+    {
+        _logger.LogInformation("Parsing file: {FilePath}", filePath);
+
+        if (!File.Exists(filePath))
+        {
+            _logger.LogWarning("File not found: {FilePath}", filePath);
+            return Enumerable.Empty<DeclarationInfo>();
+        }
+
+        return ParseDeclarations(filePath, File.ReadAllText(filePath));
+    }
+
+    public IEnumerable<DeclarationInfo> ParseDeclarations(string filePath, string source)
+    {
+        var extension = Path.GetExtension(filePath);
+        if (extension.Equals(SourceLanguages.Vue, StringComparison.OrdinalIgnoreCase))
+        {
+            // Only the script is parsed, at the positions it has in the component
+            var script = VueSingleFileComponent.ExtractScript(source);
+            source = script.Text;
+            extension = script.Extension;
+        }
+
+        var declarations = ParseSource(source, SourceLanguages.AllowsJsx(extension), SourceLanguages.IsJavaScript(extension));
+
+        _logger.LogInformation("Found {Count} declarations in {FilePath}", declarations.Count, filePath);
+        return declarations;
+    }
+
+    private List<DeclarationInfo> ParseSource(string source, bool allowJsx, bool isJavaScript)
+    {
+        var context = new ParseContext(source, new TypeScriptTokenizer(source, allowJsx).Tokenize())
+        {
+            IsJavaScript = isJavaScript
+        };
+        var declarations = new List<DeclarationInfo>();
+        var scopes = new Stack<ScopeKind>();
+        var declarationBodies = new Dictionary<int, ScopeKind>();
+        var classBodies = new Dictionary<int, ClassInfo>();
+        var classes = new Stack<ClassInfo?>();
+        var topLevel = new HashSet<int>();
+        scopes.Push(ScopeKind.Block);
+        classes.Push(null);
+
+        var index = 0;
+        while (index < context.Count)
+        {
+            var token = context[index];
+
+            if (token.Is("{"))
+            {
+                scopes.Push(declarationBodies.TryGetValue(index, out var kind) ? kind : ClassifyBrace(context, index));
+                classes.Push(classBodies.GetValueOrDefault(index));
+                index++;
+                continue;
+            }
+
+            if (token.Is("}") && scopes.Count > 1)
+            {
+                scopes.Pop();
+                classes.Pop();
+            }
+            else if ((token.Is("(") || token.Is("[")) && scopes.Peek() is ScopeKind.Class or ScopeKind.TypeBody or ScopeKind.Enum
+                && context.Match(index) > index)
+            {
+                // Index signatures, tuple types and initializer arguments hold no members
+                index = context.Match(index) + 1;
+                continue;
+            }
+            else if ((token.Is("class") || token.Is("interface") || token.Is("enum")) && !IsPropertyName(context, index))
+            {
+                // Remember where the declaration body starts so its members are parsed in the right scope
+                var bodyIndex = FindDeclarationBody(context, index + 1);
+                if (bodyIndex >= 0)
+                {
+                    declarationBodies[bodyIndex] = token.Text switch
+                    {
+                        "class" => ScopeKind.Class,
+                        "enum" => ScopeKind.Enum,
+                        _ => ScopeKind.TypeBody
+                    };
+                }
+            }
+
+            if (IsStatementStart(context, index, scopes.Peek()))
+            {
+                var match = scopes.Peek() switch
+                {
+                    ScopeKind.Block => TryParseFunctionStatement(context, index) ?? TryParseTypeDeclaration(context, index),
+                    ScopeKind.Class => TryParseMethod(context, index, isClassMember: true, allowSignature: true) ?? TryParseProperty(context, index, isClassMember: true),
+                    ScopeKind.Object => TryParseMethod(context, index, isClassMember: false, allowSignature: false),
+                    ScopeKind.TypeBody => TryParseMethod(context, index, isClassMember: false, allowSignature: true) ?? TryParseProperty(context, index, isClassMember: false),
+                    ScopeKind.Enum => TryParseEnumMember(context, index),
+                    _ => null
+                };
+
+                if (match != null)
+                {
+                    var declaration = match.Value.Declaration with
+                    {
+                        Comment = context.GetCommentBefore(index),
+                        ContainingClass = scopes.Peek() == ScopeKind.Class ? classes.Peek() : null
+                    };
+
+                    // Members of the class body refer back to the class, for example to read its decorators
+                    if (declaration is ClassInfo classInfo)
+                        classBodies[FindDeclarationBody(context, index)] = classInfo;
+
+                    // "type Handlers = { ... }" has members like an interface body
+                    if (declaration is TypeAliasInfo && context.Is(match.Value.NextIndex, "{"))
+                        declarationBodies[match.Value.NextIndex] = ScopeKind.TypeBody;
+
+                    if (scopes.Count == 1)
+                        topLevel.Add(declarations.Count);
+
+                    declarations.Add(declaration);
+                    index = match.Value.NextIndex;
+                    continue;
+                }
+            }
+
+            index++;
+        }
+
+        return ApplySuppressions(context, MarkOverloads(MarkExports(context, declarations, topLevel)));
+    }
+
+    /// <summary>
+    /// Marks the top-level declarations named by <c>export { a, b as c }</c> and <c>export default name</c>
+    /// as exported. Re-exports such as <c>export { a } from './a'</c> name nothing declared in the file.
+    /// </summary>
+    private static List<DeclarationInfo> MarkExports(ParseContext context, List<DeclarationInfo> declarations, HashSet<int> topLevel)
+    {
+        var names = new HashSet<string>();
+
+        for (int index = 0; index < context.Count; index++)
+        {
+            if (!context.Is(index, "export"))
+                continue;
+
+            // export default name;
+            if (context.Is(index + 1, "default") && context.IsIdentifier(index + 2)
+                && (index + 3 >= context.Count || context.Is(index + 3, ";") || context[index + 3].Line > context[index + 2].Line))
+            {
+                names.Add(context[index + 2].Text);
+                continue;
+            }
+
+            if (!context.Is(index + 1, "{") || context.Match(index + 1) < 0 || context.Is(context.Match(index + 1) + 1, "from"))
+                continue;
+
+            // export { a, type B, c as d }: the first name of each specifier is the local one
+            var close = context.Match(index + 1);
+            var specifierStart = true;
+            for (int i = index + 2; i < close; i++)
+            {
+                if (context.Is(i, ","))
+                {
+                    specifierStart = true;
+                    continue;
+                }
+
+                if (specifierStart && !(context.Is(i, "type") && context.IsIdentifier(i + 1) && !context.Is(i + 1, "as")))
+                {
+                    names.Add(context[i].Text);
+                    specifierStart = false;
+                }
+            }
+        }
+
+        foreach (var index in topLevel)
+        {
+            if (!declarations[index].IsExported && names.Contains(declarations[index].Name))
+                declarations[index] = declarations[index] with { IsExported = true };
+        }
+
+        return declarations;
+    }
+
+    /// <summary>
+    /// Numbers the signatures of overloaded functions and marks the implementation that follows them.
+    /// Overloads are adjacent declarations with the same name in the same scope, all but the last without a body.
+    /// </summary>
+    private static List<DeclarationInfo> MarkOverloads(List<DeclarationInfo> declarations)
+    {
+        var index = 0;
+        while (index < declarations.Count)
+        {
+            if (declarations[index] is not FunctionInfo { IsSignature: true } first)
+            {
+                index++;
+                continue;
+            }
+
+            var end = index + 1;
+            while (end < declarations.Count
+                && declarations[end] is FunctionInfo next
+                && next.Name == first.Name
+                && ReferenceEquals(next.ContainingClass, first.ContainingClass)
+                && ((FunctionInfo)declarations[end - 1]).IsSignature)
+            {
+                end++;
+            }
+
+            if (end - index > 1)
+            {
+                for (int i = index; i < end; i++)
+                {
+                    var function = (FunctionInfo)declarations[i];
+                    declarations[i] = function.IsSignature
+                        ? function with { OverloadIndex = i - index }
+                        : function with { IsOverloadImplementation = true };
+                }
+            }
+
+            index = end;
+        }
+
+        return declarations;
+    }
+
+    /// <summary>
+    /// Marks the declarations covered by a <c>tscommentify-disable-file</c>, <c>tscommentify-disable-next-line</c>
+    /// or <c>tscommentify-disable</c> ... <c>tscommentify-enable</c> directive as suppressed.
+    /// </summary>
+    private static List<DeclarationInfo> ApplySuppressions(ParseContext context, List<DeclarationInfo> declarations)
+    {
+        var disabledFile = false;
+        var nextLines = new HashSet<int>();
+        var ranges = new List<(int Start, int End)>();
+        int? rangeStart = null;
+
+        foreach (var comment in context.Comments)
+        {
+            var directive = GetSuppressionDirective(comment);
+            var endLine = comment.Line + comment.Text.Count(ch => ch == '\n');
+
+            switch (directive)
+            {
+                case "disable-file":
+                    disabledFile = true;
+                    break;
+                case "disable-next-line":
+                    nextLines.Add(endLine + 1);
+                    break;
+                case "disable":
+                    rangeStart ??= comment.Line;
+                    break;
+                case "enable" when rangeStart != null:
+                    ranges.Add((rangeStart.Value, endLine));
+                    rangeStart = null;
+                    break;
+            }
+        }
+
+        // A range that is never enabled again lasts until the end of the file
+        if (rangeStart != null)
+            ranges.Add((rangeStart.Value, int.MaxValue));
+
+        if (!disabledFile && nextLines.Count == 0 && ranges.Count == 0)
+            return declarations;
+
+        return declarations
+            .Select(d => disabledFile || nextLines.Contains(d.LineNumber) || ranges.Any(r => d.LineNumber > r.Start && d.LineNumber < r.End)
+                ? d with { IsSuppressed = true }
+                : d)
+            .ToList();
+    }
+
+    private static string? GetSuppressionDirective(Token comment)
+    {
+        var match = SuppressionDirective.Match(comment.Text);
+        return match.Success ? match.Groups[1].Value : null;
+    }
+
+    private ScopeKind ClassifyBrace(ParseContext context, int index)
+    {
+        var previous = context.At(index - 1);
+        if (previous == null || !ObjectLiteralPrefixes.Contains(previous.Text) || previous.Kind == TokenKind.String)
+            return ScopeKind.Block;
+
+        // "case x: {" opens a block, not an object literal
+        if (previous.Is(":"))
+        {
+            var lineStart = index - 1;
+            while (lineStart > 0 && context[lineStart - 1].Line == previous.Line)
+                lineStart--;
+
+            if (context[lineStart].Is("case") || context[lineStart].Is("default"))
+                return ScopeKind.Block;
+        }
+
+        return ScopeKind.Object;
+    }
+
+    private bool IsPropertyName(ParseContext context, int index)
+    {
+        var previous = context.At(index - 1);
+        var next = context.At(index + 1);
+        return (previous != null && (previous.Is(".") || previous.Is("?.")))
+            || (next != null && (next.Is(":") || next.Is("(") || next.Is("=")));
+    }
+
+    private int FindDeclarationBody(ParseContext context, int index)
+    {
+        while (index < context.Count)
+        {
+            var token = context[index];
+            if (token.Is("{"))
+                return index;
+
+            if (token.Is(";") || token.Is("}"))
+                return -1;
+
+            if (token.Is("<"))
+            {
+                index = SkipAngles(context, index, context.Count);
+            }
+            else if (token.Is("(") || token.Is("["))
+            {
+                index = context.Match(index) + 1;
+                if (index == 0)
+                    return -1;
+            }
+            else
+            {
+                index++;
+            }
+        }
+
+        return -1;
+    }
+
+    private bool IsStatementStart(ParseContext context, int index, ScopeKind scope)
+    {
+        var previous = context.At(index - 1);
+        if (previous == null)
+            return true;
+
+        if (previous.Is(";") || previous.Is("{") || previous.Is("}"))
+            return true;
+
+        if ((scope == ScopeKind.Object || scope == ScopeKind.Enum) && previous.Is(","))
+            return true;
+
+        // Like the declarations themselves, statements usually start on a new line
+        return context[index].Line > previous.Line;
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseFunctionStatement(ParseContext context, int start)
+    {
+        // [export] [default] [async] function [*] name<T>(...) [: type] { ... }
+        // [export] const|let|var name [: type] = [async] function [*] [name](...) [: type] { ... }
+        // [export] const|let|var name [: type] = [async] [<T>](...) [: type] => ...
+        // [export] const|let|var name [: type] = [async] param => ...
+        // [export] [declare] function name<T>(...) [: type];
+        var index = start;
+        var isExported = context.Is(index, "export");
+        if (isExported)
+            index++;
+
+        if (context.Is(index, "default"))
+            index++;
+
+        var modifiers = new List<string>();
+        if (context.Is(index, "declare") && context.Is(index + 1, "function"))
+        {
+            modifiers.Add("declare");
+            index++;
+        }
+
+        if (context.Is(index, "async") && context.Is(index + 1, "function"))
+            index++;
+
+        if (context.Is(index, "function"))
+        {
+            index++;
+            if (context.Is(index, "*"))
+                index++;
+
+            if (!context.IsIdentifier(index))
+                return null;
+
+            // Overload signatures and declared functions end without a body
+            var function = ParseSignature(context, start, context[index], index + 1, isArrow: false, allowSignature: true);
+            return function == null
+                ? null
+                : ((FunctionInfo)function.Value.Declaration with { Modifiers = modifiers, IsExported = isExported }, function.Value.NextIndex);
+        }
+
+        if (!context.Is(index, "const") && !context.Is(index, "let") && !context.Is(index, "var"))
+            return null;
+
+        index++;
+        if (!context.IsIdentifier(index))
+            return null;
+
+        var name = context[index];
+        index++;
+
+        if (context.Is(index, ":"))
+            index = ScanType(context, index + 1, context.Count);
+
+        if (!context.Is(index, "="))
+            return null;
+
+        var expression = TryParseFunctionExpression(context, start, name, index + 1);
+        return expression == null ? null : (expression.Value.Declaration with { IsExported = isExported }, expression.Value.NextIndex);
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseFunctionExpression(
+        ParseContext context,
+        int start,
+        Token name,
+        int index)
+    {
+        // [async] function [*] [name](...) [: type] { ... }
+        // [async] [<T>](...) [: type] => ...
+        // [async] param => ...
+        if (context.Is(index, "async") && !context.Is(index + 1, "=>"))
+            index++;
+
+        if (context.Is(index, "function"))
+        {
+            index++;
+            if (context.Is(index, "*"))
+                index++;
+
+            if (context.IsIdentifier(index))
+                index++;
+
+            return ParseSignature(context, start, name, index, isArrow: false);
+        }
+
+        if (context.IsIdentifier(index) && context.Is(index + 1, "=>"))
+        {
+            var parameter = new ParameterInfo(context[index].Text, null);
+            return CreateArrowFunction(context, start, name, new List<ParameterInfo> { parameter }, null, index + 1);
+        }
+
+        return ParseSignature(context, start, name, index, isArrow: true);
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseTypeDeclaration(ParseContext context, int start)
+    {
+        // [@decorator(...)] [export] [default] [declare] [abstract] class Name<T> [extends Base] [implements A, B] { ... }
+        // [export] [declare] interface Name<T> [extends A, B] { ... }
+        // [export] [declare] [const] enum Name { ... }
+        // [export] [declare] type Name<T> = ...;
+        var decorators = new List<string>();
+        var index = SkipDecorators(context, start, decorators);
+        if (index < 0)
+            return null;
+
+        var signatureStart = index;
+        var isExported = context.Is(index, "export");
+        if (isExported)
+            index++;
+
+        if (context.Is(index, "default"))
+            index++;
+
+        if (context.Is(index, "declare"))
+            index++;
+
+        var isAbstract = context.Is(index, "abstract") && context.Is(index + 1, "class");
+        if (isAbstract || (context.Is(index, "const") && context.Is(index + 1, "enum")))
+            index++;
+
+        var keyword = context.At(index);
+        if (keyword == null || keyword.Kind != TokenKind.Identifier || !context.IsIdentifier(index + 1))
+            return null;
+
+        // Only classes can be decorated
+        if (decorators.Count > 0 && !keyword.Is("class"))
+            return null;
+
+        var name = context[index + 1];
+        index += 2;
+
+        if (keyword.Is("type"))
+        {
+            if (context.Is(index, "<"))
+                index = SkipAngles(context, index, context.Count);
+
+            if (!context.Is(index, "="))
+                return null;
+
+            var typeEnd = ScanType(context, index + 1, context.Count);
+            if (typeEnd == index + 1)
+                return null;
+
+            var alias = new TypeAliasInfo(
+                Name: name.Text,
+                LineNumber: context[start].Line,
+                Content: context.Text(start, index - 1),
+                Type: context.Text(index + 1, typeEnd - 1),
+                HasComment: context.HasCommentBefore(start))
+            {
+                EndLineNumber = context[typeEnd - 1].Line,
+                IsExported = isExported
+            };
+
+            // Continue inside the type so object type literals are scoped like any other braces
+            return (alias, index + 1);
+        }
+
+        if (!keyword.Is("class") && !keyword.Is("interface") && !keyword.Is("enum"))
+            return null;
+
+        // Anonymous default exports such as "export default class {" have nothing to name
+        if (name.Is("extends") || name.Is("implements"))
+            return null;
+
+        var bodyIndex = FindDeclarationBody(context, index);
+        if (bodyIndex < 0 || context.Match(bodyIndex) < 0)
+            return null;
+
+        if (context.Is(index, "<"))
+            index = SkipAngles(context, index, bodyIndex);
+
+        var heritage = new Dictionary<string, List<string>>();
+        while (index < bodyIndex && (context.Is(index, "extends") || context.Is(index, "implements")))
+        {
+            var types = new List<string>();
+            heritage[context[index].Text] = types;
+            index++;
+
+            while (index < bodyIndex)
+            {
+                var typeEnd = ScanType(context, index, bodyIndex);
+                if (typeEnd == index)
+                    break;
+
+                types.Add(context.Text(index, typeEnd - 1));
+                index = typeEnd;
+                if (!context.Is(index, ","))
+                    break;
+
+                index++;
+            }
+        }
+
+        // Comments go above the decorators, but the signature starts at the class itself
+        var line = context[start].Line;
+        var content = context.Text(signatureStart, bodyIndex - 1);
+        var hasComment = context.HasCommentBefore(start);
+        var extends = heritage.GetValueOrDefault("extends") ?? new List<string>();
+
+        DeclarationInfo declaration = keyword.Text switch
+        {
+            "class" => new ClassInfo(name.Text, line, content, hasComment)
+            {
+                Decorators = decorators,
+                IsAbstract = isAbstract,
+                BaseType = extends.FirstOrDefault(),
+                Implements = heritage.GetValueOrDefault("implements") ?? new List<string>()
+            },
+            "interface" => new InterfaceInfo(name.Text, line, content, hasComment) { Extends = extends },
+            _ => new EnumInfo(name.Text, line, content, hasComment)
+        };
+
+        // Continue with the keyword (or past it, when it has already been seen) so the body is
+        // registered and its members are parsed
+        var keywordIndex = start;
+        while (context[keywordIndex] != keyword)
+            keywordIndex++;
+
+        return (declaration with { EndLineNumber = context[context.Match(bodyIndex)].Line, IsExported = isExported }, Math.Max(keywordIndex, start + 1));
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseProperty(ParseContext context, int start, bool isClassMember)
+    {
+        // Class:     [@decorator(...)] [modifiers] name[?|!] [: type] [= initializer][;]
+        // Interface: [readonly] name[?]: type[;|,]
+        if (!IsMemberStart(context, start))
+            return null;
+
+        var decorators = new List<string>();
+        var index = isClassMember ? SkipDecorators(context, start, decorators) : start;
+        if (index < 0)
+            return null;
+
+        var modifiers = new List<string>();
+        while (context.IsIdentifier(index)
+            && PropertyModifiers.Contains(context[index].Text)
+            && (isClassMember || context[index].Text == "readonly")
+            && context.IsIdentifier(index + 1))
+        {
+            modifiers.Add(context[index].Text);
+            index++;
+        }
+
+        var isStatic = modifiers.Contains("static");
+        var isReadonly = modifiers.Contains("readonly");
+
+        var name = context.At(index);
+        if (name == null || (name.Kind != TokenKind.Identifier && name.Kind != TokenKind.String))
+            return null;
+
+        index++;
+        var isOptional = context.Is(index, "?");
+        if (isOptional || context.Is(index, "!"))
+            index++;
+
+        string? type = null;
+        var last = index - 1;
+        if (context.Is(index, ":"))
+        {
+            var typeEnd = ScanType(context, index + 1, context.Count);
+            if (typeEnd == index + 1)
+                return null;
+
+            type = context.Text(index + 1, typeEnd - 1);
+            last = typeEnd - 1;
+            index = typeEnd;
+        }
+
+        if (isClassMember && context.Is(index, "="))
+        {
+            // Arrow functions and function expressions assigned to fields are documented as methods
+            var function = TryParseFunctionExpression(context, start, name, index + 1);
+            if (function != null)
+                return ((FunctionInfo)function.Value.Declaration with { Decorators = decorators, Modifiers = modifiers }, function.Value.NextIndex);
+
+            last = ScanExpressionEnd(context, index + 1);
+            index++;
+        }
+        else if (!IsMemberEnd(context, index, last))
+        {
+            return null;
+        }
+
+        var property = new PropertyInfo(
+            Name: name.Text.Trim('\'', '"'),
+            LineNumber: context[start].Line,
+            Content: context.Text(start, last),
+            Type: type,
+            HasComment: context.HasCommentBefore(start))
+        {
+            Decorators = decorators,
+            IsOptional = isOptional,
+            IsReadonly = isReadonly,
+            IsStatic = isStatic,
+            Modifiers = modifiers,
+            EndLineNumber = context[last].Line
+        };
+
+        return (property, index);
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseEnumMember(ParseContext context, int start)
+    {
+        // Name [= value][,]
+        if (!IsMemberStart(context, start))
+            return null;
+
+        var name = context[start];
+        if (name.Kind != TokenKind.Identifier && name.Kind != TokenKind.String)
+            return null;
+
+        string? value = null;
+        var last = start;
+        if (context.Is(start + 1, "="))
+        {
+            last = ScanExpressionEnd(context, start + 2);
+            value = context.Text(start + 2, last);
+        }
+        else if (!context.Is(start + 1, ",") && !context.Is(start + 1, "}"))
+        {
+            return null;
+        }
+
+        var member = new EnumMemberInfo(
+            Name: name.Text.Trim('\'', '"'),
+            LineNumber: name.Line,
+            Content: context.Text(start, last),
+            Value: value,
+            HasComment: context.HasCommentBefore(start))
+        {
+            EndLineNumber = context[last].Line
+        };
+
+        return (member, last + 1);
+    }
+
+    /// <summary>
+    /// Whether the token at <paramref name="index"/> starts a member on its own line. Members sharing a
+    /// line with other code (such as <c>enum Flag { On, Off }</c>) can't have a comment inserted above them.
+    /// </summary>
+    private bool IsMemberStart(ParseContext context, int index)
+    {
+        var previous = context.At(index - 1);
+        if (previous == null || context[index].Line == previous.Line)
+            return false;
+
+        return previous.Is(";") || previous.Is("{") || previous.Is("}") || previous.Is(",") || EndsExpression(previous);
+    }
+
+    private bool IsMemberEnd(ParseContext context, int index, int last)
+    {
+        var next = context.At(index);
+        return next == null
+            || next.Is(";")
+            || next.Is(",")
+            || next.Is("}")
+            || (next.Line > context[last].Line && StartsStatement(next));
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? TryParseMethod(ParseContext context, int start, bool isClassMember, bool allowSignature)
+    {
+        // [@decorator(...)] [public|private|protected] [static] [abstract] [override] [async] [*] [get|set] name[?]<T>(...) [: type] { ... }
+        // Class overloads, abstract methods and interface methods end with the signature: name[?]<T>(...) [: type];
+        // Like properties, class and interface methods sharing a line with other code are not documented
+        if (allowSignature && context.At(start - 1)?.Line == context[start].Line)
+            return null;
+
+        var decorators = new List<string>();
+        var index = isClassMember ? SkipDecorators(context, start, decorators) : start;
+        if (index < 0)
+            return null;
+
+        var modifiers = new List<string>();
+        while (context.IsIdentifier(index)
+            && MemberModifiers.Contains(context[index].Text)
+            && (isClassMember || context[index].Text == "async")
+            && IsFollowedByMemberName(context, index))
+        {
+            modifiers.Add(context[index].Text);
+            index++;
+        }
+
+        if (context.Is(index, "*"))
+            index++;
+
+        if ((context.Is(index, "get") || context.Is(index, "set")) && context.IsIdentifier(index + 1))
+        {
+            modifiers.Add(context[index].Text);
+            index++;
+        }
+
+        if (!context.IsIdentifier(index) || ControlFlowKeywords.Contains(context[index].Text))
+            return null;
+
+        // "new (...): T" in an interface is a construct signature, not a method
+        var name = context[index];
+        if (!isClassMember && allowSignature && name.Is("new"))
+            return null;
+
+        index++;
+
+        if (context.Is(index, "?") || context.Is(index, "!"))
+            index++;
+
+        var method = ParseSignature(context, start, name, index, isArrow: false, allowSignature);
+        return method == null ? null : ((FunctionInfo)method.Value.Declaration with { Decorators = decorators, Modifiers = modifiers }, method.Value.NextIndex);
+    }
+
+    private bool IsFollowedByMemberName(ParseContext context, int index)
+    {
+        var next = context.At(index + 1);
+        return next != null && (next.Kind == TokenKind.Identifier || next.Is("*") || next.Is("["));
+    }
+
+    /// <summary>
+    /// Skips the decorators starting at <paramref name="index"/>, adding their names to <paramref name="names"/>.
+    /// Returns the index after the last decorator, or -1 when a decorator is incomplete.
+    /// </summary>
+    private int SkipDecorators(ParseContext context, int index, List<string> names)
+    {
+        while (index >= 0 && context.Is(index, "@"))
+        {
+            var next = SkipDecorator(context, index);
+            if (next >= 0)
+                names.Add(context.Text(index + 1, context.Is(next - 1, ")") ? context.Match(next - 1) - 1 : next - 1));
+
+            index = next;
+        }
+
+        return index;
+    }
+
+    private int SkipDecorator(ParseContext context, int index)
+    {
+        // @name, @name.member or @name(...)
+        index++;
+        if (!context.IsIdentifier(index))
+            return -1;
+
+        index++;
+        while (context.Is(index, ".") && context.IsIdentifier(index + 1))
+            index += 2;
+
+        if (context.Is(index, "("))
+        {
+            var close = context.Match(index);
+            if (close < 0)
+                return -1;
+
+            index = close + 1;
+        }
+
+        return index;
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex)? ParseSignature(
+        ParseContext context,
+        int start,
+        Token name,
+        int index,
+        bool isArrow,
+        bool allowSignature = false)
+    {
+        var typeParameters = new List<TypeParameterInfo>();
+        if (context.Is(index, "<"))
+        {
+            var typeParametersEnd = SkipAngles(context, index, context.Count);
+            typeParameters = ParseTypeParameters(context, index + 1, typeParametersEnd - 1);
+            index = typeParametersEnd;
+        }
+
+        if (!context.Is(index, "("))
+            return null;
+
+        var close = context.Match(index);
+        if (close < 0)
+            return null;
+
+        var parameters = ParseParameters(context, index + 1, close);
+        index = close + 1;
+
+        string? returnType = null;
+        if (context.Is(index, ":"))
+        {
+            var typeEnd = ScanType(context, index + 1, context.Count);
+            if (typeEnd == index + 1)
+                return null;
+
+            returnType = context.Text(index + 1, typeEnd - 1);
+            index = typeEnd;
+        }
+
+        if (allowSignature && !isArrow && !context.Is(index, "{") && IsMemberEnd(context, index, index - 1))
+        {
+            var first = context[start];
+            var last = context[index - 1];
+            var signature = new FunctionInfo(
+                Name: name.Text,
+                LineNumber: first.Line,
+                Content: context.Source.Substring(first.Start, last.End - first.Start),
+                Parameters: parameters,
+                ReturnType: returnType,
+                HasComment: context.HasCommentBefore(start))
+            {
+                EndLineNumber = last.Line,
+                Source = context.Source.Substring(first.Start, last.End - first.Start),
+                IsSignature = true,
+                TypeParameters = typeParameters
+            };
+
+            return (signature, index);
+        }
+
+        if (isArrow)
+        {
+            if (!context.Is(index, "=>"))
+                return null;
+
+            var (arrow, arrowNext) = CreateArrowFunction(context, start, name, parameters, returnType, index);
+            return ((FunctionInfo)arrow with { TypeParameters = typeParameters }, arrowNext);
+        }
+
+        if (!context.Is(index, "{"))
+            return null;
+
+        var bodyEnd = context.Match(index);
+        if (bodyEnd < 0)
+            return null;
+
+        var function = CreateFunction(context, start, name, parameters, returnType, index, index, bodyEnd);
+        return (function with { TypeParameters = typeParameters }, index);
+    }
+
+    /// <summary>
+    /// Parses the type parameters between <paramref name="index"/> and the closing '>' at <paramref name="end"/>:
+    /// <c>const T extends object = {}, in out U</c>.
+    /// </summary>
+    private List<TypeParameterInfo> ParseTypeParameters(ParseContext context, int index, int end)
+    {
+        var typeParameters = new List<TypeParameterInfo>();
+
+        while (index < end)
+        {
+            // Variance and const modifiers: <in out T>, <const T>
+            while (context.IsIdentifier(index)
+                && context[index].Text is "in" or "out" or "const"
+                && context.IsIdentifier(index + 1))
+            {
+                index++;
+            }
+
+            if (!context.IsIdentifier(index))
+                return typeParameters;
+
+            var name = context[index].Text;
+            index++;
+
+            string? constraint = null;
+            if (context.Is(index, "extends"))
+            {
+                var constraintEnd = ScanType(context, index + 1, end);
+                constraint = constraintEnd > index + 1 ? context.Text(index + 1, constraintEnd - 1) : null;
+                index = constraintEnd;
+            }
+
+            string? defaultType = null;
+            if (context.Is(index, "="))
+            {
+                var defaultEnd = ScanType(context, index + 1, end);
+                defaultType = defaultEnd > index + 1 ? context.Text(index + 1, defaultEnd - 1) : null;
+                index = defaultEnd;
+            }
+
+            typeParameters.Add(new TypeParameterInfo(name, constraint, defaultType));
+
+            if (!context.Is(index, ","))
+                break;
+
+            index++;
+        }
+
+        return typeParameters;
+    }
+
+    private (DeclarationInfo Declaration, int NextIndex) CreateArrowFunction(
+        ParseContext context,
+        int start,
+        Token name,
+        List<ParameterInfo> parameters,
+        string? returnType,
+        int arrowIndex)
+    {
+        var bodyStart = arrowIndex + 1;
+        if (context.Is(bodyStart, "{") && context.Match(bodyStart) >= 0)
+        {
+            var block = CreateFunction(context, start, name, parameters, returnType, arrowIndex, bodyStart, context.Match(bodyStart));
+            return (block, bodyStart);
+        }
+
+        var bodyEnd = ScanExpressionEnd(context, bodyStart);
+        var expression = CreateFunction(context, start, name, parameters, returnType, arrowIndex, bodyStart, bodyEnd);
+        return (expression, bodyStart);
+    }
+
+    private FunctionInfo CreateFunction(
+        ParseContext context,
+        int start,
+        Token name,
+        List<ParameterInfo> parameters,
+        string? returnType,
+        int signatureEnd,
+        int bodyStart,
+        int bodyEnd)
+    {
+        var first = context[start];
+        var last = context[Math.Min(bodyEnd, context.Count - 1)];
+        var bodyFirst = context[Math.Min(bodyStart, context.Count - 1)];
+
+        // "async" and the generator "*" come before the parameters, but may follow the name: "const load = async () => ..."
+        var isAsync = false;
+        var isGenerator = false;
+        for (int i = start; i < signatureEnd; i++)
+        {
+            if (context.Is(i, "(") || context.Is(i, "["))
+            {
+                i = Math.Max(i, context.Match(i));
+                continue;
+            }
+
+            isAsync |= context.Is(i, "async") && !context.Is(i + 1, ":") && !context.Is(i + 1, "=");
+            isGenerator |= context.Is(i, "*");
+        }
+
+        var function = new FunctionInfo(
+            Name: name.Text,
+            LineNumber: first.Line,
+            Content: context.Source.Substring(first.Start, context[signatureEnd].End - first.Start),
+            Parameters: parameters,
+            ReturnType: returnType,
+            HasComment: context.HasCommentBefore(start))
+        {
+            EndLineNumber = last.Line,
+            Body = new SourceRange(bodyFirst.Start, last.End, bodyFirst.Line, last.Line),
+            Source = context.Source.Substring(first.Start, last.End - first.Start),
+            IsAsync = isAsync,
+            IsGenerator = isGenerator,
+            ContainsJsx = ContainsJsx(context, bodyStart, bodyEnd),
+            Throws = FindThrownErrors(context, bodyStart, bodyEnd)
+        };
+
+        function = TypeInference.InferParameterTypes(function, context.Source, fromUsage: context.IsJavaScript);
+
+        // Generators are documented by what they yield, constructors return nothing
+        if (returnType != null || isGenerator || name.Text == "constructor")
+            return function;
+
+        var returned = FindReturnedExpressions(context, bodyStart, bodyEnd);
+        return function with { InferredReturnType = TypeInference.InferReturnType(returned, isAsync, function.Parameters) };
+    }
+
+    /// <summary>
+    /// Returns the expressions the function returns, null for a bare <c>return;</c>: the body itself for an
+    /// expression body, otherwise those of its <c>return</c> statements outside nested functions.
+    /// </summary>
+    private List<string?> FindReturnedExpressions(ParseContext context, int bodyStart, int bodyEnd)
+    {
+        if (!context.Is(bodyStart, "{"))
+            return new List<string?> { context.Text(bodyStart, bodyEnd) };
+
+        var returned = new List<string?>();
+        for (int i = bodyStart + 1; i < bodyEnd && i < context.Count; i++)
+        {
+            if (context.Is(i, "function"))
+            {
+                // The body is the first brace after the parameters
+                var parameters = i;
+                while (parameters < bodyEnd && !context.Is(parameters, "("))
+                    parameters++;
+
+                var body = context.Match(parameters);
+                while (body >= 0 && body < bodyEnd && !context.Is(body, "{"))
+                    body++;
+
+                i = Math.Max(i, context.Match(body));
+            }
+            else if (context.Is(i, "{") && IsNestedFunctionBody(context, i))
+            {
+                i = Math.Max(i, context.Match(i));
+            }
+            else if (context.Is(i, "return") && context.IsIdentifier(i))
+            {
+                // "return" followed by a line break returns nothing (automatic semicolon insertion)
+                var next = context.At(i + 1);
+                if (next == null || next.Is(";") || next.Is("}") || next.Line > context[i].Line)
+                {
+                    returned.Add(null);
+                    continue;
+                }
+
+                var end = ScanExpressionEnd(context, i + 1);
+                returned.Add(context.Text(i + 1, end));
+                i = end;
+            }
+        }
+
+        return returned;
+    }
+
+    // "=> {" and method shorthands "name(...) {", but not "if (...) {" or "catch (e) {"
+    private static bool IsNestedFunctionBody(ParseContext context, int index)
+    {
+        if (context.Is(index - 1, "=>"))
+            return true;
+
+        if (!context.Is(index - 1, ")"))
+            return false;
+
+        var open = context.Match(index - 1);
+        return context.IsIdentifier(open - 1) && !ControlFlowKeywords.Contains(context[open - 1].Text);
+    }
+
+    /// <summary>
+    /// Returns the error types constructed by <c>throw new Error(...)</c> or <c>throw Error(...)</c> statements in
+    /// the body, in order of first appearance. Rethrown variables have no known type and are left out.
+    /// </summary>
+    private static bool ContainsJsx(ParseContext context, int bodyStart, int bodyEnd)
+    {
+        for (int i = bodyStart; i <= bodyEnd && i < context.Count; i++)
+        {
+            if (context[i].Kind == TokenKind.Jsx)
+                return true;
+        }
+
+        return false;
+    }
+
+    private static List<string> FindThrownErrors(ParseContext context, int bodyStart, int bodyEnd)
+    {
+        var errors = new List<string>();
+
+        for (int i = bodyStart; i < bodyEnd && i < context.Count; i++)
+        {
+            if (!context.Is(i, "throw"))
+                continue;
+
+            var index = context.Is(i + 1, "new") ? i + 2 : i + 1;
+            if (!context.IsIdentifier(index))
+                continue;
+
+            var last = index;
+            while (context.Is(last + 1, ".") && context.IsIdentifier(last + 2))
+                last += 2;
+
+            if (!context.Is(last + 1, "(") && !context.Is(last + 1, "<"))
+                continue;
+
+            var error = context.Text(index, last);
+            if (!errors.Contains(error))
+                errors.Add(error);
+        }
+
+        return errors;
+    }
+
+    private List<ParameterInfo> ParseParameters(ParseContext context, int index, int end)
+    {
+        var parameters = new List<ParameterInfo>();
+
+        while (index < end)
+        {
+            while (context.Is(index, "@"))
+            {
+                index = SkipDecorator(context, index);
+                if (index < 0)
+                    return parameters;
+            }
+
+            // Constructor parameter properties: private readonly service: Service
+            while (context.IsIdentifier(index)
+                && ParameterModifiers.Contains(context[index].Text)
+                && context.IsIdentifier(index + 1))
+            {
+                index++;
+            }
+
+            var isRest = context.Is(index, "...");
+            if (isRest)
+                index++;
+
+            var patternStart = index;
+            string name;
+            if (context.IsIdentifier(index))
+            {
+                name = context[index].Text;
+                index++;
+            }
+            else if (context.Is(index, "{") || context.Is(index, "["))
+            {
+                name = $"param{parameters.Count}";
+                index = context.Match(index) + 1;
+                if (index == 0)
+                    return parameters;
+            }
+            else
+            {
+                return parameters;
+            }
+
+            var isOptional = context.Is(index, "?");
+            if (isOptional)
+                index++;
+
+            string? type = null;
+            var typeStart = -1;
+            if (context.Is(index, ":"))
+            {
+                typeStart = index + 1;
+                var typeEnd = ScanType(context, typeStart, end);
+                type = typeEnd > typeStart ? context.Text(typeStart, typeEnd - 1) : null;
+                index = typeEnd;
+            }
+
+            string? defaultValue = null;
+            if (context.Is(index, "="))
+            {
+                var valueEnd = SkipExpression(context, index + 1, end);
+                defaultValue = valueEnd > index + 1 ? context.Text(index + 1, valueEnd - 1) : null;
+                index = valueEnd;
+            }
+
+            // "this" only declares the type of this inside the function
+            if (name != "this")
+            {
+                var parameter = context.Is(patternStart, "{") || context.Is(patternStart, "[")
+                    ? ParsePattern(context, patternStart, typeStart) with { Name = name, Type = type }
+                    : new ParameterInfo(name, type);
+
+                parameters.Add(parameter with
+                {
+                    IsRest = isRest,
+                    IsOptional = isOptional || defaultValue != null,
+                    DefaultValue = defaultValue
+                });
+            }
+
+            if (!context.Is(index, ","))
+                break;
+
+            index++;
+        }
+
+        return parameters;
+    }
+
+    /// <summary>
+    /// Parses an object or array destructuring pattern. When the pattern is annotated with an
+    /// object type literal or a tuple, the types of its bindings are taken from the annotation.
+    /// </summary>
+    private ParameterInfo ParsePattern(ParseContext context, int open, int typeStart)
+    {
+        var close = context.Match(open);
+        var isObject = context.Is(open, "{");
+        var bindings = new List<ParameterInfo>();
+
+        var memberTypes = isObject && context.Is(typeStart, "{") ? ReadTypeLiteralMembers(context, typeStart) : null;
+        var elementTypes = !isObject && context.Is(typeStart, "[") ? ReadTupleElements(context, typeStart) : null;
+
+        var index = open + 1;
+        var position = 0;
+        for (; index < close; position++)
+        {
+            // Array holes: [, second]
+            if (context.Is(index, ","))
+            {
+                index++;
+                continue;
+            }
+
+            var isRest = context.Is(index, "...");
+            if (isRest)
+                index++;
+
+            string? key = context.IsIdentifier(index) ? context[index].Text : null;
+            var target = index;
+            if (key != null)
+            {
+                index++;
+
+                // { key: target } renames or destructures the property further
+                if (isObject && context.Is(index, ":"))
+                {
+                    target = index + 1;
+                    index = context.Is(target, "{") || context.Is(target, "[") ? context.Match(target) + 1 : target + 1;
+                }
+            }
+            else if (context.Is(index, "{") || context.Is(index, "["))
+            {
+                index = context.Match(index) + 1;
+            }
+            else
+            {
+                // Computed or quoted keys are not documented
+                index = SkipExpression(context, index, close);
+            }
+
+            string? defaultValue = null;
+            if (context.Is(index, "="))
+            {
+                var valueEnd = SkipExpression(context, index + 1, close);
+                defaultValue = valueEnd > index + 1 ? context.Text(index + 1, valueEnd - 1) : null;
+                index = valueEnd;
+            }
+
+            var name = isObject ? key : context.IsIdentifier(target) ? context[target].Text : $"{position}";
+            if (name != null && !(isObject && isRest))
+            {
+                TypeMember? member = null;
+                if (memberTypes != null && key != null)
+                    member = memberTypes.GetValueOrDefault(key);
+                else if (elementTypes != null && position < elementTypes.Count)
+                    member = elementTypes[position];
+
+                var binding = context.Is(target, "{") || context.Is(target, "[")
+                    ? ParsePattern(context, target, member?.TypeStart ?? -1) with { Name = name }
+                    : new ParameterInfo(name, null);
+
+                bindings.Add(binding with
+                {
+                    Type = member?.Type,
+                    IsRest = isRest,
+                    IsOptional = defaultValue != null || member?.IsOptional == true,
+                    DefaultValue = defaultValue
+                });
+            }
+
+            if (context.Is(index, ","))
+                index++;
+            else
+                break;
+        }
+
+        return new ParameterInfo(string.Empty, null)
+        {
+            Kind = isObject ? ParameterKind.ObjectPattern : ParameterKind.ArrayPattern,
+            Properties = bindings
+        };
+    }
+
+    private record TypeMember(string? Type, bool IsOptional, int TypeStart);
+
+    private Dictionary<string, TypeMember> ReadTypeLiteralMembers(ParseContext context, int open)
+    {
+        // { [readonly] name[?]: Type; ... }
+        var members = new Dictionary<string, TypeMember>();
+        var close = context.Match(open);
+        var index = open + 1;
+
+        while (index < close)
+        {
+            if (context.Is(index, "readonly") && !context.Is(index + 1, ":") && !context.Is(index + 1, "?"))
+                index++;
+
+            var name = context.IsIdentifier(index) || context.At(index)?.Kind == TokenKind.String
+                ? context[index].Text.Trim('\'', '"')
+                : null;
+            index++;
+
+            var isOptional = context.Is(index, "?");
+            if (isOptional)
+                index++;
+
+            if (name != null && context.Is(index, ":"))
+            {
+                var typeStart = index + 1;
+                var typeEnd = ScanType(context, typeStart, close);
+                members[name] = new TypeMember(typeEnd > typeStart ? context.Text(typeStart, typeEnd - 1) : null, isOptional, typeStart);
+                index = typeEnd;
+            }
+
+            // Skip anything else (method signatures, index signatures) up to the member separator
+            while (index < close && !context.Is(index, ";") && !context.Is(index, ","))
+            {
+                index = context.Is(index, "(") || context.Is(index, "[") || context.Is(index, "{")
+                    ? context.Match(index) + 1
+                    : index + 1;
+            }
+
+            index++;
+        }
+
+        return members;
+    }
+
+    private List<TypeMember> ReadTupleElements(ParseContext context, int open)
+    {
+        // [Type, Type] or labeled [name: Type, name?: Type]
+        var elements = new List<TypeMember>();
+        var close = context.Match(open);
+        var index = open + 1;
+
+        while (index < close)
+        {
+            if (context.IsIdentifier(index) && (context.Is(index + 1, ":") || (context.Is(index + 1, "?") && context.Is(index + 2, ":"))))
+                index += context.Is(index + 1, "?") ? 3 : 2;
+
+            var typeStart = index;
+            var typeEnd = ScanType(context, typeStart, close);
+            if (typeEnd == typeStart)
+                break;
+
+            var isOptional = context.Is(typeEnd, "?");
+            elements.Add(new TypeMember(context.Text(typeStart, typeEnd - 1), isOptional, typeStart));
+            index = isOptional ? typeEnd + 1 : typeEnd;
+
+            if (!context.Is(index, ","))
+                break;
+
+            index++;
+        }
+
+        return elements;
+    }
+
+    /// <summary>
+    /// Returns the index of the first token after the type that starts at <paramref name="index"/>.
+    /// </summary>
+    private int ScanType(ParseContext context, int index, int limit)
+    {
+        var expectOperand = true;
+        var pendingConditionals = 0;
+
+        while (index < limit)
+        {
+            var token = context[index];
+
+            if (expectOperand)
+            {
+                if (token.Is("("))
+                {
+                    // Parenthesized type or function type: (a: string) => void
+                    var close = context.Match(index);
+                    if (close < 0)
+                        return index;
+
+                    index = close + 1;
+                    if (context.Is(index, "=>"))
+                    {
+                        index++;
+                        continue;
+                    }
+
+                    expectOperand = false;
+                }
+                else if (token.Is("{") || token.Is("["))
+                {
+                    // Object type literal or tuple
+                    var close = context.Match(index);
+                    if (close < 0)
+                        return index;
+
+                    index = close + 1;
+                    expectOperand = false;
+                }
+                else if (token.Is("<"))
+                {
+                    // Generic function type: <T>(value: T) => T
+                    index = SkipAngles(context, index, limit);
+                }
+                else if (token.Is("|") || token.Is("&") || token.Is("-"))
+                {
+                    index++;
+                }
+                else if (token.Kind == TokenKind.Identifier
+                    && TypePrefixKeywords.Contains(token.Text)
+                    && context.At(index + 1) is { } next
+                    && (next.Kind != TokenKind.Punctuator || next.Is("(") || next.Is("{") || next.Is("[")))
+                {
+                    index++;
+                }
+                else if (token.Kind is TokenKind.Identifier or TokenKind.Number or TokenKind.String or TokenKind.Template)
+                {
+                    index++;
+                    expectOperand = false;
+                }
+                else
+                {
+                    return index;
+                }
+            }
+            else
+            {
+                if (token.Is("<"))
+                {
+                    index = SkipAngles(context, index, limit);
+                }
+                else if (token.Is("["))
+                {
+                    var close = context.Match(index);
+                    if (close < 0)
+                        return index;
+
+                    index = close + 1;
+                }
+                else if (token.Is(".") || token.Is("|") || token.Is("&") || token.Is("is"))
+                {
+                    index++;
+                    expectOperand = true;
+                }
+                else if (token.Is("extends"))
+                {
+                    pendingConditionals++;
+                    index++;
+                    expectOperand = true;
+                }
+                else if (pendingConditionals > 0 && (token.Is("?") || token.Is(":")))
+                {
+                    if (token.Is(":"))
+                        pendingConditionals--;
+
+                    index++;
+                    expectOperand = true;
+                }
+                else
+                {
+                    return index;
+                }
+            }
+        }
+
+        return index;
+    }
+
+    private int SkipAngles(ParseContext context, int index, int limit)
+    {
+        var depth = 0;
+        while (index < limit)
+        {
+            var token = context[index];
+            if (token.Is("<"))
+            {
+                depth++;
+            }
+            else if (token.Is(">"))
+            {
+                depth--;
+                if (depth == 0)
+                    return index + 1;
+            }
+            else if (token.Is("(") || token.Is("[") || token.Is("{"))
+            {
+                var close = context.Match(index);
+                if (close < 0)
+                    return limit;
+
+                index = close;
+            }
+            else if (token.Is(";"))
+            {
+                return index;
+            }
+
+            index++;
+        }
+
+        return index;
+    }
+
+    /// <summary>
+    /// Returns the index of the next top-level ',' or <paramref name="limit"/>.
+    /// </summary>
+    private int SkipExpression(ParseContext context, int index, int limit)
+    {
+        while (index < limit)
+        {
+            var token = context[index];
+            if (token.Is(","))
+                return index;
+
+            if (token.Is("(") || token.Is("[") || token.Is("{"))
+            {
+                var close = context.Match(index);
+                if (close < 0)
+                    return limit;
+
+                index = close;
+            }
+
+            index++;
+        }
+
+        return limit;
+    }
+
+    /// <summary>
+    /// Returns the index of the last token of the expression body that starts at <paramref name="index"/>.
+    /// </summary>
+    private int ScanExpressionEnd(ParseContext context, int index)
+    {
+        var start = index;
+        var last = index;
+
+        while (index < context.Count)
+        {
+            var token = context[index];
+
+            if (token.Is("(") || token.Is("[") || token.Is("{"))
+            {
+                var close = context.Match(index);
+                if (close < 0)
+                    return context.Count - 1;
+
+                last = close;
+                index = close + 1;
+                continue;
+            }
+
+            // Type arguments of a call, which may hold commas: new Map<string, User>()
+            if (token.Is("<") && index > start && context.IsIdentifier(index - 1))
+            {
+                var call = SkipAngles(context, index, context.Count);
+                if (context.Is(call, "(") && context.Match(call) > call)
+                {
+                    last = context.Match(call);
+                    index = last + 1;
+                    continue;
+                }
+            }
+
+            if (token.Is(";") || token.Is(",") || token.Is(")") || token.Is("]") || token.Is("}"))
+                return Math.Max(start, last);
+
+            // A new line that starts a new statement ends the expression (automatic semicolon insertion)
+            if (index > start && token.Line > context[index - 1].Line
+                && EndsExpression(context[index - 1]) && StartsStatement(token))
+            {
+                return last;
+            }
+
+            last = index;
+            index++;
+        }
+
+        return Math.Min(last, context.Count - 1);
+    }
+
+    private bool EndsExpression(Token token) => token.Kind switch
+    {
+        TokenKind.Identifier => !BinaryKeywords.Contains(token.Text) && !token.Is("new") && !token.Is("typeof") && !token.Is("await"),
+        TokenKind.Punctuator => token.Is(")") || token.Is("]") || token.Is("}") || token.Is("++") || token.Is("--"),
+        _ => true
+    };
+
+    private bool StartsStatement(Token token) =>
+        (token.Kind == TokenKind.Identifier && !BinaryKeywords.Contains(token.Text)) || token.Is("@");
+
+    /// <summary>
+    /// Significant tokens of a source file together with their bracket pairs and surrounding comments.
+    /// </summary>
+    private sealed class ParseContext
+    {
+        private readonly List<Token> _allTokens;
+        private readonly List<Token> _tokens = new();
+        private readonly List<int> _allTokenIndex = new();
+        private readonly int[] _matches;
+
+        public ParseContext(string source, List<Token> allTokens)
+        {
+            Source = source;
+            _allTokens = allTokens;
+
+            for (int i = 0; i < allTokens.Count; i++)
+            {
+                if (allTokens[i].IsComment)
+                    continue;
+
+                _tokens.Add(allTokens[i]);
+                _allTokenIndex.Add(i);
+            }
+
+            _matches = MatchBrackets(_tokens);
+        }
+
+        public string Source { get; }
+
+        /// <summary>
+        /// Whether the source has no type annotations, so parameter types are also inferred from their use.
+        /// </summary>
+        public bool IsJavaScript { get; init; }
+
+        public IEnumerable<Token> Comments => _allTokens.Where(t => t.IsComment);
+
+        public int Count => _tokens.Count;
+
+        public Token this[int index] => _tokens[index];
+
+        public Token? At(int index) => index >= 0 && index < _tokens.Count ? _tokens[index] : null;
+
+        public bool Is(int index, string text) => At(index)?.Is(text) == true;
+
+        public bool IsIdentifier(int index) => At(index)?.Kind == TokenKind.Identifier;
+
+        /// <summary>
+        /// Returns the index of the bracket matching the one at <paramref name="index"/>, or -1.
+        /// </summary>
+        public int Match(int index) => index >= 0 && index < _matches.Length ? _matches[index] : -1;
+
+        /// <summary>
+        /// Returns the source text from the token at <paramref name="first"/> to the token at
+        /// <paramref name="last"/> (inclusive) with runs of whitespace collapsed.
+        /// </summary>
+        public string Text(int first, int last)
+        {
+            var text = Source.Substring(_tokens[first].Start, _tokens[last].End - _tokens[first].Start);
+            return Regex.Replace(text, @"\s+", " ");
+        }
+
+        /// <summary>
+        /// Whether the token at <paramref name="index"/> is directly preceded by a comment that starts its own line.
+        /// </summary>
+        public bool HasCommentBefore(int index)
+        {
+            var allIndex = _allTokenIndex[index];
+            if (allIndex == 0 || !_allTokens[allIndex - 1].IsComment)
+                return false;
+
+            // A suppression directive is not documentation
+            var comment = _allTokens[allIndex - 1];
+            if (GetSuppressionDirective(comment) != null)
+                return false;
+
+            return allIndex < 2 || _allTokens[allIndex - 2].Line < comment.Line;
+        }
+
+        /// <summary>
+        /// Returns the range of the comment found by <see cref="HasCommentBefore"/>, or null.
+        /// </summary>
+        public SourceRange? GetCommentBefore(int index)
+        {
+            if (!HasCommentBefore(index))
+                return null;
+
+            var comment = _allTokens[_allTokenIndex[index] - 1];
+            var endLine = comment.Line + comment.Text.Count(ch => ch == '\n');
+            return new SourceRange(comment.Start, comment.End, comment.Line, endLine);
+        }
+
+        private static int[] MatchBrackets(List<Token> tokens)
+        {
+            var matches = Enumerable.Repeat(-1, tokens.Count).ToArray();
+            var open = new Stack<int>();
+
+            for (int i = 0; i < tokens.Count; i++)
+            {
+                var token = tokens[i];
+                if (token.Kind != TokenKind.Punctuator)
+                    continue;
+
+                switch (token.Text)
+                {
+                    case "(":
+                    case "[":
+                    case "{":
+                        open.Push(i);
+                        break;
+                    case ")":
+                    case "]":
+                    case "}":
+                        var opener = token.Text == ")" ? "(" : token.Text == "]" ? "[" : "{";
+                        if (open.Count > 0 && tokens[open.Peek()].Text == opener)
+                        {
+                            var openIndex = open.Pop();
+                            matches[openIndex] = i;
+                            matches[i] = openIndex;
+                        }
+                        break;
+                }
+            }
+
+            return matches;
+        }
+    }
+}
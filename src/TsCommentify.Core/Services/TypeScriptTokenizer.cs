@@ -0,0 +1,456 @@
+namespace TsCommentify.Core.Services;
+
+public enum TokenKind
+{
+    Identifier,
+    Number,
+    String,
+    Template,
+    Regex,
+    Punctuator,
+    LineComment,
+    BlockComment,
+    Jsx
+}
+
+/// <summary>
+/// A lexical token. <see cref="Start"/> and <see cref="End"/> are character offsets into the source,
+/// <see cref="Line"/> is 1-based and <see cref="Column"/> is 0-based.
+/// </summary>
+public record Token(TokenKind Kind, string Text, int Start, int End, int Line, int Column)
+{
+    public bool IsComment => Kind == TokenKind.LineComment || Kind == TokenKind.BlockComment;
+
+    public bool Is(string text) => Text == text && (Kind == TokenKind.Punctuator || Kind == TokenKind.Identifier);
+}
+
+/// <summary>
+/// Splits TypeScript source into tokens. Strings, template literals (including nested
+/// <c>${...}</c> expressions), regular expression literals, comments and, for .tsx files,
+/// JSX elements are each returned as a single token so their contents are never mistaken for code.
+/// </summary>
+public class TypeScriptTokenizer
+{
+    // Longest punctuators first. '>' and '<' are always single characters so that nested
+    // generics such as Promise<Array<string>> close one level at a time.
+    private static readonly string[] Punctuators =
+    {
+        "...", "===", "!==", "**=", "&&=", "||=", "??=",
+        "=>", "==", "!=", "<=", "&&", "||", "??", "?.", "++", "--",
+        "+=", "-=", "*=", "%=", "&=", "|=", "^=", "**"
+    };
+
+    // Keywords after which a '/' starts a regular expression rather than a division
+    private static readonly HashSet<string> ExpressionKeywords = new()
+    {
+        "return", "typeof", "instanceof", "in", "of", "new", "delete", "void",
+        "throw", "case", "do", "else", "yield", "await"
+    };
+
+    private readonly string _source;
+    private readonly bool _allowJsx;
+    private readonly List<int> _lineStarts = new() { 0 };
+    private int _position;
+    private Token? _previousSignificant;
+
+    public TypeScriptTokenizer(string source, bool allowJsx = false)
+    {
+        _source = source;
+        _allowJsx = allowJsx;
+
+        for (int i = 0; i < source.Length; i++)
+        {
+            if (source[i] == '\n')
+                _lineStarts.Add(i + 1);
+        }
+    }
+
+    public List<Token> Tokenize()
+    {
+        var tokens = new List<Token>();
+        _position = 0;
+        _previousSignificant = null;
+
+        Token? token;
+        while ((token = ReadToken()) != null)
+        {
+            tokens.Add(token);
+        }
+
+        return tokens;
+    }
+
+    /// <summary>
+    /// Returns the 1-based line number containing the given character offset.
+    /// </summary>
+    public int GetLine(int offset)
+    {
+        var index = _lineStarts.BinarySearch(offset);
+        return index >= 0 ? index + 1 : ~index;
+    }
+
+    private Token? ReadToken()
+    {
+        SkipWhitespace();
+        if (_position >= _source.Length)
+            return null;
+
+        var start = _position;
+        var ch = _source[_position];
+        var next = Peek(1);
+        TokenKind kind;
+
+        if (ch == '/' && next == '/')
+        {
+            kind = TokenKind.LineComment;
+            while (_position < _source.Length && _source[_position] != '\n' && _source[_position] != '\r')
+                _position++;
+        }
+        else if (ch == '/' && next == '*')
+        {
+            kind = TokenKind.BlockComment;
+            var end = _source.IndexOf("*/", _position + 2, StringComparison.Ordinal);
+            _position = end < 0 ? _source.Length : end + 2;
+        }
+        else if (IsIdentifierStart(ch))
+        {
+            kind = TokenKind.Identifier;
+            _position++;
+            while (_position < _source.Length && IsIdentifierPart(_source[_position]))
+                _position++;
+        }
+        else if (char.IsDigit(ch) || (ch == '.' && char.IsDigit(next)))
+        {
+            kind = TokenKind.Number;
+            ScanNumber();
+        }
+        else if (ch == '"' || ch == '\'')
+        {
+            kind = TokenKind.String;
+            ScanString(ch);
+        }
+        else if (ch == '`')
+        {
+            kind = TokenKind.Template;
+            ScanTemplate();
+        }
+        else if (ch == '/' && IsOperandExpected() && TryScanRegex())
+        {
+            kind = TokenKind.Regex;
+        }
+        else if (ch == '<' && _allowJsx && IsOperandExpected() && LooksLikeJsx())
+        {
+            kind = TokenKind.Jsx;
+            ScanJsxElement();
+        }
+        else
+        {
+            kind = TokenKind.Punctuator;
+            var punctuator = Punctuators.FirstOrDefault(p => string.CompareOrdinal(_source, _position, p, 0, p.Length) == 0);
+
+            // "?." followed by a digit is a conditional expression, not optional chaining
+            if (punctuator == "?." && char.IsDigit(Peek(2)))
+                punctuator = null;
+
+            _position += punctuator?.Length ?? 1;
+        }
+
+        var token = CreateToken(kind, start, _position);
+        if (!token.IsComment)
+            _previousSignificant = token;
+
+        return token;
+    }
+
+    private Token CreateToken(TokenKind kind, int start, int end)
+    {
+        var line = GetLine(start);
+        return new Token(kind, _source.Substring(start, end - start), start, end, line, start - _lineStarts[line - 1]);
+    }
+
+    private void SkipWhitespace()
+    {
+        while (_position < _source.Length && (char.IsWhiteSpace(_source[_position]) || _source[_position] == '\uFEFF'))
+            _position++;
+    }
+
+    private char Peek(int offset)
+    {
+        var index = _position + offset;
+        return index < _source.Length ? _source[index] : '\0';
+    }
+
+    private static bool IsIdentifierStart(char ch) =>
+        char.IsLetter(ch) || ch == '_' || ch == '$' || ch == '#';
+
+    private static bool IsIdentifierPart(char ch) =>
+        char.IsLetterOrDigit(ch) || ch == '_' || ch == '$';
+
+    /// <summary>
+    /// Whether the previous token leaves the parser expecting an operand, in which case
+    /// '/' starts a regular expression and '&lt;' may start a JSX element.
+    /// </summary>
+    private bool IsOperandExpected()
+    {
+        var previous = _previousSignificant;
+        if (previous == null)
+            return true;
+
+        return previous.Kind switch
+        {
+            TokenKind.Identifier => ExpressionKeywords.Contains(previous.Text),
+            TokenKind.Punctuator => previous.Text != ")" && previous.Text != "]" && previous.Text != "}",
+            _ => false
+        };
+    }
+
+    private void ScanNumber()
+    {
+        var isHex = _source[_position] == '0' && (Peek(1) == 'x' || Peek(1) == 'X');
+
+        while (_position < _source.Length)
+        {
+            var ch = _source[_position];
+            if (char.IsLetterOrDigit(ch) || ch == '_' || ch == '.')
+            {
+                _position++;
+            }
+            else if ((ch == '+' || ch == '-') && !isHex && (_source[_position - 1] == 'e' || _source[_position - 1] == 'E'))
+            {
+                _position++;
+            }
+            else
+            {
+                break;
+            }
+        }
+    }
+
+    private void ScanString(char quote)
+    {
+        _position++;
+        while (_position < _source.Length)
+        {
+            var ch = _source[_position];
+            if (ch == '\\')
+            {
+                _position += 2;
+                continue;
+            }
+
+            // Unterminated strings end at the line break
+            if (ch == '\n')
+                return;
+
+            _position++;
+            if (ch == quote)
+                return;
+        }
+
+        _position = Math.Min(_position, _source.Length);
+    }
+
+    private void ScanTemplate()
+    {
+        _position++;
+        while (_position < _source.Length)
+        {
+            var ch = _source[_position];
+            if (ch == '\\')
+            {
+                _position += 2;
+                continue;
+            }
+
+            if (ch == '`')
+            {
+                _position++;
+                return;
+            }
+
+            if (ch == '$' && Peek(1) == '{')
+            {
+                _position += 2;
+                SkipEmbeddedExpression();
+                continue;
+            }
+
+            _position++;
+        }
+
+        _position = Math.Min(_position, _source.Length);
+    }
+
+    /// <summary>
+    /// Skips code up to and including the '}' that closes an embedded expression
+    /// (a template substitution or a JSX expression container).
+    /// </summary>
+    private void SkipEmbeddedExpression()
+    {
+        var previous = _previousSignificant;
+        _previousSignificant = null;
+
+        var depth = 0;
+        Token? token;
+        while ((token = ReadToken()) != null)
+        {
+            if (token.Kind != TokenKind.Punctuator)
+                continue;
+
+            if (token.Text == "{")
+            {
+                depth++;
+            }
+            else if (token.Text == "}")
+            {
+                if (depth == 0)
+                    break;
+
+                depth--;
+            }
+        }
+
+        _previousSignificant = previous;
+    }
+
+    private bool TryScanRegex()
+    {
+        var position = _position + 1;
+        var inClass = false;
+
+        while (position < _source.Length)
+        {
+            var ch = _source[position];
+            if (ch == '\n' || ch == '\r')
+                return false;
+
+            if (ch == '\\')
+            {
+                position += 2;
+                continue;
+            }
+
+            if (ch == '[')
+                inClass = true;
+            else if (ch == ']')
+                inClass = false;
+            else if (ch == '/' && !inClass)
+                break;
+
+            position++;
+        }
+
+        if (position >= _source.Length)
+            return false;
+
+        position++;
+        while (position < _source.Length && char.IsLetter(_source[position]))
+            position++;
+
+        _position = position;
+        return true;
+    }
+
+    private bool LooksLikeJsx()
+    {
+        var next = Peek(1);
+        if (next == '>')
+            return true;
+
+        if (!char.IsLetter(next))
+            return false;
+
+        // Generic arrow functions in .tsx files are written as <T,>(...) or <T extends X>(...)
+        var position = _position + 1;
+        while (position < _source.Length && (IsIdentifierPart(_source[position]) || _source[position] == '.'))
+            position++;
+
+        while (position < _source.Length && _source[position] == ' ')
+            position++;
+
+        if (position < _source.Length && _source[position] == ',')
+            return false;
+
+        return string.CompareOrdinal(_source, position, "extends ", 0, 8) != 0;
+    }
+
+    private void ScanJsxElement()
+    {
+        var depth = 0;
+
+        while (_position < _source.Length)
+        {
+            // Positioned on '<'
+            _position++;
+
+            if (Peek(0) == '/')
+            {
+                // Closing tag
+                while (_position < _source.Length && _source[_position] != '>')
+                    _position++;
+
+                _position++;
+                depth--;
+                if (depth <= 0)
+                    return;
+            }
+            else if (!ScanJsxOpeningTag(ref depth))
+            {
+                return;
+            }
+
+            // Children: text and expression containers up to the next tag
+            while (_position < _source.Length && _source[_position] != '<')
+            {
+                if (_source[_position] == '{')
+                {
+                    _position++;
+                    SkipEmbeddedExpression();
+                }
+                else
+                {
+                    _position++;
+                }
+            }
+        }
+    }
+
+    /// <summary>
+    /// Scans a JSX opening tag. Returns false when the tag was self-closing at the outermost level.
+    /// </summary>
+    private bool ScanJsxOpeningTag(ref int depth)
+    {
+        while (_position < _source.Length)
+        {
+            var ch = _source[_position];
+
+            if (ch == '"' || ch == '\'')
+            {
+                var end = _source.IndexOf(ch, _position + 1);
+                _position = end < 0 ? _source.Length : end + 1;
+            }
+            else if (ch == '{')
+            {
+                _position++;
+                SkipEmbeddedExpression();
+            }
+            else if (ch == '/' && Peek(1) == '>')
+            {
+                _position += 2;
+                return depth > 0;
+            }
+            else if (ch == '>')
+            {
+                _position++;
+                depth++;
+                return true;
+            }
+            else
+            {
+                _position++;
+            }
+        }
+
+        return false;
+    }
+}
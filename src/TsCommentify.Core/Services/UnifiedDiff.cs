@@ -0,0 +1,175 @@
+using System.Text;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Builds unified diffs (as produced by <c>diff -u</c>) between two versions of a file.
+/// </summary>
+public static class UnifiedDiff
+{
+    private enum EditKind { Equal, Delete, Insert }
+
+    private readonly record struct Edit(EditKind Kind, int OldIndex, int NewIndex);
+
+    public static string Create(string path, IReadOnlyList<string> original, IReadOnlyList<string> modified, int context = 3)
+    {
+        var edits = ComputeEdits(original, modified);
+        if (edits.All(e => e.Kind == EditKind.Equal))
+            return string.Empty;
+
+        var diff = new StringBuilder();
+        diff.AppendLine($"--- a/{path}");
+        diff.AppendLine($"+++ b/{path}");
+
+        var index = 0;
+        while (index < edits.Count)
+        {
+            // Find the next change and extend the hunk while the following change is close enough
+            var firstChange = edits.FindIndex(index, e => e.Kind != EditKind.Equal);
+            if (firstChange < 0)
+                break;
+
+            var lastChange = firstChange;
+            for (int i = firstChange + 1; i < edits.Count; i++)
+            {
+                if (edits[i].Kind == EditKind.Equal)
+                    continue;
+
+                if (i - lastChange - 1 > context * 2)
+                    break;
+
+                lastChange = i;
+            }
+
+            var start = Math.Max(index, firstChange - context);
+            var end = Math.Min(edits.Count - 1, lastChange + context);
+            AppendHunk(diff, edits, start, end, original, modified);
+            index = end + 1;
+        }
+
+        return diff.ToString();
+    }
+
+    private static void AppendHunk(
+        StringBuilder diff,
+        List<Edit> edits,
+        int start,
+        int end,
+        IReadOnlyList<string> original,
+        IReadOnlyList<string> modified)
+    {
+        var hunk = edits.GetRange(start, end - start + 1);
+        var oldCount = hunk.Count(e => e.Kind != EditKind.Insert);
+        var newCount = hunk.Count(e => e.Kind != EditKind.Delete);
+
+        // Empty ranges point at the line before the change, as diff -u does
+        var oldStart = hunk[0].OldIndex + (oldCount > 0 ? 1 : 0);
+        var newStart = hunk[0].NewIndex + (newCount > 0 ? 1 : 0);
+
+        diff.AppendLine($"@@ -{oldStart},{oldCount} +{newStart},{newCount} @@");
+
+        foreach (var edit in hunk)
+        {
+            switch (edit.Kind)
+            {
+                case EditKind.Equal:
+                    diff.AppendLine($" {original[edit.OldIndex]}");
+                    break;
+                case EditKind.Delete:
+                    diff.AppendLine($"-{original[edit.OldIndex]}");
+                    break;
+                case EditKind.Insert:
+                    diff.AppendLine($"+{modified[edit.NewIndex]}");
+                    break;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Computes a shortest edit script using Myers' O((N+M)D) algorithm. Only the diagonals step
+    /// <c>d</c> can reach are kept for backtracking, so the trace takes O(D²) memory rather than O((N+M)D).
+    /// </summary>
+    private static List<Edit> ComputeEdits(IReadOnlyList<string> original, IReadOnlyList<string> modified)
+    {
+        var n = original.Count;
+        var m = modified.Count;
+        var max = n + m;
+        var offset = max + 1;
+        var v = new int[2 * max + 3];
+        var trace = new List<int[]>();
+
+        for (int d = 0; d <= max; d++)
+        {
+            // Backtracking from step d reads the diagonals -d-1 to d+1 of the previous step
+            trace.Add(v[(offset - d - 1)..(offset + d + 2)]);
+
+            for (int k = -d; k <= d; k += 2)
+            {
+                int x;
+                if (k == -d || (k != d && v[offset + k - 1] < v[offset + k + 1]))
+                    x = v[offset + k + 1];
+                else
+                    x = v[offset + k - 1] + 1;
+
+                var y = x - k;
+                while (x < n && y < m && original[x] == modified[y])
+                {
+                    x++;
+                    y++;
+                }
+
+                v[offset + k] = x;
+
+                if (x >= n && y >= m)
+                    return Backtrack(trace, n, m);
+            }
+        }
+
+        return Backtrack(trace, n, m);
+    }
+
+    private static List<Edit> Backtrack(List<int[]> trace, int n, int m)
+    {
+        var edits = new List<Edit>();
+        var x = n;
+        var y = m;
+
+        for (int d = trace.Count - 1; d >= 0; d--)
+        {
+            // Diagonal k of step d is at k + d + 1 of its window
+            var v = trace[d];
+            var offset = d + 1;
+            var k = x - y;
+
+            int previousK;
+            if (k == -d || (k != d && v[offset + k - 1] < v[offset + k + 1]))
+                previousK = k + 1;
+            else
+                previousK = k - 1;
+
+            var previousX = v[offset + previousK];
+            var previousY = previousX - previousK;
+
+            while (x > previousX && y > previousY)
+            {
+                x--;
+                y--;
+                edits.Add(new Edit(EditKind.Equal, x, y));
+            }
+
+            if (d > 0)
+            {
+                if (x == previousX)
+                    edits.Add(new Edit(EditKind.Insert, x, y - 1));
+                else
+                    edits.Add(new Edit(EditKind.Delete, x - 1, y));
+            }
+
+            x = previousX;
+            y = previousY;
+        }
+
+        edits.Reverse();
+        return edits;
+    }
+}
@@ -0,0 +1,56 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace TsCommentify.Core.Services;
+
+/// <summary>
+/// Reads the <c>&lt;script&gt;</c> and <c>&lt;script setup&gt;</c> blocks of a Vue single-file component.
+/// </summary>
+public static class VueSingleFileComponent
+{
+    private static readonly Regex ScriptBlock = new(
+        @"<script\b(?<attributes>[^>]*)>(?<content>.*?)</script\s*>",
+        RegexOptions.Singleline | RegexOptions.IgnoreCase);
+
+    private static readonly Regex LangAttribute = new(@"\blang\s*=\s*[""']?(?<lang>[\w-]+)", RegexOptions.IgnoreCase);
+
+    /// <summary>
+    /// Returns the component with everything outside its script blocks replaced by spaces, keeping the line
+    /// breaks, so every declaration keeps the offset and line it has in the <c>.vue</c> file. The extension is
+    /// the one of the script language: <c>.ts</c> for <c>lang="ts"</c>, <c>.js</c> without a <c>lang</c>.
+    /// </summary>
+    public static VueScript ExtractScript(string source)
+    {
+        var text = new StringBuilder(source.Length);
+        var extension = ".js";
+        var position = 0;
+
+        foreach (Match block in ScriptBlock.Matches(source))
+        {
+            var content = block.Groups["content"];
+            Blank(source, position, content.Index, text);
+            text.Append(content.Value);
+            position = content.Index + content.Length;
+
+            var lang = LangAttribute.Match(block.Groups["attributes"].Value);
+            if (lang.Success)
+                extension = "." + lang.Groups["lang"].Value.ToLowerInvariant();
+        }
+
+        Blank(source, position, source.Length, text);
+        return new VueScript(text.ToString(), extension);
+    }
+
+    private static void Blank(string source, int start, int end, StringBuilder text)
+    {
+        for (int i = start; i < end; i++)
+        {
+            text.Append(source[i] is '\r' or '\n' ? source[i] : ' ');
+        }
+    }
+}
+
+/// <summary>
+/// The script of a Vue component at its original positions, and the extension of its language.
+/// </summary>
+public record VueScript(string Text, string Extension);
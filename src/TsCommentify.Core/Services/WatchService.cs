@@ -0,0 +1,151 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TsCommentify.Core.Configuration;
+
+namespace TsCommentify.Core.Services;
+
+public class WatchService : IWatchService
+{
+    private readonly IFileProcessor _fileProcessor;
+    private readonly ILogger<WatchService> _logger;
+    private readonly WatchOptions _options;
+    private readonly ConcurrentDictionary<string, CancellationTokenSource> _debounces = new();
+    private readonly Dictionary<string, string> _ownWrites = new();
+
+    public WatchService(IFileProcessor fileProcessor, ILogger<WatchService> logger, IConfiguration configuration)
+    {
+        _fileProcessor = fileProcessor;
+        _logger = logger;
+        _options = configuration.GetSection(WatchOptions.SectionName).Get<WatchOptions>()
+            ?? new WatchOptions();
+    }
+
+    public async Task WatchAsync(string directoryPath, CancellationToken cancellationToken)
+    {
+        // Saved files are processed one at a time, in the order their debounce period ended
+        var queue = Channel.CreateUnbounded<string>(new UnboundedChannelOptions { SingleReader = true });
+
+        using var watcher = new FileSystemWatcher(directoryPath)
+        {
+            IncludeSubdirectories = true,
+            NotifyFilter = NotifyFilters.FileName | NotifyFilters.LastWrite | NotifyFilters.Size
+        };
+
+        watcher.Changed += (_, e) => Schedule(directoryPath, e.FullPath, queue.Writer, cancellationToken);
+        watcher.Created += (_, e) => Schedule(directoryPath, e.FullPath, queue.Writer, cancellationToken);
+        watcher.Renamed += (_, e) => Schedule(directoryPath, e.FullPath, queue.Writer, cancellationToken);
+        watcher.Error += (_, e) => _logger.LogWarning(e.GetException(), "File system watcher error; some changes may have been missed");
+        watcher.EnableRaisingEvents = true;
+
+        _logger.LogInformation("Watching {DirectoryPath} for changes. Press Ctrl+C to stop.", directoryPath);
+
+        try
+        {
+            await foreach (var filePath in queue.Reader.ReadAllAsync(cancellationToken))
+            {
+                await ProcessChangeAsync(filePath, cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("Stopped watching {DirectoryPath}", directoryPath);
+        }
+        finally
+        {
+            foreach (var debounce in _debounces.Values)
+            {
+                debounce.Cancel();
+                debounce.Dispose();
+            }
+
+            _debounces.Clear();
+        }
+    }
+
+    /// <summary>
+    /// Queues the file once it has not changed for <see cref="WatchOptions.DebounceMilliseconds"/>,
+    /// restarting the wait on every event for the same file. Runs on the watcher's thread, so failures
+    /// are logged instead of thrown.
+    /// </summary>
+    private void Schedule(string directoryPath, string filePath, ChannelWriter<string> queue, CancellationToken cancellationToken)
+    {
+        try
+        {
+            // Reads the ignore files of the directories on the way to the file
+            if (!_fileProcessor.IsSourceFile(directoryPath, filePath))
+                return;
+
+            var debounce = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+            _debounces.AddOrUpdate(filePath, debounce, (_, existing) =>
+            {
+                existing.Cancel();
+                existing.Dispose();
+                return debounce;
+            });
+
+            Task.Delay(_options.DebounceMilliseconds, debounce.Token).ContinueWith(delay =>
+            {
+                if (delay.IsCanceled)
+                    return;
+
+                // A source that was replaced meanwhile is disposed by the event that replaced it
+                if (_debounces.TryRemove(new KeyValuePair<string, CancellationTokenSource>(filePath, debounce)))
+                    debounce.Dispose();
+
+                queue.TryWrite(filePath);
+            }, TaskScheduler.Default);
+        }
+        catch (Exception ex) when (ex is IOException or UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Could not check {FilePath}: {Message}", filePath, ex.Message);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "An error occurred while scheduling {FilePath}", filePath);
+        }
+    }
+
+    private async Task ProcessChangeAsync(string filePath, CancellationToken cancellationToken)
+    {
+        if (!File.Exists(filePath))
+            return;
+
+        try
+        {
+            // Our own writes raise change events too; the content then still matches what was written
+            var content = await File.ReadAllTextAsync(filePath, cancellationToken);
+            if (_ownWrites.TryGetValue(filePath, out var written) && written == content)
+                return;
+
+            var result = await _fileProcessor.ProcessFileAsync(filePath, cancellationToken);
+
+            if (result.Modified)
+            {
+                _ownWrites[filePath] = await File.ReadAllTextAsync(filePath);
+                _logger.LogInformation("{FilePath}: added {Added} comments, updated {Updated}",
+                    filePath, result.UndocumentedDeclarations.Count, result.UpdatedDeclarations.Count);
+            }
+            else
+            {
+                _ownWrites.Remove(filePath);
+                _logger.LogInformation("{FilePath}: up to date", filePath);
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Stopping the watch abandons the file, like the wait for the next one
+            throw;
+        }
+        catch (IOException ex)
+        {
+            // Usually the editor still holds the file; the next save triggers another run
+            _logger.LogWarning("Could not process {FilePath}: {Message}", filePath, ex.Message);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "An error occurred while processing {FilePath}", filePath);
+        }
+    }
+}
@@ -0,0 +1,1065 @@
+import { Component, OnInit, OnDestroy, Input, Output, EventEmitter, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { Subject, BehaviorSubject, Observable, combineLatest, timer, Subscription } from 'rxjs';
+import { takeUntil, debounceTime, distinctUntilChanged, switchMap, map, filter, catchError } from 'rxjs/operators';
+import { UserService } from '../services/user.service';
+import { NotificationService } from '../services/notification.service';
+import { AnalyticsService } from '../services/analytics.service';
+import { User, UserPreferences, DashboardMetrics, ActivityLog, NotificationType } from '../models';
+
+/**
+ * Dashboard State.
+ */
+interface DashboardState {
+  /** The is loading. */
+  isLoading: boolean;
+  /** The has error. */
+  hasError: boolean;
+  /** The error message. */
+  errorMessage: string | null;
+  /** The last updated. */
+  lastUpdated: Date | null;
+}
+
+/**
+ * View Mode.
+ */
+type ViewMode = 'grid' | 'list' | 'compact';
+/**
+ * Sort Direction.
+ */
+type SortDirection = 'asc' | 'desc';
+
+/**
+ * User Dashboard Component.
+ *
+ * @remarks
+ * Implements {@link OnInit} and {@link OnDestroy}.
+ */
+@Component({
+  selector: 'app-user-dashboard',
+  templateUrl: './user-dashboard.component.html',
+  styleUrls: ['./user-dashboard.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserDashboardComponent implements OnInit, OnDestroy {
+  /** The user id. */
+  @Input() userId: string = '';
+  /** The enable real time updates. */
+  @Input() enableRealTimeUpdates: boolean = true;
+  /** The refresh interval. */
+  @Input() refreshInterval: number = 30000;
+  /** The max activity items. */
+  @Input() maxActivityItems: number = 50;
+
+  /** The user updated. */
+  @Output() userUpdated = new EventEmitter<User>();
+  /** The preferences changed. */
+  @Output() preferencesChanged = new EventEmitter<UserPreferences>();
+  /** The error occurred. */
+  @Output() errorOccurred = new EventEmitter<Error>();
+  /** The dashboard closed. */
+  @Output() dashboardClosed = new EventEmitter<void>();
+
+  /** The destroy$. */
+  private destroy$ = new Subject<void>();
+  /** The search subject$. */
+  private searchSubject$ = new BehaviorSubject<string>('');
+  /** The metrics cache. */
+  private metricsCache = new Map<string, DashboardMetrics>();
+  /** The refresh subscription. */
+  private refreshSubscription: Subscription | null = null;
+  /** The websocket connection. */
+  private websocketConnection: WebSocket | null = null;
+
+  /** The current user. */
+  currentUser: User | null = null;
+  /** The user preferences. */
+  userPreferences: UserPreferences | null = null;
+  /** The dashboard metrics. */
+  dashboardMetrics: DashboardMetrics | null = null;
+  /** The activity logs. */
+  activityLogs: ActivityLog[] = [];
+  /** The filtered activity logs. */
+  filteredActivityLogs: ActivityLog[] = [];
+
+  /** The dashboard state. */
+  dashboardState: DashboardState = {
+    isLoading: false,
+    hasError: false,
+    errorMessage: null,
+    lastUpdated: null
+  };
+
+  /** The view mode. */
+  viewMode: ViewMode = 'grid';
+  /** The sort direction. */
+  sortDirection: SortDirection = 'desc';
+  /** The current page. */
+  currentPage: number = 1;
+  /** The page size. */
+  pageSize: number = 10;
+  /** The total pages. */
+  totalPages: number = 1;
+  /** The search query. */
+  searchQuery: string = '';
+  /** The selected categories. */
+  selectedCategories: string[] = [];
+  /** The is expanded. */
+  isExpanded: boolean = false;
+  /** The is dark mode. */
+  isDarkMode: boolean = false;
+  /** The notification count. */
+  notificationCount: number = 0;
+
+  /** The available categories. */
+  readonly availableCategories = ['login', 'logout', 'settings', 'profile', 'security', 'billing'];
+  /** The page size options. */
+  readonly pageSizeOptions = [5, 10, 25, 50, 100];
+
+  /**
+   * Constructor.
+   *
+   * @param userService - The user service
+   * @param notificationService - The notification service
+   * @param analyticsService - The analytics service
+   * @param changeDetectorRef - The change detector ref
+   */
+  constructor(
+    private userService: UserService,
+    private notificationService: NotificationService,
+    private analyticsService: AnalyticsService,
+    private changeDetectorRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Ng On Init.
+   *
+   * @returns No return value
+   */
+  ngOnInit(): void {
+    this.initializeDashboard();
+    this.setupSearchSubscription();
+    this.loadUserData();
+    if (this.enableRealTimeUpdates) {
+      this.startRealTimeUpdates();
+    }
+    this.trackPageView();
+  }
+
+  /**
+   * Ng On Destroy.
+   *
+   * @returns No return value
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.stopRealTimeUpdates();
+    this.closeWebSocketConnection();
+    this.metricsCache.clear();
+  }
+
+  /**
+   * Initialize Dashboard.
+   *
+   * @returns No return value
+   */
+  private initializeDashboard(): void {
+    this.dashboardState = {
+      isLoading: true,
+      hasError: false,
+      errorMessage: null,
+      lastUpdated: null
+    };
+    this.loadUserPreferences();
+  }
+
+  /**
+   * Setup Search Subscription.
+   *
+   * @returns No return value
+   */
+  private setupSearchSubscription(): void {
+    this.searchSubject$.pipe(
+      debounceTime(300),
+      distinctUntilChanged(),
+      takeUntil(this.destroy$)
+    ).subscribe(query => {
+      this.filterActivityLogs(query);
+      this.changeDetectorRef.markForCheck();
+    });
+  }
+
+  /**
+   * Loads the user data.
+   *
+   * @remarks
+   * This method is asynchronous.
+   *
+   * @returns A promise that resolves when the operation is complete
+   */
+  async loadUserData(): Promise<void> {
+    if (!this.userId) {
+      this.handleError(new Error('User ID is required'));
+      return;
+    }
+
+    this.dashboardState.isLoading = true;
+    this.changeDetectorRef.markForCheck();
+
+    try {
+      const [user, metrics, activities] = await Promise.all([
+        this.userService.getUserById(this.userId).toPromise(),
+        this.userService.getUserMetrics(this.userId).toPromise(),
+        this.userService.getUserActivityLogs(this.userId, this.maxActivityItems).toPromise()
+      ]);
+
+      this.currentUser = user ?? null;
+      this.dashboardMetrics = metrics ?? null;
+      this.activityLogs = activities ?? [];
+      this.filteredActivityLogs = [...this.activityLogs];
+      this.calculateTotalPages();
+
+      if (metrics) {
+        this.metricsCache.set(this.userId, metrics);
+      }
+
+      this.dashboardState = {
+        isLoading: false,
+        hasError: false,
+        errorMessage: null,
+        lastUpdated: new Date()
+      };
+
+      this.userUpdated.emit(this.currentUser!);
+    } catch (error) {
+      this.handleError(error as Error);
+    }
+
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Loads the user preferences.
+   *
+   * @returns No return value
+   */
+  private loadUserPreferences(): void {
+    const storedPreferences = localStorage.getItem(`user_prefs_${this.userId}`);
+    if (storedPreferences) {
+      try {
+        this.userPreferences = JSON.parse(storedPreferences);
+        this.applyPreferences();
+      } catch (e) {
+        this.userPreferences = this.getDefaultPreferences();
+      }
+    } else {
+      this.userPreferences = this.getDefaultPreferences();
+    }
+  }
+
+  /**
+   * Gets the default preferences.
+   *
+   * @returns The user preferences
+   */
+  private getDefaultPreferences(): UserPreferences {
+    return {
+      theme: 'light',
+      language: 'en',
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      notifications: {
+        email: true,
+        push: true,
+        sms: false
+      },
+      displayDensity: 'comfortable'
+    };
+  }
+
+  /**
+   * Apply Preferences.
+   *
+   * @returns No return value
+   */
+  private applyPreferences(): void {
+    if (!this.userPreferences) return;
+
+    this.isDarkMode = this.userPreferences.theme === 'dark';
+    switch (this.userPreferences.displayDensity) {
+      case 'compact':
+        this.pageSize = 25;
+        break;
+      case 'comfortable':
+        this.pageSize = 10;
+        break;
+      case 'spacious':
+        this.pageSize = 5;
+        break;
+      default:
+        this.pageSize = 10;
+    }
+  }
+
+  /**
+   * Save User Preferences.
+   *
+   * @param preferences - The preferences
+   *
+   * @returns No return value
+   */
+  saveUserPreferences(preferences: Partial<UserPreferences>): void {
+    if (!this.userPreferences) return;
+
+    this.userPreferences = { ...this.userPreferences, ...preferences };
+    localStorage.setItem(`user_prefs_${this.userId}`, JSON.stringify(this.userPreferences));
+    this.applyPreferences();
+    this.preferencesChanged.emit(this.userPreferences);
+    this.notificationService.showSuccess('Preferences saved successfully');
+  }
+
+  /**
+   * Start Real Time Updates.
+   *
+   * @returns No return value
+   */
+  private startRealTimeUpdates(): void {
+    this.refreshSubscription = timer(this.refreshInterval, this.refreshInterval)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshDashboardData());
+
+    this.initializeWebSocket();
+  }
+
+  /**
+   * Stop Real Time Updates.
+   *
+   * @returns No return value
+   */
+  private stopRealTimeUpdates(): void {
+    if (this.refreshSubscription) {
+      this.refreshSubscription.unsubscribe();
+      this.refreshSubscription = null;
+    }
+  }
+
+  /**
+   * Initialize Web Socket.
+   *
+   * @returns No return value
+   */
+  private initializeWebSocket(): void {
+    if (this.websocketConnection) {
+      this.closeWebSocketConnection();
+    }
+
+    const wsUrl = `wss://api.example.com/ws/user/${this.userId}`;
+    this.websocketConnection = new WebSocket(wsUrl);
+
+    this.websocketConnection.onmessage = (event) => {
+      this.handleWebSocketMessage(event.data);
+    };
+
+    this.websocketConnection.onerror = (error) => {
+      console.error('WebSocket error:', error);
+      this.scheduleReconnect();
+    };
+
+    this.websocketConnection.onclose = () => {
+      if (!this.destroy$.closed) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  /**
+   * Handles the web socket message.
+   *
+   * @param data - The data
+   *
+   * @returns No return value
+   */
+  private handleWebSocketMessage(data: string): void {
+    try {
+      const message = JSON.parse(data);
+      switch (message.type) {
+        case 'METRICS_UPDATE':
+          this.updateMetrics(message.payload);
+          break;
+        case 'NEW_ACTIVITY':
+          this.addActivityLog(message.payload);
+          break;
+        case 'NOTIFICATION':
+          this.handleNotification(message.payload);
+          break;
+        case 'USER_UPDATE':
+          this.updateUserData(message.payload);
+          break;
+        default:
+          console.warn('Unknown message type:', message.type);
+      }
+    } catch (e) {
+      console.error('Failed to parse WebSocket message:', e);
+    }
+  }
+
+  /**
+   * Schedule Reconnect.
+   *
+   * @returns No return value
+   */
+  private scheduleReconnect(): void {
+    setTimeout(() => {
+      if (!this.destroy$.closed && this.enableRealTimeUpdates) {
+        this.initializeWebSocket();
+      }
+    }, 5000);
+  }
+
+  /**
+   * Close Web Socket Connection.
+   *
+   * @returns No return value
+   */
+  private closeWebSocketConnection(): void {
+    if (this.websocketConnection) {
+      this.websocketConnection.close();
+      this.websocketConnection = null;
+    }
+  }
+
+  /**
+   * Update Metrics.
+   *
+   * @param metrics - The metrics
+   *
+   * @returns No return value
+   */
+  private updateMetrics(metrics: Partial<DashboardMetrics>): void {
+    if (this.dashboardMetrics) {
+      this.dashboardMetrics = { ...this.dashboardMetrics, ...metrics };
+      this.metricsCache.set(this.userId, this.dashboardMetrics);
+      this.changeDetectorRef.markForCheck();
+    }
+  }
+
+  /**
+   * Add Activity Log.
+   *
+   * @param activity - The activity
+   *
+   * @returns No return value
+   */
+  private addActivityLog(activity: ActivityLog): void {
+    this.activityLogs = [activity, ...this.activityLogs].slice(0, this.maxActivityItems);
+    this.filterActivityLogs(this.searchQuery);
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Handles the notification.
+   *
+   * @param notification - The notification
+   *
+   * @returns No return value
+   */
+  private handleNotification(notification: { type: NotificationType; message: string }): void {
+    this.notificationCount++;
+    switch (notification.type) {
+      case 'success':
+        this.notificationService.showSuccess(notification.message);
+        break;
+      case 'warning':
+        this.notificationService.showWarning(notification.message);
+        break;
+      case 'error':
+        this.notificationService.showError(notification.message);
+        break;
+      case 'info':
+      default:
+        this.notificationService.showInfo(notification.message);
+    }
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Update User Data.
+   *
+   * @param userData - The user data
+   *
+   * @returns No return value
+   */
+  private updateUserData(userData: Partial<User>): void {
+    if (this.currentUser) {
+      this.currentUser = { ...this.currentUser, ...userData };
+      this.userUpdated.emit(this.currentUser);
+      this.changeDetectorRef.markForCheck();
+    }
+  }
+
+  /**
+   * Refresh Dashboard Data.
+   *
+   * @remarks
+   * This method is asynchronous.
+   *
+   * @returns A promise that resolves when the operation is complete
+   */
+  async refreshDashboardData(): Promise<void> {
+    if (this.dashboardState.isLoading) return;
+
+    try {
+      const cachedMetrics = this.metricsCache.get(this.userId);
+      if (cachedMetrics && this.isCacheValid(cachedMetrics)) {
+        this.dashboardMetrics = cachedMetrics;
+      } else {
+        await this.loadUserData();
+      }
+    } catch (error) {
+      console.error('Failed to refresh dashboard:', error);
+    }
+  }
+
+  /**
+   * Checks whether it is cache valid.
+   *
+   * @param metrics - The metrics
+   *
+   * @returns True if it is cache valid, false otherwise
+   */
+  private isCacheValid(metrics: DashboardMetrics): boolean {
+    if (!metrics.timestamp) return false;
+    const cacheAge = Date.now() - new Date(metrics.timestamp).getTime();
+    return cacheAge < this.refreshInterval;
+  }
+
+  /**
+   * Filter Activity Logs.
+   *
+   * @param query - The query
+   *
+   * @returns No return value
+   */
+  filterActivityLogs(query: string): void {
+    this.searchQuery = query;
+    if (!query.trim()) {
+      this.filteredActivityLogs = this.applyFiltersAndSort(this.activityLogs);
+    } else {
+      const lowerQuery = query.toLowerCase();
+      this.filteredActivityLogs = this.applyFiltersAndSort(
+        this.activityLogs.filter(log =>
+          log.action.toLowerCase().includes(lowerQuery) ||
+          log.description.toLowerCase().includes(lowerQuery) ||
+          log.category.toLowerCase().includes(lowerQuery)
+        )
+      );
+    }
+    this.calculateTotalPages();
+    this.currentPage = 1;
+  }
+
+  /**
+   * Apply Filters And Sort.
+   *
+   * @param logs - The logs
+   *
+   * @returns The list of activity logs
+   */
+  private applyFiltersAndSort(logs: ActivityLog[]): ActivityLog[] {
+    let result = [...logs];
+
+    if (this.selectedCategories.length > 0) {
+      result = result.filter(log => this.selectedCategories.includes(log.category));
+    }
+
+    result.sort((a, b) => {
+      const dateA = new Date(a.timestamp).getTime();
+      const dateB = new Date(b.timestamp).getTime();
+      return this.sortDirection === 'desc' ? dateB - dateA : dateA - dateB;
+    });
+
+    return result;
+  }
+
+  /**
+   * Handles the search change event.
+   *
+   * @param query - The query
+   *
+   * @returns No return value
+   */
+  onSearchChange(query: string): void {
+    this.searchSubject$.next(query);
+  }
+
+  /**
+   * Toggle Category.
+   *
+   * @param category - The category
+   *
+   * @returns No return value
+   */
+  toggleCategory(category: string): void {
+    const index = this.selectedCategories.indexOf(category);
+    if (index === -1) {
+      this.selectedCategories = [...this.selectedCategories, category];
+    } else {
+      this.selectedCategories = this.selectedCategories.filter(c => c !== category);
+    }
+    this.filterActivityLogs(this.searchQuery);
+    this.trackFilterChange('category', category);
+  }
+
+  /**
+   * Clear Category Filters.
+   *
+   * @returns No return value
+   */
+  clearCategoryFilters(): void {
+    this.selectedCategories = [];
+    this.filterActivityLogs(this.searchQuery);
+  }
+
+  /**
+   * Toggle Sort Direction.
+   *
+   * @returns No return value
+   */
+  toggleSortDirection(): void {
+    this.sortDirection = this.sortDirection === 'desc' ? 'asc' : 'desc';
+    this.filterActivityLogs(this.searchQuery);
+    this.trackFilterChange('sort', this.sortDirection);
+  }
+
+  /**
+   * Sets the view mode.
+   *
+   * @param mode - The mode
+   *
+   * @returns No return value
+   */
+  setViewMode(mode: ViewMode): void {
+    this.viewMode = mode;
+    this.analyticsService.trackEvent('dashboard_view_mode_changed', { mode });
+  }
+
+  /**
+   * Calculate Total Pages.
+   *
+   * @returns No return value
+   */
+  private calculateTotalPages(): void {
+    this.totalPages = Math.ceil(this.filteredActivityLogs.length / this.pageSize);
+  }
+
+  /**
+   * Go To Page.
+   *
+   * @param page - The page
+   *
+   * @returns No return value
+   */
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.changeDetectorRef.markForCheck();
+    }
+  }
+
+  /**
+   * Next Page.
+   *
+   * @returns No return value
+   */
+  nextPage(): void {
+    this.goToPage(this.currentPage + 1);
+  }
+
+  /**
+   * Previous Page.
+   *
+   * @returns No return value
+   */
+  previousPage(): void {
+    this.goToPage(this.currentPage - 1);
+  }
+
+  /**
+   * Sets the page size.
+   *
+   * @param size - The size
+   *
+   * @returns No return value
+   */
+  setPageSize(size: number): void {
+    this.pageSize = size;
+    this.calculateTotalPages();
+    this.currentPage = 1;
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Gets the paginated activity logs.
+   *
+   * @returns The list of activity logs
+   */
+  get paginatedActivityLogs(): ActivityLog[] {
+    const start = (this.currentPage - 1) * this.pageSize;
+    return this.filteredActivityLogs.slice(start, start + this.pageSize);
+  }
+
+  /**
+   * Gets the has next page.
+   *
+   * @returns True if successful, false otherwise
+   */
+  get hasNextPage(): boolean {
+    return this.currentPage < this.totalPages;
+  }
+
+  /**
+   * Gets the has previous page.
+   *
+   * @returns True if successful, false otherwise
+   */
+  get hasPreviousPage(): boolean {
+    return this.currentPage > 1;
+  }
+
+  /**
+   * Gets the is loading or error.
+   *
+   * @returns True if successful, false otherwise
+   */
+  get isLoadingOrError(): boolean {
+    return this.dashboardState.isLoading || this.dashboardState.hasError;
+  }
+
+  /**
+   * Gets the formatted last updated.
+   *
+   * @returns The formatted last updated
+   */
+  get formattedLastUpdated(): string {
+    if (!this.dashboardState.lastUpdated) return 'Never';
+    return new Intl.DateTimeFormat('en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(this.dashboardState.lastUpdated);
+  }
+
+  /**
+   * Toggle Expanded.
+   *
+   * @returns No return value
+   */
+  toggleExpanded(): void {
+    this.isExpanded = !this.isExpanded;
+    this.analyticsService.trackEvent('dashboard_expanded_toggled', { isExpanded: this.isExpanded });
+  }
+
+  /**
+   * Export Activity Logs.
+   *
+   * @remarks
+   * This method is asynchronous.
+   *
+   * @param format - The format
+   *
+   * @returns A promise that resolves when the operation is complete
+   *
+   * @throws {@link Error}
+   */
+  async exportActivityLogs(format: 'csv' | 'json' | 'pdf'): Promise<void> {
+    this.dashboardState.isLoading = true;
+    this.changeDetectorRef.markForCheck();
+
+    try {
+      let exportData: Blob;
+      let fileName: string;
+
+      switch (format) {
+        case 'csv':
+          exportData = this.generateCsvExport();
+          fileName = `activity_logs_${this.userId}_${Date.now()}.csv`;
+          break;
+        case 'json':
+          exportData = this.generateJsonExport();
+          fileName = `activity_logs_${this.userId}_${Date.now()}.json`;
+          break;
+        case 'pdf':
+          exportData = await this.generatePdfExport();
+          fileName = `activity_logs_${this.userId}_${Date.now()}.pdf`;
+          break;
+        default:
+          throw new Error('Unsupported export format');
+      }
+
+      this.downloadFile(exportData, fileName);
+      this.notificationService.showSuccess(`Activity logs exported as ${format.toUpperCase()}`);
+      this.analyticsService.trackEvent('activity_logs_exported', { format, count: this.filteredActivityLogs.length });
+    } catch (error) {
+      this.handleError(error as Error);
+    } finally {
+      this.dashboardState.isLoading = false;
+      this.changeDetectorRef.markForCheck();
+    }
+  }
+
+  /**
+   * Generate Csv Export.
+   *
+   * @returns The blob
+   */
+  private generateCsvExport(): Blob {
+    const headers = ['Timestamp', 'Action', 'Category', 'Description', 'IP Address'];
+    const rows = this.filteredActivityLogs.map(log => [
+      new Date(log.timestamp).toISOString(),
+      log.action,
+      log.category,
+      `"${log.description.replace(/"/g, '""')}"`,
+      log.ipAddress || 'N/A'
+    ]);
+
+    const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+    return new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  }
+
+  /**
+   * Generate Json Export.
+   *
+   * @returns The blob
+   */
+  private generateJsonExport(): Blob {
+    const exportData = {
+      exportedAt: new Date().toISOString(),
+      userId: this.userId,
+      totalRecords: this.filteredActivityLogs.length,
+      filters: {
+        searchQuery: this.searchQuery,
+        categories: this.selectedCategories,
+        sortDirection: this.sortDirection
+      },
+      data: this.filteredActivityLogs
+    };
+    return new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  }
+
+  /**
+   * Generate Pdf Export.
+   *
+   * @remarks
+   * This method is asynchronous.
+   *
+   * @returns A promise resolving to the blob
+   */
+  private async generatePdfExport(): Promise<Blob> {
+    const response = await this.userService.generateActivityLogsPdf(this.userId, this.filteredActivityLogs).toPromise();
+    return response ?? new Blob();
+  }
+
+  /**
+   * Download File.
+   *
+   * @param blob - The blob
+   * @param fileName - The file name
+   *
+   * @returns No return value
+   */
+  private downloadFile(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Handles the error.
+   *
+   * @param error - The error
+   *
+   * @returns No return value
+   */
+  private handleError(error: Error): void {
+    console.error('Dashboard error:', error);
+    this.dashboardState = {
+      isLoading: false,
+      hasError: true,
+      errorMessage: error.message || 'An unexpected error occurred',
+      lastUpdated: this.dashboardState.lastUpdated
+    };
+    this.errorOccurred.emit(error);
+    this.notificationService.showError(error.message);
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Retry Load Data.
+   *
+   * @returns No return value
+   */
+  retryLoadData(): void {
+    this.dashboardState.hasError = false;
+    this.dashboardState.errorMessage = null;
+    this.loadUserData();
+  }
+
+  /**
+   * Track Page View.
+   *
+   * @returns No return value
+   */
+  private trackPageView(): void {
+    this.analyticsService.trackPageView('user_dashboard', {
+      userId: this.userId,
+      enableRealTimeUpdates: this.enableRealTimeUpdates
+    });
+  }
+
+  /**
+   * Track Filter Change.
+   *
+   * @param filterType - The filter type
+   * @param value - The value
+   *
+   * @returns No return value
+   */
+  private trackFilterChange(filterType: string, value: string): void {
+    this.analyticsService.trackEvent('dashboard_filter_changed', {
+      filterType,
+      value,
+      userId: this.userId
+    });
+  }
+
+  /**
+   * Close Dashboard.
+   *
+   * @returns No return value
+   */
+  closeDashboard(): void {
+    this.dashboardClosed.emit();
+    this.ngOnDestroy();
+  }
+
+  /**
+   * Format Metric Value.
+   *
+   * @param value - The value
+   * @param type - The type
+   *
+   * @returns The resulting string
+   */
+  formatMetricValue(value: number, type: 'currency' | 'percentage' | 'number'): string {
+    switch (type) {
+      case 'currency':
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+      case 'percentage':
+        return `${(value * 100).toFixed(1)}%`;
+      case 'number':
+      default:
+        return new Intl.NumberFormat('en-US').format(value);
+    }
+  }
+
+  /**
+   * Gets the activity icon.
+   *
+   * @param category - The category
+   *
+   * @returns The activity icon
+   */
+  getActivityIcon(category: string): string {
+    const iconMap: Record<string, string> = {
+      login: 'login',
+      logout: 'logout',
+      settings: 'settings',
+      profile: 'person',
+      security: 'security',
+      billing: 'credit_card'
+    };
+    return iconMap[category] || 'info';
+  }
+
+  /**
+   * Gets the activity color class.
+   *
+   * @param category - The category
+   *
+   * @returns The activity color class
+   */
+  getActivityColorClass(category: string): string {
+    const colorMap: Record<string, string> = {
+      login: 'text-green-500',
+      logout: 'text-gray-500',
+      settings: 'text-blue-500',
+      profile: 'text-purple-500',
+      security: 'text-red-500',
+      billing: 'text-yellow-500'
+    };
+    return colorMap[category] || 'text-gray-400';
+  }
+
+  /**
+   * Calculate Metric Trend.
+   *
+   * @param current - The current
+   * @param previous - The previous
+   *
+   * @returns The result of the operation
+   */
+  calculateMetricTrend(current: number, previous: number): { value: number; direction: 'up' | 'down' | 'neutral' } {
+    if (previous === 0) {
+      return { value: 0, direction: 'neutral' };
+    }
+    const percentChange = ((current - previous) / previous) * 100;
+    if (Math.abs(percentChange) < 0.1) {
+      return { value: 0, direction: 'neutral' };
+    }
+    return {
+      value: Math.abs(percentChange),
+      direction: percentChange > 0 ? 'up' : 'down'
+    };
+  }
+
+  /**
+   * Checks whether it is activity recent.
+   *
+   * @param timestamp - The timestamp
+   *
+   * @returns True if it is activity recent, false otherwise
+   */
+  isActivityRecent(timestamp: string | Date): boolean {
+    const activityTime = new Date(timestamp).getTime();
+    const oneHourAgo = Date.now() - 60 * 60 * 1000;
+    return activityTime > oneHourAgo;
+  }
+
+  /**
+   * Format Relative Time.
+   *
+   * @param timestamp - The timestamp
+   *
+   * @returns The resulting string
+   */
+  formatRelativeTime(timestamp: string | Date): string {
+    const date = new Date(timestamp);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffSec = Math.floor(diffMs / 1000);
+    const diffMin = Math.floor(diffSec / 60);
+    const diffHour = Math.floor(diffMin / 60);
+    const diffDay = Math.floor(diffHour / 24);
+
+    if (diffSec < 60) return 'Just now';
+    if (diffMin < 60) return `${diffMin}m ago`;
+    if (diffHour < 24) return `${diffHour}h ago`;
+    if (diffDay < 7) return `${diffDay}d ago`;
+
+    return date.toLocaleDateString();
+  }
+}
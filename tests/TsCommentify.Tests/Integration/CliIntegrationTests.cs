@@ -70,6 +70,27 @@ public class CliIntegrationTests : IDisposable
         result2.Should().Contain("/**");
     }
 
+    [Fact]
+    public async Task Cli_WithParallelism_ProcessesAllFiles()
+    {
+        // Arrange
+        var files = Enumerable.Range(1, 6).Select(i => Path.Combine(_testDirectory, $"file{i}.ts")).ToList();
+        foreach (var file in files)
+        {
+            await File.WriteAllTextAsync(file, $"function test{files.IndexOf(file)}() {{}}");
+        }
+
+        // Act
+        var exitCode = await RunCliAsync(_testDirectory, "--parallelism", "3");
+
+        // Assert
+        exitCode.Should().Be(0);
+        foreach (var file in files)
+        {
+            (await File.ReadAllTextAsync(file)).Should().StartWith("/**");
+        }
+    }
+
     [Fact]
     public async Task Cli_WithNonExistentPath_ReturnsError()
     {
@@ -83,12 +104,125 @@ public class CliIntegrationTests : IDisposable
         exitCode.Should().Be(1);
     }
 
-    private async Task<int> RunCliAsync(string path)
+    [Fact]
+    public async Task Cli_WithCheckAndUndocumentedFunction_ReturnsErrorWithoutModifyingFile()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "function add(a: number, b: number): number {\n  return a + b;\n}";
+        await File.WriteAllTextAsync(filePath, content);
+
+        // Act
+        var exitCode = await RunCliAsync(filePath, "--check");
+
+        // Assert
+        exitCode.Should().Be(1);
+        var result = await File.ReadAllTextAsync(filePath);
+        result.Should().Be(content);
+    }
+
+    [Fact]
+    public async Task Cli_WithCheckAndDocumentedFunctions_ReturnsSuccess()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "/**\n * Adds two numbers.\n */\nfunction add(a: number, b: number): number {\n  return a + b;\n}";
+        await File.WriteAllTextAsync(filePath, content);
+
+        // Act
+        var exitCode = await RunCliAsync(filePath, "--check");
+
+        // Assert
+        exitCode.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task Cli_WithDryRun_ReturnsSuccessWithoutModifyingFile()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "function test1() {}";
+        await File.WriteAllTextAsync(filePath, content);
+
+        // Act
+        var exitCode = await RunCliAsync(filePath, "--dry-run");
+
+        // Assert
+        exitCode.Should().Be(0);
+        var result = await File.ReadAllTextAsync(filePath);
+        result.Should().Be(content);
+    }
+
+    [Fact]
+    public async Task Cli_WithUpdate_FixesStaleParamTags()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "/**\n * Adds two numbers.\n *\n * @param {number} a - First operand\n * @param {number} c - Removed operand\n */\nfunction add(a: string, b: string): string {\n  return a + b;\n}";
+        await File.WriteAllTextAsync(filePath, content);
+
+        // Act
+        var exitCode = await RunCliAsync(filePath, "--update");
+
+        // Assert
+        exitCode.Should().Be(0);
+        var result = await File.ReadAllTextAsync(filePath);
+        result.Should().Contain("@param {string} a - First operand");
+        result.Should().Contain("@param {string} b - The b");
+        result.Should().Contain("@returns {string}");
+        result.Should().NotContain("Removed operand");
+    }
+
+    [Fact]
+    public async Task Cli_Report_WritesJsonWithoutModifyingFiles()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "/** Adds. */\nfunction add(a: number, b: number): number {\n  return a + b;\n}\nfunction noop() {}";
+        var reportPath = Path.Combine(_testDirectory, "coverage.json");
+        await File.WriteAllTextAsync(filePath, content);
+
+        // Act
+        var exitCode = await RunReportAsync(_testDirectory, "--output", $"\"{reportPath}\"");
+
+        // Assert
+        exitCode.Should().Be(0);
+        (await File.ReadAllTextAsync(filePath)).Should().Be(content);
+        var report = await File.ReadAllTextAsync(reportPath);
+        report.Should().Contain("\"coverage\": 50");
+        report.Should().Contain("\"name\": \"noop\"");
+    }
+
+    [Fact]
+    public async Task Cli_Report_WithCoverageBelowMinimum_ReturnsError()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        await File.WriteAllTextAsync(filePath, "function noop() {}");
+
+        // Act
+        var exitCode = await RunReportAsync(filePath, "--format", "markdown", "--min-coverage", "80");
+
+        // Assert
+        exitCode.Should().Be(1);
+    }
+
+    private Task<int> RunCliAsync(string path, params string[] options)
+    {
+        return RunAsync($"\"{path}\" {string.Join(" ", options)}");
+    }
+
+    private Task<int> RunReportAsync(string path, params string[] options)
+    {
+        return RunAsync($"report \"{path}\" {string.Join(" ", options)}");
+    }
+
+    private async Task<int> RunAsync(string arguments)
     {
         var processStartInfo = new ProcessStartInfo
         {
             FileName = "dotnet",
-            Arguments = $"\"{_cliPath}\" \"{path}\"",
+            Arguments = $"\"{_cliPath}\" {arguments}",
             RedirectStandardOutput = true,
             RedirectStandardError = true,
             UseShellExecute = false,
@@ -97,8 +231,13 @@ public class CliIntegrationTests : IDisposable
 
         using var process = new Process { StartInfo = processStartInfo };
         process.Start();
+
+        // Drain the output so a large diff cannot fill the pipe and block the CLI
+        var outputTask = process.StandardOutput.ReadToEndAsync();
+        var errorTask = process.StandardError.ReadToEndAsync();
         
         await process.WaitForExitAsync();
+        await Task.WhenAll(outputTask, errorTask);
         
         return process.ExitCode;
     }
@@ -0,0 +1,156 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class ClosureTypesTests
+{
+    private static readonly List<string> TypeParameters = new() { "T" };
+
+    [Fact]
+    public void Format_WithTypeScriptTypes_ReturnsClosureTypeExpressions()
+    {
+        // Act
+        var types = new[]
+        {
+            "string",
+            "any",
+            "unknown",
+            "User",
+            "T",
+            "User | null",
+            "string | Date",
+            "'grid' | 'list'",
+            "readonly number[]",
+            "Map<string, User[]>",
+            "Record<string, number>",
+            "Partial<Settings>",
+            "(event: Event, force?: boolean) => void",
+            "{ value: number; label?: string }",
+            "{ [key: string]: T }",
+            "[string, number]",
+            "A & B",
+            "T extends string ? T : never"
+        }.Select(t => ClosureTypes.Format(t, TypeParameters)).ToList();
+
+        // Assert
+        types.Should().Equal(
+            "string",
+            "*",
+            "?",
+            "!User",
+            "T",
+            "?User",
+            "(string|!Date)",
+            "string",
+            "!Array<number>",
+            "!Map<string, !Array<!User>>",
+            "!Object<string, number>",
+            "!Settings",
+            "function(!Event, boolean=): void",
+            "{value: number, label: (string|undefined)}",
+            "!Object<string, T>",
+            "!Array",
+            "!Object",
+            "?");
+    }
+
+    [Fact]
+    public void FormatOptional_WithFunctionType_ParenthesizesTheType()
+    {
+        // Act
+        var optional = ClosureTypes.FormatOptional("number | null", TypeParameters);
+        var callback = ClosureTypes.FormatOptional("() => T", TypeParameters);
+
+        // Assert
+        optional.Should().Be("?number=");
+        callback.Should().Be("(function(): T)=");
+    }
+
+    [Fact]
+    public void FormatOptional_WithDifferentTypes_AppendsTheOptionalMarker()
+    {
+        // Act
+        var types = new[] { "string", "User", "T", "Array<T>", "{ id: string }" }
+            .Select(t => ClosureTypes.FormatOptional(t, TypeParameters))
+            .ToList();
+
+        // Assert
+        types.Should().Equal("string=", "!User=", "T=", "!Array<T>=", "{id: string}=");
+    }
+
+    [Fact]
+    public void Format_WithRestParameters_WritesVariadicElementTypes()
+    {
+        // Act
+        var types = new[]
+        {
+            "(...items: string[]) => void",
+            "(first: T, ...rest: Array<User>) => number",
+            "(...args) => void",
+            "(...values: Set<T>) => void"
+        }.Select(t => ClosureTypes.Format(t, TypeParameters)).ToList();
+
+        // Assert
+        types.Should().Equal(
+            "function(...string): void",
+            "function(T, ...!User): number",
+            "function(...*): void",
+            "function(...*): void");
+    }
+
+    [Fact]
+    public void Format_WithNullableUnions_MarksOnlySingleTypesAsNullable()
+    {
+        // Act
+        var types = new[]
+        {
+            "string | null",
+            "null | User",
+            "T | null",
+            "User | undefined",
+            "string | number | null",
+            "any | null",
+            "NonNullable<string | null>"
+        }.Select(t => ClosureTypes.Format(t, TypeParameters)).ToList();
+
+        // Assert
+        types.Should().Equal(
+            "?string",
+            "?User",
+            "?T",
+            "(!User|undefined)",
+            "(string|number|null)",
+            "*",
+            "string");
+    }
+
+    [Fact]
+    public void Format_WithGenericTypes_FormatsTheTypeArguments()
+    {
+        // Arrange
+        var typeParameters = new List<string> { "K", "V" };
+
+        // Act
+        var types = new[]
+        {
+            "Promise<User>",
+            "Map<K, V>",
+            "ReadonlyArray<V>",
+            "Set<K[]>",
+            "Promise<Map<string, V | null>>",
+            "Required<K>",
+            "Pick<User, 'id'>"
+        }.Select(t => ClosureTypes.Format(t, typeParameters)).ToList();
+
+        // Assert
+        types.Should().Equal(
+            "!Promise<!User>",
+            "!Map<K, V>",
+            "!Array<V>",
+            "!Set<!Array<K>>",
+            "!Promise<!Map<string, ?V>>",
+            "K",
+            "!Object");
+    }
+}
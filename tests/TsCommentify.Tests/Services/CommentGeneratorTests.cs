@@ -1,7 +1,8 @@
 using FluentAssertions;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using Moq;
-using TsCommentify.Cli.Services;
+using TsCommentify.Core.Services;
 
 namespace TsCommentify.Tests.Services;
 
@@ -13,11 +14,11 @@ public class CommentGeneratorTests
     public CommentGeneratorTests()
     {
         _loggerMock = new Mock<ILogger<CommentGenerator>>();
-        _generator = new CommentGenerator(_loggerMock.Object);
+        _generator = new CommentGenerator(_loggerMock.Object, new ConfigurationBuilder().Build(), new HeuristicDescriptionProvider());
     }
 
     [Fact]
-    public void GenerateComment_WithSimpleFunction_GeneratesCorrectComment()
+    public async Task GenerateComment_WithSimpleFunction_GeneratesCorrectComment()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -34,7 +35,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("/**");
@@ -46,7 +47,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithNoParameters_GeneratesCommentWithoutParams()
+    public async Task GenerateComment_WithNoParameters_GeneratesCommentWithoutParams()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -59,7 +60,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("/**");
@@ -70,7 +71,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithNoReturnType_GeneratesCommentWithoutReturns()
+    public async Task GenerateComment_WithNoReturnType_GeneratesCommentWithoutReturns()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -83,7 +84,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("/**");
@@ -93,7 +94,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithCamelCaseName_ConvertsToReadable()
+    public async Task GenerateComment_WithCamelCaseName_ConvertsToReadable()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -106,14 +107,14 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("Calculate Total Price");
     }
 
     [Fact]
-    public void GenerateComment_WithPascalCaseName_ConvertsToReadable()
+    public async Task GenerateComment_WithPascalCaseName_ConvertsToReadable()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -126,14 +127,14 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("Process Data");
     }
 
     [Fact]
-    public void GenerateComment_WithParameterWithoutType_UsesAnyType()
+    public async Task GenerateComment_WithParameterWithoutType_OmitsTheType()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -146,14 +147,96 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
-        result.Should().Contain("@param {any} data");
+        result.Should().Contain(" * @param data - The data");
+        result.Should().NotContain("@returns");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithUnknownTypesPolicy_WritesTheConfiguredTypeForUnknownTypesOnly()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:UnknownTypes"] = "Unknown" })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var function = new FunctionInfo(
+            Name: "fetchPage",
+            LineNumber: 1,
+            Content: "async function fetchPage(query, limit = 10, ...filters)",
+            Parameters: new List<ParameterInfo>
+            {
+                new("query", null),
+                new("limit", null) { IsOptional = true, DefaultValue = "10", InferredType = "number" },
+                new("filters", null) { IsRest = true }
+            },
+            ReturnType: null,
+            HasComment: false
+        )
+        {
+            Body = new SourceRange(0, 0, 1, 1),
+            IsAsync = true
+        };
+
+        // Act
+        var result = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" * @param {unknown} query - The query");
+        result.Should().Contain(" * @param {number} [limit=10] - The limit");
+        result.Should().Contain(" * @param {...unknown} filters - The filters");
+        result.Should().Contain(" * @returns {Promise<unknown>} The result");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithClosureStyle_WritesClosureTypesForOptionalNullableAndRestParameters()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:Style"] = "Closure" })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var function = new FunctionInfo(
+            Name: "findUsers",
+            LineNumber: 1,
+            Content: "function findUsers<T>(query: string | null, limit = 10, ...filters: Array<(user: User) => boolean>): Promise<User[]>",
+            Parameters: new List<ParameterInfo>
+            {
+                new("query", "string | null"),
+                new("limit", null) { IsOptional = true, DefaultValue = "10", InferredType = "number" },
+                new("filters", "Array<(user: User) => boolean>") { IsRest = true }
+            },
+            ReturnType: "Promise<User[]>",
+            HasComment: false
+        )
+        {
+            Modifiers = new List<string> { "private", "static" },
+            TypeParameters = new List<TypeParameterInfo> { new("T", "object", null) }
+        };
+
+        // Act
+        var result = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Replace("\r\n", "\n").Should().Be(@"/**
+ * Finds the users.
+ *
+ * @private
+ *
+ * @template T
+ *
+ * @param {?string} query - The query
+ * @param {number=} limit - The limit
+ * @param {...function(!User): boolean} filters - The filters
+ *
+ * @return {!Promise<!Array<!User>>} A promise resolving to the list of users
+ */".Replace("\r\n", "\n"));
     }
 
     [Fact]
-    public void GenerateComment_WithBooleanReturn_GeneratesAppropriateDescription()
+    public async Task GenerateComment_WithBooleanReturn_GeneratesAppropriateDescription()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -166,15 +249,15 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("@returns {boolean}");
-        result.Should().Contain("True if successful");
+        result.Should().Contain("True if it is valid, false otherwise");
     }
 
     [Fact]
-    public void GenerateComment_WithPromiseReturn_GeneratesAppropriateDescription()
+    public async Task GenerateComment_WithPromiseReturn_GeneratesAppropriateDescription()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -187,7 +270,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("@returns {Promise}");
@@ -195,7 +278,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithVoidReturn_GeneratesNoReturnValueDescription()
+    public async Task GenerateComment_WithVoidReturn_GeneratesNoReturnValueDescription()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -208,7 +291,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("@returns {void}");
@@ -216,7 +299,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithMultipleParameters_IncludesAllParams()
+    public async Task GenerateComment_WithMultipleParameters_IncludesAllParams()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -234,7 +317,7 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("@param {string} name");
@@ -243,7 +326,7 @@ public class CommentGeneratorTests
     }
 
     [Fact]
-    public void GenerateComment_WithAcronymInName_HandlesCorrectly()
+    public async Task GenerateComment_WithAcronymInName_HandlesCorrectly()
     {
         // Arrange
         var function = new FunctionInfo(
@@ -256,9 +339,559 @@ public class CommentGeneratorTests
         );
 
         // Act
-        var result = _generator.GenerateComment(function);
+        var result = await _generator.GenerateCommentAsync(function);
 
         // Assert
         result.Should().Contain("Parse HTML Content");
     }
+
+    [Fact]
+    public async Task GenerateComment_WithDestructuredParameter_DocumentsEachProperty()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "createUser",
+            LineNumber: 1,
+            Content: "function createUser({ name, age = 18 }: { name: string; age?: number }): User",
+            Parameters: new List<ParameterInfo>
+            {
+                new("param0", "{ name: string; age?: number }")
+                {
+                    Kind = ParameterKind.ObjectPattern,
+                    Properties = new List<ParameterInfo>
+                    {
+                        new("name", "string"),
+                        new("age", "number") { IsOptional = true, DefaultValue = "18" }
+                    }
+                }
+            },
+            ReturnType: "User",
+            HasComment: false
+        );
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain("@param {Object} param0 - The destructured object");
+        result.Should().Contain("@param {string} param0.name - The name");
+        result.Should().Contain("@param {number} [param0.age=18] - The age");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithRestAndOptionalParameters_UsesJsDocSyntax()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "log",
+            LineNumber: 1,
+            Content: "function log(prefix?: string, ...messages: string[]): void",
+            Parameters: new List<ParameterInfo>
+            {
+                new("prefix", "string") { IsOptional = true },
+                new("messages", "string[]") { IsRest = true }
+            },
+            ReturnType: "void",
+            HasComment: false
+        );
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain("@param {string} [prefix] - The prefix");
+        result.Should().Contain("@param {...string} messages - The messages");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithClass_DocumentsHeritage()
+    {
+        // Arrange
+        var classInfo = new ClassInfo("UserService", 1, "export class UserService extends BaseService implements OnInit", false)
+        {
+            BaseType = "BaseService",
+            Implements = new List<string> { "OnInit" }
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(classInfo);
+
+        // Assert
+        result.Should().Contain("User Service.");
+        result.Should().Contain("@extends {BaseService}");
+        result.Should().Contain("@implements {OnInit}");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithInterface_DocumentsExtendedInterfaces()
+    {
+        // Arrange
+        var interfaceInfo = new InterfaceInfo("UserProfile", 1, "interface UserProfile extends Entity", false)
+        {
+            Extends = new List<string> { "Entity" }
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(interfaceInfo);
+
+        // Assert
+        result.Should().Contain("User Profile.");
+        result.Should().Contain("@extends {Entity}");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithProperty_GeneratesSingleLineComment()
+    {
+        // Arrange
+        var property = new PropertyInfo("displayName", 3, "displayName?: string", "string", false);
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(property);
+
+        // Assert
+        result.Should().Be("/** The display name. */");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithEnumMember_GeneratesSingleLineComment()
+    {
+        // Arrange
+        var member = new EnumMemberInfo("InProgress", 2, "InProgress = 'in-progress'", "'in-progress'", false);
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(member);
+
+        // Assert
+        result.Should().Be("/** In Progress. */");
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithChangedSignature_SynchronizesTagsAndKeepsDescriptions()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "getUser",
+            LineNumber: 8,
+            Content: "function getUser(id: string, cache: Cache): Promise<User>",
+            Parameters: new List<ParameterInfo> { new("id", "string"), new("cache", "Cache") },
+            ReturnType: "Promise<User>",
+            HasComment: true
+        );
+        var existing = @"/**
+ * Fetches a user.
+ *
+ * @param {number} id - The user identifier
+ * @param {boolean} verbose - Whether to log
+ * @returns {User} The user
+ */";
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, existing);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.Replace("\r\n", "\n").Should().Be(@"/**
+ * Fetches a user.
+ *
+ * @param {string} id - The user identifier
+ * @param {Cache} cache - The cache
+ * @returns {Promise<User>} The user
+ */".Replace("\r\n", "\n"));
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithUpToDateComment_ReturnsNull()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "add",
+            LineNumber: 5,
+            Content: "function add(a: number, b: number): number",
+            Parameters: new List<ParameterInfo> { new("a", "number"), new("b", "number") },
+            ReturnType: "number",
+            HasComment: true
+        );
+        var existing = @"/**
+ * Adds two numbers.
+ * @param {number} a First operand
+ * @param {number} b Second operand
+ * @return {number} The sum
+ */";
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, existing);
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithInferredTypes_KeepsTheTypesOfTheExistingComment()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "render",
+            LineNumber: 6,
+            Content: "function render(options, depth = 0)",
+            Parameters: new List<ParameterInfo>
+            {
+                new("options", null) { InferredType = "Object" },
+                new("depth", null) { IsOptional = true, DefaultValue = "0", InferredType = "number" }
+            },
+            ReturnType: null,
+            HasComment: true
+        );
+        var existing = @"/**
+ * Renders the tree.
+ *
+ * @param {RenderOptions} options - The render options
+ */";
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, existing);
+
+        // Assert
+        result!.Replace("\r\n", "\n").Should().Be(@"/**
+ * Renders the tree.
+ *
+ * @param {RenderOptions} options - The render options
+ * @param {number} [depth=0] - The depth
+ */".Replace("\r\n", "\n"));
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithTsDocStyle_AddsTagsWithoutTypes()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:Style"] = "TsDoc" })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var function = new FunctionInfo(
+            Name: "add",
+            LineNumber: 6,
+            Content: "function add(a: number, b?: number): number",
+            Parameters: new List<ParameterInfo>
+            {
+                new("a", "number"),
+                new("b", "number") { IsOptional = true }
+            },
+            ReturnType: "number",
+            HasComment: true
+        );
+        var existing = @"/**
+ * Adds the numbers.
+ *
+ * @param a - The first number
+ */";
+
+        // Act
+        var result = await generator.UpdateCommentAsync(function, existing);
+
+        // Assert
+        result!.Replace("\r\n", "\n").Should().Be(@"/**
+ * Adds the numbers.
+ *
+ * @param a - The first number
+ * @param b - The b
+ *
+ * @returns The resulting number
+ */".Replace("\r\n", "\n"));
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithUntypedTagsAndRenamedPattern_FollowsExistingStyle()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "save",
+            LineNumber: 6,
+            Content: "save({ force, retries = 3 }: SaveOptions): void",
+            Parameters: new List<ParameterInfo>
+            {
+                new("param0", "SaveOptions")
+                {
+                    Kind = ParameterKind.ObjectPattern,
+                    Properties = new List<ParameterInfo>
+                    {
+                        new("force", null),
+                        new("retries", null) { IsOptional = true, DefaultValue = "3" }
+                    }
+                }
+            },
+            ReturnType: "void",
+            HasComment: true
+        );
+        var existing = @"/**
+ * Saves the document.
+ * @param options Save settings
+ * @param options.force Overwrite everything
+ */";
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, existing);
+
+        // Assert
+        result.Should().Contain(" * @param options Save settings");
+        result.Should().Contain(" * @param [options.retries=3] - The retries");
+        result.Should().NotContain("param0");
+        result.Should().NotContain("@returns");
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithLineComment_ReturnsNull()
+    {
+        // Arrange
+        var function = new FunctionInfo("run", 2, "function run(id: string)", new List<ParameterInfo> { new("id", "string") }, null, true);
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, "// Runs the job");
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithConfiguredTemplate_UsesTemplateAndVariables()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["CommentTemplates:Function:0"] = "/**",
+                ["CommentTemplates:Function:1"] = " * {{readableName}}",
+                ["CommentTemplates:Function:2"] = "{{#each parameters}}",
+                ["CommentTemplates:Function:3"] = " * @param {{name}} {{description}}",
+                ["CommentTemplates:Function:4"] = "{{/each}}",
+                ["CommentTemplates:Function:5"] = " * @since {{since}}",
+                ["CommentTemplates:Function:6"] = " */",
+                ["CommentTemplates:Variables:since"] = "2.1.0"
+            })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var function = new FunctionInfo(
+            Name: "getUser",
+            LineNumber: 1,
+            Content: "function getUser(id: string): User",
+            Parameters: new List<ParameterInfo> { new("id", "string") },
+            ReturnType: "User",
+            HasComment: false
+        );
+
+        // Act
+        var result = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Be("/**\n * Get User\n * @param id The id\n * @since 2.1.0\n */");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithTemplateForOtherKind_KeepsDefaultFunctionLayout()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["CommentTemplates:Property:0"] = "/** {{readableName}}{{#if readonly}} (read-only){{/if}} */"
+            })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var property = new PropertyInfo("createdAt", 2, "readonly createdAt: Date", "Date", false) { IsReadonly = true };
+        var function = new FunctionInfo("save", 4, "save(): void", new List<ParameterInfo>(), "void", false);
+
+        // Act
+        var propertyComment = await generator.GenerateCommentAsync(property);
+        var functionComment = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        propertyComment.Should().Be("/** Created At (read-only) */");
+        functionComment.Should().Contain("@returns {void} No return value");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithDescriptionProvider_UsesProvidedDescriptions()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "getUser",
+            LineNumber: 1,
+            Content: "function getUser(id: string): User",
+            Parameters: new List<ParameterInfo> { new("id", "string") },
+            ReturnType: "User",
+            HasComment: false
+        );
+        var providerMock = new Mock<IDescriptionProvider>();
+        providerMock.Setup(p => p.DescribeAsync(function, It.IsAny<CancellationToken>())).ReturnsAsync(new DeclarationDescription("Loads a user by id.")
+        {
+            Parameters = new Dictionary<string, string> { ["id"] = "Identifier of the user" },
+            Returns = "The matching user"
+        });
+        var generator = new CommentGenerator(_loggerMock.Object, new ConfigurationBuilder().Build(), providerMock.Object);
+
+        // Act
+        var result = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" * Loads a user by id.");
+        result.Should().Contain("@param {string} id - Identifier of the user");
+        result.Should().Contain("@returns {User} The matching user");
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithUpToDateComment_DoesNotAskDescriptionProvider()
+    {
+        // Arrange
+        var function = new FunctionInfo("run", 2, "function run(id: string): void", new List<ParameterInfo> { new("id", "string") }, "void", true);
+        var providerMock = new Mock<IDescriptionProvider>();
+        var generator = new CommentGenerator(_loggerMock.Object, new ConfigurationBuilder().Build(), providerMock.Object);
+
+        // Act
+        var result = await generator.UpdateCommentAsync(function, "/**\n * Runs the job.\n * @param {string} id - The job id\n */");
+
+        // Assert
+        result.Should().BeNull();
+        providerMock.Verify(p => p.DescribeAsync(It.IsAny<DeclarationInfo>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithAsyncFunctionThatThrows_AddsThrowsAndAsyncTags()
+    {
+        // Arrange
+        var function = new FunctionInfo(
+            Name: "loadUser",
+            LineNumber: 1,
+            Content: "async function loadUser(id: string): Promise<User>",
+            Parameters: new List<ParameterInfo> { new("id", "string") },
+            ReturnType: "Promise<User>",
+            HasComment: false
+        )
+        {
+            IsAsync = true,
+            Throws = new List<string> { "NotFoundError", "ValidationError" }
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().EndWith(" * @returns {Promise<User>} A promise resolving to the user\n *\n * @throws {NotFoundError}\n * @throws {ValidationError}\n * @async\n */");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithGenerator_AddsYieldsTag()
+    {
+        // Arrange
+        var function = new FunctionInfo("pages", 1, "function* pages(): Generator<Page>", new List<ParameterInfo>(), "Generator<Page>", false)
+        {
+            IsGenerator = true
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" * @yields {Page} The page");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithDeprecatedDecorator_AddsDeprecatedTagWithReason()
+    {
+        // Arrange
+        var function = new FunctionInfo("getUsers", 2, "getUsers(): User[]", new List<ParameterInfo>(), "User[]", false)
+        {
+            Decorators = new List<string> { "Deprecated" },
+            Source = "@Deprecated('Use fetchUsers instead.')\n  getUsers(): User[] { return []; }"
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" *\n * @deprecated Use fetchUsers instead.\n */");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithExamplesEnabled_AddsCallWithPlaceholders()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:IncludeExamples"] = "true" })
+            .Build();
+        var generator = new CommentGenerator(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+        var function = new FunctionInfo(
+            Name: "search",
+            LineNumber: 3,
+            Content: "async search(query: string, { limit, offset }: Paging): Promise<User[]>",
+            Parameters: new List<ParameterInfo>
+            {
+                new("query", "string"),
+                new("param1", "Paging")
+                {
+                    Kind = ParameterKind.ObjectPattern,
+                    Properties = new List<ParameterInfo> { new("limit", null), new("offset", null) }
+                }
+            },
+            ReturnType: "Promise<User[]>",
+            HasComment: false
+        )
+        {
+            IsAsync = true,
+            ContainingClass = new ClassInfo("UserService", 1, "class UserService", false)
+        };
+
+        // Act
+        var result = await generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" * @example\n * const result = await userService.search(query, { limit, offset });\n */");
+    }
+
+    [Fact]
+    public async Task UpdateComment_WithDeprecatedTag_KeepsItWhenAddingParameters()
+    {
+        // Arrange
+        var function = new FunctionInfo("run", 2, "function run(id: string): void", new List<ParameterInfo> { new("id", "string") }, "void", true);
+
+        // Act
+        var result = await _generator.UpdateCommentAsync(function, "/**\n * Runs the job.\n *\n * @deprecated Use start instead.\n */");
+
+        // Assert
+        result.Should().Contain("@param {string} id - The id");
+        result.Should().Contain("@deprecated Use start instead.");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithModifiers_AddsModifierTagsAndDescribesAccessors()
+    {
+        // Arrange
+        var function = new FunctionInfo("displayName", 3, "protected abstract get displayName(): string", new List<ParameterInfo>(), "string", false)
+        {
+            Modifiers = new List<string> { "protected", "abstract", "get" },
+            IsSignature = true
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Be("/**\n * Gets the display name.\n *\n * @protected\n * @abstract\n *\n * @returns {string} The display name\n */");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithTypeParameters_AddsTemplateTags()
+    {
+        // Arrange
+        var parameters = new List<ParameterInfo> { new("items", "T[]"), new("fn", "(x: T) => U") };
+        var function = new FunctionInfo("map", 1, "function map<T, U extends object = {}>(items: T[], fn: (x: T) => U): U[]", parameters, "U[]", false)
+        {
+            TypeParameters = new List<TypeParameterInfo> { new("T", null, null), new("U", "object", "{}") }
+        };
+
+        // Act
+        var result = await _generator.GenerateCommentAsync(function);
+
+        // Assert
+        result.Should().Contain(" *\n * @template T - The element type of the items\n * @template {object} [U={}] - The type parameter\n *\n * @param {T[]} items");
+        result.Should().Contain(" * @param {(x: T) => U} fn - The fn");
+    }
 }
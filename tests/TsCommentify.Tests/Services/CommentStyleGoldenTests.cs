@@ -0,0 +1,52 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using TsCommentify.Core;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+/// <summary>
+/// Comments the playground component in every style and compares the result with the files in Golden/.
+/// </summary>
+public class CommentStyleGoldenTests
+{
+    private static readonly string SolutionDirectory =
+        Path.GetFullPath(Path.Combine(AppContext.BaseDirectory, "..", "..", "..", "..", ".."));
+
+    [Fact]
+    public async Task Commentify_WithJsDocStyle_MatchesTheGoldenFile()
+    {
+        await AssertMatchesGoldenFileAsync("JsDoc", "user-dashboard.component.jsdoc.ts");
+    }
+
+    [Fact]
+    public async Task Commentify_WithTsDocStyle_MatchesTheGoldenFile()
+    {
+        await AssertMatchesGoldenFileAsync("TsDoc", "user-dashboard.component.tsdoc.ts");
+    }
+
+    [Fact]
+    public async Task Commentify_WithClosureStyle_MatchesTheGoldenFile()
+    {
+        await AssertMatchesGoldenFileAsync("Closure", "user-dashboard.component.closure.ts");
+    }
+
+    private static async Task AssertMatchesGoldenFileAsync(string style, string goldenFile)
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:Style"] = style })
+            .Build();
+        using var serviceProvider = new ServiceCollection().AddTsCommentify(configuration).BuildServiceProvider();
+        var commentifier = serviceProvider.GetRequiredService<ICommentifier>();
+        var source = File.ReadAllText(Path.Combine(SolutionDirectory, "playground", "user-dashboard.component.ts"));
+        var expected = File.ReadAllText(Path.Combine(SolutionDirectory, "tests", "TsCommentify.Tests", "Golden", goldenFile));
+
+        // Act
+        var result = await commentifier.CommentifyAsync("user-dashboard.component.ts", source);
+
+        // Assert
+        result.Text.Replace("\r\n", "\n").Should().Be(expected.Replace("\r\n", "\n"));
+    }
+}
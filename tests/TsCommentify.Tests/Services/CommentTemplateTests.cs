@@ -0,0 +1,82 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class CommentTemplateTests
+{
+    [Fact]
+    public void Render_WithPlaceholders_SubstitutesValues()
+    {
+        // Arrange
+        var template = CommentTemplate.Parse("/** {{description}} @returns {{{returnType}}} */");
+        var model = new Dictionary<string, object?> { ["description"] = "Adds.", ["returnType"] = "number" };
+
+        // Act
+        var result = template.Render(model);
+
+        // Assert
+        result.Should().Be("/** Adds. @returns {number} */");
+    }
+
+    [Fact]
+    public void Render_WithEachSection_RendersOneLinePerItem()
+    {
+        // Arrange
+        var template = CommentTemplate.Parse("/**\n{{#each parameters}}\n * @param {{name}} - {{description}} of {{functionName}}\n{{/each}}\n */");
+        var model = new Dictionary<string, object?>
+        {
+            ["functionName"] = "add",
+            ["parameters"] = new List<Dictionary<string, object?>>
+            {
+                new() { ["name"] = "a", ["description"] = "The a" },
+                new() { ["name"] = "b", ["description"] = "The b" }
+            }
+        };
+
+        // Act
+        var result = template.Render(model);
+
+        // Assert
+        result.Should().Be("/**\n * @param a - The a of add\n * @param b - The b of add\n */");
+    }
+
+    [Fact]
+    public void Render_WithConditionalSections_RendersMatchingBranch()
+    {
+        // Arrange
+        var template = CommentTemplate.Parse(
+            "{{#if returnType}}returns {{returnType}}{{else}}void{{/if}}|{{#unless items}}empty{{/unless}}|{{#each items}}{{this}}{{#unless @last}},{{/unless}}{{/each}}");
+
+        // Act
+        var withReturn = template.Render(new Dictionary<string, object?> { ["returnType"] = "string", ["items"] = new List<string> { "a", "b" } });
+        var withoutReturn = template.Render(new Dictionary<string, object?> { ["returnType"] = null, ["items"] = new List<string>() });
+
+        // Assert
+        withReturn.Should().Be("returns string||a,b");
+        withoutReturn.Should().Be("void|empty|");
+    }
+
+    [Fact]
+    public void Render_WithUnknownPlaceholder_Throws()
+    {
+        // Arrange
+        var template = CommentTemplate.Parse("/** {{descripton}} */");
+
+        // Act
+        var act = () => template.Render(new Dictionary<string, object?> { ["description"] = "Adds." });
+
+        // Assert
+        act.Should().Throw<KeyNotFoundException>().WithMessage("*descripton*");
+    }
+
+    [Fact]
+    public void Parse_WithUnclosedSection_Throws()
+    {
+        // Act
+        var act = () => CommentTemplate.Parse("{{#if returnType}} * @returns {{returnType}}");
+
+        // Assert
+        act.Should().Throw<FormatException>().WithMessage("*{{/if}}*");
+    }
+}
@@ -0,0 +1,110 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class CommentifierTests
+{
+    [Fact]
+    public async Task Commentify_WithSourceText_ReturnsEditsCommentsAndDiagnostics()
+    {
+        // Arrange
+        var text = "export class Cart {\r\n  /** Empties the cart. */\r\n  clear(): void {}\r\n\r\n  total(): number {\r\n    return 0;\r\n  }\r\n}\r\n";
+        var commentifier = CreateCommentifier(new Dictionary<string, string?>());
+
+        // Act
+        var result = await commentifier.CommentifyAsync("cart.ts", text);
+
+        // Assert
+        result.Declarations.Select(d => d.Name).Should().Equal("Cart", "clear", "total");
+        result.Diagnostics.Select(d => d.Message).Should().Equal(
+            "Class 'Cart' has no documentation comment.",
+            "Function 'total' has no documentation comment.");
+        result.Diagnostics.Should().OnlyContain(d => d.Code == CommentDiagnostic.MissingComment);
+
+        result.Comments.Select(c => c.Comment).Should().Equal(
+            "/**\n * Cart.\n */",
+            "/**\n * Total.\n *\n * @returns {number} The resulting number\n */");
+        result.Edits[1].Range.Should().Be(new SourceRange(71, 71, 5, 5));
+        result.Edits[1].NewText.Should().Be("  /**\r\n   * Total.\r\n   *\r\n   * @returns {number} The resulting number\r\n   */\r\n");
+        result.Text.Should().Be("/**\r\n * Cart.\r\n */\r\n" + text.Insert(71, result.Edits[1].NewText));
+    }
+
+    [Fact]
+    public async Task Commentify_WithUpdateExisting_ReplacesTheStaleCommentLines()
+    {
+        // Arrange
+        var text = "/**\n * Adds the numbers.\n *\n * @param {number} a - The first number\n */\nfunction add(a: number, b: number): number {\n  return a + b;\n}\n";
+        var commentifier = CreateCommentifier(new Dictionary<string, string?> { ["FileProcessor:UpdateExisting"] = "true" });
+
+        // Act
+        var result = await commentifier.CommentifyAsync("math.ts", text);
+
+        // Assert
+        result.UndocumentedDeclarations.Should().BeEmpty();
+        result.UpdatedDeclarations.Select(d => d.Name).Should().Equal("add");
+        result.Diagnostics.Single().Code.Should().Be(CommentDiagnostic.StaleComment);
+        result.Edits.Single().Range.Should().Be(new SourceRange(0, text.IndexOf("function"), 1, 5));
+        result.Text.Should().StartWith("/**\n * Adds the numbers.\n *\n * @param {number} a - The first number\n * @param {number} b - The b\n *\n * @returns {number} The resulting number\n */\nfunction add(");
+    }
+
+    [Fact]
+    public async Task Commentify_WithPublicVisibility_SkipsPrivateAndProtectedMembers()
+    {
+        // Arrange
+        var text = "class Cart {\n  private items = [];\n  #count = 0;\n  protected reset(): void {}\n  total(): number { return 0; }\n}\n";
+        var commentifier = CreateCommentifier(new Dictionary<string, string?> { ["FileProcessor:Visibility"] = "Public" });
+
+        // Act
+        var result = await commentifier.CommentifyAsync("cart.ts", text);
+
+        // Assert
+        result.UndocumentedDeclarations.Select(d => d.Name).Should().Equal("Cart", "total");
+    }
+
+    [Fact]
+    public async Task Commentify_WithExportedVisibility_DocumentsOnlyTheModuleApi()
+    {
+        // Arrange
+        var text = "export class Cart {\n  private items = [];\n  total(): number {\n    const sum = (a: number) => a;\n    return 0;\n  }\n}\n"
+            + "class Basket {\n  clear(): void {}\n}\n"
+            + "export interface Item {\n  name: string;\n}\n"
+            + "function format(item: Item) {\n  return item.name;\n}\n"
+            + "export { format };\n";
+        var commentifier = CreateCommentifier(new Dictionary<string, string?> { ["FileProcessor:Visibility"] = "Exported" });
+
+        // Act
+        var result = await commentifier.CommentifyAsync("cart.ts", text);
+
+        // Assert
+        result.UndocumentedDeclarations.Select(d => d.Name).Should().Equal("Cart", "total", "Item", "name", "format");
+    }
+
+    [Fact]
+    public async Task Commentify_WithOneLineInterface_DocumentsOnlyTheInterface()
+    {
+        // Arrange
+        var text = "export interface Item { a: string; m(x: number): void; }\n";
+        var commentifier = CreateCommentifier(new Dictionary<string, string?>());
+
+        // Act
+        var result = await commentifier.CommentifyAsync("item.ts", text);
+
+        // Assert
+        result.Declarations.Select(d => d.Name).Should().Equal("Item");
+        result.Comments.Single().Comment.Should().Be("/**\n * Item.\n */");
+        result.Text.Should().Be("/**\n * Item.\n */\n" + text);
+    }
+
+    private static Commentifier CreateCommentifier(Dictionary<string, string?> settings)
+    {
+        var configuration = new ConfigurationBuilder().AddInMemoryCollection(settings).Build();
+        var generator = new CommentGenerator(new Mock<ILogger<CommentGenerator>>().Object, configuration, new HeuristicDescriptionProvider());
+        var parser = new TypeScriptParser(new Mock<ILogger<TypeScriptParser>>().Object);
+
+        return new Commentifier(parser, generator, new Mock<ILogger<Commentifier>>().Object, configuration);
+    }
+}
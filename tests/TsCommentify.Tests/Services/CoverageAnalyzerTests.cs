@@ -0,0 +1,130 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class CoverageAnalyzerTests : IDisposable
+{
+    private readonly Mock<ITypeScriptParser> _parserMock;
+    private readonly Mock<IFileProcessor> _fileProcessorMock;
+    private readonly CoverageAnalyzer _analyzer;
+    private readonly string _testDirectory;
+
+    public CoverageAnalyzerTests()
+    {
+        _parserMock = new Mock<ITypeScriptParser>();
+        _fileProcessorMock = new Mock<IFileProcessor>();
+        _analyzer = new CoverageAnalyzer(_parserMock.Object, _fileProcessorMock.Object, new Mock<ILogger<CoverageAnalyzer>>().Object);
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(Path.Combine(_testDirectory, "src", "lib"));
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public void Analyze_WithDirectory_CountsFunctionsPerFileAndDirectory()
+    {
+        // Arrange
+        var first = Path.Combine(_testDirectory, "src", "a.ts");
+        var second = Path.Combine(_testDirectory, "src", "lib", "b.ts");
+        _fileProcessorMock.Setup(p => p.GetSourceFiles(_testDirectory)).Returns(new List<string> { second, first });
+        _parserMock.Setup(p => p.ParseFunctions(first)).Returns(new List<FunctionInfo>
+        {
+            CreateFunction("add", hasComment: true),
+            CreateFunction("subtract", hasComment: false)
+        });
+        _parserMock.Setup(p => p.ParseFunctions(second)).Returns(new List<FunctionInfo>
+        {
+            CreateFunction("load", hasComment: true)
+        });
+
+        // Act
+        var report = _analyzer.Analyze(_testDirectory);
+
+        // Assert
+        report.Total.Should().Be(3);
+        report.Documented.Should().Be(2);
+        report.Coverage.Should().Be(66.7);
+        report.Files.Select(f => Path.GetFileName(f.Path)).Should().Equal("a.ts", "b.ts");
+        report.Files[0].UndocumentedFunctions.Should().ContainSingle(f => f.Name == "subtract");
+
+        report.Directories.Single(d => d.Path.EndsWith("/src")).Total.Should().Be(3);
+        report.Directories.Single(d => d.Path.EndsWith("/src/lib")).Coverage.Should().Be(100);
+    }
+
+    [Fact]
+    public void Analyze_WithoutFunctions_ReportsFullCoverage()
+    {
+        // Arrange
+        var file = Path.Combine(_testDirectory, "types.ts");
+        File.WriteAllText(file, "export type Id = string;");
+        _parserMock.Setup(p => p.ParseFunctions(file)).Returns(new List<FunctionInfo>());
+
+        // Act
+        var report = _analyzer.Analyze(file);
+
+        // Assert
+        report.Total.Should().Be(0);
+        report.Coverage.Should().Be(100);
+        _fileProcessorMock.Verify(p => p.GetSourceFiles(It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public void Analyze_WithSuppressedFunctions_CountsThemSeparately()
+    {
+        // Arrange
+        var file = Path.Combine(_testDirectory, "component.ts");
+        File.WriteAllText(file, "class Component {}");
+        _parserMock.Setup(p => p.ParseFunctions(file)).Returns(new List<FunctionInfo>
+        {
+            CreateFunction("load", hasComment: true),
+            CreateFunction("save", hasComment: false),
+            CreateFunction("ngOnInit", hasComment: false) with { IsSuppressed = true }
+        });
+
+        // Act
+        var report = _analyzer.Analyze(file);
+
+        // Assert
+        report.Total.Should().Be(2);
+        report.Suppressed.Should().Be(1);
+        report.Coverage.Should().Be(50);
+        report.Files[0].SuppressedFunctions.Should().ContainSingle(f => f.Name == "ngOnInit");
+        report.Files[0].UndocumentedFunctions.Should().ContainSingle(f => f.Name == "save");
+        report.Directories.Single(d => d.Path == ".").Suppressed.Should().Be(1);
+    }
+
+    [Fact]
+    public void Analyze_WithUnreadableFile_ReportsItAndCountsTheOtherFiles()
+    {
+        // Arrange
+        Directory.CreateDirectory(Path.Combine(_testDirectory, ".git"));
+        var locked = Path.Combine(_testDirectory, "src", "a.ts");
+        var readable = Path.Combine(_testDirectory, "src", "lib", "b.ts");
+        _fileProcessorMock.Setup(p => p.GetSourceFiles(Path.Combine(_testDirectory, "src"))).Returns(new List<string> { locked, readable });
+        _parserMock.Setup(p => p.ParseFunctions(locked)).Throws(new UnauthorizedAccessException("Access to the path is denied."));
+        _parserMock.Setup(p => p.ParseFunctions(readable)).Returns(new List<FunctionInfo> { CreateFunction("load", hasComment: true) });
+
+        // Act
+        var report = _analyzer.Analyze(Path.Combine(_testDirectory, "src"));
+
+        // Assert
+        report.Failures.Should().ContainSingle();
+        report.Failures[0].Path.Should().EndWith("/src/a.ts");
+        report.Failures[0].Error.Should().Be("Access to the path is denied.");
+        report.Files.Should().ContainSingle();
+        report.Files[0].RepositoryPath.Should().Be("src/lib/b.ts");
+        report.Total.Should().Be(1);
+    }
+
+    private static FunctionInfo CreateFunction(string name, bool hasComment) =>
+        new(name, 1, $"function {name}()", new List<ParameterInfo>(), null, hasComment);
+}
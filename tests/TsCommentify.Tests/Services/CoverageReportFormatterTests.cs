@@ -0,0 +1,146 @@
+using System.Text.Json;
+using FluentAssertions;
+using TsCommentify.Core.Configuration;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class CoverageReportFormatterTests
+{
+    private readonly CoverageReportFormatter _formatter = new();
+    private readonly CoverageReport _report;
+
+    public CoverageReportFormatterTests()
+    {
+        _report = new CoverageReport("src", new List<FileCoverage>
+        {
+            new("src/a.ts", 1, new List<FunctionInfo>
+            {
+                new("subtract", 7, "function subtract()", new List<ParameterInfo>(), null, false)
+            }),
+            new("src/lib/<b>.ts", 2, new List<FunctionInfo>())
+        });
+    }
+
+    [Fact]
+    public void Format_WithJson_WritesSummaryDirectoriesAndFiles()
+    {
+        // Act
+        var result = _formatter.Format(_report, ReportFormat.Json);
+
+        // Assert
+        using var document = JsonDocument.Parse(result);
+        var root = document.RootElement;
+        root.GetProperty("summary").GetProperty("total").GetInt32().Should().Be(4);
+        root.GetProperty("summary").GetProperty("coverage").GetDouble().Should().Be(75);
+        root.GetProperty("directories").GetArrayLength().Should().Be(3);
+        root.GetProperty("files")[0].GetProperty("undocumentedFunctions")[0].GetProperty("line").GetInt32().Should().Be(7);
+    }
+
+    [Fact]
+    public void Format_WithMarkdown_WritesSummaryTableAndUndocumentedFunctions()
+    {
+        // Act
+        var result = _formatter.Format(_report, ReportFormat.Markdown);
+
+        // Assert
+        result.Should().Contain("**75%** of functions documented (3 of 4)");
+        result.Should().Contain("| `src/lib` | 2 | 2 | 100% |");
+        result.Should().Contain("- `src/a.ts:7` `subtract`");
+    }
+
+    [Fact]
+    public void Format_WithHtml_WritesStandalonePageWithEncodedPaths()
+    {
+        // Act
+        var result = _formatter.Format(_report, ReportFormat.Html);
+
+        // Assert
+        result.Should().StartWith("<!DOCTYPE html>");
+        result.Should().Contain("<style>");
+        result.Should().Contain("src/lib/&lt;b&gt;.ts");
+        result.Should().NotContain("<b>.ts");
+    }
+
+    [Fact]
+    public void Format_WithSarif_WritesResultPerUndocumentedFunction()
+    {
+        // Act
+        var result = _formatter.Format(_report, ReportFormat.Sarif);
+
+        // Assert
+        using var document = JsonDocument.Parse(result);
+        var run = document.RootElement.GetProperty("runs")[0];
+        document.RootElement.GetProperty("version").GetString().Should().Be("2.1.0");
+        run.GetProperty("results").GetArrayLength().Should().Be(1);
+
+        var location = run.GetProperty("results")[0].GetProperty("locations")[0].GetProperty("physicalLocation");
+        location.GetProperty("artifactLocation").GetProperty("uri").GetString().Should().Be("src/a.ts");
+        location.GetProperty("region").GetProperty("startLine").GetInt32().Should().Be(7);
+    }
+
+    [Fact]
+    public void Format_WithSarifInRepository_LocatesFilesFromTheRepositoryRootAndReportsFailures()
+    {
+        // Arrange
+        var report = new CoverageReport("../packages/app", new List<FileCoverage>
+        {
+            new("../packages/app/a.ts", 0, new List<FunctionInfo>
+            {
+                new("run", 2, "function run()", new List<ParameterInfo>(), null, false)
+            })
+            {
+                RepositoryPath = "packages/app/a.ts"
+            }
+        })
+        {
+            Failures = new() { new("../packages/app/locked.ts", "Access to the path is denied.") }
+        };
+
+        // Act
+        var sarif = _formatter.Format(report, ReportFormat.Sarif);
+        var sarifOutsideRepository = _formatter.Format(_report, ReportFormat.Sarif);
+        var markdown = _formatter.Format(report, ReportFormat.Markdown);
+
+        // Assert
+        using var document = JsonDocument.Parse(sarif);
+        var run = document.RootElement.GetProperty("runs")[0];
+        var artifact = run.GetProperty("results")[0].GetProperty("locations")[0].GetProperty("physicalLocation").GetProperty("artifactLocation");
+        artifact.GetProperty("uri").GetString().Should().Be("packages/app/a.ts");
+        artifact.GetProperty("uriBaseId").GetString().Should().Be("%SRCROOT%");
+        run.GetProperty("invocations")[0].GetProperty("executionSuccessful").GetBoolean().Should().BeFalse();
+        run.GetProperty("invocations")[0].GetProperty("toolExecutionNotifications")[0].GetProperty("message").GetProperty("text").GetString()
+            .Should().Be("Could not read ../packages/app/locked.ts: Access to the path is denied.");
+
+        using var outside = JsonDocument.Parse(sarifOutsideRepository);
+        outside.RootElement.GetProperty("runs")[0].GetProperty("results")[0].GetProperty("locations")[0]
+            .GetProperty("physicalLocation").GetProperty("artifactLocation").TryGetProperty("uriBaseId", out _).Should().BeFalse();
+
+        markdown.Should().Contain("- `../packages/app/locked.ts`: Access to the path is denied.");
+    }
+
+    [Fact]
+    public void Format_WithSuppressedFunctions_ReportsThemSeparately()
+    {
+        // Arrange
+        var report = new CoverageReport("src", new List<FileCoverage>
+        {
+            new("src/a.ts", 1, new List<FunctionInfo>())
+            {
+                SuppressedFunctions = new() { new("ngOnInit", 3, "ngOnInit()", new List<ParameterInfo>(), null, false) { IsSuppressed = true } }
+            }
+        });
+
+        // Act
+        var markdown = _formatter.Format(report, ReportFormat.Markdown);
+        var sarif = _formatter.Format(report, ReportFormat.Sarif);
+
+        // Assert
+        markdown.Should().Contain("(1 of 1, 1 suppressed)");
+        markdown.Should().Contain("| `src` | 1 | 1 | 1 | 100% |");
+
+        using var document = JsonDocument.Parse(sarif);
+        var result = document.RootElement.GetProperty("runs")[0].GetProperty("results")[0];
+        result.GetProperty("suppressions")[0].GetProperty("kind").GetString().Should().Be("inSource");
+    }
+}
@@ -0,0 +1,105 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class DescriptionRulesTests
+{
+    private readonly DescriptionRules _rules = new();
+
+    [Fact]
+    public void DescribeSummary_WithKnownVerbs_BuildsSentences()
+    {
+        // Arrange
+        var names = new[] { "fetchUsers", "isValid", "onClick", "createUser", "toJSON", "validate", "calculateTotal" };
+
+        // Act
+        var result = names.Select(name => _rules.DescribeSummary(CreateFunction(name, "void", new ParameterInfo("form", "Form")))).ToList();
+
+        // Assert
+        result.Should().Equal(
+            "Fetches the users.",
+            "Checks whether it is valid.",
+            "Handles the click event.",
+            "Creates a new user.",
+            "Converts to JSON.",
+            "Validates the form.",
+            null);
+    }
+
+    [Fact]
+    public void DescribeReturns_WithWrappedAndOptionalTypes_DescribesTheValue()
+    {
+        // Arrange
+        var types = new[] { "Promise<User[]>", "Observable<Order>", "User | undefined", "Promise<void>", "Map<string, User>", "Array<Category>" };
+
+        // Act
+        var result = types.Select(type => _rules.DescribeReturns(CreateFunction("process", type))).ToList();
+
+        // Assert
+        result.Should().Equal(
+            "A promise resolving to the list of users",
+            "An observable emitting the order",
+            "The user, or undefined if there is none",
+            "A promise that resolves when the operation is complete",
+            "The map of string to user",
+            "The list of categories");
+    }
+
+    [Fact]
+    public void DescribeReturns_WithAccessorOrPredicate_UsesTheName()
+    {
+        // Arrange
+        var getter = CreateFunction("getDisplayName", "string");
+        var predicate = CreateFunction("hasPermission", "boolean");
+
+        // Act
+        var getterResult = _rules.DescribeReturns(getter);
+        var predicateResult = _rules.DescribeReturns(predicate);
+
+        // Assert
+        getterResult.Should().Be("The display name");
+        predicateResult.Should().Be("True if it has permission, false otherwise");
+    }
+
+    [Fact]
+    public void DescribeSummary_WithCustomVerb_OverridesBuiltInRules()
+    {
+        // Arrange
+        var rules = new DescriptionRules(new Dictionary<string, string>
+        {
+            ["sync"] = "Synchronizes {object} with the server.",
+            ["get"] = "Returns {object}."
+        });
+
+        // Act
+        var sync = rules.DescribeSummary(CreateFunction("syncSettings", "void"));
+        var get = rules.DescribeSummary(CreateFunction("getUser", "User"));
+
+        // Assert
+        sync.Should().Be("Synchronizes the settings with the server.");
+        get.Should().Be("Returns the user.");
+    }
+
+    [Fact]
+    public void DescribeTypeParameter_WithUseOrName_DescribesWhatItTypes()
+    {
+        // Arrange
+        var function = CreateFunction("lookup", "TValue", new ParameterInfo("key", "TKey"), new ParameterInfo("entries", "Array<E>"));
+        function = function with
+        {
+            TypeParameters = new List<TypeParameterInfo> { new("TKey", null, null), new("E", null, null), new("TValue", null, null), new("TOptions", null, null) }
+        };
+
+        // Act
+        var result = function.TypeParameters.Select(t => _rules.DescribeTypeParameter(function, t)).ToList();
+        var returns = _rules.DescribeReturns(function with { ReturnType = "TValue | U[]" });
+
+        // Assert
+        result.Should().Equal("The type of the key", "The element type of the entries", "The type of the result", "The options type");
+        returns.Should().Be("The value or the list of values");
+    }
+
+    private static FunctionInfo CreateFunction(string name, string returnType, params ParameterInfo[] parameters) =>
+        new(name, 1, $"function {name}(): {returnType}", parameters.ToList(), returnType, false);
+}
@@ -2,7 +2,7 @@ using FluentAssertions;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using Moq;
-using TsCommentify.Cli.Services;
+using TsCommentify.Core.Services;
 
 namespace TsCommentify.Tests.Services;
 
@@ -10,6 +10,7 @@ public class FileProcessorIgnoreTests : IDisposable
 {
     private readonly Mock<ITypeScriptParser> _parserMock;
     private readonly Mock<ICommentGenerator> _generatorMock;
+    private readonly Mock<IGitChangeProvider> _gitMock;
     private readonly Mock<ILogger<FileProcessor>> _loggerMock;
     private readonly string _testDirectory;
 
@@ -17,6 +18,7 @@ public class FileProcessorIgnoreTests : IDisposable
     {
         _parserMock = new Mock<ITypeScriptParser>();
         _generatorMock = new Mock<ICommentGenerator>();
+        _gitMock = new Mock<IGitChangeProvider>();
         _loggerMock = new Mock<ILogger<FileProcessor>>();
         _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
         Directory.CreateDirectory(_testDirectory);
@@ -38,11 +40,16 @@ public class FileProcessorIgnoreTests : IDisposable
             configData[$"FileProcessor:IgnorePatterns:{i}"] = ignorePatterns[i];
         }
 
+        return CreateProcessor(configData);
+    }
+
+    private FileProcessor CreateProcessor(Dictionary<string, string?> configData)
+    {
         var configuration = new ConfigurationBuilder()
             .AddInMemoryCollection(configData)
             .Build();
 
-        return new FileProcessor(_parserMock.Object, _generatorMock.Object, _loggerMock.Object, configuration);
+        return new FileProcessor(CreateCommentifier(configuration), _gitMock.Object, _loggerMock.Object, configuration);
     }
 
     [Fact]
@@ -59,16 +66,16 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(specFile, "function testSpec() {}");
         File.WriteAllText(testFile, "function testTest() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(specFile), Times.Never);
-        _parserMock.Verify(p => p.ParseFunctions(testFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(specFile, It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(testFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -83,15 +90,15 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(regularFile, "function service() {}");
         File.WriteAllText(testFile, "function testService() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(testFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(testFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -106,15 +113,15 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(regularFile, "function service() {}");
         File.WriteAllText(mockFile, "function mockService() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(mockFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(mockFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -122,7 +129,7 @@ public class FileProcessorIgnoreTests : IDisposable
     {
         // Arrange - no configuration provided, should use defaults
         var configuration = new ConfigurationBuilder().Build();
-        var processor = new FileProcessor(_parserMock.Object, _generatorMock.Object, _loggerMock.Object, configuration);
+        var processor = new FileProcessor(CreateCommentifier(configuration), _gitMock.Object, _loggerMock.Object, configuration);
         
         var regularFile = Path.Combine(_testDirectory, "service.ts");
         var specFile = Path.Combine(_testDirectory, "service.spec.ts");
@@ -132,16 +139,16 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(specFile, "function specService() {}");
         File.WriteAllText(testFile, "function testService() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert - spec and test files should be ignored by default
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(specFile), Times.Never);
-        _parserMock.Verify(p => p.ParseFunctions(testFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(specFile, It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(testFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -158,16 +165,16 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(testFile1, "function testUtils() {}");
         File.WriteAllText(testFile2, "function testHelpers() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(testFile1), Times.Never);
-        _parserMock.Verify(p => p.ParseFunctions(testFile2), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(testFile1, It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(testFile2, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -185,14 +192,276 @@ public class FileProcessorIgnoreTests : IDisposable
         File.WriteAllText(regularFile, "function component() {}");
         File.WriteAllText(specFile, "function testComponent() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(specFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(specFile, It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithPathPatterns_IgnoresMatchingPaths()
+    {
+        // Arrange
+        var processor = CreateProcessorWithIgnorePatterns(new List<string> { "**/generated/**", "apps/*/e2e/**" });
+        var app = CreateFile("apps", "web", "src", "app.ts");
+        CreateFile("apps", "web", "e2e", "login.ts");
+        CreateFile("libs", "api", "generated", "client.ts");
+        var e2eOutsideApps = CreateFile("e2e", "smoke.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().BeEquivalentTo(new[] { app, e2eOutsideApps });
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithNegatedPattern_KeepsMatchingFile()
+    {
+        // Arrange
+        var processor = CreateProcessorWithIgnorePatterns(new List<string> { "*.spec.ts", "!keep.spec.ts" });
+        CreateFile("component.spec.ts");
+        var kept = CreateFile("keep.spec.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().Equal(kept);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithIgnoreFiles_AppliesThemToTheirDirectory()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>());
+        WriteFile("# Storybook\n*.stories.ts\n", ".tscommentifyignore");
+        WriteFile("/legacy/\n", "src", ".gitignore");
+        var service = CreateFile("src", "service.ts");
+        CreateFile("src", "button.stories.ts");
+        CreateFile("src", "legacy", "old.ts");
+        var nestedLegacy = CreateFile("src", "app", "legacy", "new.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().BeEquivalentTo(new[] { service, nestedLegacy });
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithRespectGitIgnoreDisabled_IgnoresOnlyTsCommentifyIgnore()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:RespectGitIgnore"] = "false" });
+        WriteFile("generated.ts\n", ".gitignore");
+        var generated = CreateFile("generated.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().Equal(generated);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithDirectoryNameContainingDist_KeepsFile()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>());
+        var distribution = CreateFile("src", "distribution", "shipping.ts");
+        CreateFile("dist", "bundle.ts");
+        CreateFile("src", "types.d.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().Equal(distribution);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithConfiguredDefaultExcludes_ReplacesBuiltInDefaults()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:DefaultExcludes:0"] = "node_modules/" });
+        var bundle = CreateFile("dist", "bundle.ts");
+        CreateFile("node_modules", "lib", "index.ts");
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        files.Should().Equal(bundle);
+    }
+
+    [Fact]
+    public void IsSourceFile_InDirectoryIgnoredByNestedIgnoreFile_ReturnsFalse()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>());
+        WriteFile("legacy/\n", "src", ".tscommentifyignore");
+        var legacy = CreateFile("src", "legacy", "old.ts");
+        var service = CreateFile("src", "service.ts");
+
+        // Act
+        var legacyIncluded = processor.IsSourceFile(_testDirectory, legacy);
+        var serviceIncluded = processor.IsSourceFile(_testDirectory, service);
+
+        // Assert
+        legacyIncluded.Should().BeFalse();
+        serviceIncluded.Should().BeTrue();
     }
+
+    [Fact]
+    public void GetSourceFiles_InSubdirectory_AppliesIgnoreFilesOfParentsUpToTheRepositoryRoot()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>());
+        Directory.CreateDirectory(Path.Combine(_testDirectory, "repo", ".git"));
+        WriteFile("*.ts\n", ".gitignore");
+        WriteFile("generated/\n*.mock.ts\n", "repo", ".gitignore");
+        WriteFile("legacy/\n", "repo", "packages", ".tscommentifyignore");
+        var main = CreateFile("repo", "packages", "app", "main.ts");
+        CreateFile("repo", "packages", "app", "user.mock.ts");
+        CreateFile("repo", "packages", "app", "generated", "api.ts");
+        var legacy = CreateFile("repo", "packages", "app", "legacy", "old.ts");
+        var app = Path.Combine(_testDirectory, "repo", "packages", "app");
+
+        // Act
+        var files = processor.GetSourceFiles(app);
+        var legacyIncluded = processor.IsSourceFile(app, legacy);
+
+        // Assert
+        files.Should().Equal(main);
+        legacyIncluded.Should().BeFalse();
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithProjectConfigurationFiles_AppliesTheirPatternsToTheirDirectory()
+    {
+        // Arrange
+        Directory.CreateDirectory(Path.Combine(_testDirectory, ".git"));
+        WriteFile("{ \"FileProcessor\": { \"IgnorePatterns\": [ \"generated/\" ] } }", ProjectConfiguration.FileName);
+        WriteFile("{ \"FileProcessor\": { \"IgnorePatterns\": [ \"legacy/\", \"!*.spec.ts\" ] } }", "app", ProjectConfiguration.FileName);
+        var main = CreateFile("app", "main.ts");
+        var spec = CreateFile("app", "main.spec.ts");
+        var legacy = CreateFile("legacy", "old.ts");
+        CreateFile("app", "legacy", "old.ts");
+        CreateFile("app", "generated", "api.ts");
+        var rootSpec = CreateFile("root.spec.ts");
+
+        var configuration = new ConfigurationBuilder().Build();
+        var project = new ProjectConfiguration(configuration, new Dictionary<string, string?>());
+        var processor = new FileProcessor(CreateCommentifier(configuration), _gitMock.Object, _loggerMock.Object, configuration, project);
+
+        // Act
+        var files = processor.GetSourceFiles(_testDirectory);
+        var appFiles = processor.GetSourceFiles(Path.Combine(_testDirectory, "app"));
+
+        // Assert
+        files.Should().BeEquivalentTo(new[] { main, spec, legacy, rootSpec });
+        appFiles.Should().BeEquivalentTo(new[] { main, spec });
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithNestedProjectConfiguration_WalksTheDirectoryWithItsSettings()
+    {
+        // Arrange
+        Directory.CreateDirectory(Path.Combine(_testDirectory, ".git"));
+        WriteFile("{ \"FileProcessor\": { \"Extensions\": [ \".ts\" ] } }", ProjectConfiguration.FileName);
+        WriteFile("{ \"FileProcessor\": { \"Extensions\": [ \".ts\", \".vue\" ], \"RespectGitIgnore\": false, \"DefaultExcludes\": [ \"node_modules/\" ] } }", "web", ProjectConfiguration.FileName);
+        WriteFile("legacy/\n", "web", ".gitignore");
+        CreateFile("Root.vue");
+        var component = CreateFile("web", "Counter.vue");
+        var legacy = CreateFile("web", "legacy", "old.ts");
+        var dist = CreateFile("web", "dist", "bundle.ts");
+        CreateFile("web", "counter.spec.ts");
+
+        var configuration = new ConfigurationBuilder().Build();
+        var project = new ProjectConfiguration(configuration, new Dictionary<string, string?>());
+        var processor = new FileProcessor(CreateCommentifier(configuration), _gitMock.Object, _loggerMock.Object, configuration, project);
+
+        // Act
+        var files = processor.GetSourceFiles(Path.Combine(_testDirectory, "web"));
+
+        // Assert
+        files.Should().BeEquivalentTo(new[] { component, dist, legacy });
+    }
+
+    [Fact]
+    public void GetSourceFiles_ByDefault_IncludesOnlyTypeScriptFiles()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>());
+        var files = new[] { "a.ts", "b.mts", "c.cjs", "d.jsx", "e.vue", "f.tsx", "g.d.mts", "h.json" }
+            .Select(name => CreateFile(name))
+            .ToList();
+
+        // Act
+        var result = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        result.Should().Equal(files[0], files[1], files[5]);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithJavaScriptAndVueExtensions_IncludesThemButNotTheirTests()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>
+        {
+            ["FileProcessor:Extensions:0"] = ".ts",
+            ["FileProcessor:Extensions:1"] = ".cjs",
+            ["FileProcessor:Extensions:2"] = ".jsx",
+            ["FileProcessor:Extensions:3"] = ".vue"
+        });
+        var files = new[] { "a.ts", "c.cjs", "d.jsx", "e.vue", "f.spec.js", "g.spec.jsx", "h.mjs" }
+            .Select(name => CreateFile(name))
+            .ToList();
+
+        // Act
+        var result = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        result.Should().Equal(files[0], files[1], files[2], files[3]);
+    }
+
+    [Fact]
+    public void GetSourceFiles_WithConfiguredExtensions_IncludesOnlyThoseExtensions()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?>
+        {
+            ["FileProcessor:Extensions:0"] = ".ts",
+            ["FileProcessor:Extensions:1"] = "vue"
+        });
+        var service = CreateFile("service.ts");
+        var component = CreateFile("Counter.vue");
+        CreateFile("legacy.js");
+
+        // Act
+        var result = processor.GetSourceFiles(_testDirectory);
+
+        // Assert
+        result.Should().Equal(component, service);
+    }
+
+    private string CreateFile(params string[] segments) => WriteFile("function test() {}", segments);
+
+    private string WriteFile(string content, params string[] segments)
+    {
+        var path = Path.Combine(new[] { _testDirectory }.Concat(segments).ToArray());
+        Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+        File.WriteAllText(path, content);
+        return path;
+    }
+
+    private Commentifier CreateCommentifier(IConfiguration configuration) =>
+        new(_parserMock.Object, _generatorMock.Object, new Mock<ILogger<Commentifier>>().Object, configuration);
 }
@@ -1,8 +1,11 @@
 using FluentAssertions;
 using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
 using Moq;
-using TsCommentify.Cli.Services;
+using TsCommentify.Core;
+using TsCommentify.Core.Configuration;
+using TsCommentify.Core.Services;
 
 namespace TsCommentify.Tests.Services;
 
@@ -10,6 +13,7 @@ public class FileProcessorTests : IDisposable
 {
     private readonly Mock<ITypeScriptParser> _parserMock;
     private readonly Mock<ICommentGenerator> _generatorMock;
+    private readonly Mock<IGitChangeProvider> _gitMock;
     private readonly Mock<ILogger<FileProcessor>> _loggerMock;
     private readonly Mock<IConfiguration> _configurationMock;
     private readonly FileProcessor _processor;
@@ -19,6 +23,7 @@ public class FileProcessorTests : IDisposable
     {
         _parserMock = new Mock<ITypeScriptParser>();
         _generatorMock = new Mock<ICommentGenerator>();
+        _gitMock = new Mock<IGitChangeProvider>();
         _loggerMock = new Mock<ILogger<FileProcessor>>();
         _configurationMock = new Mock<IConfiguration>();
         
@@ -27,7 +32,7 @@ public class FileProcessorTests : IDisposable
         configSection.Setup(x => x.GetChildren()).Returns(new List<IConfigurationSection>());
         _configurationMock.Setup(x => x.GetSection(It.IsAny<string>())).Returns(configSection.Object);
         
-        _processor = new FileProcessor(_parserMock.Object, _generatorMock.Object, _loggerMock.Object, _configurationMock.Object);
+        _processor = new FileProcessor(CreateCommentifier(_configurationMock.Object), _gitMock.Object, _loggerMock.Object, _configurationMock.Object);
         _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
         Directory.CreateDirectory(_testDirectory);
     }
@@ -50,7 +55,7 @@ public class FileProcessorTests : IDisposable
         await _processor.ProcessFileAsync(filePath);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -64,7 +69,7 @@ public class FileProcessorTests : IDisposable
         await _processor.ProcessFileAsync(filePath);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -80,14 +85,14 @@ public class FileProcessorTests : IDisposable
             new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: true)
         };
 
-        _parserMock.Setup(p => p.ParseFunctions(filePath))
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
             .Returns(functions);
 
         // Act
         await _processor.ProcessFileAsync(filePath);
 
         // Assert
-        _generatorMock.Verify(g => g.GenerateComment(It.IsAny<FunctionInfo>()), Times.Never);
+        _generatorMock.Verify(g => g.GenerateCommentAsync(It.IsAny<FunctionInfo>(), It.IsAny<CancellationToken>()), Times.Never);
         File.ReadAllText(filePath).Should().Be(content);
     }
 
@@ -102,17 +107,17 @@ public class FileProcessorTests : IDisposable
         var function = new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: false);
         var functions = new List<FunctionInfo> { function };
 
-        _parserMock.Setup(p => p.ParseFunctions(filePath))
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
             .Returns(functions);
 
-        _generatorMock.Setup(g => g.GenerateComment(function))
-            .Returns("/**\n * Test function\n */");
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test function\n */");
 
         // Act
         await _processor.ProcessFileAsync(filePath);
 
         // Assert
-        _generatorMock.Verify(g => g.GenerateComment(function), Times.Once);
+        _generatorMock.Verify(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()), Times.Once);
         var result = File.ReadAllText(filePath);
         result.Should().Contain("/**");
         result.Should().Contain("* Test function");
@@ -130,11 +135,11 @@ public class FileProcessorTests : IDisposable
         var function = new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: false);
         var functions = new List<FunctionInfo> { function };
 
-        _parserMock.Setup(p => p.ParseFunctions(filePath))
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
             .Returns(functions);
 
-        _generatorMock.Setup(g => g.GenerateComment(function))
-            .Returns("/**\n * Test function\n */");
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test function\n */");
 
         // Act
         await _processor.ProcessFileAsync(filePath);
@@ -159,20 +164,20 @@ function test2() {}";
         var function2 = new FunctionInfo("test2", 2, "function test2() {}", new List<ParameterInfo>(), null, HasComment: false);
         var functions = new List<FunctionInfo> { function1, function2 };
 
-        _parserMock.Setup(p => p.ParseFunctions(filePath))
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
             .Returns(functions);
 
-        _generatorMock.Setup(g => g.GenerateComment(function1))
-            .Returns("/**\n * Test1 function\n */");
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function1, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test1 function\n */");
 
-        _generatorMock.Setup(g => g.GenerateComment(function2))
-            .Returns("/**\n * Test2 function\n */");
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function2, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test2 function\n */");
 
         // Act
         await _processor.ProcessFileAsync(filePath);
 
         // Assert
-        _generatorMock.Verify(g => g.GenerateComment(It.IsAny<FunctionInfo>()), Times.Exactly(2));
+        _generatorMock.Verify(g => g.GenerateCommentAsync(It.IsAny<FunctionInfo>(), It.IsAny<CancellationToken>()), Times.Exactly(2));
         var result = File.ReadAllText(filePath);
         result.Should().Contain("Test1 function");
         result.Should().Contain("Test2 function");
@@ -188,7 +193,7 @@ function test2() {}";
         await _processor.ProcessDirectoryAsync(dirPath);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -200,14 +205,14 @@ function test2() {}";
         File.WriteAllText(file1, "function test1() {}");
         File.WriteAllText(file2, "function test2() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await _processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(It.IsAny<string>()), Times.AtLeast(2));
+        _parserMock.Verify(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()), Times.AtLeast(2));
     }
 
     [Fact]
@@ -227,16 +232,16 @@ function test2() {}";
         File.WriteAllText(nodeModulesFile, "function lib() {}");
         File.WriteAllText(distFile, "function output() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await _processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(validFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(nodeModulesFile), Times.Never);
-        _parserMock.Verify(p => p.ParseFunctions(distFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(validFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(nodeModulesFile, It.IsAny<string>()), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(distFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -249,15 +254,15 @@ function test2() {}";
         File.WriteAllText(regularFile, "function test() {}");
         File.WriteAllText(definitionFile, "declare function lib(): void;");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await _processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(regularFile), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(definitionFile), Times.Never);
+        _parserMock.Verify(p => p.ParseDeclarations(regularFile, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(definitionFile, It.IsAny<string>()), Times.Never);
     }
 
     [Fact]
@@ -273,14 +278,438 @@ function test2() {}";
         File.WriteAllText(file1, "function test1() {}");
         File.WriteAllText(file2, "function test2() {}");
 
-        _parserMock.Setup(p => p.ParseFunctions(It.IsAny<string>()))
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
             .Returns(new List<FunctionInfo>());
 
         // Act
         await _processor.ProcessDirectoryAsync(_testDirectory);
 
         // Assert
-        _parserMock.Verify(p => p.ParseFunctions(file1), Times.Once);
-        _parserMock.Verify(p => p.ParseFunctions(file2), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(file1, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(file2, It.IsAny<string>()), Times.Once);
     }
+
+    [Fact]
+    public async Task ProcessFileAsync_InDryRunMode_ReturnsDiffWithoutModifyingFile()
+    {
+        // Arrange
+        var processor = CreateProcessorWithMode(ProcessingMode.DryRun);
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "function test() {}";
+        File.WriteAllText(filePath, content);
+
+        var function = new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
+            .Returns(new List<FunctionInfo> { function });
+
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test function\n */");
+
+        // Act
+        var result = await processor.ProcessFileAsync(filePath);
+
+        // Assert
+        File.ReadAllText(filePath).Should().Be(content);
+        result.Modified.Should().BeFalse();
+        result.UndocumentedDeclarations.Should().ContainSingle();
+        result.Diff.Should().Contain("@@ -1,1 +1,4 @@");
+        result.Diff.Should().Contain("+/**");
+        result.Diff.Should().Contain("+ * Test function");
+        result.Diff.Should().Contain(" function test() {}");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_InCheckMode_DoesNotModifyFile()
+    {
+        // Arrange
+        var processor = CreateProcessorWithMode(ProcessingMode.Check);
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "function test() {}";
+        File.WriteAllText(filePath, content);
+
+        var function = new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
+            .Returns(new List<FunctionInfo> { function });
+
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test function\n */");
+
+        // Act
+        var result = await processor.ProcessFileAsync(filePath);
+
+        // Assert
+        File.ReadAllText(filePath).Should().Be(content);
+        result.UndocumentedDeclarations.Should().HaveCount(1);
+        result.Diff.Should().NotBeNullOrEmpty();
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_InWriteMode_ReportsModifiedFile()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "function test() {}";
+        File.WriteAllText(filePath, content);
+
+        var function = new FunctionInfo("test", 1, content, new List<ParameterInfo>(), null, HasComment: false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
+            .Returns(new List<FunctionInfo> { function });
+
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Test function\n */");
+
+        // Act
+        var result = await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.Modified.Should().BeTrue();
+        result.Diff.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task ProcessDirectoryAsync_InDryRunMode_ReturnsResultPerFile()
+    {
+        // Arrange
+        var processor = CreateProcessorWithMode(ProcessingMode.DryRun);
+        var file1 = Path.Combine(_testDirectory, "test1.ts");
+        var file2 = Path.Combine(_testDirectory, "test2.ts");
+        File.WriteAllText(file1, "function test1() {}");
+        File.WriteAllText(file2, "function test2() {}");
+
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()))
+            .Returns(new List<FunctionInfo>());
+
+        // Act
+        var results = await processor.ProcessDirectoryAsync(_testDirectory);
+
+        // Assert
+        results.Should().HaveCount(2);
+        File.ReadAllText(file1).Should().Be("function test1() {}");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithUpdateExisting_ReplacesStaleComment()
+    {
+        // Arrange
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:UpdateExisting"] = "true" });
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "class A {\n  /**\n   * Old.\n   */\n  test(id: string) {}\n}";
+        File.WriteAllText(filePath, content);
+
+        var function = new FunctionInfo("test", 5, "test(id: string)", new List<ParameterInfo>(), null, HasComment: true)
+        {
+            Comment = new SourceRange(12, 35, 2, 4)
+        };
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
+            .Returns(new List<FunctionInfo> { function });
+
+        _generatorMock.Setup(g => g.UpdateCommentAsync(function, "  /**\n   * Old.\n   */", It.IsAny<CancellationToken>()))
+            .ReturnsAsync("/**\n * Old.\n *\n * @param {string} id - The id\n */");
+
+        // Act
+        var result = await processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.Modified.Should().BeTrue();
+        result.UpdatedDeclarations.Should().ContainSingle();
+        File.ReadAllLines(filePath).Should().Equal(
+            "class A {",
+            "  /**",
+            "   * Old.",
+            "   *",
+            "   * @param {string} id - The id",
+            "   */",
+            "  test(id: string) {}",
+            "}");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithoutUpdateExisting_LeavesDocumentedFunctionsAlone()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        var content = "/** Old. */\nfunction test(id: string) {}";
+        File.WriteAllText(filePath, content);
+
+        var function = new FunctionInfo("test", 2, "function test(id: string)", new List<ParameterInfo>(), null, HasComment: true)
+        {
+            Comment = new SourceRange(0, 11, 1, 1)
+        };
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>()))
+            .Returns(new List<FunctionInfo> { function });
+
+        // Act
+        var result = await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.Modified.Should().BeFalse();
+        _generatorMock.Verify(g => g.UpdateCommentAsync(It.IsAny<FunctionInfo>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+        File.ReadAllText(filePath).Should().Be(content);
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithSince_OnlyCommentsDeclarationsOnChangedLines()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "test.ts");
+        await File.WriteAllTextAsync(filePath, "function unchanged() {}\n\nfunction added() {}\n");
+        var unchanged = new FunctionInfo("unchanged", 1, "function unchanged()", new List<ParameterInfo>(), null, false);
+        var added = new FunctionInfo("added", 3, "function added()", new List<ParameterInfo>(), null, false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(new List<DeclarationInfo> { unchanged, added });
+        _generatorMock.Setup(g => g.GenerateCommentAsync(added, It.IsAny<CancellationToken>())).ReturnsAsync("/** Added. */");
+        _gitMock.Setup(g => g.GetChangesAsync(_testDirectory, "main", false)).ReturnsAsync(new Dictionary<string, ChangedLines>
+        {
+            [filePath] = new ChangedLines(new List<LineRange> { new(3, 3) })
+        });
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:Since"] = "main" });
+
+        // Act
+        var result = await processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.UndocumentedDeclarations.Should().ContainSingle().Which.Should().Be(added);
+        _generatorMock.Verify(g => g.GenerateCommentAsync(unchanged, It.IsAny<CancellationToken>()), Times.Never);
+        File.ReadAllText(filePath).Should().Be("function unchanged() {}\n\n/** Added. */\nfunction added() {}\n");
+    }
+
+    [Fact]
+    public async Task ProcessDirectoryAsync_WithStaged_SkipsFilesWithoutChanges()
+    {
+        // Arrange
+        var changed = Path.Combine(_testDirectory, "changed.ts");
+        var untouched = Path.Combine(_testDirectory, "untouched.ts");
+        await File.WriteAllTextAsync(changed, "function run() {}");
+        await File.WriteAllTextAsync(untouched, "function stop() {}");
+        _parserMock.Setup(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>())).Returns(new List<DeclarationInfo>());
+        _gitMock.Setup(g => g.GetChangesAsync(_testDirectory, null, true)).ReturnsAsync(new Dictionary<string, ChangedLines>
+        {
+            [changed] = ChangedLines.WholeFile
+        });
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:Staged"] = "true" });
+
+        // Act
+        var results = await processor.ProcessDirectoryAsync(_testDirectory);
+
+        // Assert
+        results.Single(r => r.FilePath == untouched).IsSkipped.Should().BeTrue();
+        results.Single(r => r.FilePath == changed).IsSkipped.Should().BeFalse();
+        _parserMock.Verify(p => p.ParseDeclarations(changed, It.IsAny<string>()), Times.Once);
+        _parserMock.Verify(p => p.ParseDeclarations(untouched, It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithCrlfFile_KeepsLineEndings()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "windows.ts");
+        await File.WriteAllTextAsync(filePath, "  function run() {}\r\n");
+        var function = new FunctionInfo("run", 1, "function run()", new List<ParameterInfo>(), null, false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(new List<DeclarationInfo> { function });
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>())).ReturnsAsync("/**\n * Run.\n */");
+
+        // Act
+        await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        File.ReadAllText(filePath).Should().Be("  /**\r\n   * Run.\r\n   */\r\n  function run() {}\r\n");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithMixedLineEndings_ChangesOnlyTheInsertedLines()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "mixed.ts");
+        await File.WriteAllTextAsync(filePath, "let a = 1;\r\nlet b = 2;\n  function run() {}\r\nlet c = 3;\n", new System.Text.UTF8Encoding(true));
+        var function = new FunctionInfo("run", 3, "function run()", new List<ParameterInfo>(), null, false);
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(new List<DeclarationInfo> { function });
+        _generatorMock.Setup(g => g.GenerateCommentAsync(function, It.IsAny<CancellationToken>())).ReturnsAsync("/**\n * Run.\n */");
+
+        // Act
+        await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        File.ReadAllBytes(filePath).Take(3).Should().Equal(0xEF, 0xBB, 0xBF);
+        File.ReadAllText(filePath).Should().Be("let a = 1;\r\nlet b = 2;\n  /**\r\n   * Run.\r\n   */\r\n  function run() {}\r\nlet c = 3;\n");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithSuppressedDeclaration_DoesNotAddComment()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "component.ts");
+        await File.WriteAllTextAsync(filePath, "// tscommentify-disable-next-line\nfunction ngOnInit() {}");
+        var suppressed = new FunctionInfo("ngOnInit", 2, "function ngOnInit()", new List<ParameterInfo>(), null, false) { IsSuppressed = true };
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(new List<DeclarationInfo> { suppressed });
+
+        // Act
+        var result = await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.Modified.Should().BeFalse();
+        result.IsSkipped.Should().BeTrue();
+        result.UndocumentedDeclarations.Should().BeEmpty();
+        _generatorMock.Verify(g => g.GenerateCommentAsync(It.IsAny<DeclarationInfo>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ProcessDirectoryAsync_WithFailingFile_ReportsErrorAndProcessesOtherFiles()
+    {
+        // Arrange
+        var broken = Path.Combine(_testDirectory, "broken.ts");
+        var valid = Path.Combine(_testDirectory, "valid.ts");
+        await File.WriteAllTextAsync(broken, "function broken() {}");
+        await File.WriteAllTextAsync(valid, "function valid() {}");
+        _parserMock.Setup(p => p.ParseDeclarations(valid, It.IsAny<string>()))
+            .Returns(new List<DeclarationInfo> { new FunctionInfo("valid", 1, "function valid()", new List<ParameterInfo>(), null, false) });
+        _parserMock.Setup(p => p.ParseDeclarations(broken, It.IsAny<string>()))
+            .Throws(new IOException("Permission denied"));
+        _generatorMock.Setup(g => g.GenerateCommentAsync(It.IsAny<DeclarationInfo>(), It.IsAny<CancellationToken>())).ReturnsAsync("/** Valid. */");
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:MaxDegreeOfParallelism"] = "2" });
+
+        // Act
+        var results = await processor.ProcessDirectoryAsync(_testDirectory);
+
+        // Assert
+        results.Should().HaveCount(2);
+        results.Single(r => r.FilePath == broken).Error.Should().Be("Permission denied");
+        results.Single(r => r.FilePath == valid).Modified.Should().BeTrue();
+        File.ReadAllText(valid).Should().StartWith("/** Valid. */");
+    }
+
+    [Fact]
+    public async Task ProcessDirectoryAsync_WhenCancelled_ProcessesNoMoreFiles()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}");
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "b.ts"), "function b() {}");
+        using var cancellation = new CancellationTokenSource();
+        cancellation.Cancel();
+
+        // Act
+        var results = await _processor.ProcessDirectoryAsync(_testDirectory, cancellation.Token);
+
+        // Assert
+        results.Should().BeEmpty();
+        _parserMock.Verify(p => p.ParseDeclarations(It.IsAny<string>(), It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public void ProcessingSummary_Create_CountsFilesAndComments()
+    {
+        // Arrange
+        var function = new FunctionInfo("run", 1, "function run()", new List<ParameterInfo>(), null, false);
+        var results = new List<FileProcessingResult>
+        {
+            new("a.ts", new List<DeclarationInfo> { function, function }, null, Modified: true),
+            new("b.ts", new List<DeclarationInfo> { function }, "diff", Modified: false) { UpdatedDeclarations = new() { function } },
+            FileProcessingResult.Unchanged("c.ts"),
+            FileProcessingResult.Failed("d.ts", "Permission denied"),
+            FileProcessingResult.Skipped("e.js")
+        };
+
+        // Act
+        var summary = ProcessingSummary.Create(results, TimeSpan.FromSeconds(2));
+
+        // Assert
+        summary.FilesScanned.Should().Be(5);
+        summary.FilesSkipped.Should().Be(1);
+        summary.FilesModified.Should().Be(2);
+        summary.CommentsAdded.Should().Be(3);
+        summary.CommentsUpdated.Should().Be(1);
+        summary.Failures.Select(f => f.FilePath).Should().Equal("d.ts");
+        summary.Elapsed.Should().Be(TimeSpan.FromSeconds(2));
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithOverloads_DocumentsOnlyTheFirstSignatureByDefault()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "parse.ts");
+        File.WriteAllText(filePath, "function parse(a: string): Node;\nfunction parse(a: Buffer): Node;\nfunction parse(a: any): Node { return a; }\n");
+        var declarations = CreateOverloads();
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(declarations);
+        _generatorMock.Setup(g => g.GenerateCommentAsync(It.IsAny<DeclarationInfo>(), It.IsAny<CancellationToken>())).ReturnsAsync("/** Parses. */");
+
+        // Act
+        var result = await _processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.UndocumentedDeclarations.Should().Equal(declarations[0]);
+        File.ReadAllText(filePath).Should().StartWith("/** Parses. */\nfunction parse(a: string): Node;\nfunction parse(a: Buffer): Node;");
+    }
+
+    [Fact]
+    public async Task ProcessFileAsync_WithDocumentEveryOverload_DocumentsEverySignatureButNotTheImplementation()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "parse.ts");
+        File.WriteAllText(filePath, "function parse(a: string): Node;\nfunction parse(a: Buffer): Node;\nfunction parse(a: any): Node { return a; }\n");
+        var declarations = CreateOverloads();
+        _parserMock.Setup(p => p.ParseDeclarations(filePath, It.IsAny<string>())).Returns(declarations);
+        _generatorMock.Setup(g => g.GenerateCommentAsync(It.IsAny<DeclarationInfo>(), It.IsAny<CancellationToken>())).ReturnsAsync("/** Parses. */");
+        var processor = CreateProcessor(new Dictionary<string, string?> { ["FileProcessor:DocumentEveryOverload"] = "true" });
+
+        // Act
+        var result = await processor.ProcessFileAsync(filePath);
+
+        // Assert
+        result.UndocumentedDeclarations.Should().Equal(declarations[0], declarations[1]);
+        File.ReadAllText(filePath).Should().EndWith("function parse(a: Buffer): Node;\nfunction parse(a: any): Node { return a; }\n");
+    }
+
+    [Fact]
+    public async Task ProcessDirectoryAsync_WithNestedProjectConfiguration_CommentsEachFileWithItsSettings()
+    {
+        // Arrange
+        Directory.CreateDirectory(Path.Combine(_testDirectory, ".git"));
+        Directory.CreateDirectory(Path.Combine(_testDirectory, "legacy"));
+        File.WriteAllText(Path.Combine(_testDirectory, ProjectConfiguration.FileName), "{ \"CommentTemplates\": { \"Style\": \"TsDoc\" } }");
+        File.WriteAllText(Path.Combine(_testDirectory, "legacy", ProjectConfiguration.FileName), "{ \"FileProcessor\": { \"Visibility\": \"Exported\" } }");
+
+        var app = Path.Combine(_testDirectory, "app.ts");
+        var legacy = Path.Combine(_testDirectory, "legacy", "old.ts");
+        File.WriteAllText(app, "function add(a: number): number { return a; }\n");
+        File.WriteAllText(legacy, "function helper(a: number): number { return a; }\nexport function run(a: number): number { return a; }\n");
+
+        var project = new ProjectConfiguration(new ConfigurationBuilder().Build(), new Dictionary<string, string?>());
+        using var services = new ServiceCollection()
+            .AddSingleton(project)
+            .AddTsCommentify(project.GetConfiguration(_testDirectory))
+            .BuildServiceProvider();
+
+        // Act
+        var results = await services.GetRequiredService<IFileProcessor>().ProcessDirectoryAsync(_testDirectory);
+
+        // Assert
+        results.SelectMany(r => r.UndocumentedDeclarations).Select(d => d.Name).Should().Equal("add", "run");
+        File.ReadAllText(app).Should().Contain(" * @param a - ");
+        File.ReadAllText(legacy).Should().StartWith("function helper").And.Contain(" * @param a - ");
+    }
+
+    private static List<DeclarationInfo> CreateOverloads() => new()
+    {
+        new FunctionInfo("parse", 1, "function parse(a: string): Node", new List<ParameterInfo> { new("a", "string") }, "Node", false) { IsSignature = true, OverloadIndex = 0 },
+        new FunctionInfo("parse", 2, "function parse(a: Buffer): Node", new List<ParameterInfo> { new("a", "Buffer") }, "Node", false) { IsSignature = true, OverloadIndex = 1 },
+        new FunctionInfo("parse", 3, "function parse(a: any): Node", new List<ParameterInfo> { new("a", "any") }, "Node", false) { IsOverloadImplementation = true }
+    };
+
+    private FileProcessor CreateProcessorWithMode(ProcessingMode mode)
+    {
+        return CreateProcessor(new Dictionary<string, string?>
+        {
+            ["FileProcessor:Mode"] = mode.ToString()
+        });
+    }
+
+    private FileProcessor CreateProcessor(Dictionary<string, string?> settings)
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(settings)
+            .Build();
+
+        return new FileProcessor(CreateCommentifier(configuration), _gitMock.Object, _loggerMock.Object, configuration);
+    }
+
+    private Commentifier CreateCommentifier(IConfiguration configuration) =>
+        new(_parserMock.Object, _generatorMock.Object, new Mock<ILogger<Commentifier>>().Object, configuration);
 }
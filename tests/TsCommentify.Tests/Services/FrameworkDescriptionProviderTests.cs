@@ -0,0 +1,143 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class FrameworkDescriptionProviderTests
+{
+    private const string AngularSource = @"@Component({ selector: 'app-user-dashboard', template: '' })
+export class UserDashboardComponent implements OnInit, OnChanges {
+  @Input() userId: string = '';
+  @Output() userUpdated = new EventEmitter<User>();
+  maxItems = input<number>(50);
+  title = 'Dashboard';
+
+  constructor(private userService: UserService, private zone: NgZone) {}
+
+  ngOnInit(): void {}
+
+  ngOnChanges(changes: SimpleChanges): void {}
+}
+
+@Injectable({ providedIn: 'root' })
+export class UserService {}";
+
+    private const string ReactSource = @"interface UserCardProps {
+  user: User;
+}
+
+export function UserCard({ user }: UserCardProps) {
+  return <div>{user.name}</div>;
+}
+
+export function useUserData(id: string) {
+  return useState(id);
+}
+
+export function formatUser(user: User): string {
+  return user.name;
+}";
+
+    private readonly TypeScriptParser _parser = new(new Mock<ILogger<TypeScriptParser>>().Object);
+
+    [Fact]
+    public async Task Describe_WithAngularEnabled_DescribesHooksBindingsAndInjection()
+    {
+        // Arrange
+        var declarations = _parser.ParseDeclarations("dashboard.component.ts", AngularSource).ToList();
+        var provider = CreateProvider(angular: true, react: false);
+
+        // Act
+        var result = await DescribeAllAsync(provider, declarations);
+
+        // Assert
+        result["UserDashboardComponent"].Summary.Should().Be("Angular component rendering the user dashboard.");
+        result["UserService"].Summary.Should().Be("Angular injectable user service.");
+        result["userId"].Summary.Should().Be("Input bound by the parent component: the user id.");
+        result["maxItems"].Summary.Should().Be("Input bound by the parent component: the max items.");
+        result["userUpdated"].Summary.Should().Be("Output emitted to the parent component: user updated.");
+        result["title"].Summary.Should().Be("The title.");
+        result["constructor"].Summary.Should().Be("Creates the user dashboard component with its injected dependencies.");
+        result["constructor"].Parameters["userService"].Should().Be("The injected user service");
+        result["constructor"].Parameters["zone"].Should().Be("The injected ng zone");
+        result["ngOnInit"].Summary.Should().StartWith("Angular lifecycle hook invoked once after the first change detection");
+        result["ngOnChanges"].Parameters["changes"].Should().Be("The changed input properties with their previous and current values");
+    }
+
+    [Fact]
+    public async Task Describe_WithReactEnabled_DescribesComponentsHooksAndProps()
+    {
+        // Arrange
+        var declarations = _parser.ParseDeclarations("user-card.tsx", ReactSource).ToList();
+        var provider = CreateProvider(angular: false, react: true);
+
+        // Act
+        var result = await DescribeAllAsync(provider, declarations);
+
+        // Assert
+        result["UserCardProps"].Summary.Should().Be("Props of the UserCard component.");
+        result["UserCard"].Summary.Should().Be("React component rendering the user card.");
+        result["UserCard"].Parameters["param0"].Should().Be("The component props");
+        result["UserCard"].Parameters["param0.user"].Should().Be("The user");
+        result["useUserData"].Summary.Should().Be("Custom React hook for the user data.");
+        result["formatUser"].Summary.Should().Be("Format User.");
+    }
+
+    [Fact]
+    public async Task Describe_WithMarkupOutsideJsx_DescribesOnlyJsxFunctionsAsComponents()
+    {
+        // Arrange
+        var markupInString = _parser.ParseDeclarations("table.ts", @"export function TableRow(cells: string[]) {
+  return '<tr>' + cells.map(cell => `<td>${cell}</td>`).join('') + '</tr>';
+}").ToList();
+        var arrowComponent = _parser.ParseDeclarations("badge.tsx", "export const Badge = () => <span className=\"badge\" />;").ToList();
+        var provider = CreateProvider(angular: false, react: true);
+
+        // Act
+        var tableRow = await provider.DescribeAsync(markupInString.Single(d => d.Name == "TableRow"));
+        var badge = await provider.DescribeAsync(arrowComponent.Single(d => d.Name == "Badge"));
+
+        // Assert
+        tableRow.Summary.Should().Be("Table Row.");
+        badge.Summary.Should().Be("React component rendering the badge.");
+    }
+
+    [Fact]
+    public async Task Describe_WithFrameworkDisabled_UsesInnerDescription()
+    {
+        // Arrange
+        var declarations = _parser.ParseDeclarations("dashboard.component.ts", AngularSource).ToList();
+        var provider = CreateProvider(angular: false, react: true);
+
+        // Act
+        var result = await provider.DescribeAsync(declarations.Single(d => d.Name == "ngOnInit"));
+
+        // Assert
+        result.Summary.Should().Be("Ng On Init.");
+    }
+
+    private static FrameworkDescriptionProvider CreateProvider(bool angular, bool react)
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["Frameworks:Angular"] = angular.ToString(),
+                ["Frameworks:React"] = react.ToString()
+            })
+            .Build();
+
+        return new FrameworkDescriptionProvider(configuration, new HeuristicDescriptionProvider());
+    }
+
+    private static async Task<Dictionary<string, DeclarationDescription>> DescribeAllAsync(IDescriptionProvider provider, List<DeclarationInfo> declarations)
+    {
+        var descriptions = new Dictionary<string, DeclarationDescription>();
+        foreach (var declaration in declarations)
+            descriptions[declaration.Name] = await provider.DescribeAsync(declaration);
+
+        return descriptions;
+    }
+}
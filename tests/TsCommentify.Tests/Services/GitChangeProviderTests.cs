@@ -0,0 +1,138 @@
+using System.Diagnostics;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class GitChangeProviderTests : IDisposable
+{
+    private readonly GitChangeProvider _provider;
+    private readonly string _testDirectory;
+
+    public GitChangeProviderTests()
+    {
+        _provider = new GitChangeProvider(new Mock<ILogger<GitChangeProvider>>().Object);
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(_testDirectory);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public void ParseDiff_WithHunks_ReturnsChangedLineRanges()
+    {
+        // Arrange
+        var diff = string.Join('\n',
+            "diff --git a/src/a.ts b/src/a.ts",
+            "index 1111111..2222222 100644",
+            "--- a/src/a.ts",
+            "+++ b/src/a.ts",
+            "@@ -3 +3,2 @@ function a() {",
+            "-old",
+            "+++ counter",
+            "+new",
+            "@@ -10,2 +11,0 @@",
+            "-gone",
+            "-gone",
+            "diff --git a/b.ts b/b.ts",
+            "deleted file mode 100644",
+            "--- a/b.ts",
+            "+++ /dev/null",
+            "@@ -1 +0,0 @@",
+            "-removed");
+
+        // Act
+        var changes = GitChangeProvider.ParseDiff(diff, _testDirectory);
+
+        // Assert
+        changes.Keys.Should().Equal(Path.Combine(_testDirectory, "src", "a.ts"));
+        changes.Values.Single().Ranges.Should().Equal(new LineRange(3, 4), new LineRange(11, 12));
+    }
+
+    [Fact]
+    public async Task GetChangesAsync_WithSince_ReturnsModifiedAndUntrackedFiles()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}\nfunction b() {}\n");
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "unchanged.ts"), "function c() {}\n");
+        await InitializeRepositoryAsync();
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}\nfunction b(x: number) {}\n");
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "new.ts"), "function d() {}\n");
+
+        // Act
+        var changes = await _provider.GetChangesAsync(_testDirectory, "HEAD", staged: false);
+
+        // Assert
+        changes.Keys.Select(Path.GetFileName).Should().BeEquivalentTo(new[] { "a.ts", "new.ts" });
+        changes[Path.Combine(_testDirectory, "a.ts")].Ranges.Should().Equal(new LineRange(2, 2));
+        changes[Path.Combine(_testDirectory, "new.ts")].Should().Be(ChangedLines.WholeFile);
+    }
+
+    [Fact]
+    public async Task GetChangesAsync_WithStaged_ReturnsOnlyStagedFiles()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}\n");
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "b.ts"), "function b() {}\n");
+        await InitializeRepositoryAsync();
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}\nfunction added() {}\n");
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "b.ts"), "function b(x: number) {}\n");
+        await RunGitAsync("add", "a.ts");
+
+        // Act
+        var changes = await _provider.GetChangesAsync(_testDirectory, null, staged: true);
+
+        // Assert
+        changes.Keys.Should().Equal(Path.Combine(_testDirectory, "a.ts"));
+        changes.Values.Single().Ranges.Should().Equal(new LineRange(2, 2));
+    }
+
+    [Fact]
+    public async Task GetChangesAsync_WithUnknownRevision_Throws()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "a.ts"), "function a() {}\n");
+        await InitializeRepositoryAsync();
+
+        // Act
+        var act = () => _provider.GetChangesAsync(_testDirectory, "no-such-branch", staged: false);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>().WithMessage("*no-such-branch*");
+    }
+
+    private async Task InitializeRepositoryAsync()
+    {
+        await RunGitAsync("init", "--quiet");
+        await RunGitAsync("add", "--all");
+        await RunGitAsync("-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "--quiet", "-m", "Initial commit");
+    }
+
+    private async Task RunGitAsync(params string[] arguments)
+    {
+        var startInfo = new ProcessStartInfo("git")
+        {
+            WorkingDirectory = _testDirectory,
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false
+        };
+
+        foreach (var argument in arguments)
+        {
+            startInfo.ArgumentList.Add(argument);
+        }
+
+        using var process = Process.Start(startInfo)!;
+        await process.WaitForExitAsync();
+        process.ExitCode.Should().Be(0);
+    }
+}
@@ -0,0 +1,146 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class HeuristicDescriptionProviderTests : IDisposable
+{
+    private readonly string _testDirectory;
+
+    public HeuristicDescriptionProviderTests()
+    {
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(_testDirectory);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public void Describe_WithVerbPrefixes_UsesTheVerbRules()
+    {
+        // Arrange
+        var provider = new HeuristicDescriptionProvider();
+
+        // Act
+        var get = provider.Describe(CreateFunction("getUserName", "string"));
+        var create = provider.Describe(CreateFunction("createOrder", "Order"));
+        var handler = provider.Describe(CreateFunction("onSubmit"));
+        var validate = provider.Describe(CreateFunction("validate", "void", new ParameterInfo("form", "Form")));
+
+        // Assert
+        get.Summary.Should().Be("Gets the user name.");
+        get.Returns.Should().Be("The user name");
+        create.Summary.Should().Be("Creates a new order.");
+        handler.Summary.Should().Be("Handles the submit event.");
+        validate.Summary.Should().Be("Validates the form.");
+    }
+
+    [Fact]
+    public void Describe_WithBooleanReturn_DescribesTheCondition()
+    {
+        // Arrange
+        var provider = new HeuristicDescriptionProvider();
+
+        // Act
+        var isActive = provider.Describe(CreateFunction("isActive", "boolean"));
+        var hasAccess = provider.Describe(CreateFunction("hasAccess", "boolean"));
+        var save = provider.Describe(CreateFunction("save", "boolean"));
+
+        // Assert
+        isActive.Summary.Should().Be("Checks whether it is active.");
+        isActive.Returns.Should().Be("True if it is active, false otherwise");
+        hasAccess.Summary.Should().Be("Checks whether it has access.");
+        hasAccess.Returns.Should().Be("True if it has access, false otherwise");
+        save.Returns.Should().Be("True if successful, false otherwise");
+    }
+
+    [Fact]
+    public void Describe_WithUnknownVerbOrNoReturnType_FallsBackToTheName()
+    {
+        // Arrange
+        var provider = new HeuristicDescriptionProvider();
+
+        // Act
+        var result = provider.Describe(CreateFunction("recalculateTotals", null));
+
+        // Assert
+        result.Summary.Should().Be("Recalculate Totals.");
+        result.Returns.Should().BeNull();
+        result.Yields.Should().BeNull();
+    }
+
+    [Fact]
+    public void Describe_WithParametersAndPatterns_DescribesEachBinding()
+    {
+        // Arrange
+        var provider = new HeuristicDescriptionProvider();
+        var function = CreateFunction(
+            "configure",
+            "void",
+            new ParameterInfo("userId", "string"),
+            new ParameterInfo("param1", "Options") { Kind = ParameterKind.ObjectPattern, Properties = new() { new("maxRetries", null) } },
+            new ParameterInfo("param2", null) { Kind = ParameterKind.ArrayPattern, Properties = new() { new("first", null), new("second", null) } });
+
+        // Act
+        var result = provider.Describe(function);
+
+        // Assert
+        result.Parameters.Should().BeEquivalentTo(new Dictionary<string, string>
+        {
+            ["userId"] = "The user id",
+            ["param1"] = "The options",
+            ["param1.maxRetries"] = "The max retries",
+            ["param2"] = "The first and second"
+        });
+    }
+
+    [Fact]
+    public void Describe_WithPropertyAndTypeDeclarations_UsesTheReadableName()
+    {
+        // Arrange
+        var provider = new HeuristicDescriptionProvider();
+
+        // Act
+        var property = provider.Describe(new PropertyInfo("maxRetries", 1, "maxRetries: number", "number", false));
+        var store = provider.Describe(new InterfaceInfo("UserStore", 1, "interface UserStore", false));
+
+        // Assert
+        property.Summary.Should().Be("The max retries.");
+        store.Summary.Should().Be("User Store.");
+        store.Parameters.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Describe_WithRuleFileAndConfiguredVerbs_PrefersConfiguredVerbs()
+    {
+        // Arrange
+        var ruleFile = Path.Combine(_testDirectory, "rules.json");
+        File.WriteAllText(ruleFile, """{ "Verbs": { "sync": "Synchronizes {object}.", "render": "Renders {object}." } }""");
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["DescriptionProvider:RuleFiles:0"] = ruleFile,
+                ["DescriptionProvider:Verbs:render"] = "Draws {object} on the canvas."
+            })
+            .Build();
+        var provider = new HeuristicDescriptionProvider(configuration);
+
+        // Act
+        var sync = provider.Describe(CreateFunction("syncSettings"));
+        var render = provider.Describe(CreateFunction("renderChart"));
+
+        // Assert
+        sync.Summary.Should().Be("Synchronizes the settings.");
+        render.Summary.Should().Be("Draws the chart on the canvas.");
+    }
+
+    private static FunctionInfo CreateFunction(string name, string? returnType = "void", params ParameterInfo[] parameters) =>
+        new(name, 1, $"function {name}()", parameters.ToList(), returnType, false);
+}
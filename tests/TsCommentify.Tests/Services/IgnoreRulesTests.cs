@@ -0,0 +1,67 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class IgnoreRulesTests
+{
+    private static readonly string Root = Path.Combine(Path.GetTempPath(), "project");
+
+    [Fact]
+    public void IsIgnored_WithPatternWithoutSlash_MatchesNameAtAnyDepth()
+    {
+        // Arrange
+        var rules = new IgnoreRules(Root, Array.Empty<string>(), new[] { "*.generated.ts" });
+
+        // Act
+        var nested = rules.IsIgnored(PathOf("src", "api", "client.generated.ts"), isDirectory: false);
+        var other = rules.IsIgnored(PathOf("src", "api", "client.ts"), isDirectory: false);
+
+        // Assert
+        nested.Should().BeTrue();
+        other.Should().BeFalse();
+    }
+
+    [Fact]
+    public void IsIgnored_WithAnchoredPattern_MatchesOnlyFromItsDirectory()
+    {
+        // Arrange
+        var rules = new IgnoreRules(Root, Array.Empty<string>(), new[] { "/build", "apps/*/e2e/**" });
+
+        // Act
+        var rootBuild = rules.IsIgnored(PathOf("build"), isDirectory: true);
+        var nestedBuild = rules.IsIgnored(PathOf("src", "build"), isDirectory: true);
+        var e2e = rules.IsIgnored(PathOf("apps", "web", "e2e", "specs", "login.ts"), isDirectory: false);
+        var deeperApp = rules.IsIgnored(PathOf("apps", "web", "admin", "e2e", "login.ts"), isDirectory: false);
+
+        // Assert
+        rootBuild.Should().BeTrue();
+        nestedBuild.Should().BeFalse();
+        e2e.Should().BeTrue();
+        deeperApp.Should().BeFalse();
+    }
+
+    [Fact]
+    public void IsIgnored_WithDirectoryPatternAndNegation_UsesLastMatch()
+    {
+        // Arrange
+        var rules = new IgnoreRules(Root, new[] { "dist/", "*.d.ts" }, new[] { "!global.d.ts" });
+
+        // Act
+        var distDirectory = rules.IsIgnored(PathOf("dist"), isDirectory: true);
+        var distFile = rules.IsIgnored(PathOf("dist"), isDirectory: false);
+        var distribution = rules.IsIgnored(PathOf("distribution"), isDirectory: true);
+        var declarations = rules.IsIgnored(PathOf("types.d.ts"), isDirectory: false);
+        var global = rules.IsIgnored(PathOf("global.d.ts"), isDirectory: false);
+
+        // Assert
+        distDirectory.Should().BeTrue();
+        distFile.Should().BeFalse();
+        distribution.Should().BeFalse();
+        declarations.Should().BeTrue();
+        global.Should().BeFalse();
+    }
+
+    private static string PathOf(params string[] segments) =>
+        Path.Combine(new[] { Root }.Concat(segments).ToArray());
+}
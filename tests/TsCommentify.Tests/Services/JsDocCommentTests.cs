@@ -0,0 +1,78 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class JsDocCommentTests
+{
+    [Fact]
+    public void Parse_WithTags_SplitsDescriptionAndTags()
+    {
+        // Arrange
+        var text = @"/**
+ * Fetches a user.
+ *
+ * @param {Map<string, { id: number }>} cache - The cache
+ * @param [options.limit=10] Maximum results
+ * @returns {User} The user
+ */";
+
+        // Act
+        var comment = JsDocComment.Parse(text);
+
+        // Assert
+        comment.Should().NotBeNull();
+        comment!.Description.Should().Equal("Fetches a user.");
+        comment.Tags.Should().HaveCount(3);
+        comment.Tags[0].Type.Should().Be("Map<string, { id: number }>");
+        comment.Tags[0].ParameterName.Should().Be("cache");
+        comment.Tags[0].Description.Should().Be("The cache");
+        comment.Tags[0].BlankLineBefore.Should().BeTrue();
+        comment.Tags[1].Type.Should().BeNull();
+        comment.Tags[1].ParameterPath.Should().Be("options.limit");
+        comment.Tags[1].Description.Should().Be("Maximum results");
+        comment.Tags[2].Name.Should().Be("returns");
+        comment.Tags[2].ParameterName.Should().BeNull();
+    }
+
+    [Fact]
+    public void Render_WithUnchangedComment_ReproducesOriginal()
+    {
+        // Arrange
+        var text = @"/**
+ * Saves options.
+ * @param options Save settings
+ * @example
+ *   save({ force: true });
+ *
+ *   save({});
+ */".Replace("\r\n", "\n");
+
+        // Act
+        var rendered = JsDocComment.Parse(text)!.Render();
+
+        // Assert
+        rendered.Replace("\r\n", "\n").Should().Be(text);
+    }
+
+    [Fact]
+    public void Parse_WithSingleLineComment_ReadsDescription()
+    {
+        // Act
+        var comment = JsDocComment.Parse("/** Already documented. */");
+
+        // Assert
+        comment!.Description.Should().Equal("Already documented.");
+        comment.Tags.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Parse_WithBlockComment_ReturnsNull()
+    {
+        // Act
+        var comment = JsDocComment.Parse("/* Not JSDoc */");
+
+        // Assert
+        comment.Should().BeNull();
+    }
+}
@@ -0,0 +1,232 @@
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class LanguageServerTests
+{
+    private const string Uri = "file:///workspace/src/user.service.ts";
+
+    private const string Source = "export class UserService {\n  /** Loads everything. */\n  loadAll(): void {}\n\n  findUser(id: string): User {\n    return this.users[id];\n  }\n}\n\nexport function formatName(first: string, last: string): string {\n  return `${first} ${last}`;\n}\n";
+
+    private readonly LanguageServer _server;
+
+    public LanguageServerTests()
+    {
+        var configuration = new ConfigurationBuilder().Build();
+        var generator = new CommentGenerator(new Mock<ILogger<CommentGenerator>>().Object, configuration, new HeuristicDescriptionProvider());
+        var parser = new TypeScriptParser(new Mock<ILogger<TypeScriptParser>>().Object);
+        var commentifier = new Commentifier(parser, generator, new Mock<ILogger<Commentifier>>().Object, configuration);
+
+        _server = new LanguageServer(commentifier, new Mock<ILogger<LanguageServer>>().Object);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithOpenedDocument_PublishesDiagnosticsForUndocumentedFunctions()
+    {
+        // Arrange
+        var script = new LanguageClientScript()
+            .Request(1, "initialize", new { processId = (int?)null, rootUri = (string?)null, capabilities = new { } })
+            .Notify("initialized", new { })
+            .Notify("textDocument/didOpen", new { textDocument = new { uri = Uri, languageId = "typescript", version = 1, text = Source } })
+            .Request(2, "shutdown", null)
+            .Notify("exit", null);
+
+        // Act
+        var (exitCode, messages) = await script.RunAsync(_server);
+
+        // Assert
+        exitCode.Should().Be(0);
+        messages[0]["result"]!["capabilities"]!["codeActionProvider"]!["codeActionKinds"]!.AsArray()
+            .Select(k => k!.GetValue<string>()).Should().Equal("quickfix", "source");
+
+        var diagnostics = messages[1]["params"]!["diagnostics"]!.AsArray();
+        messages[1]["method"]!.GetValue<string>().Should().Be("textDocument/publishDiagnostics");
+        diagnostics.Select(d => d!["message"]!.GetValue<string>()).Should().Equal(
+            "Function 'findUser' has no documentation comment.",
+            "Function 'formatName' has no documentation comment.");
+        diagnostics[0]!["range"]!.ToJsonString().Should().Be("{\"start\":{\"line\":4,\"character\":2},\"end\":{\"line\":4,\"character\":30}}");
+        diagnostics[0]!["code"]!.GetValue<string>().Should().Be(CommentDiagnostic.MissingComment);
+
+        messages[2]["id"]!.GetValue<int>().Should().Be(2);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithCodeActionRequest_ReturnsEditsForTheEditedBuffer()
+    {
+        // Arrange
+        var edited = Source.Replace("findUser(id: string)", "findUser(id: string, active: boolean)");
+        var script = new LanguageClientScript()
+            .Request(1, "initialize", new { capabilities = new { } })
+            .Notify("textDocument/didOpen", new { textDocument = new { uri = Uri, languageId = "typescript", version = 1, text = Source } })
+            .Notify("textDocument/didChange", new { textDocument = new { uri = Uri, version = 2 }, contentChanges = new[] { new { text = edited } } })
+            .Request(2, "textDocument/codeAction", new
+            {
+                textDocument = new { uri = Uri },
+                range = new { start = new { line = 4, character = 4 }, end = new { line = 4, character = 4 } },
+                context = new { diagnostics = Array.Empty<object>() }
+            })
+            .Request(3, "shutdown", null)
+            .Notify("exit", null);
+
+        // Act
+        var (_, messages) = await script.RunAsync(_server);
+
+        // Assert
+        var actions = messages.Single(m => m["id"]?.GetValue<int>() == 2)["result"]!.AsArray();
+        actions.Select(a => a!["title"]!.GetValue<string>()).Should().Equal(LanguageServer.AddCommentTitle, LanguageServer.AddAllCommentsTitle);
+
+        var quickFix = actions[0]!["edit"]!["changes"]![Uri]!.AsArray().Single()!;
+        quickFix["range"]!["start"]!["line"]!.GetValue<int>().Should().Be(4);
+        quickFix["newText"]!.GetValue<string>().Should().Be(
+            "  /**\n   * Finds the user.\n   *\n   * @param {string} id - The id\n   * @param {boolean} active - The active\n   *\n   * @returns {User} The user\n   */\n");
+
+        var all = actions[1]!["edit"]!["changes"]![Uri]!.AsArray();
+        all.Select(e => e!["range"]!["start"]!["line"]!.GetValue<int>()).Should().Equal(4, 9);
+        actions[1]!["kind"]!.GetValue<string>().Should().Be("source");
+    }
+
+    [Fact]
+    public async Task RunAsync_WithUnknownMethodAndNoShutdown_ReportsErrorAndExitCodeOne()
+    {
+        // Arrange
+        var script = new LanguageClientScript()
+            .Request(1, "workspace/symbol", new { query = "user" })
+            .Notify("textDocument/didOpen", new { textDocument = new { uri = Uri, languageId = "typescript", version = 1, text = Source } })
+            .Notify("textDocument/didClose", new { textDocument = new { uri = Uri } })
+            .Notify("exit", null);
+
+        // Act
+        var (exitCode, messages) = await script.RunAsync(_server);
+
+        // Assert
+        exitCode.Should().Be(1);
+        messages[0]["error"]!["code"]!.GetValue<int>().Should().Be(-32601);
+        messages[1]["params"]!["diagnostics"]!.AsArray().Should().HaveCount(2);
+        messages[2]["params"]!["diagnostics"]!.AsArray().Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task RunAsync_WithMalformedNotifications_LogsThemAndKeepsServing()
+    {
+        // Arrange
+        var script = new LanguageClientScript()
+            .Notify("textDocument/didOpen", new { textDocument = new { uri = Uri, languageId = "typescript", version = 1 } })
+            .Notify("textDocument/didChange", new { textDocument = new { uri = Uri, version = 2 } })
+            .Request(1, "shutdown", null)
+            .Notify("exit", null);
+
+        // Act
+        var (exitCode, messages) = await script.RunAsync(_server);
+
+        // Assert
+        exitCode.Should().Be(0);
+        messages.Should().ContainSingle();
+        messages[0]["id"]!.GetValue<int>().Should().Be(1);
+        messages[0]["error"].Should().BeNull();
+    }
+
+    [Fact]
+    public async Task RunAsync_WithBatchArray_RespondsWithInvalidRequest()
+    {
+        // Arrange
+        var script = new LanguageClientScript()
+            .Batch(new { jsonrpc = "2.0", id = 1, method = "shutdown" })
+            .Request(2, "shutdown", null)
+            .Notify("exit", null);
+
+        // Act
+        var (exitCode, messages) = await script.RunAsync(_server);
+
+        // Assert
+        exitCode.Should().Be(0);
+        messages[0]["error"]!["code"]!.GetValue<int>().Should().Be(-32600);
+        messages[1]["id"]!.GetValue<int>().Should().Be(2);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithNonNumericContentLength_RespondsWithParseErrorAndReadsTheNextMessage()
+    {
+        // Arrange
+        var script = new LanguageClientScript()
+            .Raw("Content-Length: abc\r\n\r\n{\"jsonrpc\":\"2.0\",\"id\":1,\"method\":\"shutdown\"}")
+            .Request(2, "shutdown", null)
+            .Notify("exit", null);
+
+        // Act
+        var (exitCode, messages) = await script.RunAsync(_server);
+
+        // Assert
+        exitCode.Should().Be(0);
+        messages.Should().HaveCount(2);
+        messages[0]["error"]!["code"]!.GetValue<int>().Should().Be(-32700);
+        messages[1]["id"]!.GetValue<int>().Should().Be(2);
+    }
+
+    /// <summary>
+    /// A scripted client: the messages are framed up front, the server reads them to the end, and
+    /// everything it wrote is split back into messages.
+    /// </summary>
+    private sealed class LanguageClientScript
+    {
+        private readonly MemoryStream _input = new();
+
+        public LanguageClientScript Request(int id, string method, object? parameters) =>
+            Write(new { jsonrpc = "2.0", id, method, @params = parameters });
+
+        public LanguageClientScript Notify(string method, object? parameters) =>
+            Write(new { jsonrpc = "2.0", method, @params = parameters });
+
+        public LanguageClientScript Batch(params object[] messages) =>
+            Write(messages);
+
+        // Written as is, for input that can't be framed
+        public LanguageClientScript Raw(string text)
+        {
+            _input.Write(Encoding.UTF8.GetBytes(text));
+            return this;
+        }
+
+        public async Task<(int ExitCode, List<JsonNode> Messages)> RunAsync(LanguageServer server)
+        {
+            var output = new MemoryStream();
+            _input.Position = 0;
+
+            var exitCode = await server.RunAsync(_input, output);
+            return (exitCode, ReadMessages(output.ToArray()));
+        }
+
+        private LanguageClientScript Write(object message)
+        {
+            var body = JsonSerializer.SerializeToUtf8Bytes(message);
+            _input.Write(Encoding.ASCII.GetBytes($"Content-Length: {body.Length}\r\n\r\n"));
+            _input.Write(body);
+            return this;
+        }
+
+        private static List<JsonNode> ReadMessages(byte[] output)
+        {
+            var messages = new List<JsonNode>();
+            var position = 0;
+
+            while (position < output.Length)
+            {
+                var headerEnd = Encoding.ASCII.GetString(output, position, output.Length - position).IndexOf("\r\n\r\n", StringComparison.Ordinal);
+                var header = Encoding.ASCII.GetString(output, position, headerEnd);
+                var length = int.Parse(header.Substring("Content-Length:".Length).Trim());
+
+                position += headerEnd + 4;
+                messages.Add(JsonNode.Parse(output.AsSpan(position, length))!);
+                position += length;
+            }
+
+            return messages;
+        }
+    }
+}
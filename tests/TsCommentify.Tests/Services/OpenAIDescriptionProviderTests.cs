@@ -0,0 +1,255 @@
+using System.Net;
+using System.Net.Sockets;
+using System.Text;
+using System.Text.Json;
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class OpenAIDescriptionProviderTests : IDisposable
+{
+    private readonly Mock<ILogger<OpenAIDescriptionProvider>> _loggerMock;
+    private readonly string _cacheDirectory;
+    private readonly FunctionInfo _function;
+
+    public OpenAIDescriptionProviderTests()
+    {
+        _loggerMock = new Mock<ILogger<OpenAIDescriptionProvider>>();
+        _cacheDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        _function = new FunctionInfo(
+            Name: "getUser",
+            LineNumber: 1,
+            Content: "function getUser(id: string): User",
+            Parameters: new List<ParameterInfo> { new("id", "string") },
+            ReturnType: "User",
+            HasComment: false)
+        {
+            Source = "function getUser(id: string): User {\n  return users.find(u => u.id === id);\n}"
+        };
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_cacheDirectory))
+        {
+            Directory.Delete(_cacheDirectory, true);
+        }
+    }
+
+    [Fact]
+    public async Task Describe_WithFunction_UsesEndpointDescriptions()
+    {
+        // Arrange
+        using var server = new StubCompletionServer();
+        server.Respond(HttpStatusCode.OK, Completion("""{"summary": "Finds a user by id.", "parameters": {"id": "Identifier of the user"}, "returns": "The matching user"}"""));
+        using var provider = CreateProvider(server.Endpoint);
+
+        // Act
+        var result = await provider.DescribeAsync(_function);
+
+        // Assert
+        result.Summary.Should().Be("Finds a user by id.");
+        result.Parameters["id"].Should().Be("Identifier of the user");
+        result.Returns.Should().Be("The matching user");
+        server.Requests.Should().ContainSingle();
+        server.Requests[0].Should().Contain("users.find");
+    }
+
+    [Fact]
+    public async Task Describe_WithCachedAnswer_DoesNotCallEndpointAgain()
+    {
+        // Arrange
+        using var server = new StubCompletionServer();
+        server.Respond(HttpStatusCode.OK, Completion("""{"summary": "Finds a user by id."}"""));
+
+        // Act
+        using (var first = CreateProvider(server.Endpoint))
+        {
+            await first.DescribeAsync(_function);
+        }
+
+        using var second = CreateProvider(server.Endpoint);
+        var result = await second.DescribeAsync(_function);
+
+        // Assert
+        result.Summary.Should().Be("Finds a user by id.");
+        result.Parameters["id"].Should().Be("The id");
+        server.Requests.Should().ContainSingle();
+        Directory.GetFiles(_cacheDirectory, "*.json").Should().ContainSingle();
+    }
+
+    [Fact]
+    public async Task Describe_WithTransientFailure_RetriesRequest()
+    {
+        // Arrange
+        using var server = new StubCompletionServer();
+        server.Respond(HttpStatusCode.ServiceUnavailable, "{}");
+        server.Respond(HttpStatusCode.OK, Completion("""{"summary": "Finds a user by id."}"""));
+        using var provider = CreateProvider(server.Endpoint);
+
+        // Act
+        var result = await provider.DescribeAsync(_function);
+
+        // Assert
+        result.Summary.Should().Be("Finds a user by id.");
+        server.Requests.Should().HaveCount(2);
+    }
+
+    [Fact]
+    public async Task Describe_WhenCancelledWhileWaitingToRetry_StopsWaiting()
+    {
+        // Arrange
+        using var server = new StubCompletionServer();
+        server.Respond(HttpStatusCode.ServiceUnavailable, "{}");
+        using var provider = CreateProvider(server.Endpoint, retryDelayMilliseconds: 60000);
+        using var cancellation = new CancellationTokenSource(TimeSpan.FromMilliseconds(200));
+
+        // Act
+        Func<Task> act = () => provider.DescribeAsync(_function, cancellation.Token);
+
+        // Assert
+        await act.Should().ThrowAsync<OperationCanceledException>();
+        server.Requests.Should().ContainSingle();
+    }
+
+    [Fact]
+    public async Task Describe_WhenEndpointIsDown_FallsBackToHeuristicDescriptions()
+    {
+        // Arrange
+        using var provider = CreateProvider($"http://localhost:{GetFreePort()}/v1");
+
+        // Act
+        var result = await provider.DescribeAsync(_function);
+
+        // Assert
+        result.Summary.Should().Be("Gets the user.");
+        result.Parameters["id"].Should().Be("The id");
+        result.Returns.Should().Be("The user");
+    }
+
+    [Fact]
+    public async Task Describe_WithNonFunctionDeclaration_DoesNotCallEndpoint()
+    {
+        // Arrange
+        using var server = new StubCompletionServer();
+        using var provider = CreateProvider(server.Endpoint);
+
+        // Act
+        var result = await provider.DescribeAsync(new InterfaceInfo("UserStore", 1, "interface UserStore", false));
+
+        // Assert
+        result.Summary.Should().Be("User Store.");
+        server.Requests.Should().BeEmpty();
+    }
+
+    private OpenAIDescriptionProvider CreateProvider(string endpoint, int retryDelayMilliseconds = 1)
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["DescriptionProvider:Provider"] = "OpenAI",
+                ["DescriptionProvider:OpenAI:Endpoint"] = endpoint,
+                ["DescriptionProvider:OpenAI:TimeoutSeconds"] = "5",
+                ["DescriptionProvider:OpenAI:MaxRetries"] = "1",
+                ["DescriptionProvider:OpenAI:RetryDelayMilliseconds"] = retryDelayMilliseconds.ToString(),
+                ["DescriptionProvider:OpenAI:CacheDirectory"] = _cacheDirectory
+            })
+            .Build();
+
+        return new OpenAIDescriptionProvider(_loggerMock.Object, configuration, new HeuristicDescriptionProvider());
+    }
+
+    private static string Completion(string content)
+    {
+        return JsonSerializer.Serialize(new
+        {
+            choices = new[] { new { message = new { role = "assistant", content } } }
+        });
+    }
+
+    private static int GetFreePort()
+    {
+        var listener = new TcpListener(IPAddress.Loopback, 0);
+        listener.Start();
+        var port = ((IPEndPoint)listener.LocalEndpoint).Port;
+        listener.Stop();
+        return port;
+    }
+
+    /// <summary>
+    /// A chat completions endpoint on localhost that answers with queued responses, repeating the last one.
+    /// </summary>
+    private sealed class StubCompletionServer : IDisposable
+    {
+        private readonly HttpListener _listener = new();
+        private readonly Queue<(HttpStatusCode Status, string Body)> _responses = new();
+        private (HttpStatusCode Status, string Body) _last = (HttpStatusCode.InternalServerError, "{}");
+
+        public StubCompletionServer()
+        {
+            var port = GetFreePort();
+            Endpoint = $"http://localhost:{port}/v1";
+            _listener.Prefixes.Add($"http://localhost:{port}/");
+            _listener.Start();
+            _ = Task.Run(ServeAsync);
+        }
+
+        public string Endpoint { get; }
+
+        public List<string> Requests { get; } = new();
+
+        public void Respond(HttpStatusCode status, string body)
+        {
+            lock (_responses)
+            {
+                _responses.Enqueue((status, body));
+            }
+        }
+
+        public void Dispose()
+        {
+            _listener.Close();
+        }
+
+        private async Task ServeAsync()
+        {
+            while (_listener.IsListening)
+            {
+                HttpListenerContext context;
+                try
+                {
+                    context = await _listener.GetContextAsync();
+                }
+                catch (Exception ex) when (ex is HttpListenerException or ObjectDisposedException)
+                {
+                    return;
+                }
+
+                using (var reader = new StreamReader(context.Request.InputStream))
+                {
+                    var request = await reader.ReadToEndAsync();
+                    lock (Requests)
+                    {
+                        Requests.Add(request);
+                    }
+                }
+
+                lock (_responses)
+                {
+                    if (_responses.Count > 0)
+                        _last = _responses.Dequeue();
+                }
+
+                var body = Encoding.UTF8.GetBytes(_last.Body);
+                context.Response.StatusCode = (int)_last.Status;
+                context.Response.ContentType = "application/json";
+                await context.Response.OutputStream.WriteAsync(body);
+                context.Response.Close();
+            }
+        }
+    }
+}
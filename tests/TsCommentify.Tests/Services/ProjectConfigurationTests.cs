@@ -0,0 +1,153 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using TsCommentify.Core.Configuration;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class ProjectConfigurationTests : IDisposable
+{
+    private readonly string _testDirectory;
+
+    public ProjectConfigurationTests()
+    {
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(Path.Combine(_testDirectory, ".git"));
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public void GetConfiguration_WithNestedFiles_MergesSectionsAndReplacesLists()
+    {
+        // Arrange
+        WriteFile(@"{
+  ""FileProcessor"": { ""Extensions"": [ "".ts"", "".tsx"", "".vue"" ], ""Backup"": true },
+  ""CommentTemplates"": { ""Style"": ""TsDoc"", ""Variables"": { ""author"": ""Team"" } }
+}", ProjectConfiguration.FileName);
+        WriteFile(@"{
+  ""FileProcessor"": { ""Extensions"": [ "".js"" ] },
+  ""CommentTemplates"": { ""Variables"": { ""since"": ""2.0"" } }
+}", "packages", "app", ProjectConfiguration.FileName);
+        var baseConfiguration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:IncludeExamples"] = "true" })
+            .Build();
+        var project = new ProjectConfiguration(baseConfiguration, new Dictionary<string, string?>());
+
+        // Act
+        var configuration = project.GetConfiguration(Path.Combine(_testDirectory, "packages", "app", "src", "main.ts"));
+
+        // Assert
+        var fileOptions = configuration.GetSection(FileProcessorOptions.SectionName).Get<FileProcessorOptions>()!;
+        fileOptions.Extensions.Should().Equal(".js");
+        fileOptions.Backup.Should().BeTrue();
+
+        var templateOptions = configuration.GetSection(CommentTemplateOptions.SectionName).Get<CommentTemplateOptions>()!;
+        templateOptions.Style.Should().Be(CommentStyle.TsDoc);
+        templateOptions.IncludeExamples.Should().BeTrue();
+        templateOptions.Variables.Should().BeEquivalentTo(new Dictionary<string, string> { ["author"] = "Team", ["since"] = "2.0" });
+    }
+
+    [Fact]
+    public void GetConfiguration_WithOverrides_TakesPrecedenceOverFilesAndSharesInstancesPerFileChain()
+    {
+        // Arrange
+        WriteFile(@"{ ""FileProcessor"": { ""Visibility"": ""Exported"", ""IgnorePatterns"": [ ""legacy/"" ] } }", ProjectConfiguration.FileName);
+        var project = new ProjectConfiguration(
+            new ConfigurationBuilder().Build(),
+            new Dictionary<string, string?> { ["FileProcessor:Visibility"] = "Public" });
+
+        // Act
+        var first = project.GetConfiguration(Path.Combine(_testDirectory, "a.ts"));
+        var second = project.GetConfiguration(Path.Combine(_testDirectory, "src"));
+
+        // Assert
+        first.Should().BeSameAs(second);
+        first["FileProcessor:Visibility"].Should().Be("Public");
+        first.GetSection("FileProcessor:IgnorePatterns").Exists().Should().BeFalse();
+        project.GetIgnorePatterns(_testDirectory).Should().Equal("legacy/");
+        project.HasIgnorePatterns(Path.Combine(_testDirectory, "src")).Should().BeTrue();
+    }
+
+    [Fact]
+    public void FindFiles_OutsideTheRepository_AreNotRead()
+    {
+        // Arrange
+        var parent = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        var repository = Path.Combine(parent, "repo");
+        Directory.CreateDirectory(Path.Combine(repository, ".git"));
+        Directory.CreateDirectory(Path.Combine(repository, "src"));
+        File.WriteAllText(Path.Combine(parent, ProjectConfiguration.FileName), "{}");
+        File.WriteAllText(Path.Combine(repository, ProjectConfiguration.FileName), "{}");
+        File.WriteAllText(Path.Combine(repository, "src", ProjectConfiguration.FileName), "{}");
+        var project = new ProjectConfiguration(new ConfigurationBuilder().Build(), new Dictionary<string, string?>());
+
+        try
+        {
+            // Act
+            var files = project.FindFiles(Path.Combine(repository, "src", "main.ts"));
+
+            // Assert
+            files.Should().Equal(
+                Path.Combine(repository, ProjectConfiguration.FileName),
+                Path.Combine(repository, "src", ProjectConfiguration.FileName));
+        }
+        finally
+        {
+            Directory.Delete(parent, true);
+        }
+    }
+
+    [Fact]
+    public void FormatSettings_WithApiKey_WritesTheEffectiveOptionsWithTheKeyMasked()
+    {
+        // Arrange
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["DescriptionProvider:OpenAI:ApiKey"] = "secret",
+                ["CommentTemplates:Style"] = "Closure"
+            })
+            .Build();
+
+        // Act
+        var json = ProjectConfiguration.FormatSettings(configuration);
+
+        // Assert
+        json.Should().Contain("\"ApiKey\": \"***\"").And.NotContain("secret");
+        json.Should().Contain("\"Style\": \"Closure\"");
+        json.Should().Contain("\"*.spec.*\"");
+    }
+
+    [Fact]
+    public void CreateStarterFile_WithReactDependency_TurnsOnReactDescriptions()
+    {
+        // Arrange
+        WriteFile(@"{ ""dependencies"": { ""react"": ""^18.2.0"" } }", "package.json");
+
+        // Act
+        var json = ProjectConfiguration.CreateStarterFile(_testDirectory);
+
+        // Assert
+        var configuration = new ConfigurationBuilder()
+            .AddJsonStream(new MemoryStream(System.Text.Encoding.UTF8.GetBytes(json)))
+            .Build();
+        var frameworks = configuration.GetSection(FrameworkOptions.SectionName).Get<FrameworkOptions>()!;
+        frameworks.React.Should().BeTrue();
+        frameworks.Angular.Should().BeFalse();
+        configuration["CommentTemplates:Style"].Should().Be("JsDoc");
+    }
+
+    private void WriteFile(string content, params string[] pathSegments)
+    {
+        var filePath = Path.Combine(new[] { _testDirectory }.Concat(pathSegments).ToArray());
+        Directory.CreateDirectory(Path.GetDirectoryName(filePath)!);
+        File.WriteAllText(filePath, content);
+    }
+}
@@ -0,0 +1,90 @@
+using System.Text;
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class SourceFileTests : IDisposable
+{
+    private readonly string _testDirectory;
+
+    public SourceFileTests()
+    {
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(_testDirectory);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public async Task WriteAsync_WithBomAndCrlf_KeepsBothAndTheMissingFinalNewline()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "windows.ts");
+        await File.WriteAllBytesAsync(filePath, Encoding.UTF8.GetPreamble().Concat(Encoding.UTF8.GetBytes("let a = 1;\r\nfunction run() {}")).ToArray());
+        var source = await SourceFile.ReadAsync(filePath);
+
+        // Act
+        await source.WriteAsync(new[] { "let a = 1;", "/** Run. */", "function run() {}" }, keepBackup: false);
+
+        // Assert
+        var expected = Encoding.UTF8.GetPreamble().Concat(Encoding.UTF8.GetBytes("let a = 1;\r\n/** Run. */\r\nfunction run() {}")).ToArray();
+        (await File.ReadAllBytesAsync(filePath)).Should().Equal(expected);
+        Directory.GetFiles(_testDirectory).Should().Equal(filePath);
+    }
+
+    [Fact]
+    public async Task ReadAsync_WithMixedLineEndings_UsesTheDominantOne()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "mixed.ts");
+        await File.WriteAllTextAsync(filePath, "a();\nb();\r\nc();\nd();\n");
+
+        // Act
+        var source = await SourceFile.ReadAsync(filePath);
+
+        // Assert
+        source.NewLine.Should().Be("\n");
+        source.EndsWithNewLine.Should().BeTrue();
+        source.Encoding.GetPreamble().Should().BeEmpty();
+        source.GetLines().Should().Equal("a();", "b();", "c();", "d();");
+    }
+
+    [Fact]
+    public async Task WriteAsync_WithLatin1File_WritesUnchangedBytesBack()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "legacy.ts");
+        await File.WriteAllBytesAsync(filePath, Encoding.Latin1.GetBytes("// Café\nfunction run() {}\n"));
+        var source = await SourceFile.ReadAsync(filePath);
+
+        // Act
+        await source.WriteAsync(new[] { "// Café", "/** Run. */", "function run() {}" }, keepBackup: false);
+
+        // Assert
+        source.Text.Should().StartWith("// Café");
+        (await File.ReadAllBytesAsync(filePath)).Should().Equal(Encoding.Latin1.GetBytes("// Café\n/** Run. */\nfunction run() {}\n"));
+    }
+
+    [Fact]
+    public async Task WriteAsync_WithBackup_KeepsTheOriginalFile()
+    {
+        // Arrange
+        var filePath = Path.Combine(_testDirectory, "service.ts");
+        await File.WriteAllTextAsync(filePath, "function run() {}\n");
+        var source = await SourceFile.ReadAsync(filePath);
+
+        // Act
+        await source.WriteAsync(new[] { "/** Run. */", "function run() {}" }, keepBackup: true);
+
+        // Assert
+        (await File.ReadAllTextAsync(filePath + ".orig")).Should().Be("function run() {}\n");
+        (await File.ReadAllTextAsync(filePath)).Should().Be("/** Run. */\nfunction run() {}\n");
+    }
+}
@@ -0,0 +1,185 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class TypeInferenceTests
+{
+    private static readonly List<ParameterInfo> Parameters = new()
+    {
+        new("name", "string"),
+        new("count", null) { InferredType = "number" },
+        new("options", null)
+    };
+
+    [Fact]
+    public void InferValueType_WithLiterals_ReturnsTheirTypes()
+    {
+        // Act
+        var types = new[] { "10", "-0.5e3", "0xFF", "10n", "'a'", "`b`", "true", "[]", "{ a: 1 }", "() => {}", "/x+/g", "new Date()", "null", "limit" }
+            .Select(TypeInference.InferValueType)
+            .ToList();
+
+        // Assert
+        types.Should().Equal(
+            "number", "number", "number", "bigint", "string", "string", "boolean", "Array", "Object", "Function", "RegExp", "Date", null, null);
+    }
+
+    [Fact]
+    public void InferExpressionType_WithOperatorsCallsAndParameters_ReturnsTheResultType()
+    {
+        // Act
+        var types = new[]
+        {
+            "count * 2",
+            "'Hello, ' + name",
+            "count + 1",
+            "name.length > 0 && count !== 0",
+            "!options",
+            "name.trim().toUpperCase()",
+            "options.items.includes(name)",
+            "Math.max(count, 10)",
+            "typeof options",
+            "(name)",
+            "options as Settings",
+            "count > 0 ? 'many' : 'none'",
+            "count > 0 ? name : null",
+            "name.slice(1)",
+            "options.load(name)",
+            "[name, count][0]",
+            "new Parser(options).parse()",
+            "x => x * 2",
+            "<div className=\"card\">{name}</div>"
+        }.Select(e => TypeInference.InferExpressionType(e, Parameters)).ToList();
+
+        // Assert
+        types.Should().Equal(
+            "number",
+            "string",
+            "number",
+            "boolean",
+            "boolean",
+            "string",
+            "boolean",
+            "number",
+            "string",
+            "string",
+            "Settings",
+            "string",
+            "string | null",
+            "string",
+            null,
+            null,
+            null,
+            "Function",
+            "JSX.Element");
+    }
+
+    [Fact]
+    public void InferReturnType_WithReturnedExpressions_CombinesThemAndWrapsAsyncResults()
+    {
+        // Act
+        var none = TypeInference.InferReturnType(new List<string?>(), isAsync: false, Parameters);
+        var bare = TypeInference.InferReturnType(new List<string?> { null, "count" }, isAsync: false, Parameters);
+        var async = TypeInference.InferReturnType(new List<string?> { "await fetchAll()", "[]" }, isAsync: true, Parameters);
+        var awaited = TypeInference.InferReturnType(new List<string?> { "new User(name)" }, isAsync: true, Parameters);
+        var asyncVoid = TypeInference.InferReturnType(new List<string?> { null }, isAsync: true, Parameters);
+
+        // Assert
+        none.Should().Be("void");
+        bare.Should().Be("number | undefined");
+        async.Should().BeNull();
+        awaited.Should().Be("Promise<User>");
+        asyncVoid.Should().Be("Promise<void>");
+    }
+
+    [Fact]
+    public void InferReturnType_WithAwaitedPromises_UnwrapsThemAndWrapsTheResult()
+    {
+        // Arrange
+        var parameters = new List<ParameterInfo> { new("loader", "Promise<string>"), new("fallback", "string") };
+
+        // Act
+        var awaited = TypeInference.InferReturnType(new List<string?> { "await loader", "fallback" }, isAsync: true, parameters);
+        var nested = TypeInference.InferReturnType(new List<string?> { "(await loader).trim()" }, isAsync: true, parameters);
+        var unknown = TypeInference.InferReturnType(new List<string?> { "await load()" }, isAsync: true, parameters);
+
+        // Assert
+        awaited.Should().Be("Promise<string>");
+        nested.Should().Be("Promise<string>");
+        unknown.Should().BeNull();
+    }
+
+    [Fact]
+    public void InferReturnType_WithDifferentReturns_WritesTheirUnionWithNullLast()
+    {
+        // Act
+        var union = TypeInference.InferReturnType(new List<string?> { "null", "name", "count", "name.trim()" }, isAsync: false, Parameters);
+        var optional = TypeInference.InferReturnType(new List<string?> { "undefined", "count > 0" }, isAsync: false, Parameters);
+        var unknown = TypeInference.InferReturnType(new List<string?> { "name", "options" }, isAsync: false, Parameters);
+
+        // Assert
+        union.Should().Be("string | number | null");
+        optional.Should().Be("boolean | undefined");
+        unknown.Should().BeNull();
+    }
+
+    [Fact]
+    public void InferReturnType_WithoutReturnedValues_ReturnsVoid()
+    {
+        // Act
+        var none = TypeInference.InferReturnType(new List<string?>(), isAsync: false, Parameters);
+        var bare = TypeInference.InferReturnType(new List<string?> { null, null }, isAsync: false, Parameters);
+        var undefinedOnly = TypeInference.InferReturnType(new List<string?> { "undefined", "void 0" }, isAsync: false, Parameters);
+        var asyncNone = TypeInference.InferReturnType(new List<string?>(), isAsync: true, Parameters);
+
+        // Assert
+        none.Should().Be("void");
+        bare.Should().Be("void");
+        undefinedOnly.Should().Be("void");
+        asyncNone.Should().Be("Promise<void>");
+    }
+
+    [Fact]
+    public async Task GenerateComment_WithInferredTypesAndEachUnknownTypePolicy_WritesOnlyTheUnknownTypesByPolicy()
+    {
+        // Arrange
+        const string content = @"function resize(width, height = 100) {
+  return width;
+}
+
+function reset(state) {
+  state.clear();
+}";
+        var parser = new TypeScriptParser(new Mock<ILogger<TypeScriptParser>>().Object);
+        var functions = parser.ParseDeclarations("resize.ts", content).OfType<FunctionInfo>().ToList();
+
+        // Act
+        var comments = new Dictionary<string, List<string>>();
+        foreach (var policy in new[] { "Omit", "Star", "Unknown" })
+        {
+            var configuration = new ConfigurationBuilder()
+                .AddInMemoryCollection(new Dictionary<string, string?> { ["CommentTemplates:UnknownTypes"] = policy })
+                .Build();
+            var generator = new CommentGenerator(new Mock<ILogger<CommentGenerator>>().Object, configuration, new HeuristicDescriptionProvider());
+            comments[policy] = new List<string>();
+            foreach (var function in functions)
+                comments[policy].Add(await generator.GenerateCommentAsync(function));
+        }
+
+        // Assert
+        comments["Omit"][0].Should().Contain(" * @param width - The width")
+            .And.Contain(" * @param {number} [height=100] - The height")
+            .And.NotContain("@returns");
+        comments["Star"][0].Should().Contain(" * @param {*} width - The width")
+            .And.Contain(" * @param {number} [height=100] - The height")
+            .And.Contain(" * @returns {*}");
+        comments["Unknown"][0].Should().Contain(" * @param {unknown} width - The width")
+            .And.Contain(" * @param {number} [height=100] - The height")
+            .And.Contain(" * @returns {unknown}");
+        comments.Values.Should().OnlyContain(c => !c[1].Contains("@returns"));
+    }
+}
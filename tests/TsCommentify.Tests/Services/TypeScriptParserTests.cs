@@ -1,7 +1,7 @@
 using FluentAssertions;
 using Microsoft.Extensions.Logging;
 using Moq;
-using TsCommentify.Cli.Services;
+using TsCommentify.Core.Services;
 
 namespace TsCommentify.Tests.Services;
 
@@ -592,6 +592,839 @@ const arrow = (): void => {
         result[0].ReturnType.Should().Be("Promise<Array<string>>");
     }
 
+    [Fact]
+    public void ParseFunctions_WithMultiLineSignature_ParsesAllParameters()
+    {
+        // Arrange
+        var content = @"function createUser(
+  name: string,
+  age: number,
+  tags: Array<string>
+): Promise<User> {
+  return api.create(name, age, tags);
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("createUser");
+        result[0].LineNumber.Should().Be(1);
+        result[0].Parameters.Should().HaveCount(3);
+        result[0].Parameters[2].Name.Should().Be("tags");
+        result[0].Parameters[2].Type.Should().Be("Array<string>");
+        result[0].ReturnType.Should().Be("Promise<User>");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithFunctionKeywordInStringsAndComments_IgnoresThem()
+    {
+        // Arrange
+        var content = @"const message = 'function fake() {}';
+const template = `
+function alsoFake() {}
+${value}`;
+/*
+function commentedOut() {}
+*/
+function real(): void {
+  const text = ""function inString() {"";
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("real");
+        result[0].LineNumber.Should().Be(8);
+        result[0].HasComment.Should().BeTrue();
+    }
+
+    [Fact]
+    public void ParseFunctions_WithFunctionInsideTemplateExpression_IgnoresIt()
+    {
+        // Arrange
+        var content = @"const html = `<ul>${items.map(function render(item) { return item; })}</ul>`;
+
+function after(): void {}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("after");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithReturnTypeFollowedByCode_DoesNotIncludeBody()
+    {
+        // Arrange
+        var content = @"function check(value: string): boolean { return value.length > 0; }";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].ReturnType.Should().Be("boolean");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithUnionAndObjectReturnTypes_ParsesExactType()
+    {
+        // Arrange
+        var content = @"function trend(current: number): { value: number; direction: 'up' | 'down' } {
+  return { value: current, direction: 'up' };
+}
+
+function find(id: string): User | undefined {
+  return users.get(id);
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(2);
+        result[0].ReturnType.Should().Be("{ value: number; direction: 'up' | 'down' }");
+        result[1].ReturnType.Should().Be("User | undefined");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithBlockBody_ReportsEndLineAndBodyRange()
+    {
+        // Arrange
+        var content = @"function outer(): void {
+  if (ready) {
+    start();
+  }
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].LineNumber.Should().Be(1);
+        result[0].EndLineNumber.Should().Be(5);
+        result[0].Body.Should().NotBeNull();
+        result[0].Body!.StartLine.Should().Be(1);
+        result[0].Body!.EndLine.Should().Be(5);
+        content.Substring(result[0].Body!.Start, result[0].Body!.End - result[0].Body!.Start)
+            .Should().StartWith("{").And.EndWith("}");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithExpressionBodiedArrow_ReportsBodyRange()
+    {
+        // Arrange
+        var content = @"const double = (x: number) =>
+  x * 2;
+
+const next = 1;";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].EndLineNumber.Should().Be(2);
+        content.Substring(result[0].Body!.Start, result[0].Body!.End - result[0].Body!.Start)
+            .Should().Be("x * 2");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithDecoratedMethod_StartsAtDecorator()
+    {
+        // Arrange
+        var content = @"class Component {
+  @HostListener('window:resize', ['$event'])
+  onResize(event: UIEvent): void {
+    this.width = window.innerWidth;
+  }
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("onResize");
+        result[0].LineNumber.Should().Be(2);
+        result[0].Parameters[0].Type.Should().Be("UIEvent");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithConstructorParameterProperties_ParsesParameters()
+    {
+        // Arrange
+        var content = @"class UserComponent {
+  constructor(
+    private userService: UserService,
+    private readonly logger: Logger
+  ) {}
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("constructor");
+        result[0].Parameters.Should().HaveCount(2);
+        result[0].Parameters[0].Name.Should().Be("userService");
+        result[0].Parameters[1].Name.Should().Be("logger");
+        result[0].Parameters[1].Type.Should().Be("Logger");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithObjectLiteralProperties_DoesNotTreatCallsAsMethods()
+    {
+        // Arrange
+        var content = @"class Dashboard {
+  state = {
+    isLoading: false,
+    items: load(10)
+  };
+
+  refresh(): void {
+    this.state = { ...this.state, isLoading: true };
+  }
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("refresh");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithRegexLiteral_DoesNotConfuseTokenizer()
+    {
+        // Arrange
+        var content = @"const escape = (value: string): string => value.replace(/""/g, '""""');
+
+function after(): void {}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(2);
+        result[0].Name.Should().Be("escape");
+        result[1].Name.Should().Be("after");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithJsxInTsxFile_ParsesComponents()
+    {
+        // Arrange
+        var content = @"export function Greeting({ name }: Props) {
+  return <p>Don't forget {name}'s birthday</p>;
+}
+
+export const Farewell = (props: Props) => {
+  return <div onClick={() => props.onClose()}>Bye</div>;
+};";
+        var filePath = Path.Combine(_testDirectory, $"test_{Guid.NewGuid()}.tsx");
+        File.WriteAllText(filePath, content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(2);
+        result[0].Name.Should().Be("Greeting");
+        result[1].Name.Should().Be("Farewell");
+        result[1].LineNumber.Should().Be(5);
+    }
+
+    [Fact]
+    public void ParseFunctions_WithControlFlowInsideMethods_DoesNotTreatThemAsFunctions()
+    {
+        // Arrange
+        var content = @"class Router {
+  navigate(path: string): void {
+    if (path) {
+      switch (path) {
+        case 'home': {
+          this.go(path);
+          break;
+        }
+      }
+    }
+    for (const item of this.items) {
+      this.visit(item);
+    }
+  }
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        result[0].Name.Should().Be("navigate");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithDestructuredObjectParameter_ParsesPropertiesAndTypes()
+    {
+        // Arrange
+        var content = @"function createUser({ name, age = 18, address: { city } }: { name: string; age?: number; address: { city: string } }): User {
+  return new User(name, age, city);
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        var parameter = result[0].Parameters.Single();
+        parameter.Name.Should().Be("param0");
+        parameter.Kind.Should().Be(ParameterKind.ObjectPattern);
+        parameter.Properties.Should().HaveCount(3);
+        parameter.Properties[0].Name.Should().Be("name");
+        parameter.Properties[0].Type.Should().Be("string");
+        parameter.Properties[1].Name.Should().Be("age");
+        parameter.Properties[1].Type.Should().Be("number");
+        parameter.Properties[1].IsOptional.Should().BeTrue();
+        parameter.Properties[1].DefaultValue.Should().Be("18");
+        parameter.Properties[2].Name.Should().Be("address");
+        parameter.Properties[2].Kind.Should().Be(ParameterKind.ObjectPattern);
+        parameter.Properties[2].Properties.Single().Name.Should().Be("city");
+        parameter.Properties[2].Properties.Single().Type.Should().Be("string");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithArrayPatternParameter_ParsesElementsFromTuple()
+    {
+        // Arrange
+        var content = @"const swap = ([first, second]: [number, string]): [string, number] => [second, first];";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(1);
+        var parameter = result[0].Parameters.Single();
+        parameter.Name.Should().Be("param0");
+        parameter.Kind.Should().Be(ParameterKind.ArrayPattern);
+        parameter.Type.Should().Be("[number, string]");
+        parameter.Properties.Select(p => p.Name).Should().Equal("first", "second");
+        parameter.Properties.Select(p => p.Type).Should().Equal("number", "string");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithRestOptionalAndDefaultParameters_ParsesModifiers()
+    {
+        // Arrange
+        var content = @"function log(level: string, prefix?: string, limit = 10, ...messages: string[]): void {
+  console.log(level, prefix, limit, messages);
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        var parameters = result.Single().Parameters;
+        parameters.Should().HaveCount(4);
+        parameters[0].IsOptional.Should().BeFalse();
+        parameters[1].IsOptional.Should().BeTrue();
+        parameters[1].DefaultValue.Should().BeNull();
+        parameters[2].IsOptional.Should().BeTrue();
+        parameters[2].DefaultValue.Should().Be("10");
+        parameters[3].Name.Should().Be("messages");
+        parameters[3].IsRest.Should().BeTrue();
+        parameters[3].Type.Should().Be("string[]");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithClass_ParsesClassPropertiesAndMethods()
+    {
+        // Arrange
+        var content = @"export abstract class UserService extends BaseService<User> implements OnInit, OnDestroy {
+  @Input() name: string;
+  private readonly cache = new Map<string, User>();
+  static count = 0;
+  columns = [
+    'id',
+    'email'
+  ];
+
+  getUser(id: string): User {
+    return this.cache.get(id);
+  }
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        result.Select(d => d.Name).Should().Equal("UserService", "name", "cache", "count", "columns", "getUser");
+
+        var classInfo = result[0].Should().BeOfType<ClassInfo>().Subject;
+        classInfo.IsAbstract.Should().BeTrue();
+        classInfo.BaseType.Should().Be("BaseService<User>");
+        classInfo.Implements.Should().Equal("OnInit", "OnDestroy");
+        classInfo.EndLineNumber.Should().Be(13);
+
+        var name = result[1].Should().BeOfType<PropertyInfo>().Subject;
+        name.Type.Should().Be("string");
+        name.LineNumber.Should().Be(2);
+
+        var cache = result[2].Should().BeOfType<PropertyInfo>().Subject;
+        cache.IsReadonly.Should().BeTrue();
+        cache.Type.Should().BeNull();
+
+        result[3].Should().BeOfType<PropertyInfo>().Which.IsStatic.Should().BeTrue();
+        result[5].Should().BeOfType<FunctionInfo>();
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithArrowFunctionField_ParsesItAsFunction()
+    {
+        // Arrange
+        var content = @"class Handler {
+  handle = (event: Event): void => {
+    console.log(event);
+  };
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(2);
+        var function = result[1].Should().BeOfType<FunctionInfo>().Subject;
+        function.Name.Should().Be("handle");
+        function.Parameters.Single().Type.Should().Be("Event");
+        function.ReturnType.Should().Be("void");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithInterface_ParsesPropertySignatures()
+    {
+        // Arrange
+        var content = @"export interface UserProfile extends Entity, Auditable {
+  readonly id: number;
+  displayName?: string;
+  coordinates: [
+    number,
+    number
+  ];
+  address: {
+    city: string;
+  };
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        result.Select(d => d.Name).Should().Equal("UserProfile", "id", "displayName", "coordinates", "address");
+        result[0].Should().BeOfType<InterfaceInfo>().Which.Extends.Should().Equal("Entity", "Auditable");
+
+        var id = result[1].Should().BeOfType<PropertyInfo>().Subject;
+        id.IsReadonly.Should().BeTrue();
+        id.Type.Should().Be("number");
+
+        var displayName = result[2].Should().BeOfType<PropertyInfo>().Subject;
+        displayName.IsOptional.Should().BeTrue();
+        displayName.Type.Should().Be("string");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithEnumAndTypeAlias_ParsesMembers()
+    {
+        // Arrange
+        var content = @"export type UserId = string | number;
+
+export const enum Status {
+  Active = 'active',
+  Inactive = 'inactive',
+  Pending
+}
+
+enum Flag { On, Off }";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        result.Select(d => d.Name).Should().Equal("UserId", "Status", "Active", "Inactive", "Pending", "Flag");
+        result[0].Should().BeOfType<TypeAliasInfo>().Which.Type.Should().Be("string | number");
+        result[1].Should().BeOfType<EnumInfo>();
+        result[2].Should().BeOfType<EnumMemberInfo>().Which.Value.Should().Be("'active'");
+        result[4].Should().BeOfType<EnumMemberInfo>().Which.Value.Should().BeNull();
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithDisableNextLine_SuppressesOnlyTheNextDeclaration()
+    {
+        // Arrange
+        var content = @"class AppComponent {
+  // tscommentify-disable-next-line
+  ngOnInit() {}
+
+  load(id: string) {}
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        var ngOnInit = result.Single(d => d.Name == "ngOnInit");
+        ngOnInit.IsSuppressed.Should().BeTrue();
+        ngOnInit.HasComment.Should().BeFalse();
+        result.Single(d => d.Name == "load").IsSuppressed.Should().BeFalse();
+        result.Single(d => d.Name == "AppComponent").IsSuppressed.Should().BeFalse();
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithDisableAndEnableRange_SuppressesDeclarationsInBetween()
+    {
+        // Arrange
+        var content = @"function before() {}
+/* tscommentify-disable */
+function generatedA() {}
+const generatedB = () => {};
+/* tscommentify-enable */
+function after() {}
+// tscommentify-disable
+function untilEndOfFile() {}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Where(f => f.IsSuppressed).Select(f => f.Name)
+            .Should().Equal("generatedA", "generatedB", "untilEndOfFile");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithDisableFile_SuppressesEveryDeclaration()
+    {
+        // Arrange
+        var content = @"// Generated by openapi-generator
+// tscommentify-disable-file
+export interface User { id: string; }
+export function getUser(id: string): User { return { id }; }";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        result.Should().NotBeEmpty();
+        result.Should().OnlyContain(d => d.IsSuppressed);
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithDecoratedClass_RecordsDecoratorsAndContainingClass()
+    {
+        // Arrange
+        var content = @"/** Shows the dashboard. */
+@Component({
+  selector: 'app-dashboard',
+  template: '<div></div>'
+})
+export class DashboardComponent implements OnInit {
+  @Input() userId: string = '';
+  @Output() closed = new EventEmitter<void>();
+
+  @HostListener('window:resize', ['$event'])
+  onResize(event: UIEvent): void {}
+}
+
+function helper() {}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseDeclarations(filePath).ToList();
+
+        // Assert
+        var component = result.OfType<ClassInfo>().Single();
+        component.LineNumber.Should().Be(2);
+        component.HasComment.Should().BeTrue();
+        component.Content.Should().StartWith("export class DashboardComponent");
+        component.Decorators.Should().Equal("Component");
+        result.Single(d => d.Name == "userId").Decorators.Should().Equal("Input");
+        result.Single(d => d.Name == "closed").Decorators.Should().Equal("Output");
+        result.Single(d => d.Name == "onResize").Decorators.Should().Equal("HostListener");
+        result.Single(d => d.Name == "onResize").ContainingClass!.Name.Should().Be("DashboardComponent");
+        result.Single(d => d.Name == "helper").ContainingClass.Should().BeNull();
+    }
+
+    [Fact]
+    public void ParseFunctions_WithAsyncGeneratorAndThrows_RecordsBodyFacts()
+    {
+        // Arrange
+        var content = @"export const loadUser = async (id: string): Promise<User> => {
+  if (!id) throw new ValidationError('id is required');
+  const user = await db.find(id);
+  if (!user) {
+    throw new errors.NotFoundError(`No user ${id}`);
+  }
+  try { return user; } catch (e) { throw e; }
+};
+
+function* pages(): Generator<Page> {
+  yield first;
+  throw new ValidationError('done');
+}";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result[0].IsAsync.Should().BeTrue();
+        result[0].IsGenerator.Should().BeFalse();
+        result[0].Throws.Should().Equal("ValidationError", "errors.NotFoundError");
+        result[1].IsAsync.Should().BeFalse();
+        result[1].IsGenerator.Should().BeTrue();
+        result[1].Throws.Should().Equal("ValidationError");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithOverloadsAndDeclaredFunction_MarksSignaturesAndImplementation()
+    {
+        // Arrange
+        var content = @"export function parse(input: string): Node;
+export function parse(input: Buffer, encoding: string): Node;
+export function parse(input: string | Buffer, encoding?: string): Node {
+  return toNode(input);
+}
+
+declare function greet(name: string): void;";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Select(f => f.Name).Should().Equal("parse", "parse", "parse", "greet");
+        result[0].OverloadIndex.Should().Be(0);
+        result[1].OverloadIndex.Should().Be(1);
+        result[1].Parameters.Select(p => p.Name).Should().Equal("input", "encoding");
+        result[2].IsOverloadImplementation.Should().BeTrue();
+        result[2].OverloadIndex.Should().BeNull();
+        result[3].IsSignature.Should().BeTrue();
+        result[3].OverloadIndex.Should().BeNull();
+        result[3].Modifiers.Should().Equal("declare");
+    }
+
+    [Fact]
+    public void ParseFunctions_WithClassModifiersAndTypeMembers_ParsesEverySignature()
+    {
+        // Arrange
+        var content = @"export abstract class Shape {
+  abstract area(): number;
+  protected abstract get name(): string;
+  override toString(): string { return ''; }
+  #reset(): void {}
+  private static readonly create = () => new Circle();
+}
+
+interface Repository<T> {
+  find(id: string): T | undefined;
+  save?(item: T): Promise<void>;
+  new (size: number): Repository<T>;
+}
+
+type Handlers = {
+  onClick(event: MouseEvent): void;
+};";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Select(f => f.Name).Should().Equal("area", "name", "toString", "#reset", "create", "find", "save", "onClick");
+        result[0].IsSignature.Should().BeTrue();
+        result[0].Modifiers.Should().Equal("abstract");
+        result[1].Modifiers.Should().Equal("protected", "abstract", "get");
+        result[2].Modifiers.Should().Equal("override");
+        result[2].IsSignature.Should().BeFalse();
+        result[4].Modifiers.Should().Equal("private", "static", "readonly");
+        result.Skip(5).Should().OnlyContain(f => f.IsSignature && f.ContainingClass == null);
+    }
+
+    [Fact]
+    public void ParseFunctions_WithGenericSignatures_RecordsTypeParametersAndExactTypes()
+    {
+        // Arrange
+        var content = @"export function map<T, U>(items: T[], fn: (x: T) => U): U[] {
+  return items.map(fn);
+}
+
+function merge<const T extends object = {}, K extends keyof T = keyof T>(target: T, keys: readonly K[]): { [P in K]: T[P] } {
+  return target;
+}
+
+const unwrap = <T,>(value: T extends Promise<infer R> ? R : T, pair: [key: string, value: T]): T extends Array<infer E> ? E : never => value as any;";
+        var filePath = CreateTestFile(content);
+
+        // Act
+        var result = _parser.ParseFunctions(filePath).ToList();
+
+        // Assert
+        result.Should().HaveCount(3);
+        result[0].TypeParameters.Should().Equal(new TypeParameterInfo("T", null, null), new TypeParameterInfo("U", null, null));
+        result[0].Parameters.Select(p => p.Type).Should().Equal("T[]", "(x: T) => U");
+        result[0].ReturnType.Should().Be("U[]");
+        result[1].TypeParameters.Should().Equal(new TypeParameterInfo("T", "object", "{}"), new TypeParameterInfo("K", "keyof T", "keyof T"));
+        result[1].Parameters[1].Type.Should().Be("readonly K[]");
+        result[1].ReturnType.Should().Be("{ [P in K]: T[P] }");
+        result[2].TypeParameters.Should().Equal(new TypeParameterInfo("T", null, null));
+        result[2].Parameters.Select(p => p.Type).Should().Equal("T extends Promise<infer R> ? R : T", "[key: string, value: T]");
+        result[2].ReturnType.Should().Be("T extends Array<infer E> ? E : never");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithJavaScriptFile_InfersParameterTypesFromDefaultsAndUsage()
+    {
+        // Arrange
+        var content = @"export function paginate(items, page = 1, { sort = 'name', reverse = false } = {}, ...rest) {
+  const label = title.trim();
+  return items.filter(visible).slice((page - 1) * size, page * size);
+}
+
+const total = (price, count = new Decimal(0), format) => price * count + format(price);
+";
+
+        // Act
+        var result = _parser.ParseDeclarations("src/paginate.mjs", content).OfType<FunctionInfo>().ToList();
+
+        // Assert
+        result.Should().HaveCount(2);
+        result[0].Parameters.Select(p => p.InferredType).Should().Equal("Array", "number", null, null);
+        result[0].Parameters[2].Properties.Select(p => p.InferredType).Should().Equal("string", "boolean");
+        result[0].Parameters.Should().OnlyContain(p => p.Type == null);
+        result[1].Parameters.Select(p => p.InferredType).Should().Equal("number", "Decimal", "Function");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithVueComponent_ParsesTheScriptBlockAtItsLinesInTheComponent()
+    {
+        // Arrange
+        var content = "<template>\n  <button @click=\"increment(1)\">{{ label }}</button>\n</template>\n\n<script setup lang=\"ts\">\nimport { ref } from 'vue';\n\nfunction increment(step: number): void {\n  count.value += step;\n}\n</script>\n\n<style scoped>\n.button { color: red; }\n</style>\n";
+
+        // Act
+        var result = _parser.ParseDeclarations("src/Counter.vue", content).ToList();
+
+        // Assert
+        var function = result.OfType<FunctionInfo>().Single();
+        function.Name.Should().Be("increment");
+        function.LineNumber.Should().Be(8);
+        function.Parameters.Single().Type.Should().Be("number");
+        content.Substring(function.Body!.Start, function.Body.End - function.Body.Start).Should().Be("{\n  count.value += step;\n}");
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithUnannotatedReturnTypes_InfersThemFromTheReturnedExpressions()
+    {
+        // Arrange
+        var content = @"export const double = (n: number) => n * 2;
+
+export function label(user: User, fallback = 'anonymous') {
+  if (!user) {
+    return fallback;
+  }
+  const format = (x) => { return 42; };
+  return `${user.first} ${user.last}`;
+}
+
+export async function loadAll(ids: string[]) {
+  return new Map<string, User>();
+}
+
+class Store {
+  find(id: string) {
+    return this.items.find(i => i.id === id);
+  }
+
+  reset() {
+    this.items = [];
+  }
+}
+
+const isEmpty = (items) => items.length === 0;
+
+function pick(flag: boolean) {
+  if (flag) return null;
+  return 'x';
+}";
+
+        // Act
+        var result = _parser.ParseDeclarations("store.ts", content).OfType<FunctionInfo>().ToDictionary(f => f.Name);
+
+        // Assert
+        result["double"].InferredReturnType.Should().Be("number");
+        result["label"].InferredReturnType.Should().Be("string");
+        result["label"].Parameters[1].InferredType.Should().Be("string");
+        result["loadAll"].InferredReturnType.Should().Be("Promise<Map>");
+        result["find"].InferredReturnType.Should().BeNull();
+        result["reset"].InferredReturnType.Should().Be("void");
+        result["isEmpty"].InferredReturnType.Should().Be("boolean");
+        result["isEmpty"].Parameters[0].InferredType.Should().BeNull();
+        result["pick"].InferredReturnType.Should().Be("string | null");
+        result.Values.Should().OnlyContain(f => f.ReturnType == null);
+    }
+
+    [Fact]
+    public void ParseDeclarations_WithExportKeywordsAndClauses_MarksExportedTopLevelDeclarations()
+    {
+        // Arrange
+        var content = @"export function add(a: number, b: number) { return a + b; }
+function subtract(a: number, b: number) { return a - b; }
+const multiply = (a: number, b: number) => a * b;
+export const divide = (a: number, b: number) => a / b;
+class Calculator {
+  private total = 0;
+  subtract() {}
+}
+interface Options {}
+export { subtract as minus, Calculator };
+export { Options } from './options';
+export default multiply;";
+
+        // Act
+        var result = _parser.ParseDeclarations("math.ts", content).ToList();
+
+        // Assert
+        result.Where(d => d.IsExported).Select(d => d.Name).Should().Equal("add", "subtract", "multiply", "divide", "Calculator");
+        result.OfType<PropertyInfo>().Single().Modifiers.Should().Equal("private");
+    }
+
     private string CreateTestFile(string content)
     {
         var filePath = Path.Combine(_testDirectory, $"test_{Guid.NewGuid()}.ts");
@@ -0,0 +1,93 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class TypeScriptTokenizerTests
+{
+    [Fact]
+    public void Tokenize_WithSimpleDeclaration_ReturnsTokensWithPositions()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("const x = 1;\nlet y = 'a';");
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens.Select(t => t.Text).Should().Equal("const", "x", "=", "1", ";", "let", "y", "=", "'a'", ";");
+        tokens[5].Line.Should().Be(2);
+        tokens[5].Column.Should().Be(0);
+        tokens[8].Kind.Should().Be(TokenKind.String);
+    }
+
+    [Fact]
+    public void Tokenize_WithNestedGenerics_SplitsClosingAngles()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("let p: Promise<Array<string>>;");
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens.Count(t => t.Text == ">").Should().Be(2);
+    }
+
+    [Fact]
+    public void Tokenize_WithTemplateLiteral_ReturnsSingleTokenIncludingSubstitutions()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("const s = `a ${ { b: `c${d}` }.b } e`; next();");
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens.Should().Contain(t => t.Kind == TokenKind.Template && t.Text == "`a ${ { b: `c${d}` }.b } e`");
+        tokens.Should().Contain(t => t.Text == "next");
+    }
+
+    [Fact]
+    public void Tokenize_WithComments_ReturnsCommentTokens()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("// line\n/* block\n comment */\nx;");
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens[0].Kind.Should().Be(TokenKind.LineComment);
+        tokens[1].Kind.Should().Be(TokenKind.BlockComment);
+        tokens[2].Text.Should().Be("x");
+        tokens[2].Line.Should().Be(4);
+    }
+
+    [Fact]
+    public void Tokenize_DistinguishesRegexFromDivision()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("a = b / c; r = /'[/]/g;");
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens.Should().Contain(t => t.Kind == TokenKind.Punctuator && t.Text == "/");
+        tokens.Should().Contain(t => t.Kind == TokenKind.Regex && t.Text == "/'[/]/g");
+    }
+
+    [Fact]
+    public void Tokenize_WithJsxAllowed_ReturnsElementAsSingleToken()
+    {
+        // Arrange
+        var tokenizer = new TypeScriptTokenizer("return <a href=\"x\">It's {count > 1 ? <b>many</b> : 'one'}</a>;", allowJsx: true);
+
+        // Act
+        var tokens = tokenizer.Tokenize();
+
+        // Assert
+        tokens.Select(t => t.Kind).Should().Equal(TokenKind.Identifier, TokenKind.Jsx, TokenKind.Punctuator);
+    }
+}
@@ -0,0 +1,90 @@
+using FluentAssertions;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class UnifiedDiffTests
+{
+    [Fact]
+    public void Create_WithIdenticalContent_ReturnsEmpty()
+    {
+        // Arrange
+        var lines = new[] { "function test() {}" };
+
+        // Act
+        var result = UnifiedDiff.Create("test.ts", lines, lines);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Create_WithInsertedLines_ProducesHunkWithContext()
+    {
+        // Arrange
+        var original = new[] { "const a = 1;", "", "function test() {}", "" };
+        var modified = new[] { "const a = 1;", "", "/**", " * Test.", " */", "function test() {}", "" };
+
+        // Act
+        var result = UnifiedDiff.Create("src/test.ts", original, modified);
+
+        // Assert
+        result.Should().StartWith("--- a/src/test.ts\n+++ b/src/test.ts\n".ReplaceLineEndings());
+        result.Should().Contain("@@ -1,4 +1,7 @@");
+        result.Should().Contain("+/**");
+        result.Should().Contain("+ * Test.");
+        result.Should().Contain("+ */");
+        result.Should().Contain(" function test() {}");
+    }
+
+    [Fact]
+    public void Create_WithRemovedLine_MarksLineAsDeleted()
+    {
+        // Arrange
+        var original = new[] { "/**", " * @param {string} old - The old", " */", "function test() {}" };
+        var modified = new[] { "/**", " */", "function test() {}" };
+
+        // Act
+        var result = UnifiedDiff.Create("test.ts", original, modified);
+
+        // Assert
+        result.Should().Contain("@@ -1,4 +1,3 @@");
+        result.Should().Contain("- * @param {string} old - The old");
+    }
+
+    [Fact]
+    public void Create_WithDistantChanges_ProducesSeparateHunks()
+    {
+        // Arrange
+        var original = Enumerable.Range(1, 20).Select(i => $"line {i}").ToList();
+        var modified = original.ToList();
+        modified.Insert(19, "inserted near end");
+        modified.Insert(1, "inserted near start");
+
+        // Act
+        var result = UnifiedDiff.Create("test.ts", original, modified);
+
+        // Assert
+        result.Should().Contain("@@ -1,4 +1,5 @@");
+        result.Should().Contain("@@ -17,4 +18,5 @@");
+        result.Should().Contain("+inserted near start");
+        result.Should().Contain("+inserted near end");
+    }
+
+    [Fact]
+    public void Create_WithManyInsertionsInALargeFile_ProducesEveryInsertedLine()
+    {
+        // Arrange
+        var original = Enumerable.Range(1, 5000).Select(i => $"line {i}").ToList();
+        var modified = original.SelectMany((line, i) => i % 10 == 0 ? new[] { $"/** Line {i + 1}. */", line } : new[] { line }).ToList();
+
+        // Act
+        var result = UnifiedDiff.Create("generated.ts", original, modified);
+
+        // Assert
+        var lines = result.Split(Environment.NewLine);
+        lines.Count(l => l.StartsWith("+/**")).Should().Be(500);
+        lines.Count(l => l.StartsWith('-') && !l.StartsWith("---")).Should().Be(0);
+        lines.Should().Contain("@@ -1,3 +1,4 @@");
+    }
+}
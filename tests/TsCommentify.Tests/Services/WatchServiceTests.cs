@@ -0,0 +1,192 @@
+using FluentAssertions;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Moq;
+using TsCommentify.Core.Services;
+
+namespace TsCommentify.Tests.Services;
+
+public class WatchServiceTests : IDisposable
+{
+    private readonly Mock<IFileProcessor> _fileProcessorMock;
+    private readonly WatchService _watchService;
+    private readonly string _testDirectory;
+    private readonly List<string> _processed = new();
+
+    public WatchServiceTests()
+    {
+        _fileProcessorMock = new Mock<IFileProcessor>();
+        _fileProcessorMock.Setup(p => p.IsSourceFile(It.IsAny<string>(), It.IsAny<string>()))
+            .Returns((string _, string path) => path.EndsWith(".ts") && !path.EndsWith(".spec.ts"));
+        _fileProcessorMock.Setup(p => p.ProcessFileAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync((string path, CancellationToken _) =>
+            {
+                lock (_processed)
+                {
+                    _processed.Add(path);
+                }
+
+                return FileProcessingResult.Unchanged(path);
+            });
+
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["Watch:DebounceMilliseconds"] = "100" })
+            .Build();
+
+        _watchService = new WatchService(_fileProcessorMock.Object, new Mock<ILogger<WatchService>>().Object, configuration);
+        _testDirectory = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        Directory.CreateDirectory(_testDirectory);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_testDirectory))
+        {
+            Directory.Delete(_testDirectory, true);
+        }
+    }
+
+    [Fact]
+    public async Task WatchAsync_WithRapidSaves_ProcessesFileOnce()
+    {
+        // Arrange
+        using var cancellation = new CancellationTokenSource();
+        var watch = _watchService.WatchAsync(_testDirectory, cancellation.Token);
+        var filePath = Path.Combine(_testDirectory, "service.ts");
+
+        // Act
+        for (int i = 0; i < 5; i++)
+        {
+            await File.WriteAllTextAsync(filePath, $"function save{i}() {{}}");
+            await Task.Delay(10);
+        }
+
+        await WaitForAsync(() => ProcessedCount() > 0);
+        await Task.Delay(300);
+        cancellation.Cancel();
+        await watch;
+
+        // Assert
+        _processed.Should().Equal(filePath);
+    }
+
+    [Fact]
+    public async Task WatchAsync_WithIgnoredFile_DoesNotProcessIt()
+    {
+        // Arrange
+        using var cancellation = new CancellationTokenSource();
+        var watch = _watchService.WatchAsync(_testDirectory, cancellation.Token);
+        var ignored = Path.Combine(_testDirectory, "service.spec.ts");
+        var watched = Path.Combine(_testDirectory, "service.ts");
+
+        // Act
+        await File.WriteAllTextAsync(ignored, "function test() {}");
+        await File.WriteAllTextAsync(watched, "function run() {}");
+        await WaitForAsync(() => ProcessedCount() > 0);
+        await Task.Delay(300);
+        cancellation.Cancel();
+        await watch;
+
+        // Assert
+        _processed.Should().Equal(watched);
+    }
+
+    [Fact]
+    public async Task WatchAsync_AfterWritingComments_DoesNotRetriggerOnOwnWrite()
+    {
+        // Arrange
+        _fileProcessorMock.Setup(p => p.ProcessFileAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync((string path, CancellationToken _) =>
+            {
+                lock (_processed)
+                {
+                    _processed.Add(path);
+                }
+
+                File.WriteAllText(path, "/** Run. */\nfunction run() {}");
+                return new FileProcessingResult(path, new List<DeclarationInfo>(), null, Modified: true);
+            });
+        using var cancellation = new CancellationTokenSource();
+        var watch = _watchService.WatchAsync(_testDirectory, cancellation.Token);
+        var filePath = Path.Combine(_testDirectory, "service.ts");
+
+        // Act
+        await File.WriteAllTextAsync(filePath, "function run() {}");
+        await WaitForAsync(() => ProcessedCount() > 0);
+        await Task.Delay(500);
+        cancellation.Cancel();
+        await watch;
+
+        // Assert
+        _processed.Should().ContainSingle();
+    }
+
+    [Fact]
+    public async Task WatchAsync_WhenCheckingAFileFails_KeepsWatchingOtherFiles()
+    {
+        // Arrange
+        _fileProcessorMock.Setup(p => p.IsSourceFile(It.IsAny<string>(), It.IsAny<string>()))
+            .Returns((string _, string path) => path.EndsWith("locked.ts")
+                ? throw new UnauthorizedAccessException("Access to the path is denied.")
+                : path.EndsWith(".ts"));
+        using var cancellation = new CancellationTokenSource();
+        var watch = _watchService.WatchAsync(_testDirectory, cancellation.Token);
+        var locked = Path.Combine(_testDirectory, "locked.ts");
+        var watched = Path.Combine(_testDirectory, "service.ts");
+
+        // Act
+        await File.WriteAllTextAsync(locked, "function test() {}");
+        await File.WriteAllTextAsync(watched, "function run() {}");
+        await WaitForAsync(() => ProcessedCount() > 0);
+        await Task.Delay(300);
+        cancellation.Cancel();
+        await watch;
+
+        // Assert
+        _processed.Should().Equal(watched);
+    }
+
+    [Fact]
+    public async Task WatchAsync_WhenCancelledWhileProcessing_StopsWithoutFinishingTheFile()
+    {
+        // Arrange
+        _fileProcessorMock.Setup(p => p.ProcessFileAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .Returns(async (string path, CancellationToken cancellationToken) =>
+            {
+                lock (_processed)
+                {
+                    _processed.Add(path);
+                }
+
+                await Task.Delay(Timeout.Infinite, cancellationToken);
+                return FileProcessingResult.Unchanged(path);
+            });
+        using var cancellation = new CancellationTokenSource();
+        var watch = _watchService.WatchAsync(_testDirectory, cancellation.Token);
+
+        // Act
+        await File.WriteAllTextAsync(Path.Combine(_testDirectory, "service.ts"), "function run() {}");
+        await WaitForAsync(() => ProcessedCount() > 0);
+        cancellation.Cancel();
+        Func<Task> act = () => watch;
+
+        // Assert
+        await act.Should().CompleteWithinAsync(TimeSpan.FromSeconds(5));
+    }
+
+    private int ProcessedCount()
+    {
+        lock (_processed)
+        {
+            return _processed.Count;
+        }
+    }
+
+    private static async Task WaitForAsync(Func<bool> condition)
+    {
+        for (int i = 0; i < 100 && !condition(); i++)
+        {
+            await Task.Delay(50);
+        }
+    }
+}